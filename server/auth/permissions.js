@@ -0,0 +1,41 @@
+/**
+ * What each role may do. The server enforces it on every API route (see
+ * requirePermission) and sends each user's permissions with their session,
+ * so the app's route guards and navigation follow the same matrix.
+ *
+ *   permission        admin  manager  agent
+ *   schemes.design      x       x             create, edit, submit, restore schemes
+ *   schemes.approve     x                     approve, reject, deactivate versions
+ *   runs.simulate       x       x             execute schemes in simulation mode
+ *   runs.production     x       x             execute ACTIVE schemes in production
+ *   payouts.viewAll     x       x             runs, results and logs for every payee
+ *   payouts.viewOwn                     x     the signed-in payee's own payouts
+ *   kpis.configure      x                     KPI configuration
+ *   users.manage        x                     the admin panel and user management
+ *   audit.view          x                     the audit log
+ */
+export const PERMISSIONS = {
+  'schemes.design': ['admin', 'manager'],
+  'schemes.approve': ['admin'],
+  'runs.simulate': ['admin', 'manager'],
+  'runs.production': ['admin', 'manager'],
+  'payouts.viewAll': ['admin', 'manager'],
+  'payouts.viewOwn': ['agent'],
+  'kpis.configure': ['admin'],
+  'users.manage': ['admin'],
+  'audit.view': ['admin'],
+};
+
+/**
+ * @param {string} role
+ * @returns {string[]} The permissions granted to the role.
+ */
+export const permissionsFor = (role) =>
+  Object.keys(PERMISSIONS).filter((permission) => PERMISSIONS[permission].includes(role));
+
+/**
+ * @param {object|null} user The signed-in user (`req.user`).
+ * @param {string} permission
+ */
+export const hasPermission = (user, permission) =>
+  Boolean(user) && (PERMISSIONS[permission] || []).includes(user.role);
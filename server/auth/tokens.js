@@ -0,0 +1,59 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+
+let secret = null;
+
+const getSecret = () => {
+  if (!secret) {
+    secret = process.env.SESSION_SECRET;
+    if (!secret) {
+      // Access tokens then stop verifying on restart; the app refreshes them
+      console.warn('[Auth] SESSION_SECRET is not set; using a random secret for this process');
+      secret = randomBytes(32).toString('hex');
+    }
+  }
+  return secret;
+};
+
+const sign = (value) => createHmac('sha256', getSecret()).update(value).digest('base64url');
+
+/**
+ * Signs a payload as `<base64url JSON>.<HMAC-SHA256>`, expiring after
+ * `ttlSeconds`.
+ * @param {object} payload
+ * @param {number} ttlSeconds
+ * @returns {string}
+ */
+export function signToken(payload, ttlSeconds) {
+  const body = Buffer.from(
+    JSON.stringify({ ...payload, exp: Math.floor(Date.now() / 1000) + ttlSeconds })
+  ).toString('base64url');
+  return `${body}.${sign(body)}`;
+}
+
+/**
+ * Returns the payload of a token from signToken, or null if its signature
+ * does not match or it has expired.
+ * @param {string} token
+ * @returns {object|null}
+ */
+export function verifyToken(token) {
+  const [body, signature] = String(token || '').split('.');
+  if (!body || !signature) return null;
+
+  const expected = Buffer.from(sign(body));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null;
+
+  try {
+    const payload = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'));
+    return payload.exp > Date.now() / 1000 ? payload : null;
+  } catch {
+    return null;
+  }
+}
+
+/** A random opaque token, for refresh tokens. */
+export const createOpaqueToken = () => randomBytes(32).toString('base64url');
+
+/** Refresh tokens are stored hashed, like passwords, so a leaked store cannot be replayed. */
+export const hashOpaqueToken = (token) => createHash('sha256').update(token).digest('hex');
@@ -0,0 +1,251 @@
+/**
+ * SAP OData (v2) connector for pulling base transactions.
+ *
+ * Reads billing documents or sales orders for a date range from the standard
+ * S/4HANA APIs and maps them to the base-file rows runScheme expects. The
+ * agent is the partner with the configured partner function (sales employee
+ * "VE" by default).
+ *
+ * Configuration (environment):
+ *   SAP_CONNECTIONS               JSON object with each tenant's system, keyed
+ *                                 by client ID: { "C1": { "url", "username",
+ *                                 "password", "sapClient",
+ *                                 "agentPartnerFunction" } }. url is the host,
+ *                                 e.g. https://my-sap.example.com (required);
+ *                                 the partner function defaults to VE.
+ *   SAP_PAGE_SIZE                 Rows per request (default 500)
+ *   SAP_TIMEOUT_MS                Per-request timeout (default 30000)
+ *   SAP_MAX_PAGES                 Pages one pull may read (default 1000)
+ */
+
+export const SAP_ENTITIES = {
+  billingDocuments: {
+    label: 'Billing Documents',
+    fileName: 'SAP_BillingDocuments',
+    servicePath: '/sap/opu/odata/sap/API_BILLING_DOCUMENT_SRV',
+    entitySet: 'A_BillingDocument',
+    idField: 'BillingDocument',
+    dateField: 'BillingDocumentDate',
+    typeField: 'BillingDocumentType',
+  },
+  salesOrders: {
+    label: 'Sales Orders',
+    fileName: 'SAP_SalesOrders',
+    servicePath: '/sap/opu/odata/sap/API_SALES_ORDER_SRV',
+    entitySet: 'A_SalesOrder',
+    idField: 'SalesOrder',
+    dateField: 'SalesOrderDate',
+    typeField: 'SalesOrderType',
+  },
+};
+
+/** Columns of the mapped base-file rows, in output order. */
+export const SAP_BASE_COLUMNS = [
+  'TransactionID',
+  'TransactionDate',
+  'AgentID',
+  'Amount',
+  'Currency',
+  'DocumentType',
+  'Customer',
+  'SalesOrganization',
+  'DistributionChannel',
+];
+
+export class SapODataError extends Error {
+  constructor(message, status) {
+    super(message);
+    this.name = 'SapODataError';
+    this.status = status;
+  }
+}
+
+/**
+ * Reads a tenant's connector configuration from SAP_CONNECTIONS.
+ * @param {string} clientId
+ * @returns {object|null} The configuration, or null when the tenant has no
+ *   SAP system configured (or SAP_CONNECTIONS is not valid JSON).
+ */
+export function getSapConfig(clientId) {
+  let connections;
+  try {
+    connections = JSON.parse(process.env.SAP_CONNECTIONS || '{}');
+  } catch (error) {
+    console.error('[SAP] SAP_CONNECTIONS is not valid JSON:', error.message);
+    return null;
+  }
+  const connection = connections && Object.hasOwn(connections, clientId) ? connections[clientId] : null;
+  if (!connection?.url) return null;
+  return {
+    baseUrl: connection.url,
+    username: connection.username,
+    password: connection.password,
+    sapClient: connection.sapClient,
+    agentPartnerFunction: connection.agentPartnerFunction || 'VE',
+    pageSize: parseInt(process.env.SAP_PAGE_SIZE || '500', 10),
+    timeoutMs: parseInt(process.env.SAP_TIMEOUT_MS || '30000', 10),
+    maxPages: parseInt(process.env.SAP_MAX_PAGES || '1000', 10),
+  };
+}
+
+/**
+ * Converts an OData v2 date ("/Date(1735689600000)/") or ISO string to YYYY-MM-DD.
+ * @param {string} value
+ * @returns {string} The date, or '' when it cannot be parsed.
+ */
+export function parseODataDate(value) {
+  if (!value) return '';
+  const match = /^\/Date\((-?\d+)([+-]\d{4})?\)\/$/.exec(value);
+  const date = match ? new Date(Number(match[1])) : new Date(value);
+  return isNaN(date.getTime()) ? '' : date.toISOString().slice(0, 10);
+}
+
+/**
+ * Builds the first page URL for an entity and date range (inclusive).
+ * @param {object} config Connector configuration.
+ * @param {object} entity An SAP_ENTITIES entry.
+ * @param {string} from YYYY-MM-DD
+ * @param {string} to YYYY-MM-DD
+ * @returns {string}
+ */
+function buildEntityUrl(config, entity, from, to) {
+  const params = new URLSearchParams({
+    $filter:
+      `${entity.dateField} ge datetime'${from}T00:00:00' and ` +
+      `${entity.dateField} le datetime'${to}T23:59:59'`,
+    $expand: 'to_Partner',
+    $orderby: entity.idField,
+    $top: String(config.pageSize),
+    $format: 'json',
+  });
+  if (config.sapClient) params.set('sap-client', config.sapClient);
+  return `${config.baseUrl.replace(/\/$/, '')}${entity.servicePath}/${entity.entitySet}?${params}`;
+}
+
+/**
+ * Fetches one OData page, raising SapODataError with SAP's message on failure.
+ * @param {object} config Connector configuration.
+ * @param {string} url The page URL.
+ * @returns {Promise<object>} The parsed response body.
+ */
+async function fetchPage(config, url) {
+  const headers = { Accept: 'application/json' };
+  if (config.username) {
+    const credentials = Buffer.from(`${config.username}:${config.password || ''}`).toString('base64');
+    headers.Authorization = `Basic ${credentials}`;
+  }
+
+  let response;
+  try {
+    response = await fetch(url, { headers, signal: AbortSignal.timeout(config.timeoutMs) });
+  } catch (error) {
+    throw new SapODataError(`SAP OData request failed: ${error.message}`, 502);
+  }
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    const detail = body?.error?.message?.value || body?.error?.message || response.statusText;
+    throw new SapODataError(`SAP OData returned ${response.status}: ${detail}`, 502);
+  }
+  return response.json();
+}
+
+/**
+ * Maps an SAP document to a base-file row.
+ * @param {object} entity An SAP_ENTITIES entry.
+ * @param {object} doc The OData entity.
+ * @param {string} agentPartnerFunction Partner function that identifies the agent.
+ * @returns {object}
+ */
+function mapDocument(entity, doc, agentPartnerFunction) {
+  const partners = doc.to_Partner?.results || [];
+  const agent = partners.find((p) => p.PartnerFunction === agentPartnerFunction);
+  return {
+    TransactionID: doc[entity.idField],
+    TransactionDate: parseODataDate(doc[entity.dateField]),
+    AgentID: agent ? String(agent.Personnel || agent.Supplier || agent.Customer || '').trim() : '',
+    Amount: Number(doc.TotalNetAmount),
+    Currency: doc.TransactionCurrency,
+    DocumentType: doc[entity.typeField],
+    Customer: doc.SoldToParty,
+    SalesOrganization: doc.SalesOrganization,
+    DistributionChannel: doc.DistributionChannel,
+  };
+}
+
+/**
+ * Whether a key names one of SAP_ENTITIES (not an inherited property).
+ * @param {string} key
+ * @returns {boolean}
+ */
+export const isSapEntity = (key) => Object.hasOwn(SAP_ENTITIES, key);
+
+/**
+ * Pulls all documents of an entity dated within [from, to] and maps them to
+ * base-file rows. Follows server-driven paging (__next) and falls back to
+ * $skip paging. Documents without an agent partner are skipped and reported.
+ * A pull that exceeds maxPages, or gets a page of documents it has already
+ * read (a server ignoring $skip), fails rather than looping.
+ * @param {object} config Connector configuration (see getSapConfig).
+ * @param {string} entityKey A key of SAP_ENTITIES.
+ * @param {string} from YYYY-MM-DD
+ * @param {string} to YYYY-MM-DD
+ * @returns {Promise<{rows: Array<object>, warnings: Array<string>}>}
+ */
+export async function fetchSapTransactions(config, entityKey, from, to) {
+  if (!isSapEntity(entityKey)) {
+    throw new SapODataError(`Unknown SAP entity "${entityKey}"`, 400);
+  }
+
+  const entity = SAP_ENTITIES[entityKey];
+  const rows = [];
+  const warnings = [];
+  const seenIds = new Set();
+  let url = buildEntityUrl(config, entity, from, to);
+  let skip = 0;
+  let pages = 0;
+
+  while (url) {
+    pages += 1;
+    if (pages > config.maxPages) {
+      throw new SapODataError(`SAP OData pull exceeded ${config.maxPages} pages; narrow the date range`, 502);
+    }
+    console.log('[SAP] Fetching', url);
+    const body = await fetchPage(config, url);
+    const results = body?.d?.results ?? body?.value;
+    if (!Array.isArray(results)) {
+      throw new SapODataError('SAP OData response has no result set', 502);
+    }
+    const pageIds = results.map((doc) => doc[entity.idField]);
+    if (pageIds.length > 0 && pageIds.every((id) => seenIds.has(id))) {
+      throw new SapODataError('SAP OData returned a page that was already read; paging did not advance', 502);
+    }
+    pageIds.forEach((id) => seenIds.add(id));
+
+    for (const doc of results) {
+      const row = mapDocument(entity, doc, config.agentPartnerFunction);
+      if (!row.AgentID) {
+        warnings.push(
+          `${entity.idField} ${row.TransactionID} has no partner with function ${config.agentPartnerFunction}; skipped`
+        );
+        continue;
+      }
+      rows.push(row);
+    }
+
+    const next = body?.d?.__next || body?.['@odata.nextLink'];
+    if (next) {
+      url = new URL(next, url).toString();
+    } else if (results.length === config.pageSize) {
+      skip += config.pageSize;
+      const nextUrl = new URL(buildEntityUrl(config, entity, from, to));
+      nextUrl.searchParams.set('$skip', String(skip));
+      url = nextUrl.toString();
+    } else {
+      url = null;
+    }
+  }
+
+  console.log(`[SAP] Pulled ${rows.length} ${entity.label} (${warnings.length} skipped)`);
+  return { rows, warnings };
+}
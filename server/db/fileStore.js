@@ -0,0 +1,106 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+// As in MongoDB, a value matches an array field that contains it
+const matches = (doc, filter) =>
+  Object.entries(filter).every(([key, value]) =>
+    Array.isArray(doc[key]) && !Array.isArray(value) ? doc[key].includes(value) : doc[key] === value
+  );
+
+const clone = (doc) => (doc ? structuredClone(doc) : null);
+
+/**
+ * Embedded stand-in for MongoDB used in local development: each collection is
+ * a JSON file in `dir`. Writes are serialized per collection and replace the
+ * file atomically. Filters support top-level equality only, plus matching
+ * one element of an array field.
+ * @param {string} dir Directory holding the collection files.
+ * @returns {object} A store with `collection(name)`.
+ */
+export function createFileStore(dir) {
+  const collections = new Map();
+
+  const createCollection = (name) => {
+    const filePath = path.join(dir, `${name}.json`);
+    let docs = null;
+    let queue = Promise.resolve();
+
+    const load = async () => {
+      if (!docs) {
+        try {
+          docs = JSON.parse(await readFile(filePath, 'utf8'));
+        } catch (error) {
+          if (error.code !== 'ENOENT') throw error;
+          docs = [];
+        }
+      }
+      return docs;
+    };
+
+    const persist = async () => {
+      await mkdir(dir, { recursive: true });
+      const tmpPath = `${filePath}.${process.pid}.tmp`;
+      await writeFile(tmpPath, JSON.stringify(docs, null, 2), 'utf8');
+      await rename(tmpPath, filePath);
+    };
+
+    // Runs a mutation after earlier ones have been written
+    const write = (mutation) => {
+      const result = queue.then(async () => {
+        await load();
+        const value = mutation();
+        await persist();
+        return value;
+      });
+      queue = result.catch(() => {});
+      return result;
+    };
+
+    return {
+      async find(filter = {}) {
+        return (await load()).filter((doc) => matches(doc, filter)).map(clone);
+      },
+      async findOne(filter = {}) {
+        return clone((await load()).find((doc) => matches(doc, filter)));
+      },
+      insertOne(doc) {
+        return write(() => {
+          docs.push(clone(doc));
+          return clone(doc);
+        });
+      },
+      updateOne(filter, updates) {
+        return write(() => {
+          const index = docs.findIndex((doc) => matches(doc, filter));
+          if (index === -1) return null;
+          docs[index] = { ...docs[index], ...clone(updates) };
+          return clone(docs[index]);
+        });
+      },
+      replaceOne(filter, doc) {
+        return write(() => {
+          const index = docs.findIndex((existing) => matches(existing, filter));
+          if (index === -1) return null;
+          docs[index] = clone(doc);
+          return clone(doc);
+        });
+      },
+      deleteOne(filter) {
+        return write(() => {
+          const index = docs.findIndex((doc) => matches(doc, filter));
+          if (index === -1) return false;
+          docs.splice(index, 1);
+          return true;
+        });
+      },
+    };
+  };
+
+  return {
+    kind: 'file',
+    collection(name) {
+      if (!collections.has(name)) collections.set(name, createCollection(name));
+      return collections.get(name);
+    },
+  };
+}
@@ -0,0 +1,29 @@
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { createFileStore } from './fileStore.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+let storePromise = null;
+
+/**
+ * Returns the shared data store: MongoDB when MONGODB_URI is set, otherwise
+ * JSON files under DATA_DIR (default server/.data) for local development.
+ * @returns {Promise<object>} A store with `collection(name)` returning
+ *   find / findOne / insertOne / updateOne / replaceOne / deleteOne.
+ */
+export function getStore() {
+  if (!storePromise) {
+    storePromise = (async () => {
+      if (process.env.MONGODB_URI) {
+        const { createMongoStore } = await import('./mongoStore.js');
+        console.log('[DB] Using MongoDB store');
+        return createMongoStore(process.env.MONGODB_URI, process.env.MONGODB_DB);
+      }
+      const dir = process.env.DATA_DIR || path.join(__dirname, '..', '.data');
+      console.log('[DB] Using file store in', dir);
+      return createFileStore(dir);
+    })();
+  }
+  return storePromise;
+}
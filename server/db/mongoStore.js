@@ -0,0 +1,57 @@
+import { MongoClient } from 'mongodb';
+
+const WITHOUT_ID = { projection: { _id: 0 } };
+
+/**
+ * MongoDB-backed store with the same collection interface as the file store.
+ * Its `find` also takes { sort, skip, limit } and it adds `count(filter)`, for
+ * callers that query with MongoDB operators when `kind` is `mongodb`.
+ * @param {string} uri MongoDB connection string.
+ * @param {string} dbName Database name; defaults to the one in the URI.
+ * @returns {Promise<object>} A store with `collection(name)`.
+ */
+export async function createMongoStore(uri, dbName) {
+  const client = new MongoClient(uri);
+  await client.connect();
+  const db = client.db(dbName);
+
+  return {
+    kind: 'mongodb',
+    collection(name) {
+      const collection = db.collection(name);
+      return {
+        find(filter = {}, { sort, skip, limit } = {}) {
+          const cursor = collection.find(filter, WITHOUT_ID);
+          if (sort) cursor.sort(sort);
+          if (skip) cursor.skip(skip);
+          if (limit) cursor.limit(limit);
+          return cursor.toArray();
+        },
+        count(filter = {}) {
+          return collection.countDocuments(filter);
+        },
+        findOne(filter = {}) {
+          return collection.findOne(filter, WITHOUT_ID);
+        },
+        async insertOne(doc) {
+          await collection.insertOne({ ...doc });
+          return doc;
+        },
+        updateOne(filter, updates) {
+          return collection.findOneAndUpdate(
+            filter,
+            { $set: updates },
+            { ...WITHOUT_ID, returnDocument: 'after' }
+          );
+        },
+        replaceOne(filter, doc) {
+          return collection.findOneAndReplace(filter, { ...doc }, { ...WITHOUT_ID, returnDocument: 'after' });
+        },
+        async deleteOne(filter) {
+          const { deletedCount } = await collection.deleteOne(filter);
+          return deletedCount > 0;
+        },
+      };
+    },
+  };
+}
@@ -1,9 +1,18 @@
+// Loaded first so modules reading settings at import time see .env
+import 'dotenv/config';
 import express from 'express';
 import cors from 'cors';
-import * as dotenv from 'dotenv';
+import authRouter from './routes/auth.js';
 import geminiRouter from './routes/gemini.js';
-
-dotenv.config();
+import sapRouter from './routes/sap.js';
+import schemesRouter from './routes/schemes.js';
+import runsRouter from './routes/runs.js';
+import jobsRouter from './routes/jobs.js';
+import kpiConfigsRouter from './routes/kpiConfigs.js';
+import auditRouter from './routes/audit.js';
+import usersRouter from './routes/users.js';
+import { failInterruptedJobs } from './jobs/executionJobs.js';
+import { bootstrapAdmin } from './services/authService.js';
 
 const app = express();
 
@@ -15,6 +24,9 @@ app.use(cors({
   credentials: true
 }));
 
+// Parses its own, larger bodies (every input row of a run)
+app.use('/api/jobs', jobsRouter);
+
 app.use(express.json());
 
 const PORT = process.env.PORT || 3000;
@@ -23,36 +35,21 @@ console.log('[Server] Starting with configuration:', {
   port: PORT
 });
 
+app.use('/api/auth', authRouter);
 app.use('/api/gemini', geminiRouter);
+app.use('/api/sap', sapRouter);
+app.use('/api/schemes', schemesRouter);
+app.use('/api/runs', runsRouter);
+app.use('/api/kpi-configs', kpiConfigsRouter);
+app.use('/api/audit', auditRouter);
+app.use('/api/users', usersRouter);
+
+bootstrapAdmin().catch((error) => {
+  console.error('[Auth] Failed to create the bootstrap admin:', error);
+});
 
-app.post('/api/auth/login', async (req, res) => {
-  console.log('[Auth] Login attempt received:', {
-    username: req.body.username,
-    role: req.body.role,
-    clientId: req.body.clientId
-  });
-
-  try {
-    const { username, role, clientId } = req.body;
-    
-    const user = {
-      id: crypto.randomUUID(),
-      username,
-      role,
-      clientId,
-      createdAt: new Date()
-    };
-    
-    return res.json({
-      id: user.id,
-      username: user.username,
-      role: user.role,
-      clientId: user.clientId
-    });
-  } catch (error) {
-    console.error('[Auth] Login error:', error);
-    res.status(500).json({ error: 'Internal server error' });
-  }
+failInterruptedJobs().catch((error) => {
+  console.error('[Jobs] Failed to clean up interrupted jobs:', error);
 });
 
 app.listen(PORT, () => {
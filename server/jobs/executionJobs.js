@@ -0,0 +1,296 @@
+import { EventEmitter } from 'node:events';
+import { existsSync } from 'node:fs';
+import { randomUUID } from 'node:crypto';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { Worker } from 'node:worker_threads';
+import { getStore } from '../db/index.js';
+import { createRun } from '../repositories/runRepository.js';
+import { getVersion } from '../repositories/schemeVersionRepository.js';
+import { recordAudit } from '../services/auditService.js';
+
+const COLLECTION = 'jobs';
+
+const WORKER_PATH = process.env.ENGINE_WORKER_PATH ||
+  path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../../dist/engine/worker.js');
+
+const MAX_CONCURRENT_JOBS = Math.max(1, Number(process.env.MAX_CONCURRENT_JOBS) || 1);
+
+// Progress arrives every 250ms; the stored copy only needs to be roughly current
+const PROGRESS_PERSIST_MS = 1000;
+
+export const TERMINAL_STATUSES = ['succeeded', 'failed', 'cancelled'];
+
+const AUDIT_ACTIONS = {
+  queued: 'execution.submit',
+  succeeded: 'execution.complete',
+  failed: 'execution.fail',
+  cancelled: 'execution.cancel',
+};
+
+export class ExecutionJobError extends Error {
+  constructor(message, status, details) {
+    super(message);
+    this.name = 'ExecutionJobError';
+    this.status = status;
+    this.details = details;
+  }
+}
+
+/**
+ * Lifecycle of an execution job:
+ *
+ *   queued --> running --> succeeded (runId set)
+ *     |           |
+ *     |           +------> failed (error, details)
+ *     +-----------+------> cancelled
+ *
+ * Jobs run one at a time by default (MAX_CONCURRENT_JOBS), each in its own
+ * worker thread so the request thread stays free. Inputs are held in memory
+ * only until the job starts; what is stored is the job and, on success, the
+ * run it produced (see runRepository).
+ */
+const queue = [];
+const active = new Map();
+const events = new EventEmitter();
+events.setMaxListeners(0);
+
+const toJob = ({ clientId, ...job }) => job;
+
+async function jobs() {
+  return (await getStore()).collection(COLLECTION);
+}
+
+// Submissions and outcomes go to the audit log; progress does not
+function auditJob(job, actor, before, after) {
+  return recordAudit({
+    clientId: job.clientId,
+    actor,
+    action: AUDIT_ACTIONS[after.status],
+    entityType: 'job',
+    entityId: job.id,
+    before,
+    after,
+    details: {
+      schemeId: job.schemeId,
+      schemeVersion: job.schemeVersion,
+      runAsOfDate: job.runAsOfDate,
+      mode: job.mode,
+    },
+  });
+}
+
+async function updateJob(job, updates) {
+  const doc = await (await jobs()).updateOne({ clientId: job.clientId, id: job.id }, updates);
+  if (doc) events.emit(job.id, toJob(doc));
+  return doc;
+}
+
+/**
+ * Lists a client's jobs, newest first.
+ * @param {string} clientId
+ * @param {object} filter Optional { status }.
+ */
+export async function listJobs(clientId, { status } = {}) {
+  const query = { clientId };
+  if (status) query.status = status;
+  const docs = await (await jobs()).find(query);
+  return docs
+    .map(toJob)
+    .sort((a, b) => String(b.createdAt).localeCompare(String(a.createdAt)));
+}
+
+export async function getJob(clientId, id) {
+  const doc = await (await jobs()).findOne({ clientId, id });
+  return doc && toJob(doc);
+}
+
+/**
+ * Calls `listener` with the job each time it changes. Returns the function
+ * that unsubscribes.
+ */
+export function subscribeToJob(id, listener) {
+  events.on(id, listener);
+  return () => events.off(id, listener);
+}
+
+/**
+ * Queues a scheme version to run against the given inputs.
+ * @param {string} clientId
+ * @param {object} request { schemeId, schemeVersion, runAsOfDate, mode, files }
+ *   where files maps each input name to { data, columns }.
+ * @param {object} user The user submitting it ({ id, username, role }).
+ * @returns {Promise<object>} The queued job.
+ * @throws {ExecutionJobError} With the HTTP status to respond with.
+ */
+export async function submitJob(clientId, request, user) {
+  if (!existsSync(WORKER_PATH)) {
+    throw new ExecutionJobError(
+      'The calculation engine is not built',
+      503,
+      `Run "npm run build:engine" to create ${WORKER_PATH}`
+    );
+  }
+
+  const version = await getVersion(clientId, request.schemeId, request.schemeVersion);
+  if (!version) throw new ExecutionJobError('Scheme version not found', 404);
+  if (request.mode === 'production' && version.status !== 'ACTIVE') {
+    throw new ExecutionJobError(
+      `Version ${version.versionNumber} is ${version.status}; only ACTIVE versions run in production`,
+      409
+    );
+  }
+
+  const job = toJob(await (await jobs()).insertOne({
+    id: randomUUID(),
+    clientId,
+    status: 'queued',
+    schemeId: version.schemeId,
+    schemeVersion: version.versionNumber,
+    SchemeID: version.SchemeID,
+    schemeName: version.scheme.name,
+    runAsOfDate: request.runAsOfDate,
+    mode: request.mode,
+    user: user ? { id: user.id, username: user.username, role: user.role } : null,
+    progress: null,
+    runId: null,
+    error: null,
+    details: [],
+    createdAt: new Date().toISOString(),
+    startedAt: null,
+    finishedAt: null,
+  }));
+
+  queue.push({ job: { ...job, clientId }, scheme: version.scheme, files: request.files });
+  console.log('[Jobs] Queued', job.id, job.mode, 'run of', job.schemeId, 'version', job.schemeVersion);
+  await auditJob({ ...job, clientId }, user, null, { status: job.status });
+  startNext();
+  return job;
+}
+
+/**
+ * Cancels a queued or running job. Finished jobs are returned unchanged.
+ * @param {object} user The user cancelling it.
+ * @throws {ExecutionJobError} If the job does not exist.
+ */
+export async function cancelJob(clientId, id, user) {
+  const job = await getJob(clientId, id);
+  if (!job) throw new ExecutionJobError('Job not found', 404);
+  if (TERMINAL_STATUSES.includes(job.status)) return job;
+
+  const queued = queue.findIndex((entry) => entry.job.id === id);
+  if (queued !== -1) queue.splice(queued, 1);
+
+  const running = active.get(id);
+  if (running) {
+    running.cancelled = true;
+    await running.worker.terminate();
+  }
+
+  console.log('[Jobs] Cancelled', id);
+  return finish({ ...job, clientId }, { status: 'cancelled' }, user);
+}
+
+/**
+ * Marks jobs left queued or running by a previous server process as failed;
+ * their inputs and workers did not survive the restart.
+ */
+export async function failInterruptedJobs() {
+  const collection = await jobs();
+  const interrupted = [
+    ...(await collection.find({ status: 'queued' })),
+    ...(await collection.find({ status: 'running' })),
+  ];
+  for (const job of interrupted) {
+    await finish(job, { status: 'failed', error: 'Interrupted by a server restart' }, null);
+  }
+  if (interrupted.length > 0) console.log('[Jobs] Failed', interrupted.length, 'interrupted job(s)');
+}
+
+/**
+ * Moves a job to a terminal status and audits it, by default as the user
+ * who submitted it.
+ */
+async function finish(job, updates, actor = job.user) {
+  const doc = await updateJob(job, { ...updates, finishedAt: new Date().toISOString() });
+  const { status, runId = null, error = null } = updates;
+  await auditJob(job, actor, { status: job.status }, { status, runId, error });
+  return doc && toJob(doc);
+}
+
+function startNext() {
+  while (active.size < MAX_CONCURRENT_JOBS && queue.length > 0) {
+    const entry = queue.shift();
+    runJob(entry).catch((error) => console.error('[Jobs] Job', entry.job.id, 'crashed:', error));
+  }
+}
+
+async function runJob({ job, scheme, files }) {
+  const worker = new Worker(WORKER_PATH, {
+    workerData: { scheme, files, runAsOfDate: job.runAsOfDate, mode: job.mode },
+  });
+  const state = { worker, cancelled: false };
+  active.set(job.id, state);
+
+  let current = toJob(job);
+  let lastPersisted = 0;
+  let outcome = null;
+
+  // Listeners go on before anything is awaited so no message or exit is missed
+  worker.on('message', (message) => {
+    if (message.type === 'progress') {
+      const now = Date.now();
+      current = { ...current, progress: message.progress };
+      // Subscribers get every update; the store gets them throttled
+      if (now - lastPersisted >= PROGRESS_PERSIST_MS || message.progress.stage === 'complete') {
+        lastPersisted = now;
+        updateJob(job, { progress: message.progress }).catch(() => {});
+      } else {
+        events.emit(job.id, current);
+      }
+    } else {
+      outcome = message;
+    }
+  });
+  worker.on('error', (error) => {
+    outcome = { type: 'error', message: error.message, details: [] };
+  });
+  const exited = new Promise((resolve) => worker.on('exit', resolve));
+
+  const running = await updateJob(job, { status: 'running', startedAt: new Date().toISOString() });
+  if (running) current = { ...toJob(running), progress: current.progress };
+  const started = { ...job, status: 'running' };
+
+  const exitCode = await exited;
+  active.delete(job.id);
+
+  try {
+    if (state.cancelled) return;
+
+    if (outcome?.type === 'done') {
+      const run = await createRun(
+        job.clientId,
+        {
+          schemeId: job.schemeId,
+          schemeVersion: job.schemeVersion,
+          SchemeID: job.SchemeID,
+          schemeName: job.schemeName,
+          runAsOfDate: job.runAsOfDate,
+          mode: job.mode,
+          inputs: outcome.inputs,
+          summary: outcome.summary,
+          result: outcome.result,
+        },
+        job.user
+      );
+      console.log('[Jobs] Job', job.id, 'stored run', run.id);
+      await finish(started, { status: 'succeeded', runId: run.id });
+    } else {
+      const error = outcome?.message || `Worker exited with code ${exitCode}`;
+      console.error('[Jobs] Job', job.id, 'failed:', error);
+      await finish(started, { status: 'failed', error, details: outcome?.details || [] });
+    }
+  } finally {
+    startNext();
+  }
+}
@@ -0,0 +1,64 @@
+import { getStore } from '../db/index.js';
+import { recordAudit } from '../services/auditService.js';
+
+/**
+ * Records a request that reached for another tenant's data. The entry goes to
+ * the requesting user's tenant.
+ */
+function auditViolation(req, { entityType = 'request', entityId = null, ...details }) {
+  console.warn('[Tenancy] Cross-tenant request by', req.user.username, 'of', req.user.clientId, req.originalUrl);
+  return recordAudit({
+    clientId: req.user.clientId,
+    actor: req.user,
+    action: 'tenant.violation',
+    entityType,
+    entityId,
+    details: { method: req.method, path: req.originalUrl, ...details },
+  });
+}
+
+/**
+ * Scopes a request to the signed-in user's client (tenant), exposed as
+ * `req.clientId`. The tenant always comes from the session: a request that
+ * names a different client in the X-Client-Id header, the query or the body
+ * is rejected with 403 and audited. Runs after identifyUser.
+ */
+export async function requireTenant(req, res, next) {
+  if (!req.user) {
+    return res.status(401).json({ error: 'Sign in required' });
+  }
+
+  const claimed = [req.get('x-client-id'), req.query?.clientId, req.body?.clientId]
+    .filter((value) => value !== undefined && value !== null && value !== '')
+    .map(String);
+  const foreign = claimed.find((clientId) => clientId !== req.user.clientId);
+  if (foreign) {
+    await auditViolation(req, { claimedClientId: foreign });
+    return res.status(403).json({ error: 'Requests can only access your own client' });
+  }
+
+  req.clientId = req.user.clientId;
+  next();
+}
+
+/**
+ * Route parameter handler that rejects ids belonging to another tenant:
+ * when `collection` has no record with the id for this tenant but another
+ * tenant does, the request is audited and answered 404, as if the record did
+ * not exist. Use as `router.param('id', guardTenantRecord('runs', 'Run', 'run'))`.
+ * @param {string} collection
+ * @param {string} label Entity name for the 404 message.
+ * @param {string} entityType Entity type for the audit entry.
+ */
+export function guardTenantRecord(collection, label, entityType) {
+  return async (req, res, next, id) => {
+    const records = (await getStore()).collection(collection);
+    if (await records.findOne({ clientId: req.clientId, id })) return next();
+
+    const foreign = await records.findOne({ id });
+    if (!foreign) return next();
+
+    await auditViolation(req, { entityType, entityId: id, targetClientId: foreign.clientId });
+    res.status(404).json({ error: `${label} not found` });
+  };
+}
@@ -0,0 +1,31 @@
+import { hasPermission } from '../auth/permissions.js';
+import { authenticate } from '../services/authService.js';
+
+/**
+ * Identifies the signed-in user from the `Authorization: Bearer` access
+ * token issued by /api/auth, as `req.user` ({ id, username, role, clientId,
+ * permissions, sessionId }). Requests without a valid token for an open
+ * session are anonymous (`req.user` is null).
+ */
+export async function identifyUser(req, res, next) {
+  const [scheme, token] = (req.get('authorization') || '').split(' ');
+  req.user = scheme === 'Bearer' && token ? await authenticate(token) : null;
+  next();
+}
+
+/**
+ * Allows the request only for signed-in users holding at least one of the
+ * given permissions (see auth/permissions.js).
+ * @param {...string} permissions
+ */
+export function requirePermission(...permissions) {
+  return (req, res, next) => {
+    if (!req.user) {
+      return res.status(401).json({ error: 'Sign in required' });
+    }
+    if (!permissions.some((permission) => hasPermission(req.user, permission))) {
+      return res.status(403).json({ error: `This action requires the ${permissions.join(' or ')} permission` });
+    }
+    next();
+  };
+}
@@ -0,0 +1,128 @@
+/**
+ * Mock SAP OData (v2) server for developing the SAP connector offline.
+ *
+ * Serves A_BillingDocument and A_SalesOrder from the fixtures in ./fixtures
+ * with the parts of OData the connector uses: $filter on the document date
+ * (ge/le datetime'...'), $orderby, $top, $skip, $expand=to_Partner, v2 date
+ * and decimal formats, and server-driven paging through __next.
+ *
+ *   npm run mock:sap        (listens on SAP_MOCK_PORT, default 4004)
+ *   SAP_CONNECTIONS='{"C1":{"url":"http://localhost:4004"}}' npm run server
+ */
+import express from 'express';
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+const loadFixture = (name) =>
+  JSON.parse(readFileSync(path.join(__dirname, 'fixtures', name), 'utf8'));
+
+const SERVICES = [
+  {
+    servicePath: '/sap/opu/odata/sap/API_BILLING_DOCUMENT_SRV',
+    entitySet: 'A_BillingDocument',
+    idField: 'BillingDocument',
+    dateField: 'BillingDocumentDate',
+    fixture: 'billingDocuments.json',
+  },
+  {
+    servicePath: '/sap/opu/odata/sap/API_SALES_ORDER_SRV',
+    entitySet: 'A_SalesOrder',
+    idField: 'SalesOrder',
+    dateField: 'SalesOrderDate',
+    fixture: 'salesOrders.json',
+  },
+];
+
+const toODataDate = (isoDate) => `/Date(${Date.parse(`${isoDate}T00:00:00Z`)})/`;
+
+const odataError = (res, status, message) =>
+  res.status(status).json({ error: { code: 'MOCK', message: { lang: 'en', value: message } } });
+
+/**
+ * Parses "Field ge datetime'...' and Field le datetime'...'" into predicates.
+ * @param {string} filter The $filter expression.
+ * @returns {Array<Function>|null} Predicates on a fixture row, or null if unsupported.
+ */
+function parseFilter(filter) {
+  if (!filter) return [];
+  const predicates = [];
+  for (const clause of filter.split(/\s+and\s+/i)) {
+    const match = /^(\w+)\s+(ge|le|gt|lt|eq)\s+datetime'([^']+)'$/i.exec(clause.trim());
+    if (!match) return null;
+    const [, field, operator, value] = match;
+    const bound = Date.parse(value.endsWith('Z') ? value : `${value}Z`);
+    predicates.push((row) => {
+      const date = Date.parse(`${row[field]}T00:00:00Z`);
+      switch (operator.toLowerCase()) {
+        case 'ge': return date >= bound;
+        case 'le': return date <= bound;
+        case 'gt': return date > bound;
+        case 'lt': return date < bound;
+        default: return date === bound;
+      }
+    });
+  }
+  return predicates;
+}
+
+/**
+ * Creates the mock server app.
+ * @param {object} options
+ * @param {number} options.pageSize Maximum rows per response before __next paging.
+ * @returns {import('express').Express}
+ */
+export function createMockSapServer({ pageSize = 5 } = {}) {
+  const app = express();
+
+  for (const service of SERVICES) {
+    const rows = loadFixture(service.fixture);
+
+    app.get(`${service.servicePath}/${service.entitySet}`, (req, res) => {
+      const predicates = parseFilter(req.query.$filter);
+      if (!predicates) {
+        return odataError(res, 400, `Unsupported $filter: ${req.query.$filter}`);
+      }
+
+      const orderBy = (req.query.$orderby || service.idField).split(' ')[0];
+      const matched = rows
+        .filter((row) => predicates.every((predicate) => predicate(row)))
+        .sort((a, b) => String(a[orderBy]).localeCompare(String(b[orderBy])));
+
+      const skip = parseInt(req.query.$skip || '0', 10);
+      const top = parseInt(req.query.$top || String(matched.length), 10);
+      const requested = matched.slice(skip, skip + top);
+      const page = requested.slice(0, pageSize);
+      const expandPartners = (req.query.$expand || '').split(',').includes('to_Partner');
+
+      const results = page.map(({ to_Partner, ...row }) => ({
+        ...row,
+        [service.dateField]: toODataDate(row[service.dateField]),
+        to_Partner: expandPartners
+          ? { results: to_Partner.map((partner) => ({ [service.idField]: row[service.idField], ...partner })) }
+          : { __deferred: { uri: `${service.entitySet}('${row[service.idField]}')/to_Partner` } },
+      }));
+
+      const body = { d: { results } };
+      if (requested.length > page.length) {
+        const next = new URL(req.originalUrl, `http://${req.headers.host}`);
+        next.searchParams.set('$skip', String(skip + page.length));
+        next.searchParams.set('$top', String(top - page.length));
+        body.d.__next = next.toString();
+      }
+      res.json(body);
+    });
+  }
+
+  app.use((req, res) => odataError(res, 404, `Resource not found: ${req.path}`));
+  return app;
+}
+
+if (import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = process.env.SAP_MOCK_PORT || 4004;
+  createMockSapServer().listen(port, () => {
+    console.log(`[SAP Mock] OData mock running on http://localhost:${port}`);
+  });
+}
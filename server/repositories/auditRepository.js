@@ -0,0 +1,92 @@
+import { randomUUID } from 'node:crypto';
+import { getStore } from '../db/index.js';
+
+const COLLECTION = 'auditLog';
+
+const toEntry = ({ clientId, ...entry }) => entry;
+
+/**
+ * Appends an entry to the audit log. Entries are never updated or deleted,
+ * so this module exposes no way to.
+ * @param {object} event
+ * @param {string} event.clientId The tenant the entry belongs to.
+ * @param {object|null} event.actor The acting user ({ id, username, role }).
+ * @param {string} event.action e.g. `scheme.update`.
+ * @param {string} event.entityType
+ * @param {string|null} [event.entityId]
+ * @param {object[]} [event.changes] { path, before, after } per changed field.
+ * @param {object} [event.details]
+ */
+export async function appendAuditEvent({ clientId, actor, action, entityType, entityId = null, changes = [], details = {} }) {
+  const doc = await (await getStore()).collection(COLLECTION).insertOne({
+    id: randomUUID(),
+    clientId,
+    at: new Date().toISOString(),
+    actor: actor ? { id: actor.id, username: actor.username, role: actor.role } : null,
+    action,
+    entityType,
+    entityId,
+    changes,
+    details,
+  });
+  return toEntry(doc);
+}
+
+/**
+ * Searches a client's audit log, newest first. `search` matches any part of
+ * an entry (actor, entity, changes, details), case-insensitively; `from` and
+ * `to` are inclusive YYYY-MM-DD dates. On MongoDB the query filters, sorts
+ * and pages the entries, except that a search is matched and paged here
+ * after the other filters; the file store does it all in memory.
+ * @param {string} clientId
+ * @param {object} query Optional { action, entityType, entityId, actor,
+ *   from, to, search, limit, offset }.
+ * @returns {Promise<object>} { entries, total }
+ */
+export async function listAuditEvents(
+  clientId,
+  { action, entityType, entityId, actor, from, to, search, limit = 100, offset = 0 } = {}
+) {
+  const filter = { clientId };
+  if (action) filter.action = action;
+  if (entityType) filter.entityType = entityType;
+  if (entityId) filter.entityId = entityId;
+
+  const needle = search ? String(search).toLowerCase() : null;
+  const store = await getStore();
+  const auditLog = store.collection(COLLECTION);
+  const matchesSearch = (entry) => !needle || JSON.stringify(toEntry(entry)).toLowerCase().includes(needle);
+
+  if (store.kind === 'mongodb') {
+    if (actor) filter['actor.username'] = actor;
+    if (from || to) {
+      filter.at = {};
+      if (from) filter.at.$gte = from;
+      // `at` is an ISO timestamp, so the whole of the `to` day sorts below this
+      if (to) filter.at.$lt = `${to}T99`;
+    }
+    const sort = { at: -1 };
+    if (!needle) {
+      const [entries, total] = await Promise.all([
+        auditLog.find(filter, { sort, skip: offset, limit }),
+        auditLog.count(filter),
+      ]);
+      return { entries: entries.map(toEntry), total };
+    }
+    // Changes and details have no fixed shape, so the search is finished here
+    const found = (await auditLog.find(filter, { sort })).filter(matchesSearch);
+    return { entries: found.slice(offset, offset + limit).map(toEntry), total: found.length };
+  }
+
+  const matches = (await auditLog.find(filter))
+    .filter((entry) => !actor || entry.actor?.username === actor)
+    .filter((entry) => !from || entry.at.slice(0, 10) >= from)
+    .filter((entry) => !to || entry.at.slice(0, 10) <= to)
+    .filter(matchesSearch)
+    .sort((a, b) => String(b.at).localeCompare(String(a.at)));
+
+  return {
+    entries: matches.slice(offset, offset + limit).map(toEntry),
+    total: matches.length,
+  };
+}
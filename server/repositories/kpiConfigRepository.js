@@ -0,0 +1,84 @@
+import { getStore } from '../db/index.js';
+
+const COLLECTION = 'kpiConfigs';
+
+const toSummary = ({ id, calculationBase, updatedAt, updatedBy }) => ({
+  id,
+  calculationBase,
+  updatedAt,
+  updatedBy,
+});
+
+const toConfig = ({ clientId, ...config }) => config;
+
+async function kpiConfigs() {
+  return (await getStore()).collection(COLLECTION);
+}
+
+const toActor = (user) => (user ? { id: user.id, username: user.username, role: user.role } : null);
+
+/**
+ * Lists a client's KPI configurations without their fields, most recently
+ * saved first.
+ */
+export async function listKpiConfigs(clientId) {
+  const docs = await (await kpiConfigs()).find({ clientId });
+  return docs
+    .map(toSummary)
+    .sort((a, b) => String(b.updatedAt).localeCompare(String(a.updatedAt)));
+}
+
+export async function getKpiConfig(clientId, id) {
+  const doc = await (await kpiConfigs()).findOne({ clientId, id });
+  return doc && toConfig(doc);
+}
+
+/**
+ * Stores a new KPI configuration under its SchID. Returns null when one with
+ * the same ID exists.
+ * @param {string} clientId
+ * @param {object} config The configurator's output, including SchID.
+ * @param {object} user The user saving it.
+ */
+export async function createKpiConfig(clientId, config, user) {
+  const collection = await kpiConfigs();
+  const id = config.SchID;
+  if (await collection.findOne({ clientId, id })) return null;
+
+  const now = new Date().toISOString();
+  const { id: _ignored, createdAt, updatedAt, updatedBy, ...fields } = config;
+  const doc = await collection.insertOne({
+    ...fields,
+    id,
+    clientId,
+    createdAt: now,
+    updatedAt: now,
+    updatedBy: toActor(user),
+  });
+  return toConfig(doc);
+}
+
+/**
+ * Replaces a KPI configuration's content. Returns null when it does not
+ * exist.
+ */
+export async function updateKpiConfig(clientId, id, config, user) {
+  const collection = await kpiConfigs();
+  const existing = await collection.findOne({ clientId, id });
+  if (!existing) return null;
+
+  const { id: _ignored, clientId: _client, createdAt, updatedAt, updatedBy, ...fields } = config;
+  const doc = await collection.replaceOne(
+    { clientId, id },
+    {
+      ...fields,
+      SchID: id,
+      id,
+      clientId,
+      createdAt: existing.createdAt,
+      updatedAt: new Date().toISOString(),
+      updatedBy: toActor(user),
+    }
+  );
+  return doc && toConfig(doc);
+}
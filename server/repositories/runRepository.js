@@ -0,0 +1,78 @@
+import { randomUUID } from 'node:crypto';
+import { getStore } from '../db/index.js';
+
+const COLLECTION = 'runs';
+
+const toSummary = ({ result, clientId, payeeIds, ...run }) => run;
+
+const toRun = ({ clientId, ...run }) => run;
+
+/**
+ * Everyone a run has a result for: agents with records or a payout of their
+ * own and managers who only receive credit splits, sorted by ID.
+ * @param {object} result The run's SchemeRunResult.
+ * @returns {string[]}
+ */
+export function listPayees(result) {
+  const payees = new Set([
+    ...Object.keys(result?.agentPayouts || {}),
+    ...Object.keys(result?.creditDistributions || {}),
+    ...(result?.rawRecordLevelData || []).map((record) => record.agentId).filter(Boolean),
+  ]);
+  return [...payees].sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+}
+
+async function runs() {
+  return (await getStore()).collection(COLLECTION);
+}
+
+/**
+ * Lists a client's runs without their outputs, newest first.
+ * @param {string} clientId
+ * @param {object} filter Optional { schemeId, mode, payeeId }; payeeId keeps
+ *   the runs that pay that agent.
+ */
+export async function listRuns(clientId, { schemeId, mode, payeeId } = {}) {
+  const query = { clientId };
+  if (schemeId) query.schemeId = schemeId;
+  if (mode) query.mode = mode;
+  if (payeeId) query.payeeIds = payeeId;
+  const docs = await (await runs()).find(query);
+  return docs
+    .map(toSummary)
+    .sort((a, b) => String(b.createdAt).localeCompare(String(a.createdAt)));
+}
+
+export async function getRun(clientId, id) {
+  const doc = await (await runs()).findOne({ clientId, id });
+  return doc && toRun(doc);
+}
+
+/**
+ * Stores a completed run with the IDs of its payees (see listPayees), so
+ * runs can be found by payee without reading their results. Runs are never
+ * modified afterwards.
+ * @param {string} clientId
+ * @param {object} run { schemeId, schemeVersion, SchemeID, schemeName,
+ *   runAsOfDate, mode, inputs, summary, result }
+ * @param {object} user The user who ran it ({ id, username, role }).
+ */
+export async function createRun(clientId, run, user) {
+  const doc = await (await runs()).insertOne({
+    id: randomUUID(),
+    clientId,
+    schemeId: run.schemeId,
+    schemeVersion: run.schemeVersion,
+    SchemeID: run.SchemeID,
+    schemeName: run.schemeName,
+    runAsOfDate: run.runAsOfDate,
+    mode: run.mode,
+    inputs: run.inputs,
+    user: user ? { id: user.id, username: user.username, role: user.role } : null,
+    createdAt: new Date().toISOString(),
+    summary: run.summary,
+    payeeIds: listPayees(run.result),
+    result: run.result,
+  });
+  return toRun(doc);
+}
@@ -0,0 +1,137 @@
+import { getStore } from '../db/index.js';
+import { appendVersion, getLatestVersionNumber, getVersion } from './schemeVersionRepository.js';
+
+const COLLECTION = 'schemes';
+
+/**
+ * The stable ID of a scheme across saves: SchemeID without its timestamp
+ * suffix (S_NAME_ddMMyy_HHmm -> S_NAME).
+ * @param {object} scheme
+ * @returns {string|null}
+ */
+export function getSchemeKey(scheme) {
+  if (scheme?.SchemeID) return scheme.SchemeID.split('_').slice(0, 2).join('_');
+  if (scheme?.name) return `S_${String(scheme.name).replace(/[^a-zA-Z0-9]/g, '').toUpperCase()}`;
+  return null;
+}
+
+const toSummary = ({ id, SchemeID, name, description, status, versionNumber, effectiveFrom, effectiveTo, updatedAt }) => ({
+  id,
+  SchemeID,
+  name,
+  description,
+  status,
+  versionNumber,
+  effectiveFrom,
+  effectiveTo,
+  updatedAt,
+});
+
+// Strips storage fields so the scheme round-trips as designed
+const toScheme = ({ id, clientId, createdAt, updatedAt, ...scheme }) => ({
+  ...scheme,
+  id,
+  createdAt,
+  updatedAt,
+});
+
+async function schemes() {
+  return (await getStore()).collection(COLLECTION);
+}
+
+export async function listSchemes(clientId) {
+  const docs = await (await schemes()).find({ clientId });
+  return docs
+    .map(toSummary)
+    .sort((a, b) => String(b.updatedAt).localeCompare(String(a.updatedAt)));
+}
+
+export async function getScheme(clientId, id) {
+  const doc = await (await schemes()).findOne({ clientId, id });
+  return doc && toScheme(doc);
+}
+
+// SchemeID suffix written by the designer on every save (ddMMyy_HHmm)
+const formatSchemeTimestamp = (date) => {
+  const pad = (value) => String(value).padStart(2, '0');
+  return `${pad(date.getDate())}${pad(date.getMonth() + 1)}${String(date.getFullYear()).slice(-2)}_${pad(date.getHours())}${pad(date.getMinutes())}`;
+};
+
+/**
+ * Stores a new scheme as its first version. Returns null when a scheme with
+ * the same key exists.
+ */
+export async function createScheme(clientId, scheme) {
+  const collection = await schemes();
+  const id = getSchemeKey(scheme);
+  if (await collection.findOne({ clientId, id })) return null;
+
+  const now = new Date().toISOString();
+  const { id: _ignored, createdAt, updatedAt, ...fields } = scheme;
+  const versionNumber = (await getLatestVersionNumber(clientId, id)) + 1;
+  const doc = await collection.insertOne({
+    ...fields,
+    status: 'DRAFT',
+    versionNumber,
+    id,
+    clientId,
+    createdAt: now,
+    updatedAt: now,
+  });
+  await appendVersion(clientId, doc);
+  return toScheme(doc);
+}
+
+/**
+ * Replaces a scheme's content and records it as the next (DRAFT) version.
+ * Returns null when it does not exist.
+ */
+export async function updateScheme(clientId, id, scheme) {
+  const collection = await schemes();
+  const existing = await collection.findOne({ clientId, id });
+  if (!existing) return null;
+
+  const { id: _ignored, clientId: _client, createdAt, updatedAt, ...fields } = scheme;
+  const versionNumber = (await getLatestVersionNumber(clientId, id)) + 1;
+  const doc = await collection.replaceOne(
+    { clientId, id },
+    {
+      ...fields,
+      status: 'DRAFT',
+      versionNumber,
+      id,
+      clientId,
+      createdAt: existing.createdAt,
+      updatedAt: new Date().toISOString(),
+    }
+  );
+  if (doc) await appendVersion(clientId, doc);
+  return doc && toScheme(doc);
+}
+
+/**
+ * Saves an earlier version's content as a new DRAFT version of the scheme.
+ * Returns null when the scheme or the version does not exist.
+ */
+export async function restoreVersion(clientId, id, versionNumber) {
+  const version = await getVersion(clientId, id, versionNumber);
+  if (!version) return null;
+
+  const { scheme } = version;
+  return updateScheme(clientId, id, {
+    ...scheme,
+    SchemeID: `${id}_${formatSchemeTimestamp(new Date())}`,
+  });
+}
+
+/**
+ * Sets the lifecycle status of a scheme's latest version on the scheme.
+ */
+export async function setSchemeStatus(clientId, id, status) {
+  const doc = await (await schemes()).updateOne({ clientId, id }, { status });
+  return doc && toScheme(doc);
+}
+
+export async function deleteScheme(clientId, id) {
+  return (await schemes()).deleteOne({ clientId, id });
+}
@@ -0,0 +1,94 @@
+import { getStore } from '../db/index.js';
+
+const COLLECTION = 'schemeVersions';
+
+const toSummary = ({ schemeId, versionNumber, SchemeID, status, savedAt, effectiveFrom, effectiveTo, reviews = [] }) => ({
+  schemeId,
+  versionNumber,
+  SchemeID,
+  status,
+  savedAt,
+  effectiveFrom,
+  effectiveTo,
+  reviews,
+});
+
+// The snapshot keeps the status it was saved with; the version's own status
+// is the current one
+const toVersion = ({ clientId, reviews = [], ...version }) => ({
+  ...version,
+  reviews,
+  scheme: { ...version.scheme, status: version.status },
+});
+
+async function versions() {
+  return (await getStore()).collection(COLLECTION);
+}
+
+/**
+ * Lists a scheme's saved versions, newest first.
+ */
+export async function listVersions(clientId, schemeId) {
+  const docs = await (await versions()).find({ clientId, schemeId });
+  return docs.map(toSummary).sort((a, b) => b.versionNumber - a.versionNumber);
+}
+
+export async function getVersion(clientId, schemeId, versionNumber) {
+  const doc = await (await versions()).findOne({ clientId, schemeId, versionNumber });
+  return doc && toVersion(doc);
+}
+
+/**
+ * Highest version number saved for a scheme, or 0 if it has none. Versions
+ * outlive a deleted scheme, so a scheme re-created under the same ID
+ * continues its numbering.
+ */
+export async function getLatestVersionNumber(clientId, schemeId) {
+  const docs = await (await versions()).find({ clientId, schemeId });
+  return docs.reduce((max, doc) => Math.max(max, doc.versionNumber), 0);
+}
+
+/**
+ * Records a saved scheme as a version. A version's content is immutable:
+ * only its lifecycle status and review trail change (see recordReview), and
+ * restoring an old version saves it again as a new one.
+ * @param {string} clientId
+ * @param {object} scheme The scheme as stored, with its id and versionNumber.
+ */
+export async function appendVersion(clientId, scheme) {
+  const { clientId: _client, ...snapshot } = scheme;
+  return toVersion(
+    await (await versions()).insertOne({
+      schemeId: scheme.id,
+      clientId,
+      versionNumber: scheme.versionNumber,
+      SchemeID: scheme.SchemeID,
+      status: scheme.status,
+      savedAt: scheme.updatedAt,
+      effectiveFrom: scheme.effectiveFrom,
+      effectiveTo: scheme.effectiveTo,
+      reviews: [],
+      scheme: snapshot,
+    })
+  );
+}
+
+/**
+ * Moves a version to a new lifecycle status and appends the review entry
+ * (who, what and why) to its trail.
+ * @param {string} clientId
+ * @param {string} schemeId
+ * @param {number} versionNumber
+ * @param {string} status The new status.
+ * @param {object} review { action, userId, username, role, comment, at }
+ */
+export async function recordReview(clientId, schemeId, versionNumber, status, review) {
+  const collection = await versions();
+  const existing = await collection.findOne({ clientId, schemeId, versionNumber });
+  if (!existing) return null;
+  const doc = await collection.updateOne(
+    { clientId, schemeId, versionNumber },
+    { status, reviews: [...(existing.reviews || []), review] }
+  );
+  return doc && toVersion(doc);
+}
@@ -0,0 +1,64 @@
+import { randomUUID } from 'node:crypto';
+import { getStore } from '../db/index.js';
+
+const COLLECTION = 'sessions';
+
+async function sessions() {
+  return (await getStore()).collection(COLLECTION);
+}
+
+/**
+ * Whether a session can still be used: not signed out and not expired.
+ * @param {object|null} session
+ */
+export const isSessionActive = (session) =>
+  Boolean(session) && !session.revokedAt && session.expiresAt > new Date().toISOString();
+
+export async function getSession(id) {
+  return (await sessions()).findOne({ id });
+}
+
+/**
+ * Opens a session for a signed-in user.
+ * @param {object} user { id, clientId }
+ * @param {string} refreshTokenHash
+ * @param {string} expiresAt ISO timestamp after which the session cannot be refreshed.
+ */
+export async function createSession(user, refreshTokenHash, expiresAt) {
+  const now = new Date().toISOString();
+  return (await sessions()).insertOne({
+    id: randomUUID(),
+    userId: user.id,
+    clientId: user.clientId,
+    refreshTokenHash,
+    createdAt: now,
+    refreshedAt: now,
+    expiresAt,
+    revokedAt: null,
+  });
+}
+
+/**
+ * Replaces a session's refresh token (each one is single use) and extends it.
+ */
+export async function rotateSession(id, refreshTokenHash, expiresAt) {
+  return (await sessions()).updateOne(
+    { id },
+    { refreshTokenHash, expiresAt, refreshedAt: new Date().toISOString() }
+  );
+}
+
+export async function revokeSession(id) {
+  return (await sessions()).updateOne({ id }, { revokedAt: new Date().toISOString() });
+}
+
+
+/**
+ * Revokes every open session of a user, signing them out everywhere.
+ * @returns {Promise<number>} How many sessions were revoked.
+ */
+export async function revokeUserSessions(clientId, userId) {
+  const open = (await (await sessions()).find({ clientId, userId })).filter(isSessionActive);
+  for (const session of open) await revokeSession(session.id);
+  return open.length;
+}
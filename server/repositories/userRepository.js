@@ -0,0 +1,76 @@
+import { randomUUID } from 'node:crypto';
+import { getStore } from '../db/index.js';
+
+const COLLECTION = 'users';
+
+// Password hashes only leave the repository through findUserForLogin
+const toUser = ({ passwordHash, ...user }) => user;
+
+async function users() {
+  return (await getStore()).collection(COLLECTION);
+}
+
+export async function countUsers() {
+  return (await (await users()).find({})).length;
+}
+
+/**
+ * Lists a client's users by username.
+ * @param {string} clientId
+ */
+export async function listUsers(clientId) {
+  const docs = await (await users()).find({ clientId });
+  return docs.map(toUser).sort((a, b) => a.username.localeCompare(b.username));
+}
+
+export async function getUser(clientId, id) {
+  const doc = await (await users()).findOne({ clientId, id });
+  return doc && toUser(doc);
+}
+
+/**
+ * Looks a user up by the name they sign in with, including the password
+ * hash. Usernames are unique within a client.
+ */
+export async function findUserForLogin(clientId, username) {
+  return (await users()).findOne({ clientId, username });
+}
+
+/**
+ * Looks up the user mapped to a payee (agent) ID. Agent IDs are unique
+ * within a client.
+ */
+export async function findUserByAgentId(clientId, agentId) {
+  const doc = await (await users()).findOne({ clientId, agentId });
+  return doc && toUser(doc);
+}
+
+/**
+ * Stores a new user.
+ * @param {string} clientId
+ * @param {object} user { username, passwordHash, role, agentId }
+ */
+export async function createUser(clientId, { username, passwordHash, role, agentId = null }) {
+  const now = new Date().toISOString();
+  const doc = await (await users()).insertOne({
+    id: randomUUID(),
+    clientId,
+    username,
+    passwordHash,
+    role,
+    agentId,
+    active: true,
+    createdAt: now,
+    updatedAt: now,
+    lastLoginAt: null,
+  });
+  return toUser(doc);
+}
+
+export async function updateUser(clientId, id, updates) {
+  const doc = await (await users()).updateOne(
+    { clientId, id },
+    { ...updates, updatedAt: new Date().toISOString() }
+  );
+  return doc && toUser(doc);
+}
@@ -0,0 +1,42 @@
+import express from 'express';
+import { requireTenant } from '../middleware/clientScope.js';
+import { identifyUser, requirePermission } from '../middleware/currentUser.js';
+import { listAuditEvents } from '../repositories/auditRepository.js';
+
+const router = express.Router();
+
+router.use(identifyUser);
+router.use(requireTenant);
+router.use(requirePermission('audit.view'));
+
+const MAX_PAGE_SIZE = 500;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+router.get('/', async (req, res) => {
+  const { action, entityType, entityId, actor, from, to, search } = req.query;
+  if ((from && !DATE_PATTERN.test(from)) || (to && !DATE_PATTERN.test(to))) {
+    return res.status(400).json({ error: 'from and to must be YYYY-MM-DD' });
+  }
+  const limit = Math.min(Math.max(Number(req.query.limit) || 100, 1), MAX_PAGE_SIZE);
+  const offset = Math.max(Number(req.query.offset) || 0, 0);
+
+  try {
+    res.json(await listAuditEvents(req.clientId, {
+      action,
+      entityType,
+      entityId,
+      actor,
+      from,
+      to,
+      search,
+      limit,
+      offset,
+    }));
+  } catch (error) {
+    console.error('[Audit] List failed:', error);
+    res.status(500).json({ error: 'Failed to load the audit log', details: error?.message });
+  }
+});
+
+export default router;
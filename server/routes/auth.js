@@ -0,0 +1,73 @@
+import express from 'express';
+import { AuthError, login, logout, refresh } from '../services/authService.js';
+
+const router = express.Router();
+
+const REFRESH_COOKIE = 'icm_refresh';
+
+// The refresh cookie is only sent to the auth endpoints
+const cookieOptions = {
+  httpOnly: true,
+  sameSite: 'strict',
+  secure: process.env.COOKIE_SECURE === 'true',
+  path: '/api/auth',
+};
+
+const readRefreshCookie = (req) => {
+  const cookie = (req.get('cookie') || '')
+    .split(';')
+    .map((part) => part.trim())
+    .find((part) => part.startsWith(`${REFRESH_COOKIE}=`));
+  return cookie ? decodeURIComponent(cookie.slice(REFRESH_COOKIE.length + 1)) : null;
+};
+
+const sendSession = (res, session) => {
+  res.cookie(REFRESH_COOKIE, session.refreshToken, {
+    ...cookieOptions,
+    expires: new Date(session.refreshExpiresAt),
+  });
+  res.json({ user: session.user, accessToken: session.accessToken, expiresIn: session.expiresIn });
+};
+
+const sendError = (res, error, fallback) => {
+  if (error instanceof AuthError) {
+    return res.status(error.status).json({ error: error.message });
+  }
+  console.error(`[Auth] ${fallback}:`, error);
+  res.status(500).json({ error: 'Internal server error' });
+};
+
+router.post('/login', async (req, res) => {
+  const { username, password, clientId } = req.body || {};
+  console.log('[Auth] Login attempt received:', { username, clientId });
+
+  try {
+    const session = await login({ username, password, clientId });
+    console.log('[Auth] Signed in', session.user.username, 'for', session.user.clientId);
+    sendSession(res, session);
+  } catch (error) {
+    if (error instanceof AuthError) console.warn('[Auth] Login failed for', username, '-', error.message);
+    sendError(res, error, 'Login error');
+  }
+});
+
+router.post('/refresh', async (req, res) => {
+  try {
+    sendSession(res, await refresh(readRefreshCookie(req)));
+  } catch (error) {
+    res.clearCookie(REFRESH_COOKIE, cookieOptions);
+    sendError(res, error, 'Refresh error');
+  }
+});
+
+router.post('/logout', async (req, res) => {
+  try {
+    await logout(readRefreshCookie(req));
+    res.clearCookie(REFRESH_COOKIE, cookieOptions);
+    res.status(204).end();
+  } catch (error) {
+    sendError(res, error, 'Logout error');
+  }
+});
+
+export default router;
@@ -1,12 +1,15 @@
 import express from 'express';
 import { GoogleGenAI } from '@google/genai';
 import dotenv from 'dotenv';
-import mime from 'mime';
+import { identifyUser, requirePermission } from '../middleware/currentUser.js';
 
 dotenv.config();
 
 const router = express.Router();
 
+router.use(identifyUser);
+router.use(requirePermission('schemes.design'));
+
 const SCHEME_EXECUTION_PROMPT = `...`; // keep as-is
 
 router.post('/generateCode', async (req, res) => {
@@ -0,0 +1,119 @@
+import express from 'express';
+import { hasPermission } from '../auth/permissions.js';
+import { guardTenantRecord, requireTenant } from '../middleware/clientScope.js';
+import { identifyUser, requirePermission } from '../middleware/currentUser.js';
+import {
+  ExecutionJobError,
+  TERMINAL_STATUSES,
+  cancelJob,
+  getJob,
+  listJobs,
+  submitJob,
+  subscribeToJob,
+} from '../jobs/executionJobs.js';
+
+const router = express.Router();
+
+router.use(identifyUser);
+router.use(requirePermission('runs.simulate'));
+// Jobs carry every input row, so they get a larger body limit than the rest
+// of the API (the router is mounted ahead of the global JSON parser). It is
+// parsed only once the caller is allowed to submit.
+router.use(express.json({ limit: process.env.JOB_BODY_LIMIT || '500mb' }));
+router.use(requireTenant);
+router.param('id', guardTenantRecord('jobs', 'Job', 'job'));
+
+const validateJob = (job) => {
+  if (!job || typeof job !== 'object') return 'Job is required';
+  if (!job.schemeId || !Number.isInteger(job.schemeVersion)) return 'schemeId and schemeVersion are required';
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(job.runAsOfDate || '')) return 'runAsOfDate must be YYYY-MM-DD';
+  if (job.mode !== 'simulation' && job.mode !== 'production') return 'mode must be simulation or production';
+  if (!job.files || typeof job.files !== 'object') return 'files are required';
+  const invalidFile = Object.entries(job.files).find(
+    ([, file]) => !Array.isArray(file?.data) || !Array.isArray(file?.columns)
+  );
+  if (invalidFile) return `File "${invalidFile[0]}" needs data and columns arrays`;
+  return null;
+};
+
+const sendError = (res, error, fallback) => {
+  if (error instanceof ExecutionJobError) {
+    return res.status(error.status).json({ error: error.message, details: error.details });
+  }
+  console.error(`[Jobs] ${fallback}:`, error);
+  res.status(500).json({ error: fallback, details: error?.message });
+};
+
+router.get('/', async (req, res) => {
+  try {
+    res.json(await listJobs(req.clientId, { status: req.query.status }));
+  } catch (error) {
+    sendError(res, error, 'Failed to list jobs');
+  }
+});
+
+router.get('/:id', async (req, res) => {
+  try {
+    const job = await getJob(req.clientId, req.params.id);
+    if (!job) return res.status(404).json({ error: 'Job not found' });
+    res.json(job);
+  } catch (error) {
+    sendError(res, error, 'Failed to load job');
+  }
+});
+
+router.post('/', async (req, res) => {
+  const invalid = validateJob(req.body);
+  if (invalid) return res.status(400).json({ error: invalid });
+  if (req.body.mode === 'production' && !hasPermission(req.user, 'runs.production')) {
+    return res.status(403).json({ error: 'This action requires the runs.production permission' });
+  }
+
+  try {
+    res.status(202).json(await submitJob(req.clientId, req.body, req.user));
+  } catch (error) {
+    sendError(res, error, 'Failed to submit job');
+  }
+});
+
+router.post('/:id/cancel', async (req, res) => {
+  try {
+    res.json(await cancelJob(req.clientId, req.params.id, req.user));
+  } catch (error) {
+    sendError(res, error, 'Failed to cancel job');
+  }
+});
+
+/**
+ * Streams the job as server-sent events: the current state first, then
+ * every change until it succeeds, fails or is cancelled.
+ */
+router.get('/:id/events', async (req, res) => {
+  let job;
+  try {
+    job = await getJob(req.clientId, req.params.id);
+  } catch (error) {
+    return sendError(res, error, 'Failed to load job');
+  }
+  if (!job) return res.status(404).json({ error: 'Job not found' });
+
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  res.flushHeaders();
+
+  const send = (update) => {
+    res.write(`data: ${JSON.stringify(update)}\n\n`);
+    if (TERMINAL_STATUSES.includes(update.status)) {
+      unsubscribe();
+      res.end();
+    }
+  };
+  const unsubscribe = subscribeToJob(job.id, send);
+  req.on('close', unsubscribe);
+  send(job);
+});
+
+export default router;
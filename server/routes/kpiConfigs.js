@@ -0,0 +1,100 @@
+import express from 'express';
+import { guardTenantRecord, requireTenant } from '../middleware/clientScope.js';
+import { identifyUser, requirePermission } from '../middleware/currentUser.js';
+import {
+  createKpiConfig,
+  getKpiConfig,
+  listKpiConfigs,
+  updateKpiConfig,
+} from '../repositories/kpiConfigRepository.js';
+import { recordAudit } from '../services/auditService.js';
+
+const router = express.Router();
+
+router.use(identifyUser);
+router.use(requireTenant);
+router.param('id', guardTenantRecord('kpiConfigs', 'KPI configuration', 'kpiConfig'));
+// Scheme designers read KPI configurations to build schemes on them
+router.use(requirePermission('kpis.configure', 'schemes.design'));
+
+const canConfigure = requirePermission('kpis.configure');
+
+const auditKpiConfig = (req, action, id, before, after) =>
+  recordAudit({
+    clientId: req.clientId,
+    actor: req.user,
+    action,
+    entityType: 'kpiConfig',
+    entityId: id,
+    before,
+    after,
+  });
+
+const validateKpiConfig = (config) => {
+  if (!config || typeof config !== 'object' || Array.isArray(config)) {
+    return 'KPI configuration is required';
+  }
+  if (!/^K_[A-Z0-9]{1,10}_\d{6}_\d{4}$/.test(config.SchID || '')) {
+    return 'SchID must look like K_<IDENTIFIER>_ddMMyy_HHmm';
+  }
+  if (!config.calculationBase) return 'Calculation Base is required';
+  return null;
+};
+
+router.get('/', async (req, res) => {
+  try {
+    res.json(await listKpiConfigs(req.clientId));
+  } catch (error) {
+    console.error('[KpiConfigs] List failed:', error);
+    res.status(500).json({ error: 'Failed to list KPI configurations', details: error?.message });
+  }
+});
+
+router.get('/:id', async (req, res) => {
+  try {
+    const config = await getKpiConfig(req.clientId, req.params.id);
+    if (!config) return res.status(404).json({ error: 'KPI configuration not found' });
+    res.json(config);
+  } catch (error) {
+    console.error('[KpiConfigs] Get failed:', error);
+    res.status(500).json({ error: 'Failed to load KPI configuration', details: error?.message });
+  }
+});
+
+router.post('/', canConfigure, async (req, res) => {
+  const invalid = validateKpiConfig(req.body);
+  if (invalid) return res.status(400).json({ error: invalid });
+
+  try {
+    const config = await createKpiConfig(req.clientId, req.body, req.user);
+    if (!config) {
+      return res.status(409).json({ error: 'A KPI configuration with this ID already exists' });
+    }
+    console.log('[KpiConfigs] Created', config.id, 'for', req.clientId);
+    await auditKpiConfig(req, 'kpiConfig.create', config.id, null, config);
+    res.status(201).json(config);
+  } catch (error) {
+    console.error('[KpiConfigs] Create failed:', error);
+    res.status(500).json({ error: 'Failed to save KPI configuration', details: error?.message });
+  }
+});
+
+router.put('/:id', canConfigure, async (req, res) => {
+  if (!req.body || typeof req.body !== 'object' || !req.body.calculationBase) {
+    return res.status(400).json({ error: 'Calculation Base is required' });
+  }
+
+  try {
+    const existing = await getKpiConfig(req.clientId, req.params.id);
+    const config = existing && await updateKpiConfig(req.clientId, req.params.id, req.body, req.user);
+    if (!config) return res.status(404).json({ error: 'KPI configuration not found' });
+    console.log('[KpiConfigs] Updated', config.id, 'for', req.clientId);
+    await auditKpiConfig(req, 'kpiConfig.update', config.id, existing, config);
+    res.json(config);
+  } catch (error) {
+    console.error('[KpiConfigs] Update failed:', error);
+    res.status(500).json({ error: 'Failed to save KPI configuration', details: error?.message });
+  }
+});
+
+export default router;
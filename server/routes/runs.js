@@ -0,0 +1,121 @@
+import express from 'express';
+import { guardTenantRecord, requireTenant } from '../middleware/clientScope.js';
+import { identifyUser, requirePermission } from '../middleware/currentUser.js';
+import { getRun, listRuns } from '../repositories/runRepository.js';
+import { getPayeeRun, listPayeeRuns } from '../services/payeeService.js';
+import { exportStatements, getStatement, STATEMENT_FORMATS } from '../services/statementService.js';
+
+const router = express.Router();
+
+router.use(identifyUser);
+router.use(requireTenant);
+router.param('id', guardTenantRecord('runs', 'Run', 'run'));
+
+// ?format=html|pdf, PDF by default; responds 400 and returns null otherwise
+const statementFormat = (req, res) => {
+  const format = req.query.format || 'pdf';
+  if (STATEMENT_FORMATS[format]) return format;
+  res.status(400).json({ error: `format must be one of ${Object.keys(STATEMENT_FORMATS).join(', ')}` });
+  return null;
+};
+
+// HTML statements open in the browser for printing; everything else downloads
+const sendFile = (res, { fileName, contentType, body }) => {
+  const disposition = contentType.startsWith('text/html') ? 'inline' : 'attachment';
+  res.set('Content-Type', contentType);
+  res.set('Content-Disposition', `${disposition}; filename="${fileName}"`);
+  res.send(body);
+};
+
+// Agents see runs only through the payee ID their login is mapped to
+const requirePayeeId = (req, res, next) => {
+  if (!req.user.agentId) {
+    return res.status(403).json({ error: 'Your login is not mapped to an agent ID; ask an administrator to map it' });
+  }
+  next();
+};
+
+router.get('/mine', requirePermission('payouts.viewOwn'), requirePayeeId, async (req, res) => {
+  try {
+    res.json({ agentId: req.user.agentId, runs: await listPayeeRuns(req.clientId, req.user.agentId) });
+  } catch (error) {
+    console.error('[Runs] List own failed:', error);
+    res.status(500).json({ error: 'Failed to list runs', details: error?.message });
+  }
+});
+
+router.get('/mine/:id', requirePermission('payouts.viewOwn'), requirePayeeId, async (req, res) => {
+  try {
+    const run = await getPayeeRun(req.clientId, req.params.id, req.user.agentId);
+    if (!run) return res.status(404).json({ error: 'Run not found' });
+    res.json(run);
+  } catch (error) {
+    console.error('[Runs] Get own failed:', error);
+    res.status(500).json({ error: 'Failed to load run', details: error?.message });
+  }
+});
+
+router.get('/mine/:id/statement', requirePermission('payouts.viewOwn'), requirePayeeId, async (req, res) => {
+  const format = statementFormat(req, res);
+  if (!format) return;
+
+  try {
+    const file = await getStatement(req.clientId, req.params.id, req.user.agentId, format, { publishedOnly: true });
+    if (!file) return res.status(404).json({ error: 'Run not found' });
+    sendFile(res, file);
+  } catch (error) {
+    console.error('[Runs] Own statement failed:', error);
+    res.status(500).json({ error: 'Failed to generate the statement', details: error?.message });
+  }
+});
+
+router.get('/', requirePermission('payouts.viewAll'), async (req, res) => {
+  try {
+    res.json(await listRuns(req.clientId, { schemeId: req.query.schemeId, mode: req.query.mode }));
+  } catch (error) {
+    console.error('[Runs] List failed:', error);
+    res.status(500).json({ error: 'Failed to list runs', details: error?.message });
+  }
+});
+
+router.get('/:id', requirePermission('payouts.viewAll'), async (req, res) => {
+  try {
+    const run = await getRun(req.clientId, req.params.id);
+    if (!run) return res.status(404).json({ error: 'Run not found' });
+    res.json(run);
+  } catch (error) {
+    console.error('[Runs] Get failed:', error);
+    res.status(500).json({ error: 'Failed to load run', details: error?.message });
+  }
+});
+
+router.get('/:id/statements', requirePermission('payouts.viewAll'), async (req, res) => {
+  const format = statementFormat(req, res);
+  if (!format) return;
+
+  try {
+    const archive = await exportStatements(req.clientId, req.params.id, format);
+    if (!archive) return res.status(404).json({ error: 'Run not found' });
+    console.log('[Runs] Exported', archive.count, format, 'statements for run', req.params.id);
+    sendFile(res, archive);
+  } catch (error) {
+    console.error('[Runs] Statement export failed:', error);
+    res.status(500).json({ error: 'Failed to export statements', details: error?.message });
+  }
+});
+
+router.get('/:id/statements/:agentId', requirePermission('payouts.viewAll'), async (req, res) => {
+  const format = statementFormat(req, res);
+  if (!format) return;
+
+  try {
+    const file = await getStatement(req.clientId, req.params.id, req.params.agentId, format);
+    if (!file) return res.status(404).json({ error: 'No statement for this payee in the run' });
+    sendFile(res, file);
+  } catch (error) {
+    console.error('[Runs] Statement failed:', error);
+    res.status(500).json({ error: 'Failed to generate the statement', details: error?.message });
+  }
+});
+
+export default router;
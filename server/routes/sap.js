@@ -0,0 +1,74 @@
+import express from 'express';
+import {
+  SAP_BASE_COLUMNS,
+  SAP_ENTITIES,
+  SapODataError,
+  fetchSapTransactions,
+  getSapConfig,
+  isSapEntity,
+} from '../connectors/sapOData.js';
+import { requireTenant } from '../middleware/clientScope.js';
+import { identifyUser, requirePermission } from '../middleware/currentUser.js';
+
+const router = express.Router();
+
+// Transactions are pulled as inputs to a run
+router.use(identifyUser);
+router.use(requireTenant);
+router.use(requirePermission('runs.simulate'));
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+router.get('/entities', (req, res) => {
+  res.json({
+    configured: Boolean(getSapConfig(req.clientId)),
+    entities: Object.entries(SAP_ENTITIES).map(([key, entity]) => ({
+      key,
+      label: entity.label,
+      fileName: entity.fileName,
+    })),
+  });
+});
+
+// Returns the documents as an uploaded base file: { name, columns, data, warnings }
+router.get('/transactions/:entity', async (req, res) => {
+  const { entity } = req.params;
+  const { from, to } = req.query;
+  console.log('[SAP] Transactions requested:', { entity, from, to });
+
+  if (!isSapEntity(entity)) {
+    return res.status(400).json({ error: `Unknown SAP entity "${entity}"` });
+  }
+  if (!DATE_PATTERN.test(from || '') || !DATE_PATTERN.test(to || '') || from > to) {
+    return res
+      .status(400)
+      .json({ error: 'from and to must be YYYY-MM-DD dates with from <= to' });
+  }
+
+  // Each tenant pulls from its own SAP system, never a shared default
+  const config = getSapConfig(req.clientId);
+  if (!config) {
+    return res.status(503).json({
+      error: 'SAP connector is not configured for this client',
+      details: `Add ${req.clientId} to SAP_CONNECTIONS`,
+    });
+  }
+
+  try {
+    const { rows, warnings } = await fetchSapTransactions(config, entity, from, to);
+    res.json({
+      name: SAP_ENTITIES[entity].fileName,
+      columns: SAP_BASE_COLUMNS,
+      data: rows,
+      warnings,
+    });
+  } catch (error) {
+    console.error('[SAP] Pull failed:', error?.message || error);
+    res.status(error instanceof SapODataError ? error.status : 500).json({
+      error: 'Failed to pull transactions from SAP',
+      details: error?.message || 'Unknown error',
+    });
+  }
+});
+
+export default router;
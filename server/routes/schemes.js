@@ -0,0 +1,195 @@
+import express from 'express';
+import { guardTenantRecord, requireTenant } from '../middleware/clientScope.js';
+import { identifyUser, requirePermission } from '../middleware/currentUser.js';
+import {
+  createScheme,
+  deleteScheme,
+  getScheme,
+  listSchemes,
+  restoreVersion,
+  updateScheme,
+} from '../repositories/schemeRepository.js';
+import { getVersion, listVersions } from '../repositories/schemeVersionRepository.js';
+import { recordAudit } from '../services/auditService.js';
+import { SchemeLifecycleError, transitionScheme } from '../services/schemeLifecycle.js';
+
+const router = express.Router();
+
+router.use(identifyUser);
+router.use(requireTenant);
+router.param('id', guardTenantRecord('schemes', 'Scheme', 'scheme'));
+// Reading schemes is needed to design them and to run them
+router.use(requirePermission('schemes.design', 'runs.simulate'));
+
+const canDesign = requirePermission('schemes.design');
+const canApprove = requirePermission('schemes.approve');
+
+// A scheme under review is frozen until an admin approves or rejects it
+const IN_REVIEW_MESSAGE = 'The scheme is in review; it can be changed again once it is approved or rejected';
+
+const auditScheme = (req, action, id, before, after, details) =>
+  recordAudit({
+    clientId: req.clientId,
+    actor: req.user,
+    action,
+    entityType: 'scheme',
+    entityId: id,
+    before,
+    after,
+    details,
+  });
+
+const validateScheme = (scheme) => {
+  if (!scheme || typeof scheme !== 'object' || Array.isArray(scheme)) {
+    return 'Scheme configuration is required';
+  }
+  if (!scheme.name) return 'Scheme name is required';
+  return null;
+};
+
+router.get('/', async (req, res) => {
+  try {
+    res.json(await listSchemes(req.clientId));
+  } catch (error) {
+    console.error('[Schemes] List failed:', error);
+    res.status(500).json({ error: 'Failed to list schemes', details: error?.message });
+  }
+});
+
+router.get('/:id', async (req, res) => {
+  try {
+    const scheme = await getScheme(req.clientId, req.params.id);
+    if (!scheme) return res.status(404).json({ error: 'Scheme not found' });
+    res.json(scheme);
+  } catch (error) {
+    console.error('[Schemes] Get failed:', error);
+    res.status(500).json({ error: 'Failed to load scheme', details: error?.message });
+  }
+});
+
+router.post('/', canDesign, async (req, res) => {
+  const invalid = validateScheme(req.body);
+  if (invalid) return res.status(400).json({ error: invalid });
+
+  try {
+    const scheme = await createScheme(req.clientId, req.body);
+    if (!scheme) {
+      return res.status(409).json({ error: 'A scheme with this ID already exists' });
+    }
+    console.log('[Schemes] Created', scheme.id, 'for', req.clientId);
+    await auditScheme(req, 'scheme.create', scheme.id, null, scheme, { versionNumber: scheme.versionNumber });
+    res.status(201).json(scheme);
+  } catch (error) {
+    console.error('[Schemes] Create failed:', error);
+    res.status(500).json({ error: 'Failed to create scheme', details: error?.message });
+  }
+});
+
+router.put('/:id', canDesign, async (req, res) => {
+  const invalid = validateScheme(req.body);
+  if (invalid) return res.status(400).json({ error: invalid });
+
+  try {
+    const existing = await getScheme(req.clientId, req.params.id);
+    if (!existing) return res.status(404).json({ error: 'Scheme not found' });
+    if (existing.status === 'IN_REVIEW') return res.status(409).json({ error: IN_REVIEW_MESSAGE });
+
+    const scheme = await updateScheme(req.clientId, req.params.id, req.body);
+    if (!scheme) return res.status(404).json({ error: 'Scheme not found' });
+    console.log('[Schemes] Updated', scheme.id, 'for', req.clientId);
+    await auditScheme(req, 'scheme.update', scheme.id, existing, scheme, { versionNumber: scheme.versionNumber });
+    res.json(scheme);
+  } catch (error) {
+    console.error('[Schemes] Update failed:', error);
+    res.status(500).json({ error: 'Failed to update scheme', details: error?.message });
+  }
+});
+
+router.delete('/:id', canDesign, async (req, res) => {
+  try {
+    const active = (await listVersions(req.clientId, req.params.id)).filter((version) => version.status === 'ACTIVE');
+    if (active.length > 0) {
+      return res.status(409).json({
+        error: `Deactivate version ${active.map((version) => version.versionNumber).join(', ')} before deleting the scheme`,
+      });
+    }
+
+    const existing = await getScheme(req.clientId, req.params.id);
+    const deleted = existing && await deleteScheme(req.clientId, req.params.id);
+    if (!deleted) return res.status(404).json({ error: 'Scheme not found' });
+    console.log('[Schemes] Deleted', req.params.id, 'for', req.clientId);
+    await auditScheme(req, 'scheme.delete', req.params.id, existing, null);
+    res.status(204).end();
+  } catch (error) {
+    console.error('[Schemes] Delete failed:', error);
+    res.status(500).json({ error: 'Failed to delete scheme', details: error?.message });
+  }
+});
+
+router.get('/:id/versions', async (req, res) => {
+  try {
+    const scheme = await getScheme(req.clientId, req.params.id);
+    if (!scheme) return res.status(404).json({ error: 'Scheme not found' });
+    res.json(await listVersions(req.clientId, req.params.id));
+  } catch (error) {
+    console.error('[Schemes] List versions failed:', error);
+    res.status(500).json({ error: 'Failed to list scheme versions', details: error?.message });
+  }
+});
+
+router.get('/:id/versions/:version', async (req, res) => {
+  try {
+    const version = await getVersion(req.clientId, req.params.id, Number(req.params.version));
+    if (!version) return res.status(404).json({ error: 'Scheme version not found' });
+    res.json(version);
+  } catch (error) {
+    console.error('[Schemes] Get version failed:', error);
+    res.status(500).json({ error: 'Failed to load scheme version', details: error?.message });
+  }
+});
+
+router.post('/:id/versions/:version/restore', canDesign, async (req, res) => {
+  try {
+    const existing = await getScheme(req.clientId, req.params.id);
+    if (existing?.status === 'IN_REVIEW') return res.status(409).json({ error: IN_REVIEW_MESSAGE });
+
+    const scheme = await restoreVersion(req.clientId, req.params.id, Number(req.params.version));
+    if (!scheme) return res.status(404).json({ error: 'Scheme version not found' });
+    console.log('[Schemes] Restored', scheme.id, 'version', req.params.version, 'as version', scheme.versionNumber);
+    await auditScheme(req, 'scheme.restore', scheme.id, existing, scheme, {
+      restoredVersion: Number(req.params.version),
+      versionNumber: scheme.versionNumber,
+    });
+    res.status(201).json(scheme);
+  } catch (error) {
+    console.error('[Schemes] Restore failed:', error);
+    res.status(500).json({ error: 'Failed to restore scheme version', details: error?.message });
+  }
+});
+
+const lifecycleHandler = (action) => async (req, res) => {
+  try {
+    const result = await transitionScheme(req.clientId, req.params.id, action, req.user, {
+      versionNumber: req.params.version ? Number(req.params.version) : undefined,
+      comment: req.body?.comment,
+    });
+    console.log(
+      '[Schemes] Lifecycle', action, req.params.id, 'version', result.version.versionNumber,
+      '->', result.version.status, 'by', req.user.username
+    );
+    res.json(result);
+  } catch (error) {
+    if (error instanceof SchemeLifecycleError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error(`[Schemes] Lifecycle ${action} failed:`, error);
+    res.status(500).json({ error: `Failed to ${action} scheme`, details: error?.message });
+  }
+};
+
+router.post('/:id/submit', canDesign, lifecycleHandler('submit'));
+router.post('/:id/approve', canApprove, lifecycleHandler('approve'));
+router.post('/:id/reject', canApprove, lifecycleHandler('reject'));
+router.post('/:id/versions/:version/deactivate', canApprove, lifecycleHandler('deactivate'));
+
+export default router;
@@ -0,0 +1,86 @@
+import express from 'express';
+import { PERMISSIONS } from '../auth/permissions.js';
+import { guardTenantRecord, requireTenant } from '../middleware/clientScope.js';
+import { identifyUser, requirePermission } from '../middleware/currentUser.js';
+import { listUsers } from '../repositories/userRepository.js';
+import { AuthError, ROLES } from '../services/authService.js';
+import {
+  MAX_IMPORT_ROWS,
+  createManagedUser,
+  importUsers,
+  listKnownAgentIds,
+  updateManagedUser,
+} from '../services/userService.js';
+
+const router = express.Router();
+
+router.use(identifyUser);
+router.use(requireTenant);
+router.param('id', guardTenantRecord('users', 'User', 'user'));
+router.use(requirePermission('users.manage'));
+
+const sendError = (res, error, fallback) => {
+  if (error instanceof AuthError) {
+    return res.status(error.status).json({ error: error.message });
+  }
+  console.error(`[Users] ${fallback}:`, error);
+  res.status(500).json({ error: fallback, details: error?.message });
+};
+
+router.get('/', async (req, res) => {
+  try {
+    res.json(await listUsers(req.clientId));
+  } catch (error) {
+    sendError(res, error, 'Failed to list users');
+  }
+});
+
+// The role matrix, so the app shows what each role is allowed to do
+router.get('/roles', (req, res) => {
+  res.json({ roles: ROLES, permissions: PERMISSIONS });
+});
+
+router.get('/agent-ids', async (req, res) => {
+  try {
+    res.json(await listKnownAgentIds(req.clientId));
+  } catch (error) {
+    sendError(res, error, 'Failed to list agent IDs');
+  }
+});
+
+router.post('/', async (req, res) => {
+  try {
+    res.status(201).json(await createManagedUser(req.clientId, req.body || {}, req.user));
+  } catch (error) {
+    sendError(res, error, 'Failed to create user');
+  }
+});
+
+router.post('/import', async (req, res) => {
+  const rows = req.body?.users;
+  if (!Array.isArray(rows) || rows.length === 0) {
+    return res.status(400).json({ error: 'users must be a non-empty array' });
+  }
+  if (rows.length > MAX_IMPORT_ROWS) {
+    return res.status(400).json({ error: `Import at most ${MAX_IMPORT_ROWS} users at a time` });
+  }
+
+  try {
+    const result = await importUsers(req.clientId, rows, req.user);
+    console.log('[Users] Imported', result.created.length, 'of', rows.length, 'users for', req.clientId);
+    res.json(result);
+  } catch (error) {
+    sendError(res, error, 'Failed to import users');
+  }
+});
+
+router.patch('/:id', async (req, res) => {
+  const { role, agentId, active, password } = req.body || {};
+  try {
+    res.json(await updateManagedUser(req.clientId, req.params.id, { role, agentId, active, password }, req.user));
+  } catch (error) {
+    sendError(res, error, 'Failed to update user');
+  }
+});
+
+export default router;
@@ -0,0 +1,47 @@
+/**
+ * Creates a user with a hashed password in the configured store.
+ *
+ *   npm run create-user -- --client CLIENT001 --username admin --role admin --password '...'
+ *
+ * Agents can be mapped to their payee ID with --agent-id.
+ *
+ * Exit code is 1 when the user cannot be created and 2 for invalid arguments.
+ */
+import 'dotenv/config';
+import { parseArgs } from 'node:util';
+import { AuthError, registerUser } from '../services/authService.js';
+
+let values;
+try {
+  ({ values } = parseArgs({
+    options: {
+      client: { type: 'string' },
+      username: { type: 'string' },
+      role: { type: 'string' },
+      password: { type: 'string' },
+      'agent-id': { type: 'string' },
+    },
+  }));
+} catch (error) {
+  console.error(error.message);
+  process.exit(2);
+}
+
+if (!values.client || !values.username || !values.role || !values.password) {
+  console.error('Usage: npm run create-user -- --client <clientId> --username <name> --role <admin|manager|agent> --password <password> [--agent-id <id>]');
+  process.exit(2);
+}
+
+try {
+  const user = await registerUser(values.client, {
+    username: values.username,
+    password: values.password,
+    role: values.role,
+    agentId: values['agent-id'],
+  });
+  console.log(`Created ${user.role} "${user.username}" for ${user.clientId} (${user.id})`);
+  process.exit(0);
+} catch (error) {
+  console.error(error instanceof AuthError ? error.message : error);
+  process.exit(1);
+}
@@ -0,0 +1,41 @@
+import { appendAuditEvent } from '../repositories/auditRepository.js';
+
+// Bookkeeping the entry itself records as `at` and `actor`
+const IGNORED_FIELDS = ['createdAt', 'updatedAt', 'updatedBy'];
+
+const isObject = (value) => value !== null && typeof value === 'object';
+
+/**
+ * Lists the values that differ between two versions of a record as
+ * `{ path, before, after }`, with dotted paths into nested objects and
+ * arrays (`rules.0.value`); a value missing on one side is null.
+ * @param {*} before
+ * @param {*} after
+ * @returns {object[]}
+ */
+export function diffRecords(before, after, path = '') {
+  if (isObject(before) && isObject(after) && Array.isArray(before) === Array.isArray(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    return [...keys]
+      .filter((key) => path || !IGNORED_FIELDS.includes(key))
+      .flatMap((key) => diffRecords(before[key], after[key], path ? `${path}.${key}` : key));
+  }
+  // Missing and null are the same for the diff
+  if (JSON.stringify(before ?? null) === JSON.stringify(after ?? null)) return [];
+  return [{ path, before: before ?? null, after: after ?? null }];
+}
+
+/**
+ * Writes an audit entry with the diff between `before` and `after` (either
+ * may be null, for creations and deletions). Failing to write it is logged
+ * and never fails the action being audited.
+ * @param {object} event { clientId, actor, action, entityType, entityId,
+ *   before, after, details }
+ */
+export async function recordAudit({ before = null, after = null, ...event }) {
+  try {
+    await appendAuditEvent({ ...event, changes: diffRecords(before ?? {}, after ?? {}) });
+  } catch (error) {
+    console.error('[Audit] Failed to record', event.action, 'of', event.entityType, event.entityId, error);
+  }
+}
@@ -0,0 +1,230 @@
+import { permissionsFor } from '../auth/permissions.js';
+import { hashPassword, MIN_PASSWORD_LENGTH, verifyPassword } from '../auth/passwords.js';
+import { createOpaqueToken, hashOpaqueToken, signToken, verifyToken } from '../auth/tokens.js';
+import {
+  countUsers,
+  createUser,
+  findUserByAgentId,
+  findUserForLogin,
+  getUser,
+  updateUser,
+} from '../repositories/userRepository.js';
+import {
+  createSession,
+  getSession,
+  isSessionActive,
+  revokeSession,
+  rotateSession,
+} from '../repositories/sessionRepository.js';
+import { recordAudit } from './auditService.js';
+
+export const ROLES = ['admin', 'manager', 'agent'];
+
+const ACCESS_TOKEN_TTL_SECONDS = Number(process.env.ACCESS_TOKEN_TTL_SECONDS) || 15 * 60;
+const SESSION_TTL_DAYS = Number(process.env.SESSION_TTL_DAYS) || 7;
+
+// Compared against when the username is unknown, so both paths take as long
+const DUMMY_HASH = await hashPassword('not-a-real-password');
+
+export class AuthError extends Error {
+  constructor(message, status) {
+    super(message);
+    this.name = 'AuthError';
+    this.status = status;
+  }
+}
+
+const sessionExpiry = () =>
+  new Date(Date.now() + SESSION_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+const toSessionUser = ({ id, username, role, clientId, agentId = null }) => ({
+  id,
+  username,
+  role,
+  clientId,
+  agentId,
+  permissions: permissionsFor(role),
+});
+
+/**
+ * Sessions hand out two tokens:
+ *
+ * - an access token, signed and short-lived, sent as `Authorization: Bearer`
+ *   and checked on every API request (see middleware/currentUser.js);
+ * - a refresh token, opaque and single-use, kept in an HttpOnly cookie and
+ *   exchanged at /api/auth/refresh for a new pair.
+ *
+ * The refresh token is `<sessionId>.<secret>`; only the secret's hash is
+ * stored. Signing out revokes the session, which also stops its access
+ * tokens from verifying.
+ */
+async function issueTokens(user, session) {
+  const secret = createOpaqueToken();
+  const expiresAt = sessionExpiry();
+  const stored = session
+    ? await rotateSession(session.id, hashOpaqueToken(secret), expiresAt)
+    : await createSession(user, hashOpaqueToken(secret), expiresAt);
+
+  return {
+    user: toSessionUser(user),
+    accessToken: signToken({ sub: user.id, sid: stored.id, clientId: user.clientId }, ACCESS_TOKEN_TTL_SECONDS),
+    expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+    refreshToken: `${stored.id}.${secret}`,
+    refreshExpiresAt: expiresAt,
+  };
+}
+
+/**
+ * Checks a username and password and opens a session. Every attempt is
+ * audited.
+ * @param {object} credentials { username, password, clientId }
+ * @returns {Promise<object>} { user, accessToken, expiresIn, refreshToken, refreshExpiresAt }
+ * @throws {AuthError} 400 unless every credential is a non-empty string,
+ *   401 for bad credentials, 403 for a deactivated account.
+ */
+export async function login(credentials) {
+  const fields = ['username', 'password', 'clientId'];
+  if (fields.some((field) => !credentials[field])) {
+    throw new AuthError('username, password and clientId are required', 400);
+  }
+  // Anything but strings could reach the store as a query operator
+  if (fields.some((field) => typeof credentials[field] !== 'string')) {
+    throw new AuthError('username, password and clientId must be strings', 400);
+  }
+  const username = credentials.username.trim();
+  const clientId = credentials.clientId.trim();
+  const { password } = credentials;
+
+  const user = await findUserForLogin(clientId, username);
+  const valid = await verifyPassword(password, user?.passwordHash || DUMMY_HASH);
+  const failure = !user || !valid ? 'invalid credentials' : !user.active ? 'deactivated' : null;
+
+  await recordAudit({
+    clientId,
+    actor: failure ? null : user,
+    action: failure ? 'auth.login_failed' : 'auth.login',
+    entityType: 'user',
+    entityId: user?.id || null,
+    details: failure ? { username, reason: failure } : { username },
+  });
+  if (!user || !valid) throw new AuthError('Invalid username, password or client', 401);
+  if (!user.active) throw new AuthError('This account has been deactivated', 403);
+
+  await updateUser(clientId, user.id, { lastLoginAt: new Date().toISOString() });
+  return issueTokens(user);
+}
+
+/**
+ * Exchanges a refresh token for a new access and refresh token. The old
+ * refresh token stops working.
+ * @throws {AuthError} 401 when the token or its session is no longer valid.
+ */
+export async function refresh(refreshToken) {
+  const [sessionId, secret] = String(refreshToken || '').split('.');
+  const session = sessionId && secret ? await getSession(sessionId) : null;
+  if (!isSessionActive(session)) throw new AuthError('Session expired; sign in again', 401);
+
+  if (session.refreshTokenHash !== hashOpaqueToken(secret)) {
+    // A spent token being replayed means it leaked: end the session
+    await revokeSession(session.id);
+    console.warn('[Auth] Refresh token reuse detected; revoked session', session.id);
+    throw new AuthError('Session expired; sign in again', 401);
+  }
+
+  const user = await getUser(session.clientId, session.userId);
+  if (!user || !user.active) {
+    await revokeSession(session.id);
+    throw new AuthError('This account has been deactivated', 403);
+  }
+  return issueTokens(user, session);
+}
+
+/**
+ * Ends the session a refresh token belongs to. Unknown tokens are ignored.
+ */
+export async function logout(refreshToken) {
+  const [sessionId] = String(refreshToken || '').split('.');
+  const session = sessionId ? await getSession(sessionId) : null;
+  if (isSessionActive(session)) await revokeSession(session.id);
+}
+
+/**
+ * Resolves an access token to its user, or null if the token is invalid,
+ * expired or its session has been revoked.
+ * @returns {Promise<object|null>} { id, username, role, clientId, agentId, permissions, sessionId }
+ */
+export async function authenticate(accessToken) {
+  const payload = verifyToken(accessToken);
+  if (!payload) return null;
+
+  const session = await getSession(payload.sid);
+  if (!isSessionActive(session)) return null;
+
+  const user = await getUser(payload.clientId, payload.sub);
+  if (!user || !user.active) return null;
+  return { ...toSessionUser(user), sessionId: session.id };
+}
+
+/**
+ * Normalizes the payee (agent) ID a user is mapped to, the value of the
+ * scheme's `baseMapping.agentField` in their records. Empty means unmapped.
+ * @param {string} clientId
+ * @param {string|null} agentId
+ * @param {string} [userId] The user being edited, who may keep their own ID.
+ * @returns {Promise<string|null>}
+ * @throws {AuthError} 409 if another user of the client is mapped to it.
+ */
+export async function checkAgentId(clientId, agentId, userId) {
+  const trimmed = String(agentId ?? '').trim();
+  if (!trimmed) return null;
+  const mapped = await findUserByAgentId(clientId, trimmed);
+  if (mapped && mapped.id !== userId) {
+    throw new AuthError(`Agent ID "${trimmed}" is already mapped to ${mapped.username}`, 409);
+  }
+  return trimmed;
+}
+
+/**
+ * Validates and stores a new user with a hashed password.
+ * @param {string} clientId
+ * @param {object} user { username, password, role, agentId }
+ * @throws {AuthError} 400 for invalid input, 409 if the username or agent ID is taken.
+ */
+export async function registerUser(clientId, { username, password, role, agentId }) {
+  const trimmed = String(username || '').trim();
+  if (!clientId || !trimmed) throw new AuthError('clientId and username are required', 400);
+  if (!ROLES.includes(role)) throw new AuthError(`role must be one of ${ROLES.join(', ')}`, 400);
+  if (String(password || '').length < MIN_PASSWORD_LENGTH) {
+    throw new AuthError(`Passwords need at least ${MIN_PASSWORD_LENGTH} characters`, 400);
+  }
+  if (await findUserForLogin(clientId, trimmed)) {
+    throw new AuthError(`User "${trimmed}" already exists for ${clientId}`, 409);
+  }
+  return createUser(clientId, {
+    username: trimmed,
+    passwordHash: await hashPassword(password),
+    role,
+    agentId: await checkAgentId(clientId, agentId),
+  });
+}
+
+/**
+ * Creates the first admin from BOOTSTRAP_ADMIN_PASSWORD (with
+ * BOOTSTRAP_ADMIN_USERNAME, default `admin`, and BOOTSTRAP_CLIENT_ID, default
+ * `CLIENT001`) when there are no users yet.
+ */
+export async function bootstrapAdmin() {
+  if ((await countUsers()) > 0) return;
+
+  const password = process.env.BOOTSTRAP_ADMIN_PASSWORD;
+  if (!password) {
+    console.warn('[Auth] No users yet; set BOOTSTRAP_ADMIN_PASSWORD or run "npm run create-user"');
+    return;
+  }
+  const user = await registerUser(process.env.BOOTSTRAP_CLIENT_ID || 'CLIENT001', {
+    username: process.env.BOOTSTRAP_ADMIN_USERNAME || 'admin',
+    password,
+    role: 'admin',
+  });
+  console.log('[Auth] Created bootstrap admin', user.username, 'for', user.clientId);
+}
@@ -0,0 +1,98 @@
+import { getRun, listRuns } from '../repositories/runRepository.js';
+
+// Only production runs are published to payees; simulations stay internal
+const PUBLISHED_MODE = 'production';
+
+const toPayeeSummary = (run) => ({
+  id: run.id,
+  schemeId: run.schemeId,
+  schemeVersion: run.schemeVersion,
+  SchemeID: run.SchemeID,
+  schemeName: run.schemeName,
+  runAsOfDate: run.runAsOfDate,
+  createdAt: run.createdAt,
+});
+
+const pick = (byAgent, agentId) =>
+  byAgent && agentId in byAgent ? { [agentId]: byAgent[agentId] } : {};
+
+// Team and Region rule logs describe the whole group; payees see the outcome
+const GROUP_DETAILS = ['members', 'aggregateValue', 'metricValue', 'recordCount'];
+
+const isGroupLog = (log) => log.details?.groupId != null && log.details.evaluationLevel !== 'Agent';
+
+const toPayeeLog = (log) => {
+  if (!isGroupLog(log)) return log;
+  const { evaluationLevel, groupId, passed } = log.details;
+  return {
+    ...log,
+    message: `${evaluationLevel} ${groupId} ${passed ? 'passed' : 'failed'} ${log.ruleType.toLowerCase()} rule ${log.ruleId}.`,
+    details: Object.fromEntries(Object.entries(log.details).filter(([key]) => !GROUP_DETAILS.includes(key))),
+  };
+};
+
+/**
+ * Narrows an engine result to one payee, keeping its shape: their entry in
+ * every per-agent map, their own records and the credits distributed to
+ * them. Other agents' figures are left out: credits keep who they came from
+ * and the amount received but not that agent's payout or split, and group
+ * rule logs keep the outcome but not the members or group totals.
+ * @param {object} result The stored SchemeRunResult.
+ * @param {string} agentId
+ */
+export function toPayeeResult(result, agentId) {
+  const logs = (result.ruleHitLogs?.[agentId] || []).map((log) => [log, toPayeeLog(log)]);
+  // Custom rules write the group message onto each record they evaluated
+  const groupMessages = new Map(
+    logs.filter(([log]) => isGroupLog(log)).map(([log, payeeLog]) => [log.message, payeeLog.message])
+  );
+  const received = result.creditDistributions?.[agentId] || [];
+
+  return {
+    meta: result.meta,
+    agentPayouts: pick(result.agentPayouts, agentId),
+    agentQualified: pick(result.agentQualified, agentId),
+    ruleHitLogs: agentId in (result.ruleHitLogs || {}) ? { [agentId]: logs.map(([, payeeLog]) => payeeLog) } : {},
+    creditDistributions: received.length > 0
+      ? {
+          [agentId]: received.map(({ fromAgent, role, amount, timestamp }) => ({ fromAgent, role, amount, timestamp })),
+        }
+      : {},
+    rawRecordLevelData: (result.rawRecordLevelData || [])
+      .filter((record) => record.agentId === agentId)
+      .map((record) =>
+        groupMessages.has(record.customRuleApplied)
+          ? { ...record, customRuleApplied: groupMessages.get(record.customRuleApplied) }
+          : record
+      ),
+    agentQuotas: pick(result.agentQuotas, agentId),
+    agentAttainment: pick(result.agentAttainment, agentId),
+    agentTierBreakdowns: pick(result.agentTierBreakdowns, agentId),
+    agentPayoutLimits: pick(result.agentPayoutLimits, agentId),
+  };
+}
+
+/**
+ * Lists the published runs a payee appears in, newest first, by the payee
+ * IDs stored on each run. Nothing about other payees or run totals is
+ * included.
+ * @param {string} clientId
+ * @param {string} agentId The signed-in agent's payee ID.
+ */
+export async function listPayeeRuns(clientId, agentId) {
+  const runs = await listRuns(clientId, { mode: PUBLISHED_MODE, payeeId: agentId });
+  return runs.map(toPayeeSummary);
+}
+
+/**
+ * Loads one published run narrowed to a payee.
+ * @param {string} clientId
+ * @param {string} id
+ * @param {string} agentId The signed-in agent's payee ID.
+ * @returns {Promise<object|null>} null unless it is a production run the payee appears in.
+ */
+export async function getPayeeRun(clientId, id, agentId) {
+  const run = await getRun(clientId, id);
+  if (!run || run.mode !== PUBLISHED_MODE || !run.payeeIds?.includes(agentId)) return null;
+  return { ...toPayeeSummary(run), result: toPayeeResult(run.result, agentId) };
+}
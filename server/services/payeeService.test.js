@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest';
+import { toPayeeResult } from './payeeService.js';
+
+const TIMESTAMP = '2025-12-31T00:00:00.000Z';
+
+const teamMessage = 'Team North passed qualification rule q1: Sum of Amount 1300.00 >= 1000 is true.';
+const customMessage =
+  'Custom rule c1 awarded Yearly bucket 2025 for Team North: Sum of Amount = 1300.00 >= 1000 is true.';
+
+// A1 and A2 sell in team North; A2 also receives a split of A3's payout
+const RESULT = {
+  meta: { schemeName: 'Fixture', processedAt: TIMESTAMP },
+  agentPayouts: { A1: '70.00', A2: '5.00', A3: '12.00' },
+  agentQualified: { A1: true, A2: true, A3: true },
+  agentQuotas: { A1: '1000.00', A2: '1000.00', A3: '1000.00' },
+  agentAttainment: { A1: '120.00', A2: '10.00', A3: '20.00' },
+  agentTierBreakdowns: { A1: [], A2: [], A3: [] },
+  agentPayoutLimits: { A1: [], A2: [], A3: [] },
+  ruleHitLogs: {
+    A1: [{ ruleType: 'Qualification', ruleId: 'q1', agentId: 'A1', message: teamMessage, timestamp: TIMESTAMP }],
+    A2: [
+      {
+        ruleType: 'Qualification',
+        ruleId: 'q1',
+        agentId: 'A2',
+        message: teamMessage,
+        details: {
+          evaluationLevel: 'Team',
+          groupId: 'North',
+          members: ['A1', 'A2'],
+          field: 'Amount',
+          aggregation: 'Sum',
+          aggregateValue: '1300.0000',
+          operator: '>=',
+          value: '1000',
+          recordCount: 3,
+          passed: true,
+        },
+        timestamp: TIMESTAMP,
+      },
+      {
+        ruleType: 'Custom',
+        ruleId: 'c1',
+        agentId: 'A2',
+        message: customMessage,
+        details: {
+          evaluationLevel: 'Team',
+          groupId: 'North',
+          period: 'Yearly',
+          bucket: '2025',
+          metric: 'Sum',
+          metricValue: '1300.00',
+          operator: '>=',
+          threshold: 1000,
+          recordCount: 3,
+          passed: true,
+        },
+        timestamp: TIMESTAMP,
+      },
+      {
+        ruleType: 'Qualification',
+        ruleId: 'q2',
+        agentId: 'A2',
+        message: 'Agent A2 passed qualification rule q2.',
+        details: { evaluationLevel: 'Agent', aggregateValue: '100.0000', recordCount: 1, passed: true },
+        timestamp: TIMESTAMP,
+      },
+    ],
+  },
+  creditDistributions: {
+    M1: [
+      {
+        fromAgent: 'A1',
+        role: 'Manager',
+        amount: '7.00',
+        timestamp: TIMESTAMP,
+        splitRuleId: 's1',
+        basePayout: '70.00',
+        percentage: '10.0000',
+      },
+    ],
+    A2: [
+      {
+        fromAgent: 'A3',
+        role: 'Mentor',
+        amount: '1.20',
+        timestamp: TIMESTAMP,
+        splitRuleId: 's2',
+        basePayout: '12.00',
+        percentage: '10.0000',
+      },
+    ],
+  },
+  rawRecordLevelData: [
+    { agentId: 'A1', transactionId: 'T1', adjustedAmount: '1200.00', customRuleApplied: customMessage },
+    { agentId: 'A2', transactionId: 'T3', adjustedAmount: '100.00', customRuleApplied: customMessage },
+  ],
+};
+
+describe('toPayeeResult', () => {
+  const result = toPayeeResult(RESULT, 'A2');
+
+  it('keeps only the payee in every per-agent map', () => {
+    for (const key of Object.keys(result).filter((key) => key !== 'meta' && key !== 'rawRecordLevelData')) {
+      expect(Object.keys(result[key]), key).toEqual(['A2']);
+    }
+    expect(result.rawRecordLevelData.map((record) => record.transactionId)).toEqual(['T3']);
+  });
+
+  it('keeps only the amount of each credit the payee received', () => {
+    expect(result.creditDistributions).toEqual({
+      A2: [{ fromAgent: 'A3', role: 'Mentor', amount: '1.20', timestamp: TIMESTAMP }],
+    });
+  });
+
+  it('keeps the outcome of group rules but not the members or group totals', () => {
+    const [qualification, custom, own] = result.ruleHitLogs.A2;
+
+    expect(qualification.message).toBe('Team North passed qualification rule q1.');
+    expect(qualification.details).toEqual({
+      evaluationLevel: 'Team',
+      groupId: 'North',
+      field: 'Amount',
+      aggregation: 'Sum',
+      operator: '>=',
+      value: '1000',
+      passed: true,
+    });
+    expect(custom.message).toBe('Team North passed custom rule c1.');
+    expect(custom.details).not.toHaveProperty('metricValue');
+    expect(custom.details).not.toHaveProperty('recordCount');
+    expect(result.rawRecordLevelData[0].customRuleApplied).toBe(custom.message);
+    expect(own).toBe(RESULT.ruleHitLogs.A2[2]);
+  });
+
+  it('returns nothing about another agent', () => {
+    const json = JSON.stringify(result);
+
+    for (const leaked of ['A1', 'M1', '70.00', '12.00', '1300', 'members', 'basePayout', 'percentage']) {
+      expect(json).not.toContain(leaked);
+    }
+  });
+});
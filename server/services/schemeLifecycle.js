@@ -0,0 +1,135 @@
+import { getScheme, setSchemeStatus } from '../repositories/schemeRepository.js';
+import { getVersion, listVersions, recordReview } from '../repositories/schemeVersionRepository.js';
+import { recordAudit } from './auditService.js';
+
+/**
+ * Lifecycle of a scheme version:
+ *
+ *   DRAFT --submit--> IN_REVIEW --approve--> ACTIVE --deactivate--> INACTIVE
+ *                         |
+ *                         +------reject-----> DRAFT
+ *
+ * Submitting, approving and rejecting act on the scheme's latest version;
+ * deactivating can target any ACTIVE version. Which roles may take each
+ * action is enforced by the routes; a version's submitter cannot review it.
+ */
+const TRANSITIONS = {
+  submit: { from: 'DRAFT', to: 'IN_REVIEW' },
+  approve: { from: 'IN_REVIEW', to: 'ACTIVE', review: true },
+  reject: { from: 'IN_REVIEW', to: 'DRAFT', commentRequired: true, review: true },
+  deactivate: { from: 'ACTIVE', to: 'INACTIVE' },
+};
+
+export class SchemeLifecycleError extends Error {
+  constructor(message, status) {
+    super(message);
+    this.name = 'SchemeLifecycleError';
+    this.status = status;
+  }
+}
+
+/**
+ * Whether two effective periods share at least one day. A missing
+ * effectiveTo means the period is open-ended.
+ */
+export function periodsOverlap(a, b) {
+  const aTo = a.effectiveTo || '9999-12-31';
+  const bTo = b.effectiveTo || '9999-12-31';
+  return a.effectiveFrom <= bTo && b.effectiveFrom <= aTo;
+}
+
+/**
+ * Applies a lifecycle action to a scheme version and records who took it,
+ * on the version and in the audit log.
+ * @param {string} clientId
+ * @param {string} schemeId
+ * @param {string} action submit | approve | reject | deactivate
+ * @param {object} user The acting user ({ id, username, role }).
+ * @param {object} options
+ * @param {number} [options.versionNumber] Defaults to the latest version.
+ * @param {string} [options.comment] Reviewer comment; required to reject.
+ *   Anything but a string (or nothing) is rejected with 400.
+ * @returns {Promise<object>} { scheme, version } after the change.
+ * @throws {SchemeLifecycleError} With the HTTP status to respond with.
+ */
+export async function transitionScheme(clientId, schemeId, action, user, { versionNumber, comment } = {}) {
+  const transition = TRANSITIONS[action];
+  if (!transition) throw new SchemeLifecycleError(`Unknown lifecycle action "${action}"`, 400);
+  if (comment != null && typeof comment !== 'string') {
+    throw new SchemeLifecycleError('comment must be a string', 400);
+  }
+
+  const scheme = await getScheme(clientId, schemeId);
+  if (!scheme) throw new SchemeLifecycleError('Scheme not found', 404);
+
+  const targetVersion = versionNumber ?? scheme.versionNumber;
+  if (action !== 'deactivate' && targetVersion !== scheme.versionNumber) {
+    throw new SchemeLifecycleError(`Only the latest version (${scheme.versionNumber}) can be ${action === 'submit' ? 'submitted' : 'reviewed'}`, 409);
+  }
+
+  const version = await getVersion(clientId, schemeId, targetVersion);
+  if (!version) throw new SchemeLifecycleError('Scheme version not found', 404);
+  if (version.status !== transition.from) {
+    throw new SchemeLifecycleError(
+      `Version ${targetVersion} is ${version.status}; only ${transition.from} versions can be ${action === 'submit' ? 'submitted' : `${action}d`}`,
+      409
+    );
+  }
+
+  if (transition.review) {
+    const submission = (version.reviews || []).filter((review) => review.action === 'submit').pop();
+    if (submission?.userId === user.id) {
+      throw new SchemeLifecycleError(`Version ${targetVersion} was submitted by you; another user must review it`, 409);
+    }
+  }
+
+  const trimmedComment = comment?.trim() || '';
+  if (transition.commentRequired && !trimmedComment) {
+    throw new SchemeLifecycleError('A comment is required to reject a scheme', 400);
+  }
+
+  if (transition.to === 'ACTIVE') {
+    const overlapping = (await listVersions(clientId, schemeId)).find(
+      (other) =>
+        other.status === 'ACTIVE' &&
+        other.versionNumber !== targetVersion &&
+        periodsOverlap(other, version.scheme)
+    );
+    if (overlapping) {
+      throw new SchemeLifecycleError(
+        `Version ${overlapping.versionNumber} is already ACTIVE for an overlapping period ` +
+          `(${overlapping.effectiveFrom} to ${overlapping.effectiveTo || 'open'}); deactivate it first`,
+        409
+      );
+    }
+  }
+
+  const updatedVersion = await recordReview(clientId, schemeId, targetVersion, transition.to, {
+    action,
+    from: transition.from,
+    to: transition.to,
+    userId: user.id,
+    username: user.username,
+    role: user.role,
+    comment: trimmedComment,
+    at: new Date().toISOString(),
+  });
+
+  // The scheme itself mirrors the status of its latest version
+  const updatedScheme = targetVersion === scheme.versionNumber
+    ? await setSchemeStatus(clientId, schemeId, transition.to)
+    : scheme;
+
+  await recordAudit({
+    clientId,
+    actor: user,
+    action: `scheme.${action}`,
+    entityType: 'scheme',
+    entityId: schemeId,
+    before: { status: transition.from },
+    after: { status: transition.to },
+    details: { versionNumber: targetVersion, comment: trimmedComment },
+  });
+
+  return { scheme: updatedScheme, version: updatedVersion };
+}
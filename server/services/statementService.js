@@ -0,0 +1,82 @@
+import { getRun, listPayees } from '../repositories/runRepository.js';
+import { getVersion } from '../repositories/schemeVersionRepository.js';
+import { renderStatementHtml } from '../statements/html.js';
+import { renderStatementPdf } from '../statements/pdf.js';
+import { buildStatement, statementFileName } from '../statements/statement.js';
+import { createZip } from '../statements/zip.js';
+
+export const STATEMENT_FORMATS = {
+  html: { contentType: 'text/html; charset=utf-8', render: renderStatementHtml },
+  pdf: { contentType: 'application/pdf', render: renderStatementPdf },
+};
+
+const toFile = (statement, format) => ({
+  fileName: statementFileName(statement, format),
+  contentType: STATEMENT_FORMATS[format].contentType,
+  body: STATEMENT_FORMATS[format].render(statement),
+});
+
+// Payee IDs that differ only in characters file names replace, such as
+// "A/1" and "A_1", would otherwise share a zip entry
+const uniqueName = (name, used) => {
+  let unique = name;
+  for (let copy = 2; used.has(unique); copy += 1) unique = name.replace(/(\.[^.]+)$/, `_${copy}$1`);
+  used.add(unique);
+  return unique;
+};
+
+// Runs stored before payee IDs were recorded fall back to their result
+const payeesOf = (run) => run.payeeIds || listPayees(run.result);
+
+async function loadRun(clientId, runId) {
+  const run = await getRun(clientId, runId);
+  if (!run) return null;
+  const version = await getVersion(clientId, run.schemeId, run.schemeVersion);
+  return { run, scheme: version?.scheme || null };
+}
+
+/**
+ * Renders one payee's statement for a run.
+ * @param {string} clientId
+ * @param {string} runId
+ * @param {string} agentId
+ * @param {string} format A key of STATEMENT_FORMATS.
+ * @param {object} [options] { publishedOnly } limits it to production runs,
+ *   for agents reading their own statement.
+ * @returns {Promise<object|null>} { fileName, contentType, body }, or null if
+ *   the run does not exist or does not pay the payee.
+ */
+export async function getStatement(clientId, runId, agentId, format, { publishedOnly = false } = {}) {
+  const loaded = await loadRun(clientId, runId);
+  if (!loaded || (publishedOnly && loaded.run.mode !== 'production')) return null;
+  if (!payeesOf(loaded.run).includes(agentId)) return null;
+  return toFile(buildStatement(loaded.run, agentId, loaded.scheme), format);
+}
+
+/**
+ * Renders every payee's statement for a run into one zip archive. File
+ * names that clash are numbered ("_2", "_3") so every payee keeps an entry.
+ * @param {string} clientId
+ * @param {string} runId
+ * @param {string} format A key of STATEMENT_FORMATS.
+ * @returns {Promise<object|null>} { fileName, contentType, body, count }, or
+ *   null if the run does not exist.
+ */
+export async function exportStatements(clientId, runId, format) {
+  const loaded = await loadRun(clientId, runId);
+  if (!loaded) return null;
+
+  const { run, scheme } = loaded;
+  const used = new Set();
+  const files = payeesOf(run).map((agentId) => {
+    const file = toFile(buildStatement(run, agentId, scheme), format);
+    return { name: uniqueName(file.fileName, used), data: file.body };
+  });
+  const name = `statements_${run.SchemeID || run.schemeId}_v${run.schemeVersion}_${run.runAsOfDate}`;
+  return {
+    fileName: `${name.replace(/[^A-Za-z0-9._-]/g, '_')}.zip`,
+    contentType: 'application/zip',
+    body: createZip(files),
+    count: files.length,
+  };
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it, vi } from 'vitest';
+import { getRun } from '../repositories/runRepository.js';
+import { exportStatements } from './statementService.js';
+
+vi.mock('../repositories/runRepository.js', () => ({ getRun: vi.fn(), listPayees: vi.fn() }));
+vi.mock('../repositories/schemeVersionRepository.js', () => ({ getVersion: vi.fn(async () => null) }));
+
+const makeRun = (payeeIds) => {
+  const byPayee = (value) => Object.fromEntries(payeeIds.map((id) => [id, value]));
+  return {
+    id: 'run-1',
+    mode: 'production',
+    schemeId: 'scheme-1',
+    SchemeID: 'S1',
+    schemeName: 'Fixture',
+    schemeVersion: 1,
+    runAsOfDate: '2025-12-31',
+    payeeIds,
+    result: {
+      meta: { schemeName: 'Fixture', processedAt: '2025-12-31T00:00:00.000Z' },
+      agentPayouts: byPayee('10.00'),
+      agentQualified: byPayee(true),
+      agentQuotas: byPayee('1000.00'),
+      agentAttainment: byPayee('1.00'),
+      agentTierBreakdowns: byPayee([]),
+      agentPayoutLimits: byPayee([]),
+      ruleHitLogs: byPayee([]),
+      creditDistributions: {},
+      rawRecordLevelData: [],
+    },
+  };
+};
+
+// File names from the zip's central directory
+const entryNames = (zip) => {
+  const end = zip.length - 22;
+  const names = [];
+  let position = zip.readUInt32LE(end + 16);
+  for (let index = 0; index < zip.readUInt16LE(end + 10); index += 1) {
+    const nameLength = zip.readUInt16LE(position + 28);
+    names.push(zip.toString('utf8', position + 46, position + 46 + nameLength));
+    position += 46 + nameLength + zip.readUInt16LE(position + 30) + zip.readUInt16LE(position + 32);
+  }
+  return names;
+};
+
+describe('exportStatements', () => {
+  it('numbers payees whose file names would clash', async () => {
+    getRun.mockResolvedValue(makeRun(['A/1', 'A_1', 'A 1', 'B1']));
+
+    const archive = await exportStatements('C1', 'run-1', 'html');
+
+    expect(archive.count).toBe(4);
+    expect(entryNames(archive.body)).toEqual([
+      'statement_S1_v1_2025-12-31_A_1.html',
+      'statement_S1_v1_2025-12-31_A_1_2.html',
+      'statement_S1_v1_2025-12-31_A_1_3.html',
+      'statement_S1_v1_2025-12-31_B1.html',
+    ]);
+  });
+});
@@ -0,0 +1,170 @@
+import { hashPassword, MIN_PASSWORD_LENGTH } from '../auth/passwords.js';
+import { getRun, listRuns } from '../repositories/runRepository.js';
+import { revokeUserSessions } from '../repositories/sessionRepository.js';
+import { getUser, listUsers, updateUser } from '../repositories/userRepository.js';
+import { recordAudit } from './auditService.js';
+import { AuthError, checkAgentId, registerUser, ROLES } from './authService.js';
+
+// Bulk imports are sent as JSON rows; this keeps one request reasonable
+export const MAX_IMPORT_ROWS = 1000;
+
+const auditUser = (clientId, actor, action, user, before, after, details) =>
+  recordAudit({
+    clientId,
+    actor,
+    action,
+    entityType: 'user',
+    entityId: user.id,
+    before,
+    after,
+    details: { username: user.username, ...details },
+  });
+
+/**
+ * Creates a user for the admin's client.
+ * @param {string} clientId
+ * @param {object} input { username, password, role, agentId }
+ * @param {object} actor The admin creating it.
+ * @throws {AuthError} 400 for invalid input, 409 if the username or agent ID is taken.
+ */
+export async function createManagedUser(clientId, input, actor) {
+  const user = await registerUser(clientId, input);
+  await auditUser(clientId, actor, 'user.create', user, null, user);
+  console.log('[Users] Created', user.role, user.username, 'for', clientId);
+  return user;
+}
+
+/**
+ * Changes a user's role, agent ID, password or whether they are active.
+ * Deactivating a user or setting their password signs them out everywhere.
+ * Admins cannot demote or deactivate themselves, and a client always keeps
+ * one active admin.
+ * @param {string} clientId
+ * @param {string} id
+ * @param {object} changes Any of { role, agentId, active, password }.
+ * @param {object} actor The admin making the change.
+ * @throws {AuthError} 400 for invalid input, 404 for an unknown user and
+ *   409 for a change that is not allowed.
+ */
+export async function updateManagedUser(clientId, id, { role, agentId, active, password }, actor) {
+  const existing = await getUser(clientId, id);
+  if (!existing) throw new AuthError('User not found', 404);
+
+  const updates = {};
+  if (role !== undefined) {
+    if (!ROLES.includes(role)) throw new AuthError(`role must be one of ${ROLES.join(', ')}`, 400);
+    updates.role = role;
+  }
+  if (active !== undefined) {
+    if (typeof active !== 'boolean') throw new AuthError('active must be true or false', 400);
+    updates.active = active;
+  }
+  if (agentId !== undefined) updates.agentId = await checkAgentId(clientId, agentId, id);
+  if (password !== undefined) {
+    if (String(password).length < MIN_PASSWORD_LENGTH) {
+      throw new AuthError(`Passwords need at least ${MIN_PASSWORD_LENGTH} characters`, 400);
+    }
+    updates.passwordHash = await hashPassword(String(password));
+  }
+
+  const losesAdmin =
+    existing.role === 'admin' && existing.active &&
+    ((updates.role && updates.role !== 'admin') || updates.active === false);
+  if (losesAdmin && id === actor.id) {
+    throw new AuthError('You cannot remove your own admin role or deactivate yourself', 409);
+  }
+  if (losesAdmin) {
+    const admins = (await listUsers(clientId)).filter((user) => user.role === 'admin' && user.active);
+    if (admins.length <= 1) throw new AuthError(`${existing.username} is the last active admin`, 409);
+  }
+
+  const user = await updateUser(clientId, id, updates);
+  const signedOut = updates.active === false || updates.passwordHash
+    ? await revokeUserSessions(clientId, id)
+    : 0;
+
+  const action = updates.active === false && existing.active
+    ? 'user.deactivate'
+    : updates.active === true && !existing.active
+      ? 'user.activate'
+      : 'user.update';
+  await auditUser(clientId, actor, action, user, existing, user, {
+    passwordChanged: Boolean(updates.passwordHash),
+    sessionsRevoked: signedOut,
+  });
+  console.log('[Users]', action, user.username, 'for', clientId, signedOut ? `(${signedOut} session(s) revoked)` : '');
+  return user;
+}
+
+/**
+ * Creates users from imported rows. Each row is created on its own; rows
+ * that fail are reported with their (1-based) row number and do not stop
+ * the others. Every row must be an object, which is checked before any user
+ * is created. The import is audited with the users that were created even
+ * if an unexpected error stops it part way.
+ * @param {string} clientId
+ * @param {object[]} rows { username, password, role, agentId } per user.
+ * @param {object} actor The admin importing them.
+ * @returns {Promise<object>} { created, errors: [{ row, username, error }] }
+ * @throws {AuthError} 400 if any row is not an object.
+ */
+export async function importUsers(clientId, rows, actor) {
+  const malformed = rows
+    .map((row, index) => (row && typeof row === 'object' && !Array.isArray(row) ? null : index + 1))
+    .filter((row) => row !== null);
+  if (malformed.length) {
+    throw new AuthError(`Each user must be an object (rows ${malformed.join(', ')})`, 400);
+  }
+
+  const created = [];
+  const errors = [];
+  try {
+    for (const [index, row] of rows.entries()) {
+      try {
+        created.push(await createManagedUser(clientId, row, actor));
+      } catch (error) {
+        if (!(error instanceof AuthError)) throw error;
+        errors.push({ row: index + 1, username: row.username ?? '', error: error.message });
+      }
+    }
+  } finally {
+    await recordAudit({
+      clientId,
+      actor,
+      action: 'user.import',
+      entityType: 'user',
+      details: {
+        rows: rows.length,
+        created: created.length,
+        failed: errors.length,
+        usernames: created.map((user) => user.username),
+      },
+    });
+  }
+  return { created, errors };
+}
+
+/**
+ * The payee IDs in each scheme's latest run, for mapping agent users to
+ * them. Each maps to the schemes it was paid under.
+ * @param {string} clientId
+ * @returns {Promise<object[]>} { agentId, schemes } sorted by agent ID.
+ */
+export async function listKnownAgentIds(clientId) {
+  const latestPerScheme = new Map();
+  for (const run of await listRuns(clientId)) {
+    if (!latestPerScheme.has(run.schemeId)) latestPerScheme.set(run.schemeId, run);
+  }
+
+  const schemesByAgent = new Map();
+  for (const summary of latestPerScheme.values()) {
+    const run = await getRun(clientId, summary.id);
+    for (const agentId of Object.keys(run?.result?.agentPayouts || {})) {
+      const schemes = schemesByAgent.get(agentId) || [];
+      schemesByAgent.set(agentId, [...schemes, summary.schemeName || summary.schemeId]);
+    }
+  }
+  return [...schemesByAgent.entries()]
+    .map(([agentId, schemes]) => ({ agentId, schemes }))
+    .sort((a, b) => a.agentId.localeCompare(b.agentId, undefined, { numeric: true }));
+}
@@ -0,0 +1,70 @@
+import { layoutStatement } from './statement.js';
+
+const escapeHtml = (value) =>
+  String(value ?? '').replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+const STYLES = `
+  body { font-family: Helvetica, Arial, sans-serif; color: #111827; margin: 40px; font-size: 13px; }
+  h1 { font-size: 22px; margin: 0 0 16px; }
+  h2 { font-size: 15px; margin: 28px 0 8px; }
+  dl { display: grid; grid-template-columns: max-content auto; gap: 4px 24px; margin: 0; }
+  dt { color: #6b7280; }
+  dd { margin: 0; }
+  table { width: 100%; border-collapse: collapse; }
+  th { text-align: left; font-size: 11px; text-transform: uppercase; color: #6b7280; background: #f9fafb; }
+  th, td { padding: 6px 8px; border-bottom: 1px solid #e5e7eb; }
+  .numeric { text-align: right; font-variant-numeric: tabular-nums; }
+  .total td { font-weight: bold; border-top: 2px solid #111827; }
+  .empty { color: #6b7280; font-style: italic; }
+  footer { margin-top: 32px; font-size: 11px; color: #6b7280; }
+  @media print { body { margin: 0; } h2 { break-after: avoid; } tr { break-inside: avoid; } }
+`;
+
+const renderSection = ({ title, columns, rows, empty, total }) => {
+  const cell = (value, column, tag = 'td') =>
+    `<${tag}${column?.numeric ? ' class="numeric"' : ''}>${escapeHtml(value)}</${tag}>`;
+
+  if (rows.length === 0) {
+    return `<h2>${escapeHtml(title)}</h2>\n<p class="empty">${escapeHtml(empty)}</p>`;
+  }
+
+  const totalRow = total
+    ? `<tr class="total"><td colspan="${columns.length - 1}">${escapeHtml(total[0])}</td>${cell(total[1], columns[columns.length - 1])}</tr>`
+    : '';
+  return [
+    `<h2>${escapeHtml(title)}</h2>`,
+    '<table>',
+    `<thead><tr>${columns.map((column) => cell(column.label, column, 'th')).join('')}</tr></thead>`,
+    '<tbody>',
+    ...rows.map((row) => `<tr>${row.map((value, index) => cell(value, columns[index])).join('')}</tr>`),
+    totalRow,
+    '</tbody>',
+    '</table>',
+  ].join('\n');
+};
+
+/**
+ * Renders a payee's statement as a standalone HTML page styled for printing.
+ * @param {object} statement From buildStatement.
+ * @returns {string}
+ */
+export function renderStatementHtml(statement) {
+  const { title, fields, sections } = layoutStatement(statement);
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<dl>
+${fields.map(([label, value]) => `<dt>${escapeHtml(label)}</dt><dd>${escapeHtml(value)}</dd>`).join('\n')}
+</dl>
+${sections.map(renderSection).join('\n')}
+<footer>Calculated ${escapeHtml(statement.processedAt)}</footer>
+</body>
+</html>
+`;
+}
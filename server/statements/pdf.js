@@ -0,0 +1,231 @@
+import { deflateSync } from 'node:zlib';
+import { layoutStatement } from './statement.js';
+
+// A4 in points
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 40;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+const FOOTER_Y = 24;
+const ROW_HEIGHT = 14;
+const TABLE_FONT_SIZE = 8.5;
+const CELL_PADDING = 4;
+
+// The standard fonts use WinAnsiEncoding; characters outside it print as "?"
+const WIN_ANSI_EXTRAS = { '€': 0x80, '•': 0x95, '–': 0x96, '—': 0x97, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94 };
+
+const toWinAnsi = (text) =>
+  [...String(text ?? '')]
+    .map((char) => {
+      const code = char.codePointAt(0);
+      return String.fromCharCode(code < 256 ? code : WIN_ANSI_EXTRAS[char] ?? 0x3f);
+    })
+    .join('');
+
+const pdfString = (text) => `(${toWinAnsi(text).replace(/[\\()]/g, '\\$&')})`;
+
+// Helvetica advance widths (per 1000 units): exact for digits and
+// punctuation, so numeric columns line up, and averaged for letters
+const charWidth = (char) => {
+  if (/[0-9]/.test(char)) return 556;
+  if ('.,: '.includes(char)) return 278;
+  if (char === '%') return 889;
+  if (char === '-') return 333;
+  if (/[A-Z]/.test(char)) return 667;
+  if (/[a-z]/.test(char)) return 500;
+  return 556;
+};
+
+const textWidth = (text, size, bold = false) =>
+  ([...String(text)].reduce((width, char) => width + charWidth(char), 0) * size * (bold ? 1.05 : 1)) / 1000;
+
+const fitText = (text, width, size, bold) => {
+  let fitted = String(text);
+  if (textWidth(fitted, size, bold) <= width) return fitted;
+  while (fitted.length > 0 && textWidth(`${fitted}...`, size, bold) > width) fitted = fitted.slice(0, -1);
+  return `${fitted}...`;
+};
+
+/** Pages of text and rules, drawn top to bottom. */
+class PdfPages {
+  constructor() {
+    this.pages = [];
+    this.newPage();
+  }
+
+  newPage() {
+    this.ops = [];
+    this.pages.push(this.ops);
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  /** Starts a new page unless `height` more points fit above the footer. */
+  ensure(height) {
+    if (this.y - height < MARGIN) this.newPage();
+  }
+
+  text(x, y, text, { size = TABLE_FONT_SIZE, bold = false, gray = false } = {}) {
+    this.ops.push(
+      `BT ${gray ? '0.42 0.45 0.5' : '0 0 0'} rg /${bold ? 'F2' : 'F1'} ${size} Tf ${x.toFixed(2)} ${y.toFixed(2)} Td ${pdfString(text)} Tj ET`
+    );
+  }
+
+  rule(y, width = 0.5) {
+    this.ops.push(`${width} w 0.8 0.82 0.85 RG ${MARGIN} ${y.toFixed(2)} m ${(MARGIN + CONTENT_WIDTH).toFixed(2)} ${y.toFixed(2)} l S`);
+  }
+
+  /**
+   * Serializes the pages with "Page n of m" and `footer` at the bottom of each.
+   * @returns {Buffer}
+   */
+  toBuffer(title, footer) {
+    const objects = [null, null];
+    const add = (body) => {
+      objects.push(body);
+      return objects.length;
+    };
+    const fonts = ['Helvetica', 'Helvetica-Bold'].map((font) =>
+      add(`<< /Type /Font /Subtype /Type1 /BaseFont /${font} /Encoding /WinAnsiEncoding >>`)
+    );
+    const info = add(`<< /Title ${pdfString(title)} /Producer (ICM statements) >>`);
+
+    const pageIds = this.pages.map((ops, index) => {
+      const footerOps = [
+        `BT 0.42 0.45 0.5 rg /F1 8 Tf ${MARGIN} ${FOOTER_Y} Td ${pdfString(footer)} Tj ET`,
+        `BT 0.42 0.45 0.5 rg /F1 8 Tf ${(PAGE_WIDTH - MARGIN - 60).toFixed(2)} ${FOOTER_Y} Td ${pdfString(`Page ${index + 1} of ${this.pages.length}`)} Tj ET`,
+      ];
+      const content = deflateSync(Buffer.from([...ops, ...footerOps].join('\n'), 'latin1'));
+      const contentId = add(
+        Buffer.concat([
+          Buffer.from(`<< /Length ${content.length} /Filter /FlateDecode >>\nstream\n`, 'latin1'),
+          content,
+          Buffer.from('\nendstream', 'latin1'),
+        ])
+      );
+      return add(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+          `/Resources << /Font << /F1 ${fonts[0]} 0 R /F2 ${fonts[1]} 0 R >> >> /Contents ${contentId} 0 R >>`
+      );
+    });
+    objects[0] = '<< /Type /Catalog /Pages 2 0 R >>';
+    objects[1] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+
+    const chunks = [Buffer.from('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n', 'latin1')];
+    const offsets = [];
+    let length = chunks[0].length;
+    objects.forEach((body, index) => {
+      const chunk = Buffer.concat([
+        Buffer.from(`${index + 1} 0 obj\n`, 'latin1'),
+        Buffer.isBuffer(body) ? body : Buffer.from(body, 'latin1'),
+        Buffer.from('\nendobj\n', 'latin1'),
+      ]);
+      offsets.push(length);
+      chunks.push(chunk);
+      length += chunk.length;
+    });
+
+    const xref = [
+      'xref',
+      `0 ${objects.length + 1}`,
+      '0000000000 65535 f ',
+      ...offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n `),
+      'trailer',
+      `<< /Size ${objects.length + 1} /Root 1 0 R /Info ${info} 0 R >>`,
+      'startxref',
+      String(length),
+      '%%EOF',
+      '',
+    ].join('\n');
+    chunks.push(Buffer.from(xref, 'latin1'));
+    return Buffer.concat(chunks);
+  }
+}
+
+const columnWidths = (columns, rows, total) => {
+  const cap = CONTENT_WIDTH / 2;
+  const natural = columns.map((column, index) =>
+    Math.min(
+      cap,
+      Math.max(
+        textWidth(column.label.toUpperCase(), TABLE_FONT_SIZE, true),
+        ...rows.map((row) => textWidth(row[index] ?? '', TABLE_FONT_SIZE)),
+        total && index === 0 ? textWidth(total[0], TABLE_FONT_SIZE, true) : 0,
+        total && index === columns.length - 1 ? textWidth(total[1], TABLE_FONT_SIZE, true) : 0
+      ) + 2 * CELL_PADDING
+    )
+  );
+  const scale = CONTENT_WIDTH / natural.reduce((sum, width) => sum + width, 0);
+  return natural.map((width) => width * scale);
+};
+
+const drawRow = (pdf, columns, widths, cells, { bold = false, gray = false } = {}) => {
+  let x = MARGIN;
+  const y = pdf.y - ROW_HEIGHT + 4;
+  cells.forEach((value, index) => {
+    const width = widths[index] ?? 0;
+    const text = fitText(value ?? '', width - 2 * CELL_PADDING, TABLE_FONT_SIZE, bold);
+    const left = columns[index]?.numeric
+      ? x + width - CELL_PADDING - textWidth(text, TABLE_FONT_SIZE, bold)
+      : x + CELL_PADDING;
+    pdf.text(left, y, text, { bold, gray });
+    x += width;
+  });
+  pdf.y -= ROW_HEIGHT;
+};
+
+const drawSection = (pdf, { title, columns, rows, empty, total }) => {
+  pdf.ensure(24 + 3 * ROW_HEIGHT);
+  pdf.y -= 24;
+  pdf.text(MARGIN, pdf.y, title, { size: 12, bold: true });
+  pdf.y -= 6;
+
+  if (rows.length === 0) {
+    pdf.y -= ROW_HEIGHT;
+    pdf.text(MARGIN, pdf.y + 4, empty, { gray: true });
+    return;
+  }
+
+  const widths = columnWidths(columns, rows, total);
+  const drawHeader = () => {
+    drawRow(pdf, columns, widths, columns.map((column) => column.label.toUpperCase()), { bold: true, gray: true });
+    pdf.rule(pdf.y + 1);
+  };
+
+  drawHeader();
+  rows.forEach((row) => {
+    if (pdf.y - ROW_HEIGHT < MARGIN) {
+      pdf.newPage();
+      drawHeader();
+    }
+    drawRow(pdf, columns, widths, row);
+  });
+  if (total) {
+    pdf.ensure(ROW_HEIGHT + 2);
+    pdf.rule(pdf.y, 1);
+    const cells = [total[0], ...Array(columns.length - 2).fill(''), total[1]];
+    drawRow(pdf, columns, widths, cells, { bold: true });
+  }
+};
+
+/**
+ * Renders a payee's statement as a PDF on A4 pages, using the standard
+ * Helvetica fonts so no font files are embedded.
+ * @param {object} statement From buildStatement.
+ * @returns {Buffer}
+ */
+export function renderStatementPdf(statement) {
+  const { title, fields, sections } = layoutStatement(statement);
+  const pdf = new PdfPages();
+
+  pdf.y -= 16;
+  pdf.text(MARGIN, pdf.y, title, { size: 16, bold: true });
+  pdf.y -= 10;
+  fields.forEach(([label, value]) => {
+    pdf.y -= ROW_HEIGHT;
+    pdf.text(MARGIN, pdf.y, label, { size: 9, gray: true });
+    pdf.text(MARGIN + 90, pdf.y, fitText(value, CONTENT_WIDTH - 90, 9, false), { size: 9 });
+  });
+  sections.forEach((section) => drawSection(pdf, section));
+
+  return pdf.toBuffer(title, `Calculated ${statement.processedAt}`);
+}
@@ -0,0 +1,87 @@
+import { inflateSync } from 'node:zlib';
+import { describe, expect, it } from 'vitest';
+import { renderStatementPdf } from './pdf.js';
+import { buildStatement } from './statement.js';
+
+const makeRun = (transactions) => ({
+  id: 'run-1',
+  mode: 'production',
+  SchemeID: 'S1',
+  schemeName: 'Fixture (—) scheme',
+  schemeVersion: 2,
+  runAsOfDate: '2025-12-31',
+  result: {
+    meta: { schemeName: 'Fixture', processedAt: '2025-12-31T00:00:00.000Z' },
+    agentPayouts: { A1: '70.00' },
+    agentQualified: { A1: true },
+    agentQuotas: { A1: '1000.00' },
+    agentAttainment: { A1: '120.00' },
+    agentTierBreakdowns: { A1: [] },
+    agentPayoutLimits: { A1: [] },
+    ruleHitLogs: { A1: [] },
+    creditDistributions: {},
+    rawRecordLevelData: Array.from({ length: transactions }, (_, index) => ({
+      agentId: 'A1',
+      transactionId: `T${index + 1}`,
+      transactionDate: '2025-01-10',
+      originalAmount: '100.00',
+      rateMultiplier: '1.0000',
+      adjustedAmount: '100.00',
+    })),
+  },
+});
+
+const render = (transactions) => renderStatementPdf(buildStatement(makeRun(transactions), 'A1', null));
+
+// Checks the cross-reference table against where each object really starts
+const readObjects = (pdf) => {
+  const text = pdf.toString('latin1');
+  expect(text.startsWith('%PDF-1.4\n')).toBe(true);
+  expect(text.endsWith('%%EOF\n')).toBe(true);
+
+  const startxref = Number(text.match(/startxref\n(\d+)\n%%EOF\n$/)[1]);
+  expect(text.slice(startxref, startxref + 5)).toBe('xref\n');
+  const [, first, count] = text.slice(startxref).match(/^xref\n(\d+) (\d+)\n/);
+  expect(Number(first)).toBe(0);
+  expect(text).toContain(`/Size ${count} `);
+
+  const entries = text.slice(startxref).split('\n').slice(2, 2 + Number(count));
+  expect(entries[0]).toBe('0000000000 65535 f ');
+  const objects = entries.slice(1).map((entry, index) => {
+    expect(entry).toMatch(/^\d{10} 00000 n $/);
+    const offset = Number(entry.slice(0, 10));
+    expect(text.startsWith(`${index + 1} 0 obj\n`, offset)).toBe(true);
+    return text.slice(offset, text.indexOf('\nendobj\n', offset));
+  });
+  return { text, objects };
+};
+
+describe('renderStatementPdf', () => {
+  it('writes an xref table whose offsets point at each object', () => {
+    const { objects } = readObjects(render(3));
+
+    expect(objects[0]).toContain('/Type /Catalog /Pages 2 0 R');
+    expect(objects[1]).toContain('/Count 1');
+  });
+
+  it('gives every content stream its real length', () => {
+    const { objects } = readObjects(render(3));
+    const streams = objects.filter((object) => object.includes('stream\n'));
+
+    expect(streams).toHaveLength(1);
+    for (const object of streams) {
+      const length = Number(object.match(/\/Length (\d+)/)[1]);
+      const data = object.slice(object.indexOf('stream\n') + 7, object.lastIndexOf('\nendstream'));
+      expect(data).toHaveLength(length);
+      expect(inflateSync(Buffer.from(data, 'latin1')).toString('latin1')).toContain('(Page 1 of 1) Tj');
+    }
+  });
+
+  it('continues long tables on new pages', () => {
+    const { objects } = readObjects(render(120));
+    const pages = objects.filter((object) => object.includes('/Type /Page '));
+
+    expect(pages.length).toBeGreaterThan(1);
+    expect(objects[1]).toContain(`/Count ${pages.length}`);
+  });
+});
@@ -0,0 +1,199 @@
+import Decimal from 'decimal.js';
+
+const sum = (values) => values.reduce((total, value) => total.plus(value || 0), new Decimal(0)).toFixed(2);
+
+/**
+ * Collects what a payee's statement shows for a run. The final payout is the
+ * payee's own payout (after tiers, adjustments and cap or floor) plus the
+ * credit splits they received from other agents' payouts.
+ * @param {object} run The stored run, with its result.
+ * @param {string} agentId
+ * @param {object|null} scheme The scheme of the run's version, for its period.
+ */
+export function buildStatement(run, agentId, scheme) {
+  const { result } = run;
+  const records = result.rawRecordLevelData.filter((record) => record.agentId === agentId);
+  const credited = records.filter((record) => !record.isExcluded);
+  const excluded = records.filter((record) => record.isExcluded);
+  const creditsReceived = result.creditDistributions[agentId] || [];
+  const payout = result.agentPayouts[agentId] ?? '0.00';
+  const creditsTotal = sum(creditsReceived.map((distribution) => distribution.amount));
+
+  return {
+    runId: run.id,
+    mode: run.mode,
+    agentId,
+    scheme: {
+      id: run.SchemeID || run.schemeId,
+      name: run.schemeName || result.meta.schemeName,
+      version: run.schemeVersion,
+    },
+    period: {
+      from: scheme?.effectiveFrom || null,
+      to: scheme?.effectiveTo || null,
+      asOf: run.runAsOfDate,
+    },
+    processedAt: result.meta.processedAt,
+    qualified: result.agentQualified[agentId] ?? false,
+    quota: result.agentQuotas[agentId] ?? null,
+    attainment: result.agentAttainment[agentId] ?? null,
+    transactions: credited.map((record) => ({
+      transactionId: record.transactionId,
+      transactionDate: record.transactionDate,
+      originalAmount: record.originalAmount,
+      rateMultiplier: record.rateMultiplier,
+      adjustedAmount: record.adjustedAmount,
+      rule: record.adjustmentApplied || record.customRuleApplied || null,
+    })),
+    creditedTotal: sum(credited.map((record) => record.adjustedAmount)),
+    exclusions: excluded.map((record) => ({
+      transactionId: record.transactionId,
+      transactionDate: record.transactionDate,
+      originalAmount: record.originalAmount,
+      reason: record.exclusionReason || 'Excluded',
+    })),
+    tiers: result.agentTierBreakdowns[agentId] || [],
+    adjustments: (result.ruleHitLogs[agentId] || [])
+      .filter((log) => log.ruleType === 'Adjustment')
+      .map((log) => ({ ruleId: log.ruleId || null, recordId: log.recordId || null, message: log.message })),
+    payoutLimits: result.agentPayoutLimits[agentId] || [],
+    creditsReceived: creditsReceived.map((distribution) => ({
+      fromAgent: distribution.fromAgent,
+      role: distribution.role,
+      basePayout: distribution.basePayout ?? null,
+      percentage: distribution.percentage ?? null,
+      amount: distribution.amount,
+    })),
+    payout,
+    creditsTotal,
+    finalPayout: new Decimal(payout).plus(creditsTotal).toFixed(2),
+  };
+}
+
+const formatAmount = (value) =>
+  value == null
+    ? '—'
+    : Number(value).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const formatPeriod = ({ from, to, asOf }) =>
+  from && to ? `${from} to ${to} (as of ${asOf})` : `As of ${asOf}`;
+
+/**
+ * Lays a statement out as a title, headline fields and tables, so the HTML
+ * and PDF renderers print the same document.
+ * @param {object} statement From buildStatement.
+ * @returns {object} { title, fields: [[label, value]], sections: [{ title,
+ *   columns: [{ label, numeric }], rows: string[][], empty, total }] }
+ */
+export function layoutStatement(statement) {
+  const table = (title, columns, rows, empty, total = null) => ({
+    title,
+    columns: columns.map(([label, numeric = false]) => ({ label, numeric })),
+    rows,
+    empty,
+    total,
+  });
+
+  return {
+    title: `Payout statement: ${statement.agentId}`,
+    fields: [
+      ['Payee', statement.agentId],
+      ['Scheme', `${statement.scheme.name} (${statement.scheme.id}, version ${statement.scheme.version})`],
+      ['Period', formatPeriod(statement.period)],
+      ['Run', `${statement.runId} (${statement.mode})`],
+      ['Qualified', statement.qualified ? 'Yes' : 'No'],
+      ['Quota', formatAmount(statement.quota)],
+      ['Attainment', statement.attainment == null ? '—' : `${statement.attainment}%`],
+      ['Final payout', formatAmount(statement.finalPayout)],
+    ],
+    sections: [
+      table(
+        'Credited transactions',
+        [['Transaction'], ['Date'], ['Amount', true], ['Rate', true], ['Credited', true], ['Rule']],
+        statement.transactions.map((transaction) => [
+          transaction.transactionId,
+          transaction.transactionDate,
+          formatAmount(transaction.originalAmount),
+          transaction.rateMultiplier,
+          formatAmount(transaction.adjustedAmount),
+          transaction.rule || '',
+        ]),
+        'No credited transactions.',
+        ['Total credited', formatAmount(statement.creditedTotal)]
+      ),
+      table(
+        'Exclusions',
+        [['Transaction'], ['Date'], ['Amount', true], ['Reason']],
+        statement.exclusions.map((exclusion) => [
+          exclusion.transactionId,
+          exclusion.transactionDate,
+          formatAmount(exclusion.originalAmount),
+          exclusion.reason,
+        ]),
+        'No transactions were excluded.'
+      ),
+      table(
+        'Tier breakdown',
+        [['Tier'], ['From', true], ['To', true], ['Rate', true], ['Amount in tier', true], ['Payout', true]],
+        statement.tiers.map((tier) => [
+          String(tier.tierNumber),
+          formatAmount(tier.from),
+          tier.to == null ? 'and above' : formatAmount(tier.to),
+          tier.isPercentage ? `${tier.rate}%` : formatAmount(tier.rate),
+          formatAmount(tier.amountInTier),
+          formatAmount(tier.payout),
+        ]),
+        'No tiers were reached.'
+      ),
+      table(
+        'Adjustments',
+        [['Rule'], ['Record'], ['Detail']],
+        [
+          ...statement.adjustments.map((adjustment) => [
+            adjustment.ruleId || '',
+            adjustment.recordId || '',
+            adjustment.message,
+          ]),
+          ...statement.payoutLimits.map((hit) => [
+            `${hit.limit} (${hit.source})`,
+            '',
+            `Limit ${formatAmount(hit.limitAmount)}: payout ${formatAmount(hit.payoutBefore)} to ${formatAmount(hit.payoutAfter)}`,
+          ]),
+        ],
+        'No adjustments were applied.'
+      ),
+      table(
+        'Credit splits received',
+        [['From agent'], ['Role'], ['Their payout', true], ['Share', true], ['Amount', true]],
+        statement.creditsReceived.map((credit) => [
+          credit.fromAgent,
+          credit.role,
+          formatAmount(credit.basePayout),
+          credit.percentage == null ? '—' : `${Number(credit.percentage)}%`,
+          formatAmount(credit.amount),
+        ]),
+        'No credit splits were received.',
+        ['Total received', formatAmount(statement.creditsTotal)]
+      ),
+      table(
+        'Final payout',
+        [['Component'], ['Amount', true]],
+        [
+          ['Own payout', formatAmount(statement.payout)],
+          ['Credit splits received', formatAmount(statement.creditsTotal)],
+        ],
+        '',
+        ['Final payout', formatAmount(statement.finalPayout)]
+      ),
+    ],
+  };
+}
+
+/**
+ * The file name for a payee's statement, safe for downloads and zip entries.
+ * @param {object} statement
+ * @param {string} extension html or pdf
+ */
+export const statementFileName = (statement, extension) =>
+  `statement_${statement.scheme.id}_v${statement.scheme.version}_${statement.period.asOf}_${statement.agentId}`
+    .replace(/[^A-Za-z0-9._-]/g, '_') + `.${extension}`;
@@ -0,0 +1,72 @@
+import { inflateRawSync } from 'node:zlib';
+import { describe, expect, it } from 'vitest';
+import { createZip } from './zip.js';
+
+const FILES = [
+  { name: 'statement_A1.html', data: '<h1>A1</h1>' },
+  { name: 'statement_Ä2.pdf', data: Buffer.from('%PDF-1.4\n'.repeat(50), 'latin1') },
+];
+
+// Reads the archive back through its end record and central directory
+const readZip = (zip) => {
+  const end = zip.length - 22;
+  expect(zip.readUInt32LE(end)).toBe(0x06054b50);
+  const count = zip.readUInt16LE(end + 10);
+  const size = zip.readUInt32LE(end + 12);
+  const start = zip.readUInt32LE(end + 16);
+  expect(start + size).toBe(end);
+
+  const entries = [];
+  let position = start;
+  for (let index = 0; index < count; index += 1) {
+    expect(zip.readUInt32LE(position)).toBe(0x02014b50);
+    const nameLength = zip.readUInt16LE(position + 28);
+    const entry = {
+      name: zip.toString('utf8', position + 46, position + 46 + nameLength),
+      crc: zip.readUInt32LE(position + 16),
+      compressedSize: zip.readUInt32LE(position + 20),
+      size: zip.readUInt32LE(position + 24),
+      offset: zip.readUInt32LE(position + 42),
+    };
+
+    const local = entry.offset;
+    expect(zip.readUInt32LE(local)).toBe(0x04034b50);
+    expect(zip.readUInt32LE(local + 14)).toBe(entry.crc);
+    expect(zip.readUInt32LE(local + 18)).toBe(entry.compressedSize);
+    const localName = zip.readUInt16LE(local + 26);
+    const dataStart = local + 30 + localName + zip.readUInt16LE(local + 28);
+    expect(zip.toString('utf8', local + 30, local + 30 + localName)).toBe(entry.name);
+    entry.data = inflateRawSync(zip.subarray(dataStart, dataStart + entry.compressedSize));
+
+    entries.push(entry);
+    position += 46 + nameLength;
+  }
+  expect(position).toBe(end);
+  return entries;
+};
+
+describe('createZip', () => {
+  it('writes a central directory that points at each local entry', () => {
+    const entries = readZip(createZip(FILES));
+
+    expect(entries.map((entry) => entry.name)).toEqual(FILES.map((file) => file.name));
+    entries.forEach((entry, index) => {
+      const data = Buffer.from(FILES[index].data);
+      expect(entry.data.equals(data)).toBe(true);
+      expect(entry.size).toBe(data.length);
+    });
+  });
+
+  it('records the CRC-32 of each file', () => {
+    const [entry] = readZip(createZip([{ name: 'a.txt', data: 'The quick brown fox jumps over the lazy dog' }]));
+
+    expect(entry.crc).toBe(0x414fa339);
+  });
+
+  it('writes an empty archive as just the end record', () => {
+    const zip = createZip([]);
+
+    expect(zip).toHaveLength(22);
+    expect(readZip(zip)).toEqual([]);
+  });
+});
@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useEffect } from 'react';
 import { Routes, Route, Navigate } from 'react-router-dom';
 import { Layout } from './components/Layout';
 import { Login } from './pages/Login';
@@ -9,41 +9,41 @@ import { KpiConfigurator } from './components/KpiConfigurator';
 import { Reports } from './components/Reports';
 import { SchemeExecution } from './pages/SchemeExecution';
 import { SchemeResults } from './pages/SchemeResults';
+import { RunHistory } from './pages/RunHistory';
 import { ExecutionLog } from './components/ExecutionLog';
 import { AgentDashboard } from './pages/AgentDashboard';
-import { useAuthStore } from './store/authStore';
+import { AuditLog } from './pages/AuditLog';
+import { UserManagement } from './pages/UserManagement';
+import { getHomePath, hasPermission, useAuthStore } from './store/authStore';
+import { restoreSession } from './api/auth';
+import type { Permission } from './types/auth';
 
-function ProtectedRoute({ children }: { children: React.ReactNode }) {
+function ProtectedRoute({ permission, children }: { permission: Permission; children: React.ReactNode }) {
   const user = useAuthStore((state) => state.user);
   
   if (!user) {
     return <Navigate to="/login" replace />;
   }
+
+  // The server refuses the page's API calls too; this keeps users off it
+  if (!hasPermission(user, permission)) {
+    return <Navigate to={getHomePath(user)} replace />;
+  }
   
   return <>{children}</>;
 }
 
 function App() {
   const user = useAuthStore((state) => state.user);
+  const isHydrated = useAuthStore((state) => state.isHydrated);
+
+  // Keep the user signed in across reloads while their session is valid
+  useEffect(() => {
+    restoreSession();
+  }, []);
 
-  // Redirect agents to their dashboard
-  if (user?.role === 'agent') {
-    return (
-      <Routes>
-        <Route path="/login" element={<Login />} />
-        <Route
-          path="/agent"
-          element={
-            <ProtectedRoute>
-              <Layout>
-                <AgentDashboard />
-              </Layout>
-            </ProtectedRoute>
-          }
-        />
-        <Route path="*" element={<Navigate to="/agent" replace />} />
-      </Routes>
-    );
+  if (!isHydrated) {
+    return null;
   }
 
   return (
@@ -52,7 +52,7 @@ function App() {
       <Route
         path="/"
         element={
-          <ProtectedRoute>
+          <ProtectedRoute permission="payouts.viewAll">
             <Layout>
               <Dashboard />
             </Layout>
@@ -62,7 +62,7 @@ function App() {
       <Route
         path="/designer"
         element={
-          <ProtectedRoute>
+          <ProtectedRoute permission="schemes.design">
             <Layout>
               <SchemeDesigner />
             </Layout>
@@ -72,7 +72,7 @@ function App() {
       <Route
         path="/admin"
         element={
-          <ProtectedRoute>
+          <ProtectedRoute permission="users.manage">
             <Layout>
               <AdminPanel />
             </Layout>
@@ -82,17 +82,37 @@ function App() {
       <Route
         path="/admin/kpi-config"
         element={
-          <ProtectedRoute>
+          <ProtectedRoute permission="kpis.configure">
             <Layout>
               <KpiConfigurator />
             </Layout>
           </ProtectedRoute>
         }
       />
+      <Route
+        path="/admin/users"
+        element={
+          <ProtectedRoute permission="users.manage">
+            <Layout>
+              <UserManagement />
+            </Layout>
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/admin/audit"
+        element={
+          <ProtectedRoute permission="audit.view">
+            <Layout>
+              <AuditLog />
+            </Layout>
+          </ProtectedRoute>
+        }
+      />
       <Route
         path="/reports"
         element={
-          <ProtectedRoute>
+          <ProtectedRoute permission="payouts.viewAll">
             <Layout>
               <Reports />
             </Layout>
@@ -102,7 +122,7 @@ function App() {
       <Route
         path="/execution"
         element={
-          <ProtectedRoute>
+          <ProtectedRoute permission="runs.simulate">
             <Layout>
               <SchemeExecution />
             </Layout>
@@ -112,17 +132,47 @@ function App() {
       <Route
         path="/execution/results"
         element={
-          <ProtectedRoute>
+          <ProtectedRoute permission="payouts.viewAll">
+            <Layout>
+              <SchemeResults />
+            </Layout>
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/execution/results/:runId"
+        element={
+          <ProtectedRoute permission="payouts.viewAll">
             <Layout>
               <SchemeResults />
             </Layout>
           </ProtectedRoute>
         }
       />
+      <Route
+        path="/execution/runs"
+        element={
+          <ProtectedRoute permission="payouts.viewAll">
+            <Layout>
+              <RunHistory />
+            </Layout>
+          </ProtectedRoute>
+        }
+      />
       <Route
         path="/execution/log"
         element={
-          <ProtectedRoute>
+          <ProtectedRoute permission="payouts.viewAll">
+            <Layout>
+              <ExecutionLog />
+            </Layout>
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/execution/log/:runId"
+        element={
+          <ProtectedRoute permission="payouts.viewAll">
             <Layout>
               <ExecutionLog />
             </Layout>
@@ -132,15 +182,16 @@ function App() {
       <Route
         path="/agent"
         element={
-          <ProtectedRoute>
+          <ProtectedRoute permission="payouts.viewOwn">
             <Layout>
               <AgentDashboard />
             </Layout>
           </ProtectedRoute>
         }
       />
+      <Route path="*" element={<Navigate to={user ? getHomePath(user) : '/login'} replace />} />
     </Routes>
   );
 }
 
-export default App;
\ No newline at end of file
+export default App;
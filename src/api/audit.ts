@@ -0,0 +1,11 @@
+import { apiRequest } from './client';
+import type { AuditPage, AuditQuery } from '../types';
+
+export function listAuditEntries(query: AuditQuery = {}): Promise<AuditPage> {
+  const params = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') params.set(key, String(value));
+  });
+  const search = params.toString();
+  return apiRequest(`/audit${search ? `?${search}` : ''}`);
+}
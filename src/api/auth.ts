@@ -1,30 +1,83 @@
-import { LoginFormData, User } from '../types/auth';
+import { AuthSession, LoginFormData, User } from '../types/auth';
+import { useAuthStore } from '../store/authStore';
 
-const MOCK_USERS = {
-  'admin': { role: 'admin', clientId: 'CLIENT001' },
-  'manager': { role: 'manager', clientId: 'CLIENT002' },
-  'agent': { role: 'agent', clientId: 'CLIENT003' }
-};
+let refreshing: Promise<boolean> | null = null;
 
-export async function authenticateUser(credentials: LoginFormData): Promise<User | null> {
+const postAuth = (path: string, body?: unknown) =>
+  fetch(`/api/auth${path}`, {
+    method: 'POST',
+    headers: body !== undefined ? { 'Content-Type': 'application/json' } : undefined,
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+    credentials: 'same-origin'
+  });
+
+/**
+ * Signs in and stores the session. Throws with the server's message when the
+ * credentials are rejected.
+ */
+export async function authenticateUser(credentials: LoginFormData): Promise<User> {
   console.log('[Auth API] Attempting authentication:', {
     username: credentials.username,
-    role: credentials.role,
     clientId: credentials.clientId
   });
 
-  // Simple mock authentication
-  const mockUser = MOCK_USERS[credentials.username as keyof typeof MOCK_USERS];
-  
-  if (mockUser && mockUser.role === credentials.role) {
-    const user: User = {
-      id: crypto.randomUUID(),
-      username: credentials.username,
-      role: credentials.role,
-      clientId: credentials.clientId
-    };
-    return user;
+  const response = await postAuth('/login', credentials);
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(body.error || `Sign in failed (${response.status})`);
   }
 
-  return null;
-}
\ No newline at end of file
+  const session = body as AuthSession;
+  useAuthStore.getState().setSession(session.user, session.accessToken);
+  return session.user;
+}
+
+/**
+ * Exchanges the refresh cookie for a new access token. Concurrent callers
+ * share one request, since each refresh token can only be used once. Clears
+ * the session and resolves false when it has expired or been revoked.
+ */
+export function refreshSession(): Promise<boolean> {
+  if (!refreshing) {
+    refreshing = (async () => {
+      try {
+        const response = await postAuth('/refresh');
+        if (!response.ok) {
+          useAuthStore.getState().logout();
+          return false;
+        }
+        const session = (await response.json()) as AuthSession;
+        useAuthStore.getState().setSession(session.user, session.accessToken);
+        return true;
+      } catch (err) {
+        console.error('[Auth API] Refresh failed:', err);
+        return false;
+      } finally {
+        refreshing = null;
+      }
+    })();
+  }
+  return refreshing;
+}
+
+/**
+ * Restores the signed-in user after a reload from the refresh cookie, then
+ * marks the store as hydrated either way.
+ */
+export async function restoreSession(): Promise<void> {
+  await refreshSession();
+  useAuthStore.getState().setHydrated();
+}
+
+/**
+ * Revokes the session on the server and forgets it locally.
+ */
+export async function logoutUser(): Promise<void> {
+  try {
+    await postAuth('/logout');
+  } catch (err) {
+    console.error('[Auth API] Logout failed:', err);
+  } finally {
+    useAuthStore.getState().logout();
+  }
+}
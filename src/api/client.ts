@@ -0,0 +1,43 @@
+import { useAuthStore } from '../store/authStore';
+import { refreshSession } from './auth';
+
+// The server resolves the client (tenant) from the session, not the request
+const getAuthHeaders = (): Record<string, string> => {
+  const { accessToken } = useAuthStore.getState();
+  return accessToken ? { Authorization: `Bearer ${accessToken}` } : {};
+};
+
+/**
+ * fetch for the ICM API: adds the session's access token and, when it has
+ * expired, refreshes it once and retries. Used directly
+ * for responses that are not plain JSON (such as event streams).
+ */
+export async function apiFetch(path: string, init: RequestInit = {}): Promise<Response> {
+  const send = () =>
+    fetch(`/api${path}`, { ...init, headers: { ...getAuthHeaders(), ...(init.headers as Record<string, string>) } });
+
+  const response = await send();
+  if (response.status !== 401 || !useAuthStore.getState().user) return response;
+  return (await refreshSession()) ? send() : response;
+}
+
+/**
+ * Calls the ICM API. Requests carry the signed-in user's session and JSON
+ * bodies are sent and parsed; non-2xx responses throw with the server's
+ * error message.
+ */
+export async function apiRequest<T>(path: string, options: { method?: string; body?: unknown } = {}): Promise<T> {
+  const response = await apiFetch(path, {
+    method: options.method || 'GET',
+    headers: options.body !== undefined ? { 'Content-Type': 'application/json' } : undefined,
+    body: options.body !== undefined ? JSON.stringify(options.body) : undefined
+  });
+  if (response.status === 204) return undefined as T;
+
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    console.error(`[API] ${options.method || 'GET'} ${path} failed:`, body);
+    throw new Error(body.details || body.error || `Request failed (${response.status})`);
+  }
+  return body as T;
+}
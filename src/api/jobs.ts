@@ -0,0 +1,108 @@
+import { apiFetch, apiRequest } from './client';
+import type { ExecutionJob, ExecutionJobStatus, NewExecutionJob } from '../types';
+
+export const TERMINAL_JOB_STATUSES: ExecutionJobStatus[] = ['succeeded', 'failed', 'cancelled'];
+
+export function submitJob(job: NewExecutionJob): Promise<ExecutionJob> {
+  return apiRequest('/jobs', { method: 'POST', body: job });
+}
+
+export function getJob(id: string): Promise<ExecutionJob> {
+  return apiRequest(`/jobs/${encodeURIComponent(id)}`);
+}
+
+export function cancelJob(id: string): Promise<ExecutionJob> {
+  return apiRequest(`/jobs/${encodeURIComponent(id)}/cancel`, { method: 'POST' });
+}
+
+/**
+ * Reads one connection to a job's server-sent events, calling `onUpdate`
+ * with each state it carries, and returns the last one.
+ */
+async function readJobEvents(
+  id: string,
+  onUpdate: (job: ExecutionJob) => void,
+  signal?: AbortSignal
+): Promise<ExecutionJob | null> {
+  const response = await apiFetch(`/jobs/${encodeURIComponent(id)}/events`, { signal });
+  if (!response.ok || !response.body) {
+    const body = await response.json().catch(() => ({}));
+    throw new Error(body.details || body.error || `Request failed (${response.status})`);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let latest: ExecutionJob | null = null;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return latest;
+    buffer += decoder.decode(value, { stream: true });
+
+    // Events are separated by a blank line; the last chunk may be partial
+    const events = buffer.split('\n\n');
+    buffer = events.pop() || '';
+    for (const event of events) {
+      const data = event
+        .split('\n')
+        .filter(line => line.startsWith('data: '))
+        .map(line => line.slice('data: '.length))
+        .join('\n');
+      if (!data) continue;
+      latest = JSON.parse(data) as ExecutionJob;
+      onUpdate(latest);
+    }
+  }
+}
+
+// Reconnects back off from 1s to 30s; this many closes in a row without a
+// single event means the stream is not getting through, so watching stops
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30000;
+const MAX_EMPTY_READS = 5;
+
+const waitToReconnect = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new DOMException('Aborted', 'AbortError'));
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Follows a job until it succeeds, fails or is cancelled, calling `onUpdate`
+ * with each new state. EventSource cannot send the access token, so the
+ * stream is read with fetch, and reopened with a growing delay if it closes
+ * early (e.g. a proxy timeout or an expired token). Rejects with an
+ * AbortError if `signal` aborts, and with an error after MAX_EMPTY_READS
+ * connections in a row close without an event.
+ * @returns {Promise<ExecutionJob>} The job's final state.
+ */
+export async function watchJob(
+  id: string,
+  onUpdate: (job: ExecutionJob) => void,
+  signal?: AbortSignal
+): Promise<ExecutionJob> {
+  let emptyReads = 0;
+  let delay = RECONNECT_BASE_DELAY_MS;
+  for (;;) {
+    const latest = await readJobEvents(id, onUpdate, signal);
+    if (latest && TERMINAL_JOB_STATUSES.includes(latest.status)) return latest;
+
+    if (latest) {
+      emptyReads = 0;
+      delay = RECONNECT_BASE_DELAY_MS;
+    } else if (++emptyReads >= MAX_EMPTY_READS) {
+      throw new Error(`Lost the connection to job ${id}; reload to check its status`);
+    }
+    await waitToReconnect(delay, signal);
+    delay = Math.min(delay * 2, RECONNECT_MAX_DELAY_MS);
+  }
+}
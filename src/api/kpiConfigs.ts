@@ -0,0 +1,18 @@
+import { apiRequest } from './client';
+import type { KpiConfig, KpiConfigSummary, StoredKpiConfig } from '../types';
+
+export function listKpiConfigs(): Promise<KpiConfigSummary[]> {
+  return apiRequest('/kpi-configs');
+}
+
+export function getKpiConfig(id: string): Promise<StoredKpiConfig> {
+  return apiRequest(`/kpi-configs/${encodeURIComponent(id)}`);
+}
+
+export function createKpiConfig(config: KpiConfig & { SchID: string }): Promise<StoredKpiConfig> {
+  return apiRequest('/kpi-configs', { method: 'POST', body: config });
+}
+
+export function updateKpiConfig(id: string, config: KpiConfig): Promise<StoredKpiConfig> {
+  return apiRequest(`/kpi-configs/${encodeURIComponent(id)}`, { method: 'PUT', body: config });
+}
@@ -0,0 +1,22 @@
+import { apiRequest } from './client';
+import type { CalculationRun, CalculationRunSummary, PayeeRun, PayeeRuns } from '../types';
+
+export function listRuns(filter: { schemeId?: string; mode?: string } = {}): Promise<CalculationRunSummary[]> {
+  const params = new URLSearchParams();
+  if (filter.schemeId) params.set('schemeId', filter.schemeId);
+  if (filter.mode) params.set('mode', filter.mode);
+  const query = params.toString();
+  return apiRequest(`/runs${query ? `?${query}` : ''}`);
+}
+
+export function getRun(id: string): Promise<CalculationRun> {
+  return apiRequest(`/runs/${encodeURIComponent(id)}`);
+}
+
+export function listMyRuns(): Promise<PayeeRuns> {
+  return apiRequest('/runs/mine');
+}
+
+export function getMyRun(id: string): Promise<PayeeRun> {
+  return apiRequest(`/runs/mine/${encodeURIComponent(id)}`);
+}
@@ -0,0 +1,16 @@
+import { apiRequest } from './client';
+import type { SapEntity, SapTransactionsResult } from '../types';
+
+export function fetchSapEntities(): Promise<{ configured: boolean; entities: SapEntity[] }> {
+  return apiRequest('/sap/entities');
+}
+
+export function fetchSapTransactions(
+  entity: string,
+  from: string,
+  to: string
+): Promise<SapTransactionsResult> {
+  console.log('[SAP API] Pulling transactions:', { entity, from, to });
+  const params = new URLSearchParams({ from, to });
+  return apiRequest(`/sap/transactions/${encodeURIComponent(entity)}?${params}`);
+}
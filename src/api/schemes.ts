@@ -0,0 +1,62 @@
+import { apiRequest } from './client';
+import type {
+  CompensationScheme,
+  SchemeLifecycleResult,
+  SchemeSummary,
+  SchemeVersion,
+  SchemeVersionSummary
+} from '../types';
+
+export function listSchemes(): Promise<SchemeSummary[]> {
+  return apiRequest('/schemes');
+}
+
+export function getScheme(id: string): Promise<CompensationScheme> {
+  return apiRequest(`/schemes/${encodeURIComponent(id)}`);
+}
+
+export function createScheme(scheme: CompensationScheme): Promise<CompensationScheme> {
+  return apiRequest('/schemes', { method: 'POST', body: scheme });
+}
+
+export function updateScheme(id: string, scheme: CompensationScheme): Promise<CompensationScheme> {
+  return apiRequest(`/schemes/${encodeURIComponent(id)}`, { method: 'PUT', body: scheme });
+}
+
+export function deleteScheme(id: string): Promise<void> {
+  return apiRequest(`/schemes/${encodeURIComponent(id)}`, { method: 'DELETE' });
+}
+
+export function listSchemeVersions(id: string): Promise<SchemeVersionSummary[]> {
+  return apiRequest(`/schemes/${encodeURIComponent(id)}/versions`);
+}
+
+export function getSchemeVersion(id: string, versionNumber: number): Promise<SchemeVersion> {
+  return apiRequest(`/schemes/${encodeURIComponent(id)}/versions/${versionNumber}`);
+}
+
+/** Saves an earlier version's content as a new DRAFT version. */
+export function restoreSchemeVersion(id: string, versionNumber: number): Promise<CompensationScheme> {
+  return apiRequest(`/schemes/${encodeURIComponent(id)}/versions/${versionNumber}/restore`, { method: 'POST' });
+}
+
+/** Sends the latest draft for admin review (manager or admin). */
+export function submitScheme(id: string): Promise<SchemeLifecycleResult> {
+  return apiRequest(`/schemes/${encodeURIComponent(id)}/submit`, { method: 'POST', body: {} });
+}
+
+export function approveScheme(id: string, comment: string): Promise<SchemeLifecycleResult> {
+  return apiRequest(`/schemes/${encodeURIComponent(id)}/approve`, { method: 'POST', body: { comment } });
+}
+
+/** Returns the scheme under review to DRAFT; a comment is required. */
+export function rejectScheme(id: string, comment: string): Promise<SchemeLifecycleResult> {
+  return apiRequest(`/schemes/${encodeURIComponent(id)}/reject`, { method: 'POST', body: { comment } });
+}
+
+export function deactivateSchemeVersion(id: string, versionNumber: number, comment: string): Promise<SchemeLifecycleResult> {
+  return apiRequest(`/schemes/${encodeURIComponent(id)}/versions/${versionNumber}/deactivate`, {
+    method: 'POST',
+    body: { comment }
+  });
+}
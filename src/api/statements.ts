@@ -0,0 +1,30 @@
+import { apiFetch } from './client';
+import type { StatementFile, StatementFormat } from '../types';
+
+async function fetchFile(path: string): Promise<StatementFile> {
+  const response = await apiFetch(path);
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    throw new Error(body.details || body.error || `Request failed (${response.status})`);
+  }
+  const disposition = response.headers.get('Content-Disposition') || '';
+  return {
+    blob: await response.blob(),
+    fileName: /filename="([^"]+)"/.exec(disposition)?.[1] || 'statement'
+  };
+}
+
+/** A payee's statement for a run; without an agent ID, the signed-in agent's own. */
+export function getStatement(runId: string, format: StatementFormat, agentId?: string): Promise<StatementFile> {
+  const run = encodeURIComponent(runId);
+  return fetchFile(
+    agentId
+      ? `/runs/${run}/statements/${encodeURIComponent(agentId)}?format=${format}`
+      : `/runs/mine/${run}/statement?format=${format}`
+  );
+}
+
+/** Every payee's statement for a run, as a zip archive. */
+export function exportStatements(runId: string, format: StatementFormat): Promise<StatementFile> {
+  return fetchFile(`/runs/${encodeURIComponent(runId)}/statements?format=${format}`);
+}
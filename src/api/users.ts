@@ -0,0 +1,34 @@
+import { apiRequest } from './client';
+import type {
+  KnownAgentId,
+  ManagedUser,
+  NewUser,
+  RoleMatrix,
+  UserChanges,
+  UserImportResult
+} from '../types/auth';
+
+export function listUsers(): Promise<ManagedUser[]> {
+  return apiRequest('/users');
+}
+
+export function createUser(user: NewUser): Promise<ManagedUser> {
+  return apiRequest('/users', { method: 'POST', body: user });
+}
+
+/** Deactivating a user or setting their password signs them out everywhere. */
+export function updateUser(id: string, changes: UserChanges): Promise<ManagedUser> {
+  return apiRequest(`/users/${encodeURIComponent(id)}`, { method: 'PATCH', body: changes });
+}
+
+export function importUsers(users: NewUser[]): Promise<UserImportResult> {
+  return apiRequest('/users/import', { method: 'POST', body: { users } });
+}
+
+export function getRoleMatrix(): Promise<RoleMatrix> {
+  return apiRequest('/users/roles');
+}
+
+export function listKnownAgentIds(): Promise<KnownAgentId[]> {
+  return apiRequest('/users/agent-ids');
+}
@@ -0,0 +1,298 @@
+/**
+ * Headless scheme runner for batch and scripted execution.
+ *
+ * Loads a scheme JSON and every .json/.csv/.xlsx file in a data directory,
+ * applies the same checks as the Scheme Execution page, runs the engine and
+ * writes the result to an output directory.
+ *
+ * Usage:
+ *   npm run run-scheme -- --scheme <scheme.json> --data <dir> --as-of <YYYY-MM-DD> --out <dir> [--mode simulation|production]
+ *
+ * Exit codes: 0 on success, 1 when the scheme, data or run date fail
+ * validation, 2 on invalid arguments.
+ */
+import { mkdir, readdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { getAgentResults, runScheme, summarizeRun } from '../engine';
+import type { SchemeRunResult } from '../engine';
+import { decodeText, parseCSV, toCSV } from '../sources/csv';
+import { getSheetSourceName, parseSheet, readWorkbook } from '../sources/excel';
+import type { ValidationError } from '../types';
+import {
+  canRunInProduction,
+  findMissingColumns,
+  getRequiredFields,
+  isRunDateInEffectivePeriod,
+  validateSchemeJson
+} from '../utils/schemeValidation';
+
+const USAGE =
+  'Usage: run-scheme --scheme <scheme.json> --data <dir> --as-of <YYYY-MM-DD> --out <dir> [--mode simulation|production]';
+
+const EXIT_VALIDATION_FAILED = 1;
+const EXIT_USAGE = 2;
+
+interface LoadedFile {
+  name: string;
+  data: Record<string, unknown>[];
+  columns: string[];
+}
+
+class CliValidationError extends Error {
+  constructor(public errors: ValidationError[]) {
+    super(errors.map(error => error.message).join('; '));
+    this.name = 'CliValidationError';
+  }
+}
+
+const fail = (message: string, details: string[] = []): never => {
+  throw new CliValidationError([{ type: 'error', message, details }]);
+};
+
+/**
+ * Loads every .json, .csv and .xlsx file in the data directory, keyed by file
+ * name as the scheme refers to them.
+ * @param {string} dataDir Directory with the scheme's input files.
+ * @returns {Promise<object>} Files in the shape runScheme expects.
+ */
+async function loadDataFiles(dataDir: string): Promise<Record<string, LoadedFile>> {
+  const entries = await readdir(dataDir, { withFileTypes: true }).catch(() =>
+    fail(`Data directory not found: ${dataDir}`)
+  );
+  const files: Record<string, LoadedFile> = {};
+
+  for (const entry of entries) {
+    if (!entry.isFile() || !/\.(json|csv|xlsx)$/i.test(entry.name)) continue;
+
+    if (/\.xlsx$/i.test(entry.name)) {
+      Object.assign(files, await loadWorkbookSheets(dataDir, entry.name));
+      continue;
+    }
+
+    const content = decodeText(await readFile(path.join(dataDir, entry.name)));
+    let rows: unknown;
+    try {
+      if (/\.json$/i.test(entry.name)) {
+        rows = JSON.parse(content);
+      } else {
+        const parsed = parseCSV(content);
+        rows = parsed.rows;
+        parsed.errors.forEach(error =>
+          console.warn(`Warning: ${entry.name} line ${error.line}: ${error.message} (row skipped)`)
+        );
+      }
+    } catch (err) {
+      fail(`Failed to parse file: ${entry.name}`, [err instanceof Error ? err.message : String(err)]);
+    }
+    if (!Array.isArray(rows) || rows.length === 0) {
+      fail(`Failed to parse file: ${entry.name}`, ['Expected a non-empty array of rows']);
+    }
+
+    const data = rows as Record<string, unknown>[];
+    files[entry.name] = { name: entry.name, data, columns: Object.keys(data[0] || {}) };
+  }
+
+  return files;
+}
+
+/**
+ * Loads every worksheet of an .xlsx workbook with its first row as header.
+ * Sheets are registered as "Workbook.xlsx#Sheet"; the first sheet is also
+ * registered under the workbook's own file name.
+ * @param {string} dataDir Directory with the scheme's input files.
+ * @param {string} fileName The workbook file name.
+ * @returns {Promise<object>} Files in the shape runScheme expects.
+ */
+async function loadWorkbookSheets(dataDir: string, fileName: string): Promise<Record<string, LoadedFile>> {
+  const buffer = await readFile(path.join(dataDir, fileName));
+  const workbook = await readWorkbook(
+    buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer
+  ).catch(err =>
+    fail(`Failed to read workbook: ${fileName}`, [err instanceof Error ? err.message : String(err)])
+  );
+  const files: Record<string, LoadedFile> = {};
+
+  workbook.worksheets.forEach((worksheet, index) => {
+    if (worksheet.rowCount === 0) return;
+    const sourceName = getSheetSourceName(fileName, worksheet.name);
+    const parsed = parseSheet(workbook, worksheet.name);
+    parsed.errors.forEach(error =>
+      console.warn(`Warning: ${sourceName} row ${error.line}: ${error.message}`)
+    );
+    const file = { name: sourceName, data: parsed.rows, columns: parsed.columns };
+    files[sourceName] = file;
+    if (index === 0) files[fileName] = { ...file, name: fileName };
+  });
+
+  return files;
+}
+
+/**
+ * Writes the run result as JSON and CSV files.
+ * @param {string} outDir Output directory, created when missing.
+ * @param {SchemeRunResult} result The engine result.
+ * @returns {Promise<Array<string>>} The written file names.
+ */
+async function writeResults(outDir: string, result: SchemeRunResult): Promise<string[]> {
+  await mkdir(outDir, { recursive: true });
+
+  const payouts = getAgentResults(result).map(agent => ({
+    agentId: agent.agentId,
+    payout: agent.payout,
+    qualified: agent.qualified,
+    quota: agent.quota,
+    attainment: agent.attainment
+  }));
+  const ruleHitLogs = Object.entries(result.ruleHitLogs).flatMap(([agentId, logs]) =>
+    logs.map(log => ({
+      agentId,
+      ruleType: log.ruleType,
+      ruleId: log.ruleId,
+      recordId: log.recordId,
+      transactionId: log.transactionId,
+      message: log.message,
+      details: log.details,
+      timestamp: log.timestamp
+    }))
+  );
+  const creditDistributions = Object.entries(result.creditDistributions).flatMap(
+    ([toAgent, distributions]) => distributions.map(distribution => ({ toAgent, ...distribution }))
+  );
+  const rawRecords = result.rawRecordLevelData as unknown as Record<string, unknown>[];
+
+  const outputs: Record<string, string> = {
+    'result.json': JSON.stringify(result, null, 2),
+    'payouts.json': JSON.stringify(payouts, null, 2),
+    'payouts.csv': toCSV(payouts, ['agentId', 'payout', 'qualified', 'quota', 'attainment']),
+    'ruleHitLogs.json': JSON.stringify(result.ruleHitLogs, null, 2),
+    'ruleHitLogs.csv': toCSV(ruleHitLogs, [
+      'agentId', 'ruleType', 'ruleId', 'recordId', 'transactionId', 'message', 'details', 'timestamp'
+    ]),
+    'creditDistributions.json': JSON.stringify(result.creditDistributions, null, 2),
+    'creditDistributions.csv': toCSV(creditDistributions, [
+      'toAgent', 'fromAgent', 'role', 'amount', 'basePayout', 'percentage', 'splitRuleId', 'timestamp'
+    ]),
+    'rawRecords.json': JSON.stringify(result.rawRecordLevelData, null, 2),
+    'rawRecords.csv': toCSV(rawRecords)
+  };
+
+  for (const [fileName, content] of Object.entries(outputs)) {
+    await writeFile(path.join(outDir, fileName), content, 'utf8');
+  }
+  return Object.keys(outputs);
+}
+
+async function main(argv: string[]): Promise<number> {
+  let options;
+  try {
+    ({ values: options } = parseArgs({
+      args: argv,
+      options: {
+        scheme: { type: 'string' },
+        data: { type: 'string' },
+        'as-of': { type: 'string' },
+        out: { type: 'string' },
+        mode: { type: 'string', default: 'simulation' },
+        help: { type: 'boolean', short: 'h' }
+      }
+    }));
+  } catch (err) {
+    console.error(err instanceof Error ? err.message : err);
+    console.error(USAGE);
+    return EXIT_USAGE;
+  }
+
+  if (options.help) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  const { scheme: schemePath, data: dataDir, 'as-of': runAsOfDate, out: outDir, mode } = options;
+  if (!schemePath || !dataDir || !runAsOfDate || !outDir) {
+    console.error(USAGE);
+    return EXIT_USAGE;
+  }
+  if (mode !== 'simulation' && mode !== 'production') {
+    console.error(`Invalid --mode "${mode}". Use simulation or production.`);
+    return EXIT_USAGE;
+  }
+
+  try {
+    let scheme;
+    try {
+      scheme = JSON.parse(await readFile(schemePath, 'utf8'));
+    } catch (err) {
+      fail('Failed to parse scheme file', [err instanceof Error ? err.message : 'Invalid format']);
+    }
+
+    const validation = validateSchemeJson(scheme);
+    validation.errors
+      .filter(error => error.type === 'warning')
+      .forEach(warning => console.warn(`Warning: ${warning.message} (${warning.details.join('; ')})`));
+    if (!validation.valid) {
+      throw new CliValidationError(validation.errors.filter(error => error.type === 'error'));
+    }
+
+    if (mode === 'production' && !canRunInProduction(scheme)) {
+      fail('Scheme is not ACTIVE', [
+        `Status is ${scheme.status || 'DRAFT'}; only approved (ACTIVE) schemes run in production. Use --mode simulation.`
+      ]);
+    }
+
+    if (!isRunDateInEffectivePeriod(scheme, runAsOfDate)) {
+      fail('Invalid run-as-of date', [
+        `${runAsOfDate} must be a valid date between ${scheme.effectiveFrom} and ${scheme.effectiveTo}`
+      ]);
+    }
+
+    const files = await loadDataFiles(dataDir);
+    const requiredFields = getRequiredFields(scheme);
+    const missingFiles = Array.from(new Set(requiredFields.map(field => field.fileName)))
+      .filter(fileName => !(fileName in files));
+    if (missingFiles.length > 0) {
+      fail(`Missing required files in ${dataDir}`, missingFiles);
+    }
+    const missingColumns = findMissingColumns(requiredFields, files);
+    if (Object.keys(missingColumns).length > 0) {
+      fail(
+        'Missing required columns',
+        Object.entries(missingColumns).map(([fileName, columns]) => `${fileName}: ${columns.join(', ')}`)
+      );
+    }
+
+    let result: SchemeRunResult;
+    try {
+      result = runScheme(scheme, files, runAsOfDate, mode);
+    } catch (err) {
+      return fail('Scheme execution failed', [err instanceof Error ? err.message : String(err)]);
+    }
+
+    const written = await writeResults(outDir, result);
+    const summary = summarizeRun(result);
+    console.log(
+      `Ran "${result.meta.schemeName}" as of ${runAsOfDate} (${mode}): ` +
+      `${summary.totalRecords} records, ${summary.totalAgents} agents, ` +
+      `${summary.qualified} qualified, total payout ${summary.totalPayout}`
+    );
+    console.log(`Wrote ${written.join(', ')} to ${outDir}`);
+    return 0;
+  } catch (err) {
+    if (!(err instanceof CliValidationError)) throw err;
+    err.errors.forEach(error => {
+      console.error(`Error: ${error.message}`);
+      error.details.forEach(detail => console.error(`  - ${detail}`));
+    });
+    return EXIT_VALIDATION_FAILED;
+  }
+}
+
+main(process.argv.slice(2)).then(
+  code => {
+    process.exitCode = code;
+  },
+  err => {
+    console.error(err);
+    process.exitCode = EXIT_VALIDATION_FAILED;
+  }
+);
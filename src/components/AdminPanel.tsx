@@ -19,13 +19,22 @@ export function AdminPanel() {
           </div>
           <div className="px-4 py-5 sm:p-6">
             <div className="space-y-4">
-              <button className="w-full text-left px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50">
+              <button 
+                onClick={() => navigate('/admin/users?tab=users')}
+                className="w-full text-left px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+              >
                 Manage Users
               </button>
-              <button className="w-full text-left px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50">
+              <button 
+                onClick={() => navigate('/admin/users?tab=roles')}
+                className="w-full text-left px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+              >
                 Role Assignments
               </button>
-              <button className="w-full text-left px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50">
+              <button 
+                onClick={() => navigate('/admin/users?tab=access')}
+                className="w-full text-left px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+              >
                 Access Control
               </button>
             </div>
@@ -66,6 +75,12 @@ export function AdminPanel() {
           </div>
           <div className="px-4 py-5 sm:p-6">
             <div className="space-y-4">
+              <button 
+                onClick={() => navigate('/admin/audit')}
+                className="w-full text-left px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+              >
+                Audit Log
+              </button>
               <button className="w-full text-left px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50">
                 Security Policies
               </button>
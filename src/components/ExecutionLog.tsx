@@ -1,83 +1,42 @@
-import React, { useState, useRef, useMemo } from 'react';
+import React, { useState, useRef, useMemo, useEffect } from 'react';
+import { useParams } from 'react-router-dom';
 import { Upload, Download, Filter, ChevronDown, ChevronRight } from 'lucide-react';
 import { Button } from './ui/button';
 import { Card } from './ui/card';
 import { format } from 'date-fns';
-
-interface ExecutionResult {
-  success: boolean;
-  message: string;
-  data: {
-    totalRecords: number;
-    processedAt: string;
-    summary: {
-      totalAgents: number;
-      qualified: number;
-      totalPayout: number;
-    };
-    agents: Array<{
-      agentId: string;
-      name?: string;
-      qualified: boolean;
-      commission: number;
-      qualifyingCriteria: Array<{
-        ruleType: string;
-        ruleId: string;
-        ruleName?: string;
-        recordId: string;
-        transactionId?: string;
-        agentId: string;
-        message: string;
-        timestamp: string;
-      }>;
-      adjustments: Array<{
-        ruleType: string;
-        ruleId: string;
-        ruleName?: string;
-        recordId: string;
-        transactionId?: string;
-        agentId: string;
-        message: string;
-        timestamp: string;
-      }>;
-      exclusions: Array<{
-        ruleType: string;
-        ruleId: string;
-        ruleName?: string;
-        recordId: string;
-        transactionId?: string;
-        agentId: string;
-        message: string;
-        timestamp: string;
-      }>;
-    }>;
-  };
-}
-
-interface LogEntry {
-  ruleType: string;
-  ruleId: string;
-  ruleName?: string;
-  recordId: string;
-  transactionId?: string;
-  agentId: string;
-  message: string;
-  timestamp: string;
-}
+import { getAgentResults, summarizeRun } from '../engine';
+import type { RuleHitLog, SchemeRunResult } from '../engine';
+import { getRun } from '../api/runs';
 
 interface AgentGroup {
   agentId: string;
-  name?: string;
-  logs: LogEntry[];
+  logs: RuleHitLog[];
   totalRules: number;
 }
 
 export function ExecutionLog() {
-  const [executionLog, setExecutionLog] = useState<ExecutionResult | null>(null);
+  const [executionLog, setExecutionLog] = useState<SchemeRunResult | null>(null);
   const [filterAgent, setFilterAgent] = useState<string>('');
   const [filterRuleType, setFilterRuleType] = useState<string>('');
   const [expandedAgents, setExpandedAgents] = useState<Set<string>>(new Set());
+  const [loadError, setLoadError] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const { runId } = useParams();
+
+  // Opened from a stored run (/execution/log/:runId)
+  useEffect(() => {
+    if (!runId) return;
+    setLoadError(null);
+    getRun(runId)
+      .then(run => {
+        setExecutionLog(run.result);
+        setExpandedAgents(new Set(Object.keys(run.result.agentPayouts)));
+      })
+      .catch(error => {
+        console.error('Failed to load run:', error);
+        setLoadError(error instanceof Error ? error.message : 'Failed to load run');
+      });
+  }, [runId]);
 
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
@@ -85,11 +44,10 @@ export function ExecutionLog() {
       const reader = new FileReader();
       reader.onload = (e) => {
         try {
-          const log = JSON.parse(e.target?.result as string);
+          const log = JSON.parse(e.target?.result as string) as SchemeRunResult;
           setExecutionLog(log);
           // Initially expand all agent groups
-          const agents = new Set(log.data.agents.map((agent: any) => agent.agentId));
-          setExpandedAgents(agents);
+          setExpandedAgents(new Set(Object.keys(log.agentPayouts)));
         } catch (error) {
           console.error('Failed to parse execution log:', error);
         }
@@ -126,44 +84,21 @@ export function ExecutionLog() {
   };
 
   const getGroupedAndSortedLogs = useMemo(() => {
-    if (!executionLog?.data.agents) return [];
+    if (!executionLog?.agentPayouts) return [];
 
     const agentGroups: AgentGroup[] = [];
     
-    executionLog.data.agents.forEach(agent => {
+    getAgentResults(executionLog).forEach(agent => {
       if (filterAgent && !agent.agentId.toLowerCase().includes(filterAgent.toLowerCase())) {
         return;
       }
 
-      const allLogs: LogEntry[] = [];
-      const uniqueLogKeys = new Set<string>();
-      
-      const addLogs = (items: any[], type: string) => {
-        if (filterRuleType && !type.toLowerCase().includes(filterRuleType.toLowerCase())) {
-          return;
-        }
-        
-        items.forEach(item => {
-          // Create a unique key based on transaction, rule, and message
-          const logKey = `${item.transactionId}-${item.ruleId}-${item.message}`;
-          
-          if (!uniqueLogKeys.has(logKey)) {
-            uniqueLogKeys.add(logKey);
-            allLogs.push({
-              ...item,
-              ruleType: type,
-              ruleName: item.ruleName || item.ruleId // Fallback to ruleId if ruleName not present
-            });
-          }
-        });
-      };
-
-      addLogs(agent.qualifyingCriteria, 'Qualification');
-      addLogs(agent.adjustments, 'Adjustment');
-      addLogs(agent.exclusions, 'Exclusion');
+      const allLogs = agent.logs.filter(log =>
+        !filterRuleType || log.ruleType.toLowerCase().includes(filterRuleType.toLowerCase())
+      );
 
       // Sort logs: transactionId (asc) -> timestamp (desc)
-      const sortedLogs = allLogs.sort((a, b) => {
+      const sortedLogs = [...allLogs].sort((a, b) => {
         // Primary sort by transactionId
         if (a.transactionId && b.transactionId) {
           const transCompare = a.transactionId.localeCompare(b.transactionId);
@@ -177,7 +112,6 @@ export function ExecutionLog() {
       if (sortedLogs.length > 0) {
         agentGroups.push({
           agentId: agent.agentId,
-          name: agent.name,
           logs: sortedLogs,
           totalRules: sortedLogs.length
         });
@@ -188,6 +122,8 @@ export function ExecutionLog() {
     return agentGroups.sort((a, b) => a.agentId.localeCompare(b.agentId));
   }, [executionLog, filterAgent, filterRuleType]);
 
+  const summary = executionLog ? summarizeRun(executionLog) : null;
+
   const getRuleTypeBadgeClass = (type: string): string => {
     switch (type) {
       case 'Qualification':
@@ -196,6 +132,12 @@ export function ExecutionLog() {
         return 'bg-green-100 text-green-800';
       case 'Exclusion':
         return 'bg-red-100 text-red-800';
+      case 'Custom':
+      case 'Quota':
+      case 'Tier':
+        return 'bg-indigo-100 text-indigo-800';
+      case 'PayoutLimit':
+        return 'bg-yellow-100 text-yellow-800';
       default:
         return 'bg-gray-100 text-gray-800';
     }
@@ -233,27 +175,27 @@ export function ExecutionLog() {
         />
       </div>
 
-      {executionLog && (
+      {executionLog && summary && (
         <>
           <Card className="p-6">
             <h2 className="text-lg font-semibold mb-4">Execution Summary</h2>
             <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
               <div className="bg-white p-4 rounded-lg border border-gray-200">
                 <div className="text-sm font-medium text-gray-500">Total Records</div>
-                <div className="mt-1 text-2xl font-semibold">{executionLog.data.totalRecords}</div>
+                <div className="mt-1 text-2xl font-semibold">{summary.totalRecords}</div>
               </div>
               <div className="bg-white p-4 rounded-lg border border-gray-200">
                 <div className="text-sm font-medium text-gray-500">Total Agents</div>
-                <div className="mt-1 text-2xl font-semibold">{executionLog.data.summary.totalAgents}</div>
+                <div className="mt-1 text-2xl font-semibold">{summary.totalAgents}</div>
               </div>
               <div className="bg-white p-4 rounded-lg border border-gray-200">
                 <div className="text-sm font-medium text-gray-500">Qualified Agents</div>
-                <div className="mt-1 text-2xl font-semibold">{executionLog.data.summary.qualified}</div>
+                <div className="mt-1 text-2xl font-semibold">{summary.qualified}</div>
               </div>
               <div className="bg-white p-4 rounded-lg border border-gray-200">
                 <div className="text-sm font-medium text-gray-500">Total Payout</div>
                 <div className="mt-1 text-2xl font-semibold">
-                  ₹{executionLog.data.summary.totalPayout.toLocaleString('en-IN', { minimumFractionDigits: 2 })}
+                  ₹{parseFloat(summary.totalPayout).toLocaleString('en-IN', { minimumFractionDigits: 2 })}
                 </div>
               </div>
             </div>
@@ -302,7 +244,7 @@ export function ExecutionLog() {
                       )}
                       <div>
                         <h3 className="font-medium text-gray-900">
-                          Agent: {group.name || group.agentId}
+                          Agent: {group.agentId}
                         </h3>
                         <p className="text-sm text-gray-500">
                           {group.totalRules} rules triggered
@@ -345,7 +287,7 @@ export function ExecutionLog() {
                                 </span>
                               </td>
                               <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                                {log.ruleName}
+                                {log.ruleId || '-'}
                               </td>
                               <td className="px-6 py-4 text-sm text-gray-500">
                                 {log.message}
@@ -368,7 +310,13 @@ export function ExecutionLog() {
 
       {!executionLog && (
         <div className="text-center py-12">
-          <p className="text-gray-500">Upload an execution log file to view details</p>
+          {loadError ? (
+            <p className="text-red-600">{loadError}</p>
+          ) : (
+            <p className="text-gray-500">
+              {runId ? 'Loading run...' : 'Open a run from Run History or upload an execution log file to view details'}
+            </p>
+          )}
         </div>
       )}
     </div>
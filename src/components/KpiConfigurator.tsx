@@ -1,10 +1,13 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { Plus, Save, Edit2, X, FileUp, Calculator, Upload, AlertCircle, Check } from 'lucide-react';
+import { useState, useRef, useEffect } from 'react';
+import { Plus, Save, Edit2, X, Calculator, Upload, AlertCircle, Check } from 'lucide-react';
 import { Button } from './ui/button';
 import { Card } from './ui/card';
 import { Tabs, TabsList, TabsTrigger, TabsContent } from './ui/tabs';
-import { useAuthStore } from '../store/authStore';
 import { format } from 'date-fns';
+import { SourceJoinBuilder } from './scheme/SourceJoinBuilder';
+import { KpiConfigList } from './scheme/KpiConfigList';
+import { createKpiConfig, getKpiConfig, updateKpiConfig } from '../api/kpiConfigs';
+import type { KpiConfigSummary, SourceJoin, StoredKpiConfig } from '../types';
 
 const CALCULATION_BASES = [
   'Sales Orders',
@@ -14,7 +17,7 @@ const CALCULATION_BASES = [
   'Loans'
 ];
 
-const EVALUATION_LEVELS = ['Per Record', 'Per Agent'];
+const EVALUATION_LEVELS = ['Per Record', 'Per Agent', 'Team', 'Region'];
 const METRIC_TYPES = ['Count', 'Sum', 'Average', 'Minimum', 'Maximum'];
 const PERIOD_TYPES = ['Monthly', 'Quarterly', 'Yearly'];
 
@@ -26,8 +29,8 @@ interface KpiEntry {
   sourceField: string;
   sourceFile?: string;
   dataType: 'Number' | 'String' | 'Date';
-  evaluationLevel: 'Agent' | 'Team' | 'Region' | 'Per Record';
-  aggregation: 'Sum' | 'Avg' | 'Min' | 'Max' | 'NotApplicable';
+  evaluationLevel: 'Agent' | 'Per Agent' | 'Team' | 'Region' | 'Per Record';
+  aggregation: 'Sum' | 'Avg' | 'Min' | 'Max' | 'Count' | 'CountDistinct' | 'NotApplicable';
   isNew?: boolean;
   isEditing?: boolean;
   originalValues?: Partial<KpiEntry>;
@@ -42,20 +45,29 @@ interface KpiConfig {
   adjustmentFields: KpiEntry[];
   exclusionFields: KpiEntry[];
   creditFields: KpiEntry[];
+  joins?: SourceJoin[];
 }
 
 type Mode = 'initial' | 'new' | 'view' | 'edit';
 
+// Saved entries are the configurator's own KpiEntry objects
+const toEditableConfig = (stored: StoredKpiConfig): KpiConfig => ({
+  calculationBase: stored.calculationBase,
+  baseField: stored.baseField || '',
+  baseData: stored.baseData as KpiEntry[],
+  qualificationFields: stored.qualificationFields as KpiEntry[],
+  adjustmentFields: stored.adjustmentFields as KpiEntry[],
+  exclusionFields: stored.exclusionFields as KpiEntry[],
+  creditFields: stored.creditFields as KpiEntry[],
+  joins: stored.joins
+});
+
 export function KpiConfigurator() {
-  const user = useAuthStore((state) => state.user);
-  const fileInputRef = useRef<HTMLInputElement>(null);
-  const kpiConfigInputRef = useRef<HTMLInputElement>(null);
-  const additionalKpiConfigInputRef = useRef<HTMLInputElement>(null);
   const originalConfigRef = useRef<KpiConfig | null>(null);
   const [mode, setMode] = useState<Mode>('initial');
-  const [loadedKpiConfig, setLoadedKpiConfig] = useState<KpiConfig | null>(null);
   const [activeSection, setActiveSection] = useState<string>('base');
   const [hasChanges, setHasChanges] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
   const [globalError, setGlobalError] = useState<string>('');
   const [kpiIdentifier, setKpiIdentifier] = useState('');
   const [kpiIdentifierError, setKpiIdentifierError] = useState('');
@@ -87,48 +99,28 @@ export function KpiConfigurator() {
     return true;
   };
 
-  const handleFileLoad = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        try {
-          const loadedConfig = JSON.parse(e.target?.result as string);
-          console.log('Loaded KPI config:', loadedConfig);
-          
-          // Extract SchID if present
-          if (loadedConfig.SchID) {
-            setSchId(loadedConfig.SchID);
-            // Remove SchID from config object to maintain existing structure
-            const { SchID, ...configWithoutId } = loadedConfig;
-            originalConfigRef.current = JSON.parse(JSON.stringify(configWithoutId));
-            setConfig(configWithoutId);
-          } else {
-            originalConfigRef.current = JSON.parse(JSON.stringify(loadedConfig));
-            setConfig(loadedConfig);
-          }
-          
-          if (loadedConfig.kpiConfig) {
-            setLoadedKpiConfig(loadedConfig.kpiConfig);
-          }
-          setMode('view');
-          setGlobalError('');
-          setValidationErrors({});
-          setLoadingErrors({});
-          setSuccessMessage('KPI Configuration loaded successfully');
-          setTimeout(() => setSuccessMessage(''), 3000);
-        } catch (err) {
-          console.error('Error parsing KPI config:', err);
-          setLoadingErrors({
-            parse: `Failed to load configuration: ${err instanceof Error ? err.message : 'Invalid format'}`
-          });
-        }
-      };
-      reader.readAsText(file);
+  const handleConfigSelect = async (summary: KpiConfigSummary) => {
+    try {
+      const stored = await getKpiConfig(summary.id);
+      const loadedConfig = toEditableConfig(stored);
+      setSchId(stored.SchID);
+      originalConfigRef.current = JSON.parse(JSON.stringify(loadedConfig));
+      setConfig(loadedConfig);
+      setMode('view');
+      setGlobalError('');
+      setValidationErrors({});
+      setLoadingErrors({});
+      setSuccessMessage('KPI Configuration loaded successfully');
+      setTimeout(() => setSuccessMessage(''), 3000);
+    } catch (err) {
+      console.error('Error loading KPI config:', err);
+      setLoadingErrors({
+        load: `Failed to load configuration: ${err instanceof Error ? err.message : 'Unknown error'}`
+      });
     }
   };
 
-  const handleSave = () => {
+  const handleSave = async () => {
     if (mode === 'new' && !validateKpiIdentifier(kpiIdentifier)) {
       return;
     }
@@ -136,37 +128,26 @@ export function KpiConfigurator() {
       return;
     }
 
-    let filename: string;
-    let configToSave: any;
-
-    if (mode === 'new') {
-      const timestamp = format(new Date(), 'ddMMyy_HHmm');
-      const newSchId = `K_${kpiIdentifier.toUpperCase()}_${timestamp}`;
-      filename = `${newSchId}.json`;
-      configToSave = {
-        SchID: newSchId,
-        ...config
-      };
-    } else {
-      // For edit mode, maintain existing SchID
-      filename = `${schId || 'kpi_config'}.json`;
-      configToSave = {
-        SchID: schId,
-        ...config
-      };
+    setIsSaving(true);
+    setGlobalError('');
+    try {
+      if (mode === 'new') {
+        const timestamp = format(new Date(), 'ddMMyy_HHmm');
+        await createKpiConfig({
+          SchID: `K_${kpiIdentifier.toUpperCase()}_${timestamp}`,
+          ...config
+        });
+      } else {
+        // Edits keep the existing SchID
+        await updateKpiConfig(schId, config);
+      }
+    } catch (err) {
+      setGlobalError(err instanceof Error ? err.message : 'Failed to save configuration');
+      return;
+    } finally {
+      setIsSaving(false);
     }
-    
-    const dataStr = JSON.stringify(configToSave, null, 2);
-    const dataBlob = new Blob([dataStr], { type: 'application/json' });
-    const url = URL.createObjectURL(dataBlob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = filename;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
-    
+
     setSuccessMessage('Configuration saved successfully');
     setTimeout(() => {
       setSuccessMessage('');
@@ -230,7 +211,7 @@ export function KpiConfigurator() {
     if (error) {
       setConfig(prev => ({
         ...prev,
-        [activeSection]: prev[activeSection as keyof KpiConfig].map(k => 
+        [activeSection]: prev[activeSection as keyof Omit<KpiConfig, 'calculationBase' | 'baseField' | 'joins'>].map(k => 
           k.id === kpi.id ? { ...k, validationError: error } : k
         )
       }));
@@ -248,7 +229,7 @@ export function KpiConfigurator() {
     }
   };
 
-  const addKpiToSection = (section: keyof Omit<KpiConfig, 'calculationBase' | 'baseField'>) => {
+  const addKpiToSection = (section: keyof Omit<KpiConfig, 'calculationBase' | 'baseField' | 'joins'>) => {
     if (mode === 'view') return;
     const newKpi = createKpiEntry();
     setConfig(prev => ({
@@ -259,7 +240,7 @@ export function KpiConfigurator() {
   };
 
   const updateKpi = (
-    section: keyof Omit<KpiConfig, 'calculationBase' | 'baseField'>,
+    section: keyof Omit<KpiConfig, 'calculationBase' | 'baseField' | 'joins'>,
     id: string,
     updates: Partial<KpiEntry>
   ) => {
@@ -274,7 +255,7 @@ export function KpiConfigurator() {
   };
 
   const startEditingKpi = (
-    section: keyof Omit<KpiConfig, 'calculationBase' | 'baseField'>,
+    section: keyof Omit<KpiConfig, 'calculationBase' | 'baseField' | 'joins'>,
     id: string
   ) => {
     setConfig(prev => ({
@@ -302,7 +283,7 @@ export function KpiConfigurator() {
   };
 
   const cancelEditingKpi = (
-    section: keyof Omit<KpiConfig, 'calculationBase' | 'baseField'>,
+    section: keyof Omit<KpiConfig, 'calculationBase' | 'baseField' | 'joins'>,
     id: string
   ) => {
     setConfig(prev => ({
@@ -326,7 +307,7 @@ export function KpiConfigurator() {
   };
 
   const saveKpi = (
-    section: keyof Omit<KpiConfig, 'calculationBase' | 'baseField'>,
+    section: keyof Omit<KpiConfig, 'calculationBase' | 'baseField' | 'joins'>,
     id: string
   ) => {
     const kpi = config[section].find(k => k.id === id);
@@ -350,7 +331,7 @@ export function KpiConfigurator() {
   };
 
   const deleteKpi = (
-    section: keyof Omit<KpiConfig, 'calculationBase' | 'baseField'>,
+    section: keyof Omit<KpiConfig, 'calculationBase' | 'baseField' | 'joins'>,
     id: string
   ) => {
     if (mode === 'view') return;
@@ -361,8 +342,24 @@ export function KpiConfigurator() {
     setHasChanges(true);
   };
 
+  const getExternalFiles = (): string[] => {
+    const files = new Set<string>();
+    [
+      ...config.baseData,
+      ...config.qualificationFields,
+      ...config.adjustmentFields,
+      ...config.exclusionFields,
+      ...config.creditFields
+    ].forEach(kpi => {
+      if (kpi.sourceType === 'External' && kpi.sourceFile?.trim()) {
+        files.add(kpi.sourceFile.trim());
+      }
+    });
+    return Array.from(files);
+  };
+
   const renderKpiSection = (
-    section: keyof Omit<KpiConfig, 'calculationBase' | 'baseField'>,
+    section: keyof Omit<KpiConfig, 'calculationBase' | 'baseField' | 'joins'>,
     title: string
   ) => {
     if (config[section].length === 0 && mode === 'view') {
@@ -492,7 +489,7 @@ export function KpiConfigurator() {
                       <label className="block text-sm font-medium text-slate-700 mb-1">Evaluation Level</label>
                       <select
                         value={kpi.evaluationLevel}
-                        onChange={(e) => updateKpi(section, kpi.id, { evaluationLevel: e.target.value as 'Agent' | 'Team' | 'Region' | 'Per Record' })}
+                        onChange={(e) => updateKpi(section, kpi.id, { evaluationLevel: e.target.value as KpiEntry['evaluationLevel'] })}
                         disabled={!kpi.isEditing}
                         className="w-full rounded-md border border-gray-300 shadow-inner px-3 py-2 focus:ring focus:outline-none disabled:bg-gray-50"
                       >
@@ -506,7 +503,7 @@ export function KpiConfigurator() {
                       <label className="block text-sm font-medium text-slate-700 mb-1">Aggregation</label>
                       <select
                         value={kpi.aggregation}
-                        onChange={(e) => updateKpi(section, kpi.id, { aggregation: e.target.value as 'Sum' | 'Avg' | 'Min' | 'Max' | 'NotApplicable' })}
+                        onChange={(e) => updateKpi(section, kpi.id, { aggregation: e.target.value as KpiEntry['aggregation'] })}
                         disabled={!kpi.isEditing}
                         className="w-full rounded-md border border-gray-300 shadow-inner px-3 py-2 focus:ring focus:outline-none disabled:bg-gray-50"
                       >
@@ -514,6 +511,8 @@ export function KpiConfigurator() {
                         <option value="Avg">Average</option>
                         <option value="Min">Minimum</option>
                         <option value="Max">Maximum</option>
+                        <option value="Count">Count</option>
+                        <option value="CountDistinct">Count Distinct</option>
                         <option value="NotApplicable">Not Applicable</option>
                       </select>
                     </div>
@@ -610,23 +609,13 @@ export function KpiConfigurator() {
                 <Plus className="h-5 w-5 mr-2" />
                 Create New Configuration
               </Button>
-              
-              <Button 
-                variant="outline" 
-                className="w-full rounded-full border-2 hover:bg-gray-100 transition py-6"
-                onClick={() => fileInputRef.current?.click()}
-              >
-                <FileUp className="h-5 w-5 mr-2" />
-                View Existing Configuration
-              </Button>
-              <input
-                ref={fileInputRef}
-                type="file"
-                accept=".json"
-                onChange={handleFileLoad}
-                className="hidden"
-              />
             </div>
+
+            {loadingErrors.load && (
+              <p className="text-sm text-red-600">{loadingErrors.load}</p>
+            )}
+
+            <KpiConfigList onSelect={handleConfigSelect} />
           </div>
         </Card>
       </div>
@@ -652,10 +641,11 @@ export function KpiConfigurator() {
             <>
               <Button 
                 onClick={handleSave}
+                disabled={isSaving}
                 className="rounded-full bg-black text-white hover:opacity-90 transition"
               >
                 <Save className="h-4 w-4 mr-2" />
-                Save Configuration
+                {isSaving ? 'Saving...' : 'Save Configuration'}
               </Button>
               <Button 
                 onClick={handleCancel} 
@@ -670,10 +660,11 @@ export function KpiConfigurator() {
           {mode === 'new' && hasChanges && (
             <Button 
               onClick={handleSave}
+              disabled={isSaving}
               className="rounded-full bg-black text-white hover:opacity-90 transition"
             >
               <Save className="h-4 w-4 mr-2" />
-              Save Configuration
+              {isSaving ? 'Saving...' : 'Save Configuration'}
             </Button>
           )}
         </div>
@@ -688,6 +679,15 @@ export function KpiConfigurator() {
         </Card>
       )}
 
+      {globalError && (
+        <Card className="bg-red-50 border-red-200 p-4">
+          <div className="flex items-center text-red-700">
+            <AlertCircle className="h-5 w-5 mr-2" />
+            {globalError}
+          </div>
+        </Card>
+      )}
+
       <Card className="bg-gray-50 rounded-xl p-6 shadow-sm border border-gray-200">
         <div className="grid grid-cols-1 gap-6 sm:grid-cols-2">
           {mode === 'new' ? (
@@ -754,6 +754,7 @@ export function KpiConfigurator() {
             <TabsTrigger value="adjustment" className="rounded-md">Adjustment Fields</TabsTrigger>
             <TabsTrigger value="exclusion" className="rounded-md">Exclusion Fields</TabsTrigger>
             <TabsTrigger value="credit" className="rounded-md">Credit Rules</TabsTrigger>
+            <TabsTrigger value="joins" className="rounded-md">Source Joins</TabsTrigger>
           </TabsList>
 
           <div className="p-6">
@@ -776,6 +777,18 @@ export function KpiConfigurator() {
             <TabsContent value="credit">
               {renderKpiSection('creditFields', 'Credit Rules KPIs')}
             </TabsContent>
+
+            <TabsContent value="joins">
+              <SourceJoinBuilder
+                joins={config.joins || []}
+                onChange={(joins) => {
+                  setConfig({ ...config, joins });
+                  setHasChanges(true);
+                }}
+                externalFiles={getExternalFiles()}
+                disabled={mode === 'view'}
+              />
+            </TabsContent>
           </div>
         </Tabs>
       </div>
@@ -1,80 +1,72 @@
 import React from 'react';
 import { Link, useNavigate } from 'react-router-dom';
-import { Users, Calculator, LogOut, FileSpreadsheet, BarChart3, Settings, Play } from 'lucide-react';
-import { useAuthStore } from '../store/authStore';
+import { Users, Calculator, LogOut, FileSpreadsheet, BarChart3, Settings, Play, History } from 'lucide-react';
+import { hasPermission, useAuthStore } from '../store/authStore';
+import { logoutUser } from '../api/auth';
+import type { Permission } from '../types/auth';
+
+const NAVIGATION_ITEMS: { to: string; icon: React.ReactNode; text: string; permission: Permission }[] = [
+  {
+    to: '/agent',
+    icon: <Users className="h-5 w-5 mr-1" />,
+    text: 'My Dashboard',
+    permission: 'payouts.viewOwn'
+  },
+  {
+    to: '/',
+    icon: <Calculator className="h-5 w-5 mr-1" />,
+    text: 'Dashboard',
+    permission: 'payouts.viewAll'
+  },
+  {
+    to: '/designer',
+    icon: <FileSpreadsheet className="h-5 w-5 mr-1" />,
+    text: 'Scheme Designer',
+    permission: 'schemes.design'
+  },
+  {
+    to: '/execution',
+    icon: <Play className="h-5 w-5 mr-1" />,
+    text: 'Scheme Execution',
+    permission: 'runs.simulate'
+  },
+  {
+    to: '/execution/runs',
+    icon: <History className="h-5 w-5 mr-1" />,
+    text: 'Run History',
+    permission: 'payouts.viewAll'
+  },
+  {
+    to: '/execution/log',
+    icon: <BarChart3 className="h-5 w-5 mr-1" />,
+    text: 'Execution Logs',
+    permission: 'payouts.viewAll'
+  },
+  {
+    to: '/admin',
+    icon: <Settings className="h-5 w-5 mr-1" />,
+    text: 'Admin',
+    permission: 'users.manage'
+  },
+  {
+    to: '/reports',
+    icon: <FileSpreadsheet className="h-5 w-5 mr-1" />,
+    text: 'Reports',
+    permission: 'payouts.viewAll'
+  }
+];
 
 export function Layout({ children }: { children: React.ReactNode }) {
   const navigate = useNavigate();
-  const { user, logout } = useAuthStore();
+  const user = useAuthStore((state) => state.user);
 
-  const handleLogout = () => {
-    logout();
+  const handleLogout = async () => {
+    await logoutUser();
     navigate('/login');
   };
 
-  const getNavigationItems = () => {
-    if (user?.role === 'agent') {
-      return [
-        {
-          to: '/agent',
-          icon: <Users className="h-5 w-5 mr-1" />,
-          text: 'My Dashboard'
-        }
-      ];
-    }
-
-    if (user?.role === 'manager') {
-      return [
-        {
-          to: '/',
-          icon: <Calculator className="h-5 w-5 mr-1" />,
-          text: 'Dashboard'
-        },
-        {
-          to: '/designer',
-          icon: <FileSpreadsheet className="h-5 w-5 mr-1" />,
-          text: 'Scheme Designer'
-        },
-        {
-          to: '/execution',
-          icon: <Play className="h-5 w-5 mr-1" />,
-          text: 'Scheme Execution'
-        },
-        {
-          to: '/execution/log',
-          icon: <BarChart3 className="h-5 w-5 mr-1" />,
-          text: 'Execution Logs'
-        },
-        {
-          to: '/reports',
-          icon: <FileSpreadsheet className="h-5 w-5 mr-1" />,
-          text: 'Reports'
-        }
-      ];
-    }
-
-    if (user?.role === 'admin') {
-      return [
-        {
-          to: '/',
-          icon: <Calculator className="h-5 w-5 mr-1" />,
-          text: 'Dashboard'
-        },
-        {
-          to: '/admin',
-          icon: <Settings className="h-5 w-5 mr-1" />,
-          text: 'Admin'
-        },
-        {
-          to: '/reports',
-          icon: <FileSpreadsheet className="h-5 w-5 mr-1" />,
-          text: 'Reports'
-        }
-      ];
-    }
-
-    return [];
-  };
+  // Each page shows for the users whose permissions the server would honour
+  const getNavigationItems = () => NAVIGATION_ITEMS.filter((item) => hasPermission(user, item.permission));
 
   return (
     <div className="min-h-screen bg-gray-50">
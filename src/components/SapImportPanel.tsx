@@ -0,0 +1,150 @@
+import { useEffect, useState } from 'react';
+import { Database, Download } from 'lucide-react';
+import { Button } from './ui/button';
+import { Card } from './ui/card';
+import { fetchSapEntities, fetchSapTransactions } from '../api/sap';
+import type { SapEntity, SapTransactionsResult } from '../types';
+
+interface SapImportPanelProps {
+  defaultFrom: string;
+  defaultTo: string;
+  sourceOptions: string[];
+  onImport: (sourceName: string, result: SapTransactionsResult) => void;
+}
+
+const inputClassName =
+  'w-full rounded-md border border-gray-300 shadow-inner px-3 py-2 focus:ring focus:outline-none disabled:bg-gray-50';
+
+export function SapImportPanel({ defaultFrom, defaultTo, sourceOptions, onImport }: SapImportPanelProps) {
+  const [entities, setEntities] = useState<SapEntity[]>([]);
+  const [configured, setConfigured] = useState(true);
+  const [entityKey, setEntityKey] = useState('');
+  const [from, setFrom] = useState(defaultFrom);
+  const [to, setTo] = useState(defaultTo);
+  const [sourceName, setSourceName] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchSapEntities()
+      .then(response => {
+        setConfigured(response.configured);
+        setEntities(response.entities);
+        if (response.entities.length > 0) {
+          setEntityKey(response.entities[0].key);
+          setSourceName(response.entities[0].fileName);
+        }
+      })
+      .catch(() => setConfigured(false));
+  }, []);
+
+  useEffect(() => {
+    setTo(defaultTo);
+  }, [defaultTo]);
+
+  const handleEntityChange = (key: string) => {
+    const previous = entities.find(entity => entity.key === entityKey);
+    const next = entities.find(entity => entity.key === key);
+    setEntityKey(key);
+    // Follow the entity's default name unless the user typed their own
+    if (next && (!sourceName || sourceName === previous?.fileName)) {
+      setSourceName(next.fileName);
+    }
+  };
+
+  const handlePull = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const result = await fetchSapTransactions(entityKey, from, to);
+      onImport(sourceName.trim(), result);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to pull transactions from SAP');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Card className="p-6 border border-gray-200 rounded-xl bg-white">
+      <div className="flex items-center mb-4">
+        <Database className="h-5 w-5 text-indigo-600 mr-2" />
+        <h3 className="text-lg font-medium text-gray-900">Pull from SAP</h3>
+      </div>
+
+      {!configured ? (
+        <p className="text-sm text-gray-500">
+          The SAP connector is not configured for your client on the server (SAP_CONNECTIONS).
+        </p>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-4 mb-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Documents</label>
+              <select
+                value={entityKey}
+                onChange={(e) => handleEntityChange(e.target.value)}
+                disabled={isLoading}
+                className={inputClassName}
+              >
+                {entities.map(entity => (
+                  <option key={entity.key} value={entity.key}>{entity.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">From</label>
+              <input
+                type="date"
+                value={from}
+                onChange={(e) => setFrom(e.target.value)}
+                disabled={isLoading}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">To</label>
+              <input
+                type="date"
+                value={to}
+                onChange={(e) => setTo(e.target.value)}
+                disabled={isLoading}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Register As</label>
+              <input
+                type="text"
+                list="sap-source-names"
+                value={sourceName}
+                onChange={(e) => setSourceName(e.target.value)}
+                disabled={isLoading}
+                className={inputClassName}
+              />
+              <datalist id="sap-source-names">
+                {sourceOptions.map(option => (
+                  <option key={option} value={option} />
+                ))}
+              </datalist>
+            </div>
+          </div>
+
+          {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+          <div className="flex justify-end">
+            <Button
+              onClick={handlePull}
+              disabled={isLoading || !entityKey || !from || !to || !sourceName.trim()}
+              variant="outline"
+              className="rounded-full hover:bg-gray-100 transition"
+            >
+              <Download className="h-4 w-4 mr-2" />
+              {isLoading ? 'Pulling...' : 'Pull Documents'}
+            </Button>
+          </div>
+        </>
+      )}
+    </Card>
+  );
+}
@@ -1,6 +1,6 @@
-import React, { useState, useRef } from 'react';
+import { useState } from 'react';
 import { format } from 'date-fns';
-import { Plus, Save, Edit2, X, FileUp, Calculator, Upload, AlertCircle, Check } from 'lucide-react';
+import { Plus, Save, Edit2, X, Download, Calculator, FolderOpen, AlertCircle, Check } from 'lucide-react';
 import { Button } from './ui/button';
 import { Card } from './ui/card';
 import { Tabs, TabsList, TabsTrigger, TabsContent } from './ui/tabs';
@@ -8,11 +8,34 @@ import { useAuthStore } from '../store/authStore';
 import { RuleBuilder } from './scheme/RuleBuilder';
 import { AdjustmentRuleBuilder } from './scheme/AdjustmentRuleBuilder';
 import { PayoutTierBuilder } from './scheme/PayoutTierBuilder';
+import { PayoutLimitBuilder } from './scheme/PayoutLimitBuilder';
 import { CreditSplitTable } from './scheme/CreditSplitTable';
-import type { CompensationScheme, KpiConfig } from '../types';
+import { SchemeList } from './scheme/SchemeList';
+import { VersionManager } from './scheme/VersionManager';
+import { SchemeLifecyclePanel } from './scheme/SchemeLifecyclePanel';
+import { KpiConfigList } from './scheme/KpiConfigList';
+import { createScheme, getScheme, updateScheme } from '../api/schemes';
+import { getKpiConfig } from '../api/kpiConfigs';
+import type { CompensationScheme, KpiConfig, KpiConfigSummary, SchemeSummary, StoredKpiConfig } from '../types';
 
 type Mode = 'initial' | 'new' | 'view' | 'edit';
 
+// Which saved KPI configuration is being picked: the scheme's own, or one
+// whose fields are added to it
+type KpiPicker = 'base' | 'additional' | null;
+
+// A scheme keeps a copy of the KPI configuration's fields, named by its SchID
+const toSchemeKpiConfig = (stored: StoredKpiConfig): KpiConfig => ({
+  name: stored.SchID,
+  calculationBase: stored.calculationBase,
+  baseData: stored.baseData || [],
+  qualificationFields: stored.qualificationFields || [],
+  adjustmentFields: stored.adjustmentFields || [],
+  exclusionFields: stored.exclusionFields || [],
+  creditFields: stored.creditFields || [],
+  joins: stored.joins
+});
+
 const DEFAULT_CONFIG: CompensationScheme = {
   name: '',
   description: '',
@@ -41,9 +64,6 @@ const DEFAULT_CONFIG: CompensationScheme = {
 
 function SchemeDesigner() {
   const user = useAuthStore((state) => state.user);
-  const fileInputRef = useRef<HTMLInputElement>(null);
-  const kpiConfigInputRef = useRef<HTMLInputElement>(null);
-  const additionalKpiConfigInputRef = useRef<HTMLInputElement>(null);
   const [mode, setMode] = useState<Mode>('initial');
   const [schemeName, setSchemeName] = useState('');
   const [schemeNameError, setSchemeNameError] = useState('');
@@ -53,6 +73,7 @@ function SchemeDesigner() {
   const [successMessage, setSuccessMessage] = useState('');
   const [activeSection, setActiveSection] = useState('base');
   const [loadedKpiConfig, setLoadedKpiConfig] = useState<KpiConfig | null>(null);
+  const [kpiPicker, setKpiPicker] = useState<KpiPicker>(null);
 
   const validateSchemeName = (value: string): boolean => {
     if (!value) {
@@ -67,110 +88,87 @@ function SchemeDesigner() {
     return true;
   };
 
-  const handleFileLoad = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        try {
-          const loadedConfig = JSON.parse(e.target?.result as string);
-          setConfig(loadedConfig);
-          setMode('view');
-          setValidationErrors({});
-          setSuccessMessage('Scheme loaded successfully');
-          setTimeout(() => setSuccessMessage(''), 3000);
-        } catch (error) {
-          console.error('Error parsing scheme:', error);
-          setValidationErrors({
-            parse: 'Failed to parse scheme file'
-          });
-        }
-      };
-      reader.readAsText(file);
+  const handleSchemeSelect = async (summary: SchemeSummary) => {
+    try {
+      const loadedConfig = await getScheme(summary.id);
+      setConfig(loadedConfig);
+      setMode('view');
+      setValidationErrors({});
+      setSuccessMessage('Scheme loaded successfully');
+      setTimeout(() => setSuccessMessage(''), 3000);
+    } catch (error) {
+      console.error('Error loading scheme:', error);
+      setValidationErrors({
+        load: error instanceof Error ? error.message : 'Failed to load scheme'
+      });
     }
   };
 
-  const handleKpiConfigUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        try {
-          const kpiConfig = JSON.parse(e.target?.result as string);
-          
-          if (!kpiConfig.qualificationFields?.length) {
-            setValidationErrors(prev => ({
-              ...prev,
-              kpiConfig: 'Invalid KPI configuration: Must contain at least one qualification field'
-            }));
-            return;
-          }
-
-          if (!kpiConfig.calculationBase) {
-            setValidationErrors(prev => ({
-              ...prev,
-              kpiConfig: 'Invalid KPI configuration: Missing calculation base'
-            }));
-            return;
-          }
-
-          setLoadedKpiConfig(kpiConfig);
-          setConfig(prev => ({
-            ...prev,
-            revenueBase: kpiConfig.calculationBase,
-            kpiConfig
-          }));
-          setValidationErrors({});
-          setSuccessMessage('KPI Configuration loaded successfully');
-          setTimeout(() => setSuccessMessage(''), 3000);
-        } catch (error) {
-          setValidationErrors(prev => ({
-            ...prev,
-            kpiConfig: 'Failed to parse KPI configuration file'
-          }));
-        }
-      };
-      reader.readAsText(file);
+  const handleKpiConfigSelect = async (summary: KpiConfigSummary) => {
+    let kpiConfig: KpiConfig;
+    try {
+      kpiConfig = toSchemeKpiConfig(await getKpiConfig(summary.id));
+    } catch (error) {
+      console.error('Error loading KPI configuration:', error);
+      setValidationErrors(prev => ({
+        ...prev,
+        kpiConfig: error instanceof Error ? error.message : 'Failed to load KPI configuration'
+      }));
+      return;
     }
-  };
 
-  const handleAdditionalKpiConfigUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file && config.kpiConfig) {
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        try {
-          const newKpiConfig = JSON.parse(e.target?.result as string);
-          
-          const mergedConfig: KpiConfig = {
-            ...config.kpiConfig,
-            baseData: [...(config.kpiConfig.baseData || []), ...(newKpiConfig.baseData || [])],
-            qualificationFields: [...(config.kpiConfig.qualificationFields || []), ...(newKpiConfig.qualificationFields || [])],
-            adjustmentFields: [...(config.kpiConfig.adjustmentFields || []), ...(newKpiConfig.adjustmentFields || [])],
-            exclusionFields: [...(config.kpiConfig.exclusionFields || []), ...(newKpiConfig.exclusionFields || [])],
-            creditFields: [...(config.kpiConfig.creditFields || []), ...(newKpiConfig.creditFields || [])]
-          };
-
-          setLoadedKpiConfig(mergedConfig);
-          setConfig(prev => ({
-            ...prev,
-            kpiConfig: mergedConfig
-          }));
-
-          setSuccessMessage('Additional KPI fields merged successfully');
-          setTimeout(() => setSuccessMessage(''), 3000);
-        } catch (error) {
-          setValidationErrors(prev => ({
-            ...prev,
-            kpiConfig: 'Failed to parse additional KPI configuration file'
-          }));
-        }
+    if (kpiPicker === 'additional' && config.kpiConfig) {
+      const mergedConfig: KpiConfig = {
+        ...config.kpiConfig,
+        baseData: [...(config.kpiConfig.baseData || []), ...kpiConfig.baseData],
+        qualificationFields: [...(config.kpiConfig.qualificationFields || []), ...kpiConfig.qualificationFields],
+        adjustmentFields: [...(config.kpiConfig.adjustmentFields || []), ...kpiConfig.adjustmentFields],
+        exclusionFields: [...(config.kpiConfig.exclusionFields || []), ...kpiConfig.exclusionFields],
+        creditFields: [...(config.kpiConfig.creditFields || []), ...kpiConfig.creditFields]
       };
-      reader.readAsText(file);
+
+      setLoadedKpiConfig(mergedConfig);
+      setConfig(prev => ({
+        ...prev,
+        kpiConfig: mergedConfig
+      }));
+      setKpiPicker(null);
+      setHasChanges(true);
+      setSuccessMessage('Additional KPI fields merged successfully');
+      setTimeout(() => setSuccessMessage(''), 3000);
+      return;
     }
+
+    if (!kpiConfig.qualificationFields.length) {
+      setValidationErrors(prev => ({
+        ...prev,
+        kpiConfig: 'Invalid KPI configuration: Must contain at least one qualification field'
+      }));
+      return;
+    }
+
+    if (!kpiConfig.calculationBase) {
+      setValidationErrors(prev => ({
+        ...prev,
+        kpiConfig: 'Invalid KPI configuration: Missing calculation base'
+      }));
+      return;
+    }
+
+    setLoadedKpiConfig(kpiConfig);
+    setConfig(prev => ({
+      ...prev,
+      revenueBase: kpiConfig.calculationBase,
+      kpiConfig
+    }));
+    setKpiPicker(null);
+    setHasChanges(true);
+    setValidationErrors({});
+    setSuccessMessage('KPI Configuration loaded successfully');
+    setTimeout(() => setSuccessMessage(''), 3000);
   };
 
-  const handleSave = () => {
+  const handleSave = async () => {
     if (mode === 'new' && !validateSchemeName(schemeName)) {
       return;
     }
@@ -196,18 +194,22 @@ function SchemeDesigner() {
       };
     }
 
-    const filename = `${schemeToSave.SchemeID}.json`;
-    const dataStr = JSON.stringify(schemeToSave, null, 2);
-    const dataBlob = new Blob([dataStr], { type: 'application/json' });
-    const url = URL.createObjectURL(dataBlob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = filename;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
+    try {
+      if (mode === 'new') {
+        await createScheme(schemeToSave);
+      } else {
+        await updateScheme(config.id!, schemeToSave);
+      }
+    } catch (error) {
+      console.error('Error saving scheme:', error);
+      setValidationErrors(prev => ({
+        ...prev,
+        save: error instanceof Error ? error.message : 'Failed to save scheme'
+      }));
+      return;
+    }
 
+    setValidationErrors({});
     setSuccessMessage('Scheme saved successfully');
     setTimeout(() => {
       setSuccessMessage('');
@@ -215,9 +217,30 @@ function SchemeDesigner() {
       setConfig(DEFAULT_CONFIG);
       setSchemeName('');
       setHasChanges(false);
+      setKpiPicker(null);
     }, 3000);
   };
 
+  const handleVersionRestored = (restored: CompensationScheme) => {
+    setConfig(restored);
+    setSuccessMessage(`Restored as draft version ${restored.versionNumber}`);
+    setTimeout(() => setSuccessMessage(''), 3000);
+  };
+
+  const handleDownload = () => {
+    const filename = `${config.SchemeID || config.name}.json`;
+    const dataStr = JSON.stringify(config, null, 2);
+    const dataBlob = new Blob([dataStr], { type: 'application/json' });
+    const url = URL.createObjectURL(dataBlob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
   if (mode === 'initial') {
     return (
       <div className="max-w-5xl mx-auto py-12 px-4">
@@ -237,23 +260,13 @@ function SchemeDesigner() {
                 <Plus className="h-5 w-5 mr-2" />
                 Create New Scheme
               </Button>
-              
-              <Button 
-                variant="outline" 
-                className="w-full rounded-full border-2 hover:bg-gray-100 transition py-6"
-                onClick={() => fileInputRef.current?.click()}
-              >
-                <FileUp className="h-5 w-5 mr-2" />
-                View Existing Scheme
-              </Button>
-              <input
-                ref={fileInputRef}
-                type="file"
-                accept=".json"
-                onChange={handleFileLoad}
-                className="hidden"
-              />
             </div>
+
+            {validationErrors.load && (
+              <p className="text-sm text-red-600">{validationErrors.load}</p>
+            )}
+
+            <SchemeList onSelect={handleSchemeSelect} />
           </div>
         </Card>
       </div>
@@ -268,8 +281,21 @@ function SchemeDesigner() {
         </h1>
         <div className="flex space-x-3">
           {mode === 'view' && (
+            <Button
+              onClick={handleDownload}
+              variant="outline"
+              className="rounded-full hover:bg-gray-100 transition"
+            >
+              <Download className="h-4 w-4 mr-2" />
+              Download JSON
+            </Button>
+          )}
+          {mode === 'view' && config.status !== 'IN_REVIEW' && (
             <Button 
-              onClick={() => setMode('edit')} 
+              onClick={() => {
+                setMode('edit');
+                if (activeSection === 'history') setActiveSection('base');
+              }}
               variant="outline"
               className="rounded-full hover:bg-gray-100 transition"
             >
@@ -298,6 +324,19 @@ function SchemeDesigner() {
         </Card>
       )}
 
+      {mode === 'view' && config.id && (
+        <SchemeLifecyclePanel scheme={config} onChange={setConfig} />
+      )}
+
+      {validationErrors.save && (
+        <Card className="bg-red-50 border-red-200 p-4">
+          <div className="flex items-center text-red-700">
+            <AlertCircle className="h-5 w-5 mr-2" />
+            {validationErrors.save}
+          </div>
+        </Card>
+      )}
+
       <Card className="bg-gray-50 rounded-xl p-6 shadow-sm border border-gray-200">
         <div className="grid grid-cols-1 gap-6 sm:grid-cols-2">
           {mode === 'new' ? (
@@ -357,45 +396,40 @@ function SchemeDesigner() {
                     {config.kpiConfig.exclusionFields.length} exclusion fields,{' '}
                     {config.kpiConfig.creditFields?.length || 0} credit fields
                   </p>
-                  {mode !== 'view' && (
+                  {mode !== 'view' && kpiPicker === null && (
                     <Button
-                      onClick={() => additionalKpiConfigInputRef.current?.click()}
+                      onClick={() => setKpiPicker('additional')}
                       variant="outline"
                       size="sm"
                       className="mt-2 rounded-full hover:bg-gray-100 transition"
                     >
-                      <Upload className="h-4 w-4 mr-2" />
-                      Upload Additional KPI Fields
+                      <FolderOpen className="h-4 w-4 mr-2" />
+                      Add Fields from a KPI Configuration
                     </Button>
                   )}
                 </div>
-              ) : (
+              ) : kpiPicker === null && (
                 <Button
-                  onClick={() => kpiConfigInputRef.current?.click()}
+                  onClick={() => setKpiPicker('base')}
                   disabled={mode === 'view'}
                   variant="outline"
                   className={`w-full rounded-full hover:bg-gray-100 transition ${
                     validationErrors.kpiConfig ? 'border-red-300' : ''
                   }`}
                 >
-                  <Upload className="h-4 w-4 mr-2" />
-                  Upload KPI Configuration
+                  <FolderOpen className="h-4 w-4 mr-2" />
+                  Choose KPI Configuration
                 </Button>
               )}
-              <input
-                ref={kpiConfigInputRef}
-                type="file"
-                accept=".json"
-                onChange={handleKpiConfigUpload}
-                className="hidden"
-              />
-              <input
-                ref={additionalKpiConfigInputRef}
-                type="file"
-                accept=".json"
-                onChange={handleAdditionalKpiConfigUpload}
-                className="hidden"
-              />
+              {kpiPicker && (
+                <div className="space-y-2">
+                  <KpiConfigList onSelect={handleKpiConfigSelect} />
+                  <Button onClick={() => setKpiPicker(null)} variant="outline" size="sm" className="rounded-full">
+                    <X className="h-4 w-4 mr-2" />
+                    Cancel
+                  </Button>
+                </div>
+              )}
               {validationErrors.kpiConfig && (
                 <p className="mt-1 text-sm text-red-600">{validationErrors.kpiConfig}</p>
               )}
@@ -443,6 +477,20 @@ function SchemeDesigner() {
               className="w-full rounded-md border border-gray-300 shadow-inner px-3 py-2 focus:ring focus:outline-none disabled:bg-gray-50"
             />
           </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Quota Amount</label>
+            <input
+              type="number"
+              value={config.quotaAmount}
+              onChange={(e) => {
+                setConfig({ ...config, quotaAmount: parseFloat(e.target.value) || 0 });
+                setHasChanges(true);
+              }}
+              disabled={mode === 'view'}
+              className="w-full rounded-md border border-gray-300 shadow-inner px-3 py-2 focus:ring focus:outline-none disabled:bg-gray-50"
+            />
+          </div>
         </div>
       </Card>
 
@@ -459,6 +507,9 @@ function SchemeDesigner() {
             <TabsTrigger value="exclusion" className="rounded-md">Exclusion Fields</TabsTrigger>
             <TabsTrigger value="payout" className="rounded-md">Payout Tiers</TabsTrigger>
             <TabsTrigger value="credit" className="rounded-md">Credit Rules</TabsTrigger>
+            {mode === 'view' && config.id && (
+              <TabsTrigger value="history" className="rounded-md">History</TabsTrigger>
+            )}
           </TabsList>
 
           <div className="p-6">
@@ -555,6 +606,111 @@ function SchemeDesigner() {
                       className="w-full rounded-md border border-gray-300 shadow-inner px-3 py-2 focus:ring focus:outline-none disabled:bg-gray-50"
                     />
                   </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Team Field</label>
+                    <input
+                      type="text"
+                      value={config.baseMapping.teamField || ''}
+                      onChange={(e) => {
+                        setConfig({
+                          ...config,
+                          baseMapping: { ...config.baseMapping, teamField: e.target.value }
+                        });
+                        setHasChanges(true);
+                      }}
+                      disabled={mode === 'view'}
+                      placeholder="e.g., Sales Team or L1 (base file, hierarchy column or level)"
+                      className="w-full rounded-md border border-gray-300 shadow-inner px-3 py-2 focus:ring focus:outline-none disabled:bg-gray-50"
+                    />
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Region Field</label>
+                    <input
+                      type="text"
+                      value={config.baseMapping.regionField || ''}
+                      onChange={(e) => {
+                        setConfig({
+                          ...config,
+                          baseMapping: { ...config.baseMapping, regionField: e.target.value }
+                        });
+                        setHasChanges(true);
+                      }}
+                      disabled={mode === 'view'}
+                      placeholder="e.g., Sales Region or L2 (base file, hierarchy column or level)"
+                      className="w-full rounded-md border border-gray-300 shadow-inner px-3 py-2 focus:ring focus:outline-none disabled:bg-gray-50"
+                    />
+                  </div>
+
+                  <div className="grid grid-cols-1 gap-6 sm:grid-cols-3">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Quota File</label>
+                      <input
+                        type="text"
+                        value={config.quotaMapping?.sourceFile || ''}
+                        onChange={(e) => {
+                          setConfig({
+                            ...config,
+                            quotaMapping: {
+                              agentField: '',
+                              quotaField: '',
+                              ...config.quotaMapping,
+                              sourceFile: e.target.value
+                            }
+                          });
+                          setHasChanges(true);
+                        }}
+                        disabled={mode === 'view'}
+                        placeholder="e.g., Quotas.csv (optional)"
+                        className="w-full rounded-md border border-gray-300 shadow-inner px-3 py-2 focus:ring focus:outline-none disabled:bg-gray-50"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Quota Agent Field</label>
+                      <input
+                        type="text"
+                        value={config.quotaMapping?.agentField || ''}
+                        onChange={(e) => {
+                          setConfig({
+                            ...config,
+                            quotaMapping: {
+                              sourceFile: '',
+                              quotaField: '',
+                              ...config.quotaMapping,
+                              agentField: e.target.value
+                            }
+                          });
+                          setHasChanges(true);
+                        }}
+                        disabled={mode === 'view'}
+                        placeholder="e.g., AgentID"
+                        className="w-full rounded-md border border-gray-300 shadow-inner px-3 py-2 focus:ring focus:outline-none disabled:bg-gray-50"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Quota Field</label>
+                      <input
+                        type="text"
+                        value={config.quotaMapping?.quotaField || ''}
+                        onChange={(e) => {
+                          setConfig({
+                            ...config,
+                            quotaMapping: {
+                              sourceFile: '',
+                              agentField: '',
+                              ...config.quotaMapping,
+                              quotaField: e.target.value
+                            }
+                          });
+                          setHasChanges(true);
+                        }}
+                        disabled={mode === 'view'}
+                        placeholder="e.g., Quota"
+                        className="w-full rounded-md border border-gray-300 shadow-inner px-3 py-2 focus:ring focus:outline-none disabled:bg-gray-50"
+                      />
+                    </div>
+                  </div>
                 </div>
               </Card>
             </TabsContent>
@@ -605,8 +761,31 @@ function SchemeDesigner() {
                   setConfig({ ...config, payoutTiers: tiers });
                   setHasChanges(true);
                 }}
+                tierBasis={config.tierBasis || 'amount'}
+                onTierBasisChange={(tierBasis) => {
+                  setConfig({ ...config, tierBasis });
+                  setHasChanges(true);
+                }}
+                tierMethod={config.tierMethod || 'marginal'}
+                onTierMethodChange={(tierMethod) => {
+                  setConfig({ ...config, tierMethod });
+                  setHasChanges(true);
+                }}
                 disabled={mode === 'view'}
               />
+              <div className="mt-8">
+                <PayoutLimitBuilder
+                  targetIncentive={config.targetIncentive}
+                  cap={config.payoutCap}
+                  floor={config.payoutFloor}
+                  mapping={config.payoutLimitMapping}
+                  onChange={(updates) => {
+                    setConfig({ ...config, ...updates });
+                    setHasChanges(true);
+                  }}
+                  disabled={mode === 'view'}
+                />
+              </div>
             </TabsContent>
 
             <TabsContent value="credit">
@@ -624,6 +803,17 @@ function SchemeDesigner() {
                 disabled={mode === 'view'}
               />
             </TabsContent>
+
+            {mode === 'view' && config.id && (
+              <TabsContent value="history">
+                <VersionManager
+                  schemeId={config.id}
+                  currentVersion={config.versionNumber}
+                  currentStatus={config.status}
+                  onRestored={handleVersionRestored}
+                />
+              </TabsContent>
+            )}
           </div>
         </Tabs>
       </div>
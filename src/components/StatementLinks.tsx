@@ -0,0 +1,106 @@
+import { useState } from 'react';
+import { Download, FileArchive, Printer } from 'lucide-react';
+import { Button } from './ui/button';
+import { exportStatements, getStatement } from '../api/statements';
+import type { StatementFile } from '../types';
+
+const saveFile = ({ blob, fileName }: StatementFile) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+interface StatementLinksProps {
+  runId: string;
+  /** The payee; omitted for the signed-in agent's own statement. */
+  agentId?: string;
+}
+
+/**
+ * Opens a payee's payout statement for a run as printable HTML in a new tab,
+ * or downloads it as a PDF.
+ */
+export function StatementLinks({ runId, agentId }: StatementLinksProps) {
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const openHtml = async () => {
+    // Opened before the request so the browser does not treat it as a popup
+    const tab = window.open('', '_blank');
+    setBusy(true);
+    setError(null);
+    try {
+      const { blob } = await getStatement(runId, 'html', agentId);
+      const url = URL.createObjectURL(blob);
+      if (tab) tab.location.href = url;
+      setTimeout(() => URL.revokeObjectURL(url), 60000);
+    } catch (err) {
+      tab?.close();
+      setError(err instanceof Error ? err.message : 'Failed to open the statement');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const downloadPdf = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      saveFile(await getStatement(runId, 'pdf', agentId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to download the statement');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center space-x-2">
+      <Button size="sm" variant="outline" onClick={openHtml} disabled={busy} title="Printable statement">
+        <Printer className="h-4 w-4 mr-1" />
+        HTML
+      </Button>
+      <Button size="sm" variant="outline" onClick={downloadPdf} disabled={busy} title="Download statement as PDF">
+        <Download className="h-4 w-4 mr-1" />
+        PDF
+      </Button>
+      {error && <span className="text-xs text-red-600">{error}</span>}
+    </div>
+  );
+}
+
+/** Downloads every payee's PDF statement for a run as one zip archive. */
+export function StatementExportButton({ runId }: { runId: string }) {
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      saveFile(await exportStatements(runId, 'pdf'));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export statements');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Button
+      onClick={handleExport}
+      disabled={isExporting}
+      variant="outline"
+      className={`rounded-full ${error ? 'border-red-300 text-red-600' : ''}`}
+      title={error || 'Every payee\'s PDF statement in one zip'}
+    >
+      <FileArchive className="h-4 w-4 mr-2" />
+      {isExporting ? 'Exporting...' : error ? 'Export failed' : 'Statements (ZIP)'}
+    </Button>
+  );
+}
@@ -0,0 +1,130 @@
+import { Check, FileSpreadsheet, X } from 'lucide-react';
+import { Button } from './ui/button';
+import { Card } from './ui/card';
+import type { SheetPreview } from '../types';
+
+interface WorkbookSheetPickerProps {
+  fileName: string;
+  sheets: SheetPreview[];
+  sheetName: string;
+  headerRow: number;
+  sourceName: string;
+  sourceOptions: string[];
+  onChange: (updates: { sheetName?: string; headerRow?: number; sourceName?: string }) => void;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+const inputClassName =
+  'w-full rounded-md border border-gray-300 shadow-inner px-3 py-2 focus:ring focus:outline-none disabled:bg-gray-50';
+
+export function WorkbookSheetPicker({
+  fileName,
+  sheets,
+  sheetName,
+  headerRow,
+  sourceName,
+  sourceOptions,
+  onChange,
+  onConfirm,
+  onCancel
+}: WorkbookSheetPickerProps) {
+  const sheet = sheets.find(s => s.name === sheetName);
+
+  return (
+    <Card className="p-6 border border-gray-200 rounded-xl bg-white">
+      <div className="flex items-center mb-4">
+        <FileSpreadsheet className="h-5 w-5 text-green-600 mr-2" />
+        <h3 className="text-lg font-medium text-gray-900">{fileName}</h3>
+      </div>
+
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-3 mb-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Sheet</label>
+          <select
+            value={sheetName}
+            onChange={(e) => onChange({ sheetName: e.target.value })}
+            className={inputClassName}
+          >
+            {sheets.map(s => (
+              <option key={s.name} value={s.name}>
+                {s.name} ({s.rowCount} rows)
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Header Row</label>
+          <input
+            type="number"
+            min={1}
+            max={sheet?.rowCount || 1}
+            value={headerRow}
+            onChange={(e) => onChange({ headerRow: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Register As</label>
+          <input
+            type="text"
+            list="workbook-source-names"
+            value={sourceName}
+            onChange={(e) => onChange({ sourceName: e.target.value })}
+            className={inputClassName}
+          />
+          <datalist id="workbook-source-names">
+            {sourceOptions.map(option => (
+              <option key={option} value={option} />
+            ))}
+          </datalist>
+        </div>
+      </div>
+
+      <p className="text-sm text-gray-500 mb-4">
+        The sheet is available to the scheme under the &quot;Register As&quot; name, matching a base mapping or KPI source file.
+      </p>
+
+      {sheet && sheet.rows.length > 0 && (
+        <div className="overflow-x-auto mb-4 rounded-lg border border-gray-200">
+          <table className="min-w-full divide-y divide-gray-200">
+            <tbody className="bg-white divide-y divide-gray-200">
+              {sheet.rows.map((row, index) => {
+                const rowNumber = index + 1;
+                const isHeader = rowNumber === headerRow;
+                return (
+                  <tr key={rowNumber} className={isHeader ? 'bg-indigo-50' : rowNumber < headerRow ? 'opacity-50' : ''}>
+                    <td className="px-3 py-2 whitespace-nowrap text-xs text-gray-400">{rowNumber}</td>
+                    {row.map((value, col) => (
+                      <td
+                        key={col}
+                        className={`px-3 py-2 whitespace-nowrap text-sm ${isHeader ? 'font-semibold text-indigo-900' : 'text-gray-500'}`}
+                      >
+                        {value}
+                      </td>
+                    ))}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="flex justify-end space-x-4">
+        <Button variant="outline" onClick={onCancel} className="rounded-full hover:bg-gray-100 transition">
+          <X className="h-4 w-4 mr-2" />
+          Cancel
+        </Button>
+        <Button
+          onClick={onConfirm}
+          disabled={!sourceName.trim()}
+          className="rounded-full bg-black text-white hover:opacity-90 transition"
+        >
+          <Check className="h-4 w-4 mr-2" />
+          Add Sheet
+        </Button>
+      </div>
+    </Card>
+  );
+}
@@ -1,13 +1,7 @@
 import React from 'react';
 import { Card } from '../ui/card';
 import { format } from 'date-fns';
-
-interface CreditDistribution {
-  fromAgent: string;
-  role: string;
-  amount: string;
-  timestamp: string;
-}
+import type { CreditDistribution } from '../../types';
 
 interface CreditTableProps {
   distributions: CreditDistribution[];
@@ -1,15 +1,9 @@
 import React from 'react';
 import { Card } from '../ui/card';
-
-interface RawRecord {
-  transactionId: string;
-  agentId: string;
-  amount: number;
-  date: string;
-}
+import type { ProcessedRecord } from '../../types';
 
 interface RawDataTableProps {
-  records: RawRecord[];
+  records: ProcessedRecord[];
 }
 
 export function RawDataTable({ records }: RawDataTableProps) {
@@ -33,15 +27,15 @@ export function RawDataTable({ records }: RawDataTableProps) {
           </thead>
           <tbody className="bg-white divide-y divide-gray-200">
             {records.map((record) => (
-              <tr key={record.transactionId}>
+              <tr key={record._recordId}>
                 <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
                   {record.transactionId}
                 </td>
                 <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                  ₹{record.amount.toLocaleString('en-IN', { minimumFractionDigits: 2 })}
+                  ₹{parseFloat(record.adjustedAmount).toLocaleString('en-IN', { minimumFractionDigits: 2 })}
                 </td>
                 <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                  {record.date}
+                  {record.transactionDate}
                 </td>
               </tr>
             ))}
@@ -1,17 +1,10 @@
 import React from 'react';
 import { Card } from '../ui/card';
 import { format } from 'date-fns';
-
-interface RuleLog {
-  ruleType: string;
-  ruleId: string;
-  recordId: string;
-  message: string;
-  timestamp: string;
-}
+import type { RuleHitLog } from '../../types';
 
 interface RuleLogTableProps {
-  logs: RuleLog[];
+  logs: RuleHitLog[];
 }
 
 export function RuleLogTable({ logs }: RuleLogTableProps) {
@@ -40,7 +33,7 @@ export function RuleLogTable({ logs }: RuleLogTableProps) {
             {logs.map((log, index) => (
               <tr key={index} className="hover:bg-gray-50">
                 <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
-                  {log.recordId}
+                  {log.transactionId || '-'}
                 </td>
                 <td className="px-6 py-4 whitespace-nowrap">
                   <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
@@ -0,0 +1,74 @@
+import { useCallback, useEffect, useState } from 'react';
+import { format, isValid, parseISO } from 'date-fns';
+import { ChevronRight, RefreshCw } from 'lucide-react';
+import { Button } from '../ui/button';
+import { listKpiConfigs } from '../../api/kpiConfigs';
+import type { KpiConfigSummary } from '../../types';
+
+interface KpiConfigListProps {
+  onSelect: (config: KpiConfigSummary) => void;
+}
+
+const formatDate = (value?: string) => {
+  const date = value ? parseISO(value) : null;
+  return date && isValid(date) ? format(date, 'MMM d, yyyy') : '—';
+};
+
+export function KpiConfigList({ onSelect }: KpiConfigListProps) {
+  const [configs, setConfigs] = useState<KpiConfigSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(() => {
+    setIsLoading(true);
+    setError(null);
+    listKpiConfigs()
+      .then(setConfigs)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load KPI configurations'))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 overflow-hidden text-left">
+      <div className="flex justify-between items-center px-6 py-3 border-b border-gray-200 bg-gray-50">
+        <span className="text-sm font-medium text-gray-700">Saved KPI Configurations</span>
+        <Button variant="outline" size="sm" onClick={load} disabled={isLoading}>
+          <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+        </Button>
+      </div>
+
+      {error ? (
+        <p className="px-6 py-4 text-sm text-red-600">{error}</p>
+      ) : isLoading ? (
+        <p className="px-6 py-4 text-sm text-gray-500">Loading KPI configurations...</p>
+      ) : configs.length === 0 ? (
+        <p className="px-6 py-4 text-sm text-gray-500">No KPI configurations saved yet</p>
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {configs.map(config => (
+            <li key={config.id}>
+              <button
+                type="button"
+                onClick={() => onSelect(config)}
+                className="w-full flex items-center justify-between px-6 py-4 hover:bg-gray-50 transition text-left"
+              >
+                <div>
+                  <span className="text-sm font-medium text-gray-900">{config.id}</span>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {config.calculationBase} • Updated {formatDate(config.updatedAt)}
+                    {config.updatedBy && ` by ${config.updatedBy.username}`}
+                  </p>
+                </div>
+                <ChevronRight className="h-4 w-4 text-gray-400" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
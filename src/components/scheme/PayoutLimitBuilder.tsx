@@ -0,0 +1,156 @@
+import { Card } from '../ui/card';
+import type { PayoutLimit, PayoutLimitMapping } from '../../types';
+
+interface PayoutLimitBuilderProps {
+  targetIncentive?: number;
+  cap?: PayoutLimit;
+  floor?: PayoutLimit;
+  mapping?: PayoutLimitMapping;
+  onChange: (updates: {
+    targetIncentive?: number;
+    payoutCap?: PayoutLimit;
+    payoutFloor?: PayoutLimit;
+    payoutLimitMapping?: PayoutLimitMapping;
+  }) => void;
+  disabled?: boolean;
+}
+
+const EMPTY_MAPPING: PayoutLimitMapping = {
+  sourceFile: '',
+  agentField: ''
+};
+
+export function PayoutLimitBuilder({
+  targetIncentive,
+  cap,
+  floor,
+  mapping,
+  onChange,
+  disabled = false
+}: PayoutLimitBuilderProps) {
+  const updateLimit = (key: 'payoutCap' | 'payoutFloor', current: PayoutLimit | undefined, updates: Partial<PayoutLimit>) => {
+    const next = { type: 'absolute' as const, value: 0, ...current, ...updates };
+    onChange({ [key]: next.value ? next : undefined });
+  };
+
+  const updateMapping = (updates: Partial<PayoutLimitMapping>) => {
+    onChange({ payoutLimitMapping: { ...EMPTY_MAPPING, ...mapping, ...updates } });
+  };
+
+  const renderLimit = (label: string, key: 'payoutCap' | 'payoutFloor', limit?: PayoutLimit) => (
+    <div className="grid grid-cols-2 gap-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">{label} Type</label>
+        <select
+          value={limit?.type || 'absolute'}
+          onChange={(e) => updateLimit(key, limit, { type: e.target.value as PayoutLimit['type'] })}
+          disabled={disabled}
+          className="w-full rounded-md border border-gray-300 shadow-inner px-3 py-2 focus:ring focus:outline-none disabled:bg-gray-50"
+        >
+          <option value="absolute">Absolute Amount</option>
+          <option value="targetMultiple">Multiple of Target Incentive</option>
+        </select>
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">{label} Value</label>
+        <input
+          type="number"
+          value={limit?.value ?? ''}
+          onChange={(e) => updateLimit(key, limit, { value: parseFloat(e.target.value) || 0 })}
+          disabled={disabled}
+          placeholder={limit?.type === 'targetMultiple' ? 'e.g., 2 (x target)' : 'Leave empty for none'}
+          className="w-full rounded-md border border-gray-300 shadow-inner px-3 py-2 focus:ring focus:outline-none disabled:bg-gray-50"
+        />
+      </div>
+    </div>
+  );
+
+  return (
+    <Card className="bg-gray-50 rounded-xl p-6 shadow-sm border border-gray-200">
+      <h3 className="text-lg font-medium text-gray-900 mb-2">Payout Caps &amp; Floors</h3>
+      <p className="text-sm text-gray-500 mb-6">
+        Applied after tiers and payout adjustments. A floor is a guaranteed minimum for every qualified agent in the run; agents who do not qualify stay at 0.
+      </p>
+
+      <div className="space-y-6">
+        <div className="w-1/2">
+          <label className="block text-sm font-medium text-gray-700 mb-1">Target Incentive</label>
+          <input
+            type="number"
+            value={targetIncentive ?? ''}
+            onChange={(e) => onChange({ targetIncentive: parseFloat(e.target.value) || undefined })}
+            disabled={disabled}
+            className="w-full rounded-md border border-gray-300 shadow-inner px-3 py-2 focus:ring focus:outline-none disabled:bg-gray-50"
+          />
+        </div>
+
+        {renderLimit('Cap', 'payoutCap', cap)}
+        {renderLimit('Floor', 'payoutFloor', floor)}
+
+        <div>
+          <h4 className="text-sm font-semibold text-gray-900 mb-2">Per-Agent Overrides</h4>
+          <p className="text-sm text-gray-500 mb-4">
+            Optional file with per-agent values. Cap and floor columns use the same type as the scheme-level settings above.
+          </p>
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Limits File</label>
+              <input
+                type="text"
+                value={mapping?.sourceFile || ''}
+                onChange={(e) => updateMapping({ sourceFile: e.target.value })}
+                disabled={disabled}
+                placeholder="e.g., PayoutLimits.csv"
+                className="w-full rounded-md border border-gray-300 shadow-inner px-3 py-2 focus:ring focus:outline-none disabled:bg-gray-50"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Agent Field</label>
+              <input
+                type="text"
+                value={mapping?.agentField || ''}
+                onChange={(e) => updateMapping({ agentField: e.target.value })}
+                disabled={disabled}
+                placeholder="e.g., AgentID"
+                className="w-full rounded-md border border-gray-300 shadow-inner px-3 py-2 focus:ring focus:outline-none disabled:bg-gray-50"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Target Incentive Field</label>
+              <input
+                type="text"
+                value={mapping?.targetIncentiveField || ''}
+                onChange={(e) => updateMapping({ targetIncentiveField: e.target.value })}
+                disabled={disabled}
+                placeholder="e.g., TargetIncentive"
+                className="w-full rounded-md border border-gray-300 shadow-inner px-3 py-2 focus:ring focus:outline-none disabled:bg-gray-50"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Cap Field</label>
+              <input
+                type="text"
+                value={mapping?.capField || ''}
+                onChange={(e) => updateMapping({ capField: e.target.value })}
+                disabled={disabled}
+                placeholder="e.g., Cap"
+                className="w-full rounded-md border border-gray-300 shadow-inner px-3 py-2 focus:ring focus:outline-none disabled:bg-gray-50"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Floor Field</label>
+              <input
+                type="text"
+                value={mapping?.floorField || ''}
+                onChange={(e) => updateMapping({ floorField: e.target.value })}
+                disabled={disabled}
+                placeholder="e.g., GuaranteedMinimum"
+                className="w-full rounded-md border border-gray-300 shadow-inner px-3 py-2 focus:ring focus:outline-none disabled:bg-gray-50"
+              />
+            </div>
+          </div>
+        </div>
+      </div>
+    </Card>
+  );
+}
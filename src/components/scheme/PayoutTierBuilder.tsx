@@ -10,19 +10,38 @@ interface PayoutTier {
   isPercentage: boolean;
 }
 
+type TierBasis = 'amount' | 'attainment';
+type TierMethod = 'marginal' | 'retroactive' | 'flatBonus';
+
 interface PayoutTierBuilderProps {
   tiers: PayoutTier[];
   onChange: (tiers: PayoutTier[]) => void;
   disabled?: boolean;
+  tierBasis?: TierBasis;
+  onTierBasisChange?: (basis: TierBasis) => void;
+  tierMethod?: TierMethod;
+  onTierMethodChange?: (method: TierMethod) => void;
 }
 
-export function PayoutTierBuilder({ tiers, onChange, disabled = false }: PayoutTierBuilderProps) {
+export function PayoutTierBuilder({
+  tiers,
+  onChange,
+  disabled = false,
+  tierBasis = 'amount',
+  onTierBasisChange,
+  tierMethod = 'marginal',
+  onTierMethodChange
+}: PayoutTierBuilderProps) {
+  const isAttainment = tierBasis === 'attainment';
+  const isFlatBonus = tierMethod === 'flatBonus';
+
   const addTier = () => {
     const lastTier = tiers[tiers.length - 1];
+    const step = isAttainment ? 50 : 100000;
     const newTier: PayoutTier = {
       id: crypto.randomUUID(),
       from: lastTier ? lastTier.to : 0,
-      to: lastTier ? lastTier.to + 100000 : 100000,
+      to: lastTier ? lastTier.to + step : step,
       rate: 0,
       isPercentage: true
     };
@@ -41,10 +60,43 @@ export function PayoutTierBuilder({ tiers, onChange, disabled = false }: PayoutT
 
   return (
     <div className="space-y-4">
+      <div className="flex space-x-4">
+        {onTierBasisChange && (
+          <div className="w-1/2">
+            <label className="block text-sm font-medium text-gray-700">Tier Basis</label>
+            <select
+              value={tierBasis}
+              onChange={(e) => onTierBasisChange(e.target.value as TierBasis)}
+              disabled={disabled}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+            >
+              <option value="amount">Credited Amount</option>
+              <option value="attainment">% of Quota Attainment</option>
+            </select>
+          </div>
+        )}
+
+        {onTierMethodChange && (
+          <div className="w-1/2">
+            <label className="block text-sm font-medium text-gray-700">Tier Method</label>
+            <select
+              value={tierMethod}
+              onChange={(e) => onTierMethodChange(e.target.value as TierMethod)}
+              disabled={disabled}
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+            >
+              <option value="marginal">Marginal (each slice at its tier rate)</option>
+              <option value="retroactive">Retroactive (whole amount at reached tier rate)</option>
+              <option value="flatBonus">Flat Bonus per Tier Reached</option>
+            </select>
+          </div>
+        )}
+      </div>
+
       {tiers.map((tier, index) => (
         <div key={tier.id} className="flex items-center space-x-4">
           <div className="w-1/4">
-            <label className="block text-sm font-medium text-gray-700">From</label>
+            <label className="block text-sm font-medium text-gray-700">From{isAttainment ? ' (%)' : ''}</label>
             <input
               type="number"
               value={tier.from}
@@ -55,7 +107,7 @@ export function PayoutTierBuilder({ tiers, onChange, disabled = false }: PayoutT
           </div>
 
           <div className="w-1/4">
-            <label className="block text-sm font-medium text-gray-700">To</label>
+            <label className="block text-sm font-medium text-gray-700">To{isAttainment ? ' (%)' : ''}</label>
             <input
               type="number"
               value={tier.to}
@@ -66,7 +118,7 @@ export function PayoutTierBuilder({ tiers, onChange, disabled = false }: PayoutT
           </div>
 
           <div className="w-1/4">
-            <label className="block text-sm font-medium text-gray-700">Rate</label>
+            <label className="block text-sm font-medium text-gray-700">{isFlatBonus ? 'Bonus' : 'Rate'}</label>
             <input
               type="number"
               value={tier.rate}
@@ -81,7 +133,7 @@ export function PayoutTierBuilder({ tiers, onChange, disabled = false }: PayoutT
             <select
               value={tier.isPercentage ? 'percentage' : 'fixed'}
               onChange={(e) => updateTier(tier.id, { isPercentage: e.target.value === 'percentage' })}
-              disabled={disabled}
+              disabled={disabled || isFlatBonus}
               className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
             >
               <option value="percentage">Percentage</option>
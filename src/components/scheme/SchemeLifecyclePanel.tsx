@@ -0,0 +1,174 @@
+import { useEffect, useState } from 'react';
+import { format, isValid, parseISO } from 'date-fns';
+import { Check, PowerOff, Send, ShieldCheck, X } from 'lucide-react';
+import { Button } from '../ui/button';
+import { Card } from '../ui/card';
+import { useAuthStore, usePermission } from '../../store/authStore';
+import {
+  approveScheme,
+  deactivateSchemeVersion,
+  getSchemeVersion,
+  rejectScheme,
+  submitScheme
+} from '../../api/schemes';
+import { SchemeStatusBadge } from './SchemeStatusBadge';
+import type { CompensationScheme, SchemeLifecycleResult, SchemeReview } from '../../types';
+
+interface SchemeLifecyclePanelProps {
+  scheme: CompensationScheme;
+  onChange: (scheme: CompensationScheme) => void;
+}
+
+const ACTION_LABELS: Record<SchemeReview['action'], string> = {
+  submit: 'Submitted for review',
+  approve: 'Approved',
+  reject: 'Rejected',
+  deactivate: 'Deactivated'
+};
+
+const formatReviewedAt = (value: string) => {
+  const date = parseISO(value);
+  return isValid(date) ? format(date, 'MMM d, yyyy HH:mm') : value;
+};
+
+export function SchemeLifecyclePanel({ scheme, onChange }: SchemeLifecyclePanelProps) {
+  const canDesign = usePermission('schemes.design');
+  const canApprove = usePermission('schemes.approve');
+  const userId = useAuthStore((state) => state.user?.id);
+  const [reviews, setReviews] = useState<SchemeReview[]>([]);
+  const [comment, setComment] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const schemeId = scheme.id!;
+  const versionNumber = scheme.versionNumber || 1;
+  const status = scheme.status || 'DRAFT';
+
+  useEffect(() => {
+    getSchemeVersion(schemeId, versionNumber)
+      .then(version => setReviews(version.reviews))
+      .catch(() => setReviews([]));
+  }, [schemeId, versionNumber, status]);
+
+  const run = async (action: () => Promise<SchemeLifecycleResult>) => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      const result = await action();
+      setComment('');
+      setReviews(result.version.reviews);
+      onChange(result.scheme);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Lifecycle action failed');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const canSubmit = status === 'DRAFT' && canDesign;
+  // The server refuses reviews by the version's own submitter
+  const submittedByMe = reviews.filter(review => review.action === 'submit').pop()?.userId === userId;
+  const canReview = status === 'IN_REVIEW' && canApprove && !submittedByMe;
+  const canDeactivate = status === 'ACTIVE' && canApprove;
+
+  return (
+    <Card className="p-6 border border-gray-200 rounded-xl bg-white">
+      <div className="flex justify-between items-center mb-4">
+        <div className="flex items-center">
+          <ShieldCheck className="h-5 w-5 text-indigo-600 mr-2" />
+          <h3 className="text-lg font-medium text-gray-900">Approval</h3>
+        </div>
+        <SchemeStatusBadge status={status} />
+      </div>
+
+      {status === 'IN_REVIEW' && !canReview && (
+        <p className="text-sm text-gray-500 mb-4">
+          {canApprove
+            ? 'You submitted this version; another admin must approve or reject it.'
+            : 'Waiting for an admin to approve or reject this version.'}
+        </p>
+      )}
+      {status === 'DRAFT' && !canDesign && (
+        <p className="text-sm text-gray-500 mb-4">A scheme designer can submit this draft for review.</p>
+      )}
+
+      {(canReview || canDeactivate) && (
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Comment{canReview ? ' (required to reject)' : ''}
+          </label>
+          <textarea
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            rows={2}
+            disabled={isWorking}
+            className="w-full rounded-md border border-gray-300 shadow-inner px-3 py-2 focus:ring focus:outline-none disabled:bg-gray-50"
+          />
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+      {(canSubmit || canReview || canDeactivate) && (
+        <div className="flex justify-end space-x-3 mb-4">
+          {canSubmit && (
+            <Button
+              onClick={() => run(() => submitScheme(schemeId))}
+              disabled={isWorking}
+              className="rounded-full bg-black text-white hover:opacity-90 transition"
+            >
+              <Send className="h-4 w-4 mr-2" />
+              Submit for Review
+            </Button>
+          )}
+          {canReview && (
+            <>
+              <Button
+                variant="outline"
+                onClick={() => run(() => rejectScheme(schemeId, comment))}
+                disabled={isWorking || !comment.trim()}
+                className="rounded-full hover:bg-gray-100 transition"
+              >
+                <X className="h-4 w-4 mr-2" />
+                Reject
+              </Button>
+              <Button
+                onClick={() => run(() => approveScheme(schemeId, comment))}
+                disabled={isWorking}
+                className="rounded-full bg-black text-white hover:opacity-90 transition"
+              >
+                <Check className="h-4 w-4 mr-2" />
+                Approve
+              </Button>
+            </>
+          )}
+          {canDeactivate && (
+            <Button
+              variant="outline"
+              onClick={() => run(() => deactivateSchemeVersion(schemeId, versionNumber, comment))}
+              disabled={isWorking}
+              className="rounded-full hover:bg-gray-100 transition"
+            >
+              <PowerOff className="h-4 w-4 mr-2" />
+              Deactivate
+            </Button>
+          )}
+        </div>
+      )}
+
+      {reviews.length > 0 && (
+        <ul className="divide-y divide-gray-200 border-t border-gray-200">
+          {reviews.map(review => (
+            <li key={`${review.action}-${review.at}`} className="py-3">
+              <p className="text-sm text-gray-900">
+                {ACTION_LABELS[review.action]} by {review.username} ({review.role})
+                <span className="ml-2 text-xs text-gray-500">{formatReviewedAt(review.at)}</span>
+              </p>
+              {review.comment && <p className="text-sm text-gray-600 mt-1">{review.comment}</p>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </Card>
+  );
+}
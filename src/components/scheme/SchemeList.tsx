@@ -0,0 +1,82 @@
+import { useCallback, useEffect, useState } from 'react';
+import { format, isValid, parseISO } from 'date-fns';
+import { ChevronRight, RefreshCw } from 'lucide-react';
+import { Button } from '../ui/button';
+import { listSchemes } from '../../api/schemes';
+import { SchemeStatusBadge } from './SchemeStatusBadge';
+import type { SchemeSummary } from '../../types';
+
+interface SchemeListProps {
+  onSelect: (scheme: SchemeSummary) => void;
+  filter?: (scheme: SchemeSummary) => boolean;
+  emptyMessage?: string;
+}
+
+const formatDate = (value?: string) => {
+  const date = value ? parseISO(value) : null;
+  return date && isValid(date) ? format(date, 'MMM d, yyyy') : '—';
+};
+
+export function SchemeList({ onSelect, filter, emptyMessage = 'No schemes saved yet' }: SchemeListProps) {
+  const [schemes, setSchemes] = useState<SchemeSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(() => {
+    setIsLoading(true);
+    setError(null);
+    listSchemes()
+      .then(setSchemes)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load schemes'))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const visible = filter ? schemes.filter(filter) : schemes;
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 overflow-hidden text-left">
+      <div className="flex justify-between items-center px-6 py-3 border-b border-gray-200 bg-gray-50">
+        <span className="text-sm font-medium text-gray-700">Saved Schemes</span>
+        <Button variant="outline" size="sm" onClick={load} disabled={isLoading}>
+          <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+        </Button>
+      </div>
+
+      {error ? (
+        <p className="px-6 py-4 text-sm text-red-600">{error}</p>
+      ) : isLoading ? (
+        <p className="px-6 py-4 text-sm text-gray-500">Loading schemes...</p>
+      ) : visible.length === 0 ? (
+        <p className="px-6 py-4 text-sm text-gray-500">{emptyMessage}</p>
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {visible.map(scheme => (
+            <li key={scheme.id}>
+              <button
+                type="button"
+                onClick={() => onSelect(scheme)}
+                className="w-full flex items-center justify-between px-6 py-4 hover:bg-gray-50 transition text-left"
+              >
+                <div>
+                  <div className="flex items-center space-x-2">
+                    <span className="text-sm font-medium text-gray-900">{scheme.name}</span>
+                    <span className="text-xs text-gray-500">{scheme.id}</span>
+                    <SchemeStatusBadge status={scheme.status} />
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Version {scheme.versionNumber || 1} • {formatDate(scheme.effectiveFrom)} – {formatDate(scheme.effectiveTo)} • Updated {formatDate(scheme.updatedAt)}
+                  </p>
+                </div>
+                <ChevronRight className="h-4 w-4 text-gray-400" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,24 @@
+import type { SchemeStatus } from '../../types';
+
+const STATUS_CLASSES: Record<SchemeStatus, string> = {
+  DRAFT: 'bg-gray-100 text-gray-800',
+  IN_REVIEW: 'bg-yellow-100 text-yellow-800',
+  ACTIVE: 'bg-green-100 text-green-800',
+  INACTIVE: 'bg-red-100 text-red-800'
+};
+
+const STATUS_LABELS: Record<SchemeStatus, string> = {
+  DRAFT: 'Draft',
+  IN_REVIEW: 'In Review',
+  ACTIVE: 'Active',
+  INACTIVE: 'Inactive'
+};
+
+export function SchemeStatusBadge({ status }: { status?: SchemeStatus }) {
+  const value = status || 'DRAFT';
+  return (
+    <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${STATUS_CLASSES[value] || STATUS_CLASSES.DRAFT}`}>
+      {STATUS_LABELS[value] || value}
+    </span>
+  );
+}
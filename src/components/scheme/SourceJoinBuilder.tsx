@@ -0,0 +1,193 @@
+import { Plus, X } from 'lucide-react';
+import { Button } from '../ui/button';
+import { Card } from '../ui/card';
+import type { JoinKey, SourceJoin } from '../../types';
+
+interface SourceJoinBuilderProps {
+  joins: SourceJoin[];
+  onChange: (joins: SourceJoin[]) => void;
+  externalFiles?: string[];
+  disabled?: boolean;
+}
+
+const inputClassName =
+  'w-full rounded-md border border-gray-300 shadow-inner px-3 py-2 focus:ring focus:outline-none disabled:bg-gray-50';
+
+export function SourceJoinBuilder({
+  joins,
+  onChange,
+  externalFiles = [],
+  disabled = false
+}: SourceJoinBuilderProps) {
+  const unjoinedFiles = externalFiles.filter(
+    file => !joins.some(join => join.sourceFile === file)
+  );
+
+  const addJoin = (sourceFile = '') => {
+    onChange([
+      ...joins,
+      {
+        sourceFile,
+        keys: [{ baseField: '', sourceField: '' }],
+        joinType: 'left'
+      }
+    ]);
+  };
+
+  const updateJoin = (index: number, updates: Partial<SourceJoin>) => {
+    onChange(joins.map((join, i) => (i === index ? { ...join, ...updates } : join)));
+  };
+
+  const updateKey = (index: number, keyIndex: number, updates: Partial<JoinKey>) => {
+    const join = joins[index];
+    updateJoin(index, {
+      keys: join.keys.map((key, i) => (i === keyIndex ? { ...key, ...updates } : key))
+    });
+  };
+
+  return (
+    <Card className="bg-gray-50 rounded-xl p-6 shadow-sm border border-gray-200">
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="text-xl font-semibold text-slate-800">Source Joins</h3>
+        <Button
+          onClick={() => addJoin()}
+          variant="outline"
+          disabled={disabled}
+          className="rounded-full hover:bg-gray-100 transition"
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add Join
+        </Button>
+      </div>
+      <p className="text-sm text-gray-500 mb-6">
+        External KPI fields are looked up by joining their source file onto each base transaction.
+      </p>
+
+      {unjoinedFiles.length > 0 && (
+        <div className="mb-6 rounded-md border border-yellow-200 bg-yellow-50 p-4 text-sm text-yellow-800">
+          No join configured for: {unjoinedFiles.join(', ')}. Fields from these files are ignored at run time.
+          {!disabled && (
+            <div className="mt-2 flex flex-wrap gap-2">
+              {unjoinedFiles.map(file => (
+                <Button key={file} variant="outline" size="sm" onClick={() => addJoin(file)}>
+                  <Plus className="h-3 w-3 mr-1" />
+                  {file}
+                </Button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="space-y-6">
+        {joins.map((join, index) => (
+          <Card key={index} className="p-6 border border-gray-200 rounded-xl">
+            <div className="flex justify-between items-start mb-4">
+              <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 flex-1">
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">Source File</label>
+                  <input
+                    type="text"
+                    value={join.sourceFile}
+                    onChange={(e) => updateJoin(index, { sourceFile: e.target.value })}
+                    disabled={disabled}
+                    placeholder="e.g., ProductMaster.csv"
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">Join Type</label>
+                  <select
+                    value={join.joinType}
+                    onChange={(e) => updateJoin(index, { joinType: e.target.value as SourceJoin['joinType'] })}
+                    disabled={disabled}
+                    className={inputClassName}
+                  >
+                    <option value="left">Left (keep unmatched transactions)</option>
+                    <option value="inner">Inner (drop unmatched transactions)</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">Effective From Field</label>
+                  <input
+                    type="text"
+                    value={join.effectiveFromField || ''}
+                    onChange={(e) => updateJoin(index, { effectiveFromField: e.target.value || undefined })}
+                    disabled={disabled}
+                    placeholder="Optional, e.g., Valid From"
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">Effective To Field</label>
+                  <input
+                    type="text"
+                    value={join.effectiveToField || ''}
+                    onChange={(e) => updateJoin(index, { effectiveToField: e.target.value || undefined })}
+                    disabled={disabled}
+                    placeholder="Optional, e.g., Valid To"
+                    className={inputClassName}
+                  />
+                </div>
+              </div>
+              {!disabled && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="ml-4"
+                  onClick={() => onChange(joins.filter((_, i) => i !== index))}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-slate-700">Key Columns</label>
+              {join.keys.map((key, keyIndex) => (
+                <div key={keyIndex} className="flex items-center space-x-4">
+                  <input
+                    type="text"
+                    value={key.baseField}
+                    onChange={(e) => updateKey(index, keyIndex, { baseField: e.target.value })}
+                    disabled={disabled}
+                    placeholder="Base file column"
+                    className={inputClassName}
+                  />
+                  <span className="text-gray-500">=</span>
+                  <input
+                    type="text"
+                    value={key.sourceField}
+                    onChange={(e) => updateKey(index, keyIndex, { sourceField: e.target.value })}
+                    disabled={disabled}
+                    placeholder="Source file column"
+                    className={inputClassName}
+                  />
+                  {!disabled && join.keys.length > 1 && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => updateJoin(index, { keys: join.keys.filter((_, i) => i !== keyIndex) })}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+              {!disabled && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => updateJoin(index, { keys: [...join.keys, { baseField: '', sourceField: '' }] })}
+                >
+                  <Plus className="h-3 w-3 mr-1" />
+                  Add Key Column
+                </Button>
+              )}
+            </div>
+          </Card>
+        ))}
+      </div>
+    </Card>
+  );
+}
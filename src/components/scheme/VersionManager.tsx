@@ -0,0 +1,282 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { format, isValid, parseISO } from 'date-fns';
+import { History, PowerOff, RefreshCw, RotateCcw } from 'lucide-react';
+import { Button } from '../ui/button';
+import { usePermission } from '../../store/authStore';
+import {
+  deactivateSchemeVersion,
+  getSchemeVersion,
+  listSchemeVersions,
+  restoreSchemeVersion
+} from '../../api/schemes';
+import { diffSchemes } from '../../utils/schemeDiff';
+import { SchemeStatusBadge } from './SchemeStatusBadge';
+import type {
+  CompensationScheme,
+  SchemeChangeType,
+  SchemeStatus,
+  SchemeVersion,
+  SchemeVersionSummary
+} from '../../types';
+
+interface VersionManagerProps {
+  schemeId: string;
+  currentVersion?: number;
+  currentStatus?: SchemeStatus;
+  onRestored: (scheme: CompensationScheme) => void;
+}
+
+const CHANGE_CLASSES: Record<SchemeChangeType, { before: string; after: string }> = {
+  added: { before: 'bg-gray-50', after: 'bg-green-50 text-green-800' },
+  removed: { before: 'bg-red-50 text-red-800 line-through', after: 'bg-gray-50' },
+  changed: { before: 'bg-yellow-50 text-yellow-900', after: 'bg-yellow-50 text-yellow-900' },
+  unchanged: { before: 'text-gray-500', after: 'text-gray-500' }
+};
+
+const selectClassName =
+  'rounded-md border border-gray-300 shadow-inner px-3 py-2 focus:ring focus:outline-none text-sm';
+
+const formatSavedAt = (value: string) => {
+  const date = parseISO(value);
+  return isValid(date) ? format(date, 'MMM d, yyyy HH:mm') : value;
+};
+
+export function VersionManager({ schemeId, currentVersion, currentStatus, onRestored }: VersionManagerProps) {
+  const canApprove = usePermission('schemes.approve');
+  const [versions, setVersions] = useState<SchemeVersionSummary[]>([]);
+  const [loaded, setLoaded] = useState<Record<number, SchemeVersion>>({});
+  const [beforeVersion, setBeforeVersion] = useState<number | null>(null);
+  const [afterVersion, setAfterVersion] = useState<number | null>(null);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [working, setWorking] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(() => {
+    setIsLoading(true);
+    setError(null);
+    listSchemeVersions(schemeId)
+      .then(list => {
+        setVersions(list);
+        // Default to the latest save against the one before it
+        setAfterVersion(list[0]?.versionNumber ?? null);
+        setBeforeVersion(list[1]?.versionNumber ?? list[0]?.versionNumber ?? null);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load versions'))
+      .finally(() => setIsLoading(false));
+  }, [schemeId]);
+
+  useEffect(() => {
+    load();
+  }, [load, currentVersion, currentStatus]);
+
+  useEffect(() => {
+    const missing = [beforeVersion, afterVersion].filter(
+      (version): version is number => version !== null && !(version in loaded)
+    );
+    if (missing.length === 0) return;
+
+    Promise.all(missing.map(version => getSchemeVersion(schemeId, version)))
+      .then(results =>
+        setLoaded(prev => ({
+          ...prev,
+          ...Object.fromEntries(results.map(result => [result.versionNumber, result]))
+        }))
+      )
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load version'));
+  }, [schemeId, beforeVersion, afterVersion, loaded]);
+
+  const sections = useMemo(() => {
+    const before = beforeVersion !== null ? loaded[beforeVersion] : undefined;
+    const after = afterVersion !== null ? loaded[afterVersion] : undefined;
+    return before && after ? diffSchemes(before.scheme, after.scheme) : [];
+  }, [loaded, beforeVersion, afterVersion]);
+
+  const handleRestore = async (versionNumber: number) => {
+    if (!window.confirm(`Restore version ${versionNumber} as a new draft?`)) return;
+    setWorking(versionNumber);
+    setError(null);
+    try {
+      onRestored(await restoreSchemeVersion(schemeId, versionNumber));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore version');
+    } finally {
+      setWorking(null);
+    }
+  };
+
+  // The current version is deactivated from the approval panel; this covers
+  // earlier versions still ACTIVE for their own period
+  const handleDeactivate = async (versionNumber: number) => {
+    if (!window.confirm(`Deactivate version ${versionNumber}? It can no longer run in production.`)) return;
+    setWorking(versionNumber);
+    setError(null);
+    try {
+      await deactivateSchemeVersion(schemeId, versionNumber, '');
+      load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to deactivate version');
+    } finally {
+      setWorking(null);
+    }
+  };
+
+  const totalChanges = sections.reduce((sum, section) => sum + section.changeCount, 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div className="flex items-center">
+          <History className="h-5 w-5 text-indigo-600 mr-2" />
+          <h3 className="text-lg font-medium text-gray-900">Version History</h3>
+        </div>
+        <Button variant="outline" size="sm" onClick={load} disabled={isLoading}>
+          <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+        </Button>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Version</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Scheme ID</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Saved</th>
+              <th className="px-6 py-3" />
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {versions.map(version => (
+              <tr key={version.versionNumber}>
+                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                  {version.versionNumber}
+                  {version.versionNumber === currentVersion && (
+                    <span className="ml-2 text-xs text-gray-500">(current)</span>
+                  )}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{version.SchemeID}</td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                  <SchemeStatusBadge status={version.status} />
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{formatSavedAt(version.savedAt)}</td>
+                <td className="px-6 py-4 whitespace-nowrap text-right space-x-2">
+                  {version.versionNumber !== currentVersion && version.status === 'ACTIVE' && canApprove && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleDeactivate(version.versionNumber)}
+                      disabled={working !== null}
+                      className="rounded-full hover:bg-gray-100 transition"
+                    >
+                      <PowerOff className="h-4 w-4 mr-2" />
+                      Deactivate
+                    </Button>
+                  )}
+                  {version.versionNumber !== currentVersion && currentStatus !== 'IN_REVIEW' && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleRestore(version.versionNumber)}
+                      disabled={working !== null}
+                      className="rounded-full hover:bg-gray-100 transition"
+                    >
+                      <RotateCcw className="h-4 w-4 mr-2" />
+                      {working === version.versionNumber ? 'Working...' : 'Restore as Draft'}
+                    </Button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {versions.length > 1 && (
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center gap-4">
+            <label className="text-sm font-medium text-gray-700">Compare</label>
+            <select
+              value={beforeVersion ?? ''}
+              onChange={(e) => setBeforeVersion(Number(e.target.value))}
+              className={selectClassName}
+            >
+              {versions.map(version => (
+                <option key={version.versionNumber} value={version.versionNumber}>
+                  Version {version.versionNumber}
+                </option>
+              ))}
+            </select>
+            <span className="text-sm text-gray-500">with</span>
+            <select
+              value={afterVersion ?? ''}
+              onChange={(e) => setAfterVersion(Number(e.target.value))}
+              className={selectClassName}
+            >
+              {versions.map(version => (
+                <option key={version.versionNumber} value={version.versionNumber}>
+                  Version {version.versionNumber}
+                </option>
+              ))}
+            </select>
+            <label className="flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={showUnchanged}
+                onChange={(e) => setShowUnchanged(e.target.checked)}
+                className="mr-2"
+              />
+              Show unchanged
+            </label>
+            <span className="text-sm text-gray-500">
+              {totalChanges} {totalChanges === 1 ? 'change' : 'changes'}
+            </span>
+          </div>
+
+          {sections
+            .filter(section => showUnchanged || section.changeCount > 0)
+            .map(section => (
+              <div key={section.title} className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+                <div className="px-6 py-3 border-b border-gray-200 bg-gray-50 text-sm font-medium text-gray-700">
+                  {section.title}
+                  {section.changeCount > 0 && (
+                    <span className="ml-2 text-xs text-gray-500">({section.changeCount} changed)</span>
+                  )}
+                </div>
+                <table className="min-w-full table-fixed divide-y divide-gray-200">
+                  <thead>
+                    <tr>
+                      <th className="w-1/5 px-6 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider" />
+                      <th className="w-2/5 px-6 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Version {beforeVersion}
+                      </th>
+                      <th className="w-2/5 px-6 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Version {afterVersion}
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {section.entries
+                      .filter(entry => showUnchanged || entry.change !== 'unchanged')
+                      .map(entry => (
+                        <tr key={entry.key}>
+                          <td className="px-6 py-2 text-sm font-medium text-gray-700 break-words">{entry.label}</td>
+                          <td className={`px-6 py-2 text-sm break-words ${CHANGE_CLASSES[entry.change].before}`}>
+                            {entry.before ?? '—'}
+                          </td>
+                          <td className={`px-6 py-2 text-sm break-words ${CHANGE_CLASSES[entry.change].after}`}>
+                            {entry.after ?? '—'}
+                          </td>
+                        </tr>
+                      ))}
+                  </tbody>
+                </table>
+              </div>
+            ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+import { Check } from 'lucide-react';
+import type { Permission, RoleMatrix } from '../../types/auth';
+
+const PERMISSION_DESCRIPTIONS: Record<Permission, string> = {
+  'schemes.design': 'Create, edit, submit and restore schemes',
+  'schemes.approve': 'Approve, reject and deactivate scheme versions',
+  'runs.simulate': 'Execute schemes in simulation mode',
+  'runs.production': 'Execute ACTIVE schemes in production',
+  'payouts.viewAll': 'Runs, results and logs for every payee',
+  'payouts.viewOwn': 'The signed-in payee\'s own payouts',
+  'kpis.configure': 'KPI configuration',
+  'users.manage': 'The admin panel and user management',
+  'audit.view': 'The audit log'
+};
+
+/** What each role may do, as enforced by the server. */
+export function AccessControlMatrix({ matrix }: { matrix: RoleMatrix }) {
+  const permissions = Object.keys(matrix.permissions) as Permission[];
+
+  return (
+    <div className="overflow-x-auto bg-white rounded-lg border border-gray-200">
+      <table className="min-w-full divide-y divide-gray-200">
+        <thead className="bg-gray-50">
+          <tr>
+            <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Permission</th>
+            {matrix.roles.map(role => (
+              <th key={role} scope="col" className="px-6 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+                {role}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody className="bg-white divide-y divide-gray-200">
+          {permissions.map(permission => (
+            <tr key={permission}>
+              <td className="px-6 py-4 text-sm">
+                <span className="font-mono text-gray-900">{permission}</span>
+                <p className="text-xs text-gray-500">{PERMISSION_DESCRIPTIONS[permission]}</p>
+              </td>
+              {matrix.roles.map(role => (
+                <td key={role} className="px-6 py-4 text-center">
+                  {matrix.permissions[permission].includes(role) && (
+                    <Check className="h-4 w-4 text-green-600 inline" />
+                  )}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
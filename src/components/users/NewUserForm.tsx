@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { Plus } from 'lucide-react';
+import { Button } from '../ui/button';
+import { createUser } from '../../api/users';
+import type { ManagedUser, NewUser, Role } from '../../types/auth';
+
+interface NewUserFormProps {
+  roles: Role[];
+  agentIdListId: string;
+  onCreated: (user: ManagedUser) => void;
+}
+
+const EMPTY_USER: NewUser = { username: '', password: '', role: 'agent', agentId: '' };
+
+const inputClassName = 'w-full rounded-md border border-gray-300 shadow-inner px-3 py-2 text-sm focus:ring focus:outline-none';
+
+export function NewUserForm({ roles, agentIdListId, onCreated }: NewUserFormProps) {
+  const [user, setUser] = useState<NewUser>(EMPTY_USER);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsSaving(true);
+    setError(null);
+    try {
+      onCreated(await createUser({ ...user, agentId: user.agentId?.trim() || undefined }));
+      setUser(EMPTY_USER);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create user');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-lg border border-gray-200 p-6 space-y-4">
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-4">
+        <div>
+          <label htmlFor="new-username" className="block text-sm font-medium text-slate-700 mb-1">Username</label>
+          <input
+            id="new-username"
+            type="text"
+            required
+            value={user.username}
+            onChange={(e) => setUser({ ...user, username: e.target.value })}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label htmlFor="new-password" className="block text-sm font-medium text-slate-700 mb-1">Password</label>
+          <input
+            id="new-password"
+            type="password"
+            required
+            autoComplete="new-password"
+            value={user.password}
+            onChange={(e) => setUser({ ...user, password: e.target.value })}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label htmlFor="new-role" className="block text-sm font-medium text-slate-700 mb-1">Role</label>
+          <select
+            id="new-role"
+            value={user.role}
+            onChange={(e) => setUser({ ...user, role: e.target.value as Role })}
+            className={inputClassName}
+          >
+            {roles.map(role => (
+              <option key={role} value={role}>{role}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="new-agent-id" className="block text-sm font-medium text-slate-700 mb-1">Agent ID</label>
+          <input
+            id="new-agent-id"
+            type="text"
+            list={agentIdListId}
+            value={user.agentId}
+            onChange={(e) => setUser({ ...user, agentId: e.target.value })}
+            placeholder={user.role === 'agent' ? 'Payee ID in scheme data' : 'Optional'}
+            className={inputClassName}
+          />
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-red-600">{error}</p>
+        <Button type="submit" disabled={isSaving} className="rounded-full bg-black text-white hover:opacity-90 transition">
+          <Plus className="h-4 w-4 mr-2" />
+          {isSaving ? 'Creating...' : 'Create User'}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,147 @@
+import { useState } from 'react';
+import { Button } from '../ui/button';
+import { updateUser } from '../../api/users';
+import type { KnownAgentId, ManagedUser, Role, UserChanges } from '../../types/auth';
+
+interface RoleAssignmentsProps {
+  users: ManagedUser[];
+  roles: Role[];
+  knownAgentIds: KnownAgentId[];
+  currentUserId?: string;
+  onUpdated: (user: ManagedUser) => void;
+}
+
+const selectClassName = 'rounded-md border border-gray-300 shadow-inner px-2 py-1 text-sm focus:ring focus:outline-none';
+
+/**
+ * Each active user's role in this client, and which agent user every payee
+ * ID from the latest runs is mapped to.
+ */
+export function RoleAssignments({ users, roles, knownAgentIds, currentUserId, onUpdated }: RoleAssignmentsProps) {
+  const [selections, setSelections] = useState<Record<string, string>>({});
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const activeUsers = users.filter(user => user.active);
+  const unmappedAgents = activeUsers.filter(user => user.role === 'agent' && !user.agentId);
+  const userByAgentId = new Map(users.filter(user => user.agentId).map(user => [user.agentId, user]));
+
+  const save = async (user: ManagedUser, changes: UserChanges) => {
+    setBusyId(user.id);
+    setError(null);
+    try {
+      onUpdated(await updateUser(user.id, changes));
+    } catch (err) {
+      setError(`${user.username}: ${err instanceof Error ? err.message : 'Failed to update user'}`);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const mapAgentId = (agentId: string) => {
+    const user = users.find(candidate => candidate.id === selections[agentId]);
+    if (user) save(user, { agentId });
+  };
+
+  return (
+    <div className="space-y-8">
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
+        {roles.map(role => {
+          const members = activeUsers.filter(user => user.role === role);
+          return (
+            <div key={role} className="bg-white rounded-lg border border-gray-200">
+              <div className="flex justify-between items-center px-6 py-3 border-b border-gray-200 bg-gray-50">
+                <span className="text-sm font-medium text-gray-700 capitalize">{role}</span>
+                <span className="text-xs text-gray-500">{members.length} user(s)</span>
+              </div>
+              {members.length === 0 ? (
+                <p className="px-6 py-4 text-sm text-gray-500">No active users</p>
+              ) : (
+                <ul className="divide-y divide-gray-200">
+                  {members.map(user => (
+                    <li key={user.id} className="flex items-center justify-between px-6 py-3">
+                      <span className="text-sm text-gray-900">{user.username}</span>
+                      <select
+                        value={user.role}
+                        onChange={(e) => save(user, { role: e.target.value as Role })}
+                        disabled={user.id === currentUserId || busyId === user.id}
+                        className={selectClassName}
+                      >
+                        {roles.map(option => (
+                          <option key={option} value={option}>{option}</option>
+                        ))}
+                      </select>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="bg-white rounded-lg border border-gray-200">
+        <div className="px-6 py-3 border-b border-gray-200 bg-gray-50">
+          <span className="text-sm font-medium text-gray-700">Agent ID Mapping</span>
+          <p className="text-xs text-gray-500">
+            Payee IDs from the latest run of each scheme. Agents only see the payouts of the ID they are mapped to.
+          </p>
+        </div>
+        {knownAgentIds.length === 0 ? (
+          <p className="px-6 py-4 text-sm text-gray-500">No runs yet. Agent IDs appear here once a scheme has been executed.</p>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Agent ID</th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Schemes</th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">User</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {knownAgentIds.map(({ agentId, schemes }) => {
+                const mapped = userByAgentId.get(agentId);
+                return (
+                  <tr key={agentId}>
+                    <td className="px-6 py-3 whitespace-nowrap text-sm font-mono text-gray-900">{agentId}</td>
+                    <td className="px-6 py-3 text-sm text-gray-500">{schemes.join(', ')}</td>
+                    <td className="px-6 py-3 whitespace-nowrap text-sm text-gray-500">
+                      {mapped ? (
+                        mapped.username
+                      ) : unmappedAgents.length === 0 ? (
+                        <span className="text-amber-600">Not mapped</span>
+                      ) : (
+                        <div className="flex items-center space-x-2">
+                          <select
+                            value={selections[agentId] || ''}
+                            onChange={(e) => setSelections({ ...selections, [agentId]: e.target.value })}
+                            className={selectClassName}
+                          >
+                            <option value="">Select an agent user</option>
+                            {unmappedAgents.map(user => (
+                              <option key={user.id} value={user.id}>{user.username}</option>
+                            ))}
+                          </select>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => mapAgentId(agentId)}
+                            disabled={!selections[agentId] || busyId !== null}
+                          >
+                            Map
+                          </Button>
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+import React, { useRef, useState } from 'react';
+import { FileUp, Upload } from 'lucide-react';
+import { Button } from '../ui/button';
+import { importUsers } from '../../api/users';
+import { decodeText, parseCSV } from '../../sources/csv';
+import type { NewUser, Role, UserImportResult } from '../../types/auth';
+
+interface UserImportPanelProps {
+  onImported: () => void;
+}
+
+// Header names are matched ignoring case, spaces and underscores
+const COLUMN_ALIASES: Record<keyof NewUser, string[]> = {
+  username: ['username', 'user', 'login'],
+  password: ['password'],
+  role: ['role'],
+  agentId: ['agentid', 'agent', 'payeeid']
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[\s_-]/g, '');
+
+const toNewUsers = (rows: Record<string, unknown>[], columns: string[]): NewUser[] => {
+  const columnFor = (field: keyof NewUser) =>
+    columns.find(column => COLUMN_ALIASES[field].includes(normalizeHeader(column)));
+  const read = (row: Record<string, unknown>, field: keyof NewUser) => {
+    const column = columnFor(field);
+    return column ? String(row[column] ?? '').trim() : '';
+  };
+
+  return rows.map(row => ({
+    username: read(row, 'username'),
+    password: read(row, 'password'),
+    role: read(row, 'role').toLowerCase() as Role,
+    agentId: read(row, 'agentId') || undefined
+  }));
+};
+
+/**
+ * Bulk-creates users from a CSV with username, password, role and
+ * (optionally) agentId columns.
+ */
+export function UserImportPanel({ onImported }: UserImportPanelProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState('');
+  const [users, setUsers] = useState<NewUser[]>([]);
+  const [parseErrors, setParseErrors] = useState<string[]>([]);
+  const [result, setResult] = useState<UserImportResult | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      const parsed = parseCSV(decodeText(e.target?.result as ArrayBuffer), { inferTypes: false });
+      const missing = (['username', 'password', 'role'] as const).filter(
+        field => !parsed.columns.some(column => COLUMN_ALIASES[field].includes(normalizeHeader(column)))
+      );
+
+      setFileName(file.name);
+      setResult(null);
+      setError(missing.length > 0 ? `Missing column(s): ${missing.join(', ')}` : null);
+      setUsers(missing.length > 0 ? [] : toNewUsers(parsed.rows, parsed.columns));
+      setParseErrors(parsed.errors.map(rowError => `Line ${rowError.line}: ${rowError.message}`));
+    };
+    reader.readAsArrayBuffer(file);
+  };
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    setError(null);
+    try {
+      setResult(await importUsers(users));
+      setUsers([]);
+      onImported();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import users');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-sm font-medium text-gray-700">Import users from CSV</p>
+          <p className="text-xs text-gray-500">
+            Columns: <span className="font-mono">username, password, role, agentId</span>. Roles are admin, manager or agent;
+            agentId maps an agent to their payee ID.
+          </p>
+        </div>
+        <Button variant="outline" onClick={() => fileInputRef.current?.click()} className="rounded-full">
+          <FileUp className="h-4 w-4 mr-2" />
+          Choose CSV
+        </Button>
+        <input ref={fileInputRef} type="file" accept=".csv,text/csv" onChange={handleFile} className="hidden" />
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {parseErrors.length > 0 && (
+        <ul className="text-xs text-amber-700 list-disc list-inside">
+          {parseErrors.map(message => (
+            <li key={message}>{message}</li>
+          ))}
+        </ul>
+      )}
+
+      {users.length > 0 && (
+        <div className="space-y-3">
+          <div className="overflow-x-auto max-h-80 rounded-md border border-gray-200">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Row</th>
+                  <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Username</th>
+                  <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Role</th>
+                  <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Agent ID</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {users.map((user, index) => (
+                  <tr key={index}>
+                    <td className="px-4 py-2 text-xs text-gray-500">{index + 1}</td>
+                    <td className="px-4 py-2 text-sm text-gray-900">{user.username}</td>
+                    <td className="px-4 py-2 text-sm text-gray-500">{user.role}</td>
+                    <td className="px-4 py-2 text-sm font-mono text-gray-500">{user.agentId || '—'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="flex justify-end">
+            <Button onClick={handleImport} disabled={isImporting} className="rounded-full bg-black text-white hover:opacity-90 transition">
+              <Upload className="h-4 w-4 mr-2" />
+              {isImporting ? 'Importing...' : `Import ${users.length} user(s) from ${fileName}`}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {result && (
+        <div className="space-y-2">
+          <p className="text-sm text-green-700">
+            Created {result.created.length} user(s){result.errors.length > 0 && `; ${result.errors.length} row(s) failed`}.
+          </p>
+          {result.errors.length > 0 && (
+            <ul className="text-sm text-red-600 list-disc list-inside">
+              {result.errors.map(rowError => (
+                <li key={rowError.row}>
+                  Row {rowError.row}{rowError.username && ` (${rowError.username})`}: {rowError.error}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
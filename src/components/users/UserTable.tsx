@@ -0,0 +1,179 @@
+import { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Edit2, Save, X } from 'lucide-react';
+import { Button } from '../ui/button';
+import { updateUser } from '../../api/users';
+import type { ManagedUser, Role, UserChanges } from '../../types/auth';
+
+interface UserTableProps {
+  users: ManagedUser[];
+  roles: Role[];
+  currentUserId?: string;
+  agentIdListId: string;
+  onUpdated: (user: ManagedUser) => void;
+}
+
+interface EditDraft {
+  role: Role;
+  agentId: string;
+  password: string;
+}
+
+const inputClassName = 'w-full rounded-md border border-gray-300 shadow-inner px-2 py-1 text-sm focus:ring focus:outline-none';
+
+export function UserTable({ users, roles, currentUserId, agentIdListId, onUpdated }: UserTableProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<EditDraft>({ role: 'agent', agentId: '', password: '' });
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const save = async (user: ManagedUser, changes: UserChanges) => {
+    setBusyId(user.id);
+    setError(null);
+    try {
+      onUpdated(await updateUser(user.id, changes));
+      setEditingId(null);
+    } catch (err) {
+      setError(`${user.username}: ${err instanceof Error ? err.message : 'Failed to update user'}`);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const startEditing = (user: ManagedUser) => {
+    setEditingId(user.id);
+    setDraft({ role: user.role, agentId: user.agentId || '', password: '' });
+    setError(null);
+  };
+
+  const saveDraft = (user: ManagedUser) => {
+    const changes: UserChanges = {};
+    if (draft.role !== user.role) changes.role = draft.role;
+    if (draft.agentId.trim() !== (user.agentId || '')) changes.agentId = draft.agentId.trim() || null;
+    if (draft.password) changes.password = draft.password;
+    if (Object.keys(changes).length === 0) {
+      setEditingId(null);
+      return;
+    }
+    save(user, changes);
+  };
+
+  return (
+    <div className="space-y-3">
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <div className="overflow-x-auto bg-white rounded-lg border border-gray-200">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Username</th>
+              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Role</th>
+              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Agent ID</th>
+              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Last Sign-in</th>
+              <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {users.map(user => {
+              const isEditing = editingId === user.id;
+              const isSelf = user.id === currentUserId;
+              return (
+                <tr key={user.id} className={user.active ? '' : 'bg-gray-50 text-gray-400'}>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                    {user.username}
+                    {isSelf && <span className="ml-2 text-xs text-gray-500">(you)</span>}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {isEditing ? (
+                      <select
+                        value={draft.role}
+                        onChange={(e) => setDraft({ ...draft, role: e.target.value as Role })}
+                        disabled={isSelf}
+                        className={inputClassName}
+                      >
+                        {roles.map(role => (
+                          <option key={role} value={role}>{role}</option>
+                        ))}
+                      </select>
+                    ) : (
+                      user.role
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {isEditing ? (
+                      <input
+                        type="text"
+                        value={draft.agentId}
+                        onChange={(e) => setDraft({ ...draft, agentId: e.target.value })}
+                        list={agentIdListId}
+                        placeholder="Not mapped"
+                        className={inputClassName}
+                      />
+                    ) : user.agentId ? (
+                      <span className="font-mono">{user.agentId}</span>
+                    ) : user.role === 'agent' ? (
+                      <span className="text-amber-600">Not mapped</span>
+                    ) : (
+                      '—'
+                    )}
+                    {isEditing && (
+                      <input
+                        type="password"
+                        value={draft.password}
+                        onChange={(e) => setDraft({ ...draft, password: e.target.value })}
+                        placeholder="New password (optional)"
+                        autoComplete="new-password"
+                        className={`${inputClassName} mt-2`}
+                      />
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span
+                      className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+                        user.active ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+                      }`}
+                    >
+                      {user.active ? 'Active' : 'Deactivated'}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {user.lastLoginAt ? format(parseISO(user.lastLoginAt), 'MMM d, yyyy HH:mm') : 'Never'}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right space-x-2">
+                    {isEditing ? (
+                      <>
+                        <Button size="sm" onClick={() => saveDraft(user)} disabled={busyId === user.id}>
+                          <Save className="h-4 w-4 mr-1" />
+                          Save
+                        </Button>
+                        <Button size="sm" variant="outline" onClick={() => setEditingId(null)}>
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </>
+                    ) : (
+                      <>
+                        <Button size="sm" variant="outline" onClick={() => startEditing(user)} disabled={!user.active}>
+                          <Edit2 className="h-4 w-4 mr-1" />
+                          Edit
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => save(user, { active: !user.active })}
+                          disabled={isSelf || busyId === user.id}
+                          className={user.active ? 'text-red-600 hover:text-red-700' : ''}
+                        >
+                          {user.active ? 'Deactivate' : 'Reactivate'}
+                        </Button>
+                      </>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -1 +1,11 @@
-export * from './SchemeExecutionEngine';
\ No newline at end of file
+export { runScheme } from './runScheme';
+export { summarizeRun, getAgentResults } from './results';
+export type {
+  SchemeRunResult,
+  SchemeRunMeta,
+  SchemeRunProgress,
+  AgentRunResult,
+  RuleHitLog,
+  CreditDistribution,
+  ProcessedRecord,
+} from '../types';
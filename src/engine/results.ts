@@ -0,0 +1,50 @@
+import Decimal from 'decimal.js';
+import type { AgentRunResult, RunSummaryFigures, SchemeRunResult } from '../types';
+
+/**
+ * Summarizes a run for headline figures.
+ * @param {SchemeRunResult} result The engine result.
+ * @returns {RunSummaryFigures} Record, agent and qualified counts plus the
+ *   total payout as a fixed-2 decimal string.
+ */
+export function summarizeRun(result: SchemeRunResult): RunSummaryFigures {
+  const payouts = Object.values(result.agentPayouts);
+  return {
+    totalRecords: result.rawRecordLevelData.length,
+    totalAgents: payouts.length,
+    qualified: Object.values(result.agentQualified).filter(Boolean).length,
+    totalPayout: payouts.reduce((sum, payout) => sum.plus(payout), new Decimal(0)).toFixed(2),
+  };
+}
+
+/**
+ * Builds the per-agent view of a run, sorted by agent ID. Credit splits are
+ * the distributions made *from* the agent's payout.
+ * @param {SchemeRunResult} result The engine result.
+ * @returns {Array<AgentRunResult>} One entry per agent with a payout.
+ */
+export function getAgentResults(result: SchemeRunResult): AgentRunResult[] {
+  const splitsByAgent: Record<string, AgentRunResult['creditSplits']> = {};
+  Object.values(result.creditDistributions)
+    .flat()
+    .forEach((distribution) => {
+      if (!splitsByAgent[distribution.fromAgent]) {
+        splitsByAgent[distribution.fromAgent] = [];
+      }
+      splitsByAgent[distribution.fromAgent].push(distribution);
+    });
+
+  return Object.keys(result.agentPayouts)
+    .sort((a, b) => a.localeCompare(b))
+    .map((agentId) => ({
+      agentId,
+      payout: result.agentPayouts[agentId],
+      qualified: result.agentQualified[agentId] ?? false,
+      quota: result.agentQuotas[agentId] ?? null,
+      attainment: result.agentAttainment[agentId] ?? null,
+      tierBreakdown: result.agentTierBreakdowns[agentId] || [],
+      payoutLimits: result.agentPayoutLimits[agentId] || [],
+      logs: result.ruleHitLogs[agentId] || [],
+      creditSplits: splitsByAgent[agentId] || [],
+    }));
+}
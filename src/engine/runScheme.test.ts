@@ -0,0 +1,345 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { runScheme } from './runScheme';
+
+const AS_OF = '2025-12-31';
+
+// A1 sells 1200 over January and February, A2 100 and A3 200
+const SALES = [
+  { Txn: 'T1', Date: '2025-01-10', AgentID: 'A1', Amount: 700, Team: 'North', Region: 'R1', ProductID: 'P1' },
+  { Txn: 'T2', Date: '2025-02-10', AgentID: 'A1', Amount: 500, Team: 'North', Region: 'R1', ProductID: 'P2' },
+  { Txn: 'T3', Date: '2025-01-15', AgentID: 'A2', Amount: 100, Team: 'North', Region: 'R1', ProductID: 'P1' },
+  { Txn: 'T4', Date: '2025-01-20', AgentID: 'A3', Amount: 200, Team: 'South', Region: 'R2', ProductID: 'P9' },
+];
+
+const TIERS = [
+  { id: 't1', from: 0, to: 1000, rate: 5, isPercentage: true },
+  { id: 't2', from: 1000, to: null, rate: 10, isPercentage: true },
+];
+
+const amountField = (overrides = {}) => ({
+  name: 'Amount',
+  sourceField: 'Amount',
+  sourceFile: 'sales.csv',
+  dataType: 'Number',
+  evaluationLevel: 'Per Record',
+  aggregation: 'Sum',
+  ...overrides,
+});
+
+const makeScheme = (overrides: Record<string, unknown> = {}) => ({
+  name: 'Fixture',
+  description: '',
+  effectiveFrom: '2025-01-01',
+  effectiveTo: '2025-12-31',
+  quotaAmount: 1000,
+  revenueBase: 'Sales',
+  baseMapping: {
+    sourceFile: 'sales.csv',
+    agentField: 'AgentID',
+    amountField: 'Amount',
+    transactionDateField: 'Date',
+    txnID: 'Txn',
+  },
+  qualificationRules: [],
+  adjustmentRules: [],
+  exclusionRules: [],
+  creditRules: [],
+  creditSplits: [],
+  creditHierarchyFile: '',
+  payoutTiers: TIERS,
+  tierMethod: 'marginal',
+  customRules: [],
+  kpiConfig: {
+    calculationBase: 'Sales',
+    baseData: [amountField()],
+    qualificationFields: [],
+    adjustmentFields: [],
+    exclusionFields: [],
+    creditFields: [],
+  },
+  ...overrides,
+});
+
+const makeFiles = (files: Record<string, Record<string, unknown>[]> = {}) =>
+  Object.fromEntries(
+    Object.entries({ 'sales.csv': SALES, ...files }).map(([name, data]) => [
+      name,
+      { name, data: data.map((row) => ({ ...row })) },
+    ])
+  );
+
+const run = (overrides: Record<string, unknown> = {}, files: Record<string, Record<string, unknown>[]> = {}) =>
+  runScheme(makeScheme(overrides), makeFiles(files), AS_OF);
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+describe('payout tiers', () => {
+  it('pays each slice at its own rate with marginal tiers', () => {
+    const result = run({ tierMethod: 'marginal' });
+
+    expect(result.agentPayouts).toEqual({ A1: '70.00', A2: '5.00', A3: '10.00' });
+    expect(result.agentTierBreakdowns.A1.map((tier) => [tier.amountInTier, tier.payout])).toEqual([
+      ['1000.00', '50.00'],
+      ['200.00', '20.00'],
+    ]);
+  });
+
+  it('pays the whole amount at the highest tier reached with retroactive tiers', () => {
+    const result = run({ tierMethod: 'retroactive' });
+
+    expect(result.agentPayouts).toEqual({ A1: '120.00', A2: '5.00', A3: '10.00' });
+    expect(result.agentTierBreakdowns.A1).toHaveLength(1);
+    expect(result.agentTierBreakdowns.A1[0]).toMatchObject({ tierId: 't2', amountInTier: '1200.00' });
+  });
+
+  it('pays the rate of every tier reached as a bonus with flatBonus tiers', () => {
+    const result = run({
+      tierMethod: 'flatBonus',
+      payoutTiers: TIERS.map((tier) => ({ ...tier, rate: tier.rate * 10, isPercentage: false })),
+    });
+
+    expect(result.agentPayouts).toEqual({ A1: '150.00', A2: '50.00', A3: '50.00' });
+  });
+
+  it('reads tiers as percent of quota with the attainment basis', () => {
+    const result = run({
+      tierBasis: 'attainment',
+      quotaAmount: 600,
+      payoutTiers: [
+        { id: 't1', from: 0, to: 100, rate: 5, isPercentage: true },
+        { id: 't2', from: 100, to: null, rate: 10, isPercentage: true },
+      ],
+    });
+
+    // A1 attains 200%: 600 at 5% and 600 at 10%
+    expect(result.agentAttainment.A1).toBe('200.00');
+    expect(result.agentPayouts.A1).toBe('90.00');
+  });
+
+  it('counts empty and non-numeric amounts as 0', () => {
+    const result = run({}, {
+      'sales.csv': [
+        { Txn: 'T1', Date: '2025-01-10', AgentID: 'A1', Amount: 100 },
+        { Txn: 'T2', Date: '2025-01-11', AgentID: 'A1', Amount: null },
+        { Txn: 'T3', Date: '2025-01-12', AgentID: 'A1', Amount: 'n/a' },
+      ],
+    });
+
+    expect(result.agentPayouts.A1).toBe('5.00');
+    expect(result.rawRecordLevelData.map((record) => record.originalAmount)).toEqual(['100.00', '0.00', '0.00']);
+  });
+});
+
+describe('adjustment rules', () => {
+  const adjust = (target: string, type: string, value: number) =>
+    run({
+      adjustmentRules: [
+        { id: 'a1', condition: { field: 'Agent', operator: '=', value: 'A2' }, adjustment: { target, type, value } },
+      ],
+    });
+
+  it('reads a percentage as the same change for every target', () => {
+    // A2 sells 100 at 5%: +10% gives 5.50 however it is applied
+    expect(adjust('Rate', 'percentage', 10).agentPayouts.A2).toBe('5.50');
+    expect(adjust('Payout', 'percentage', 10).agentPayouts.A2).toBe('5.50');
+    expect(adjust('Amount', 'percentage', 10).agentPayouts.A2).toBe('5.50');
+
+    const rated = adjust('Rate', 'percentage', 10).rawRecordLevelData.find((record) => record.agentId === 'A2');
+    expect(rated).toMatchObject({ rateMultiplier: '1.1000', adjustedAmount: '110.00' });
+  });
+
+  it('adds a fixed value to the rate multiplier', () => {
+    const result = adjust('Rate', 'fixed', 0.5);
+
+    expect(result.agentPayouts.A2).toBe('7.50');
+  });
+});
+
+describe('payout caps and floors', () => {
+  it('clips payouts above the cap and tops up payouts below the floor', () => {
+    const result = run({
+      tierMethod: 'retroactive',
+      payoutCap: { type: 'absolute', value: 100 },
+      payoutFloor: { type: 'absolute', value: 8 },
+    });
+
+    expect(result.agentPayouts).toEqual({ A1: '100.00', A2: '8.00', A3: '10.00' });
+    expect(result.agentPayoutLimits.A1).toEqual([
+      expect.objectContaining({ limit: 'Cap', source: 'scheme', payoutBefore: '120.00', payoutAfter: '100.00' }),
+    ]);
+    expect(result.agentPayoutLimits.A2).toEqual([
+      expect.objectContaining({ limit: 'Floor', source: 'scheme', payoutBefore: '5.00', payoutAfter: '8.00' }),
+    ]);
+    expect(result.agentPayoutLimits.A3).toBeUndefined();
+  });
+
+  it('does not raise a disqualified agent to the floor', () => {
+    const result = run({
+      payoutFloor: { type: 'absolute', value: 8 },
+      qualificationRules: [{ id: 'q1', field: 'Amount', operator: '>=', value: '150' }],
+      kpiConfig: { ...makeScheme().kpiConfig, baseData: [amountField({ evaluationLevel: 'Agent' })] },
+    });
+
+    // A2 sells 100 and fails the rule; A3 qualifies with 10.00 above the floor
+    expect(result.agentQualified.A2).toBe(false);
+    expect(result.agentPayouts.A2).toBe('0.00');
+    expect(result.agentPayoutLimits.A2).toBeUndefined();
+    expect(result.agentPayouts.A3).toBe('10.00');
+  });
+
+  it('does not raise an agent whose credit custom rules withheld to the floor', () => {
+    const result = run({
+      payoutFloor: { type: 'absolute', value: 8 },
+      customRules: [{ id: 'c1', evaluationLevel: 'Agent', metric: 'Sum', period: 'Monthly', threshold: 600 }],
+    });
+
+    expect(result.agentPayouts.A2).toBe('0.00');
+    expect(result.agentPayoutLimits.A2).toBeUndefined();
+  });
+
+  it('resolves limits as multiples of the target incentive', () => {
+    const result = run({
+      tierMethod: 'retroactive',
+      targetIncentive: 50,
+      payoutCap: { type: 'targetMultiple', value: 1.5 },
+    });
+
+    expect(result.agentPayouts.A1).toBe('75.00');
+  });
+
+  it('prefers an agent limit from the limit file over the scheme limit', () => {
+    const result = run(
+      {
+        tierMethod: 'retroactive',
+        payoutCap: { type: 'absolute', value: 100 },
+        payoutLimitMapping: { sourceFile: 'limits.csv', agentField: 'Agent', capField: 'Cap' },
+      },
+      { 'limits.csv': [{ Agent: 'A1', Cap: 110 }] }
+    );
+
+    expect(result.agentPayouts.A1).toBe('110.00');
+    expect(result.agentPayoutLimits.A1[0]).toMatchObject({ limit: 'Cap', source: 'agent' });
+  });
+});
+
+describe('custom rules', () => {
+  it('withholds the records of agent buckets that miss the threshold', () => {
+    const result = run({
+      customRules: [{ id: 'c1', evaluationLevel: 'Agent', metric: 'Sum', period: 'Monthly', threshold: 600 }],
+    });
+
+    // A1's February (500) is withheld; A2 and A3 miss it in January
+    expect(result.agentPayouts).toEqual({ A1: '35.00', A2: '0.00', A3: '0.00' });
+    const february = result.rawRecordLevelData.find((record) => record.transactionId === 'T2');
+    expect(february).toMatchObject({ adjustedAmount: '0.00' });
+    expect(february?.customRuleApplied).toContain('withheld');
+  });
+
+  it('does not evaluate records an earlier rule withheld', () => {
+    const result = run({
+      customRules: [
+        { id: 'c1', evaluationLevel: 'Agent', metric: 'Sum', period: 'Monthly', threshold: 600 },
+        // A1 made two sales, but only January's is still credited
+        { id: 'c2', evaluationLevel: 'Agent', metric: 'Count', period: 'Yearly', threshold: 2 },
+      ],
+    });
+
+    expect(result.agentPayouts.A1).toBe('0.00');
+    const c2 = result.ruleHitLogs.A1.find((log) => log.ruleId === 'c2');
+    expect(c2?.details).toMatchObject({ metricValue: '1.00', recordCount: 1, passed: false });
+    const february = result.rawRecordLevelData.find((record) => record.transactionId === 'T2');
+    expect(february?.customRuleApplied).toContain('Custom rule c1 withheld');
+  });
+
+  it('logs an error for a rule with an unknown metric and applies none of it', () => {
+    const result = run({
+      customRules: [{ id: 'c1', evaluationLevel: 'Agent', metric: 'Median', period: 'Monthly', threshold: 600 }],
+    });
+
+    expect(result.agentPayouts).toEqual({ A1: '70.00', A2: '5.00', A3: '10.00' });
+    for (const agentId of ['A1', 'A2', 'A3']) {
+      expect(result.ruleHitLogs[agentId]).toContainEqual(
+        expect.objectContaining({ ruleType: 'Custom', ruleId: 'c1', details: { error: 'UnknownMetric', metric: 'Median' } })
+      );
+    }
+  });
+
+  it('evaluates Region rules over every agent of the region', () => {
+    const result = run({
+      baseMapping: { ...makeScheme().baseMapping, regionField: 'Region' },
+      customRules: [{ id: 'c1', evaluationLevel: 'Region', metric: 'Sum', period: 'Yearly', threshold: 1000 }],
+    });
+
+    // R1 (A1 and A2) sells 1300 and keeps its credit; R2 (A3) sells 200
+    expect(result.agentPayouts).toEqual({ A1: '70.00', A2: '5.00', A3: '0.00' });
+    expect(result.agentQualified.A3).toBe(false);
+  });
+});
+
+describe('Team qualification rules', () => {
+  it('disqualifies every member of a team that fails the rule', () => {
+    const result = run({
+      baseMapping: { ...makeScheme().baseMapping, teamField: 'Team' },
+      qualificationRules: [{ id: 'q1', field: 'Amount', operator: '>=', value: '1000' }],
+      kpiConfig: { ...makeScheme().kpiConfig, baseData: [amountField({ evaluationLevel: 'Team' })] },
+    });
+
+    // North (A1 and A2) sells 1300; South (A3) sells 200
+    expect(result.agentQualified).toEqual({ A1: true, A2: true, A3: false });
+    expect(result.agentPayouts).toEqual({ A1: '70.00', A2: '5.00', A3: '0.00' });
+  });
+});
+
+describe('joins', () => {
+  const PRODUCTS = [
+    { ProductID: 'P1', Category: 'Hardware' },
+    { ProductID: 'P2', Category: 'Service' },
+  ];
+
+  const joinScheme = (joinType: 'left' | 'inner', overrides: Record<string, unknown> = {}) => ({
+    exclusionRules: [{ id: 'x1', field: 'Category', operator: '=', value: 'Service' }],
+    kpiConfig: {
+      ...makeScheme().kpiConfig,
+      exclusionFields: [
+        { name: 'Category', sourceField: 'Category', sourceFile: 'products.csv', dataType: 'String', sourceType: 'External' },
+      ],
+      joins: [
+        { sourceFile: 'products.csv', keys: [{ baseField: 'ProductID', sourceField: 'ProductID' }], joinType, ...overrides },
+      ],
+    },
+  });
+
+  it('applies rules to fields joined from another file', () => {
+    const result = run(joinScheme('left'), { 'products.csv': PRODUCTS });
+
+    // T2 (P2) is a service and excluded; A3's P9 has no match but is kept
+    expect(result.agentPayouts).toEqual({ A1: '35.00', A2: '5.00', A3: '10.00' });
+    expect(result.rawRecordLevelData.find((record) => record.transactionId === 'T2')).toMatchObject({
+      isExcluded: true,
+      adjustedAmount: '0.00',
+    });
+  });
+
+  it('drops records without a match with an inner join', () => {
+    const result = run(joinScheme('inner'), { 'products.csv': PRODUCTS });
+
+    expect(Object.keys(result.agentPayouts).sort()).toEqual(['A1', 'A2']);
+    expect(result.rawRecordLevelData.map((record) => record.transactionId)).not.toContain('T4');
+  });
+
+  it('joins the row in effect on the transaction date', () => {
+    const result = run(joinScheme('left', { effectiveFromField: 'From' }), {
+      'products.csv': [
+        { ProductID: 'P1', Category: 'Hardware', From: '2024-01-01' },
+        { ProductID: 'P2', Category: 'Hardware', From: '2024-01-01' },
+        // P2 becomes a service only after A1's February sale
+        { ProductID: 'P2', Category: 'Service', From: '2025-03-01' },
+      ],
+    });
+
+    expect(result.agentPayouts.A1).toBe('70.00');
+  });
+});
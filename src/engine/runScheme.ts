@@ -0,0 +1,1763 @@
+import Decimal from 'decimal.js';
+import type {
+  CreditDistribution,
+  PayoutLimitHit,
+  PayoutTier,
+  ProcessedRecord,
+  Rule,
+  RuleHitLog,
+  SchemeRunProgress,
+  SchemeRunResult,
+  SourceJoin,
+  TierBreakdown,
+} from '../types';
+
+/**
+ * An agent-level adjustment (Payout or Quota target) triggered by one or more
+ * of the agent's records. Each rule is applied at most once per agent.
+ */
+interface AgentAdjustment {
+  ruleId: string;
+  target: 'Payout' | 'Quota';
+  type: string;
+  value: Decimal;
+  recordIds: string[];
+}
+
+// --- Helper Functions ---
+
+/**
+ * Safely gets a nested property from an object.
+ * @param {object} obj The object to query.
+ * @param {string} path Dot-separated path string (e.g., "a.b.c").
+ * @param {*} defaultValue The value to return if the path is not found.
+ * @returns {*} The value found at the path or the default value.
+ */
+function safeGet(obj: any, path: string, defaultValue: any = undefined) {
+  if (!obj || typeof path !== 'string') {
+    return defaultValue;
+  }
+  try {
+    return path
+      .split('.')
+      .reduce(
+        (acc, key) => (acc && acc[key] !== undefined ? acc[key] : defaultValue),
+        obj
+      );
+  } catch (e) {
+    return defaultValue;
+  }
+}
+
+/**
+ * Parses a date string into a Date object. Assumes YYYY-MM-DD format.
+ * Returns null for invalid dates.
+ * @param {string} dateString
+ * @returns {Date | null}
+ */
+function parseDate(dateString: string): Date | null {
+  if (!dateString || typeof dateString !== 'string') return null;
+  const date = new Date(dateString + 'T00:00:00Z'); // Treat as UTC to avoid timezone issues
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Compares two dates, ignoring time.
+ * @param {Date} date1
+ * @param {Date} date2
+ * @returns {number} -1 if date1 < date2, 0 if equal, 1 if date1 > date2
+ */
+function compareDates(date1: Date | null, date2: Date | null): number {
+  if (!date1 || !date2) return NaN; // Handle null/invalid dates
+  const d1 = new Date(
+    Date.UTC(date1.getUTCFullYear(), date1.getUTCMonth(), date1.getUTCDate())
+  );
+  const d2 = new Date(
+    Date.UTC(date2.getUTCFullYear(), date2.getUTCMonth(), date2.getUTCDate())
+  );
+  if (d1 < d2) return -1;
+  if (d1 > d2) return 1;
+  return 0;
+}
+
+/**
+ * Formats a Decimal.js number to a fixed string representation.
+ * @param {Decimal} decimalValue
+ * @param {number} precision
+ * @returns {string}
+ */
+function formatDecimal(decimalValue: Decimal, precision: number = 2): string {
+  if (!(decimalValue instanceof Decimal)) {
+    return new Decimal(0).toFixed(precision);
+  }
+  return decimalValue.toFixed(precision);
+}
+
+/**
+ * Evaluates a rule condition against a record's value.
+ * @param {*} recordValue The actual value from the record.
+ * @param {string} operator The comparison operator (e.g., '=', '>=', 'CONTAINS').
+ * @param {*} ruleValue The value defined in the rule.
+ * @param {string} dataType The expected data type ('String', 'Number', 'Date').
+ * @returns {boolean} True if the condition is met, false otherwise.
+ */
+function evaluateCondition(
+  recordValue: any,
+  operator: string,
+  ruleValue: any,
+  dataType: string = 'String'
+): boolean {
+  // Handle null/undefined record values gracefully
+  if (recordValue === null || recordValue === undefined) {
+    return (
+      operator === '=' &&
+      (ruleValue === null || ruleValue === undefined || ruleValue === '')
+    );
+  }
+
+  let rv = recordValue;
+  let val = ruleValue;
+
+  if (dataType === 'Number') {
+    rv = parseNumber(recordValue) || new Decimal(0);
+    val = parseNumber(ruleValue) || new Decimal(0);
+    switch (operator) {
+      case '=':
+        return rv.equals(val);
+      case '!=':
+        return !rv.equals(val);
+      case '>':
+        return rv.greaterThan(val);
+      case '>=':
+        return rv.greaterThanOrEqualTo(val);
+      case '<':
+        return rv.lessThan(val);
+      case '<=':
+        return rv.lessThanOrEqualTo(val);
+      default:
+        return false;
+    }
+  } else if (dataType === 'Date') {
+    rv = parseDate(recordValue);
+    val = parseDate(ruleValue);
+    if (!rv || !val) return false; // Cannot compare invalid dates
+    const comparison = compareDates(rv, val);
+    switch (operator) {
+      case '=':
+        return comparison === 0;
+      case '!=':
+        return comparison !== 0;
+      case '>':
+        return comparison === 1;
+      case '>=':
+        return comparison === 1 || comparison === 0;
+      case '<':
+        return comparison === -1;
+      case '<=':
+        return comparison === -1 || comparison === 0;
+      default:
+        return false;
+    }
+  } else {
+    // Default to String comparison
+    rv = String(recordValue).trim();
+    val = String(ruleValue).trim();
+    const rvLower = rv.toLowerCase();
+    const valLower = val.toLowerCase();
+
+    switch (operator) {
+      case '=':
+        return rvLower === valLower;
+      case '!=':
+        return rvLower !== valLower;
+      case 'CONTAINS':
+        return rvLower.includes(valLower);
+      case 'STARTSWITH':
+        return rvLower.startsWith(valLower);
+      case 'ENDSWITH':
+        return rvLower.endsWith(valLower);
+      default:
+        return false;
+    }
+  }
+}
+
+/**
+ * Finds the manager for a given agent and level from the hierarchy data,
+ * considering the effective date range.
+ * @param {string} agentId The ID of the agent whose manager is needed.
+ * @param {string} level The hierarchy level (e.g., 'L1', 'L2').
+ * @param {Array<object>} hierarchyData Array of hierarchy records.
+ * @param {Date} schemeEffectiveFrom Start date of the scheme period.
+ * @param {Date} runAsDate The 'as of' date for the calculation run.
+ * @returns {string | null} The ManagerID or null if not found/valid.
+ */
+function findManager(
+  agentId: string,
+  level: string,
+  hierarchyData: any[],
+  schemeEffectiveFrom: Date,
+  runAsDate: Date
+): string | null {
+  if (
+    !agentId ||
+    !level ||
+    !hierarchyData ||
+    !schemeEffectiveFrom ||
+    !runAsDate
+  ) {
+    return null;
+  }
+
+  const targetAgentId = String(agentId); // Ensure string comparison
+
+  for (const row of hierarchyData) {
+    // Match agent and level (case-insensitive recommended for robustness)
+    if (
+      String(safeGet(row, 'AgentID')).toLowerCase() ===
+        targetAgentId.toLowerCase() &&
+      String(safeGet(row, 'Level')).toUpperCase() === level.toUpperCase()
+    ) {
+      const reportsFrom = parseDate(safeGet(row, 'ReportsFrom'));
+      const reportsToEnd = parseDate(safeGet(row, 'ReportsToEnd'));
+
+      // Check for date overlap:
+      // The hierarchy record must be valid during *some part* of the scheme period being run.
+      // [hierStart, hierEnd] must overlap with [schemeStart, runAsDate]
+      if (
+        reportsFrom &&
+        reportsToEnd &&
+        compareDates(reportsFrom, runAsDate) <= 0 && // Hierarchy starts on or before run date
+        compareDates(reportsToEnd, schemeEffectiveFrom) >= 0
+      ) {
+        // Hierarchy ends on or after scheme start date
+        return safeGet(row, 'ManagerID', null);
+      }
+    }
+  }
+  return null; // No valid manager found
+}
+
+/**
+ * Resolves the Team or Region an agent belongs to.
+ * The attribute is read from the agent's base records first, then from the
+ * agent's effective row in the credit hierarchy file. If neither carries the
+ * column, the attribute is treated as a hierarchy level (e.g., 'L2') and the
+ * agent's manager at that level identifies the group.
+ * @param {string} agentId The agent to resolve.
+ * @param {string} attribute Column name (or hierarchy level) holding the group.
+ * @param {Array<object>} agentRecords The agent's base records.
+ * @param {Array<object>} hierarchyData Array of hierarchy records.
+ * @param {Date} schemeEffectiveFrom Start date of the scheme period.
+ * @param {Date} runAsDate The 'as of' date for the calculation run.
+ * @returns {string | null} The group identifier or null if it cannot be resolved.
+ */
+function resolveGroupId(
+  agentId: string,
+  attribute: string,
+  agentRecords: Record<string, unknown>[],
+  hierarchyData: Record<string, unknown>[],
+  schemeEffectiveFrom: Date,
+  runAsDate: Date
+): string | null {
+  for (const record of agentRecords || []) {
+    const value = safeGet(record, attribute);
+    if (value !== undefined && value !== null && String(value).trim() !== '') {
+      return String(value).trim();
+    }
+  }
+
+  for (const row of hierarchyData || []) {
+    if (
+      String(safeGet(row, 'AgentID')).toLowerCase() !==
+      String(agentId).toLowerCase()
+    ) {
+      continue;
+    }
+    const value = safeGet(row, attribute);
+    if (value === undefined || value === null || String(value).trim() === '') {
+      continue;
+    }
+    const reportsFrom = parseDate(safeGet(row, 'ReportsFrom'));
+    const reportsToEnd = parseDate(safeGet(row, 'ReportsToEnd'));
+    if (
+      !reportsFrom ||
+      !reportsToEnd ||
+      (compareDates(reportsFrom, runAsDate) <= 0 &&
+        compareDates(reportsToEnd, schemeEffectiveFrom) >= 0)
+    ) {
+      return String(value).trim();
+    }
+  }
+
+  return findManager(
+    agentId,
+    attribute,
+    hierarchyData,
+    schemeEffectiveFrom,
+    runAsDate
+  );
+}
+
+/**
+ * Calculates payout from the tiers using the scheme's tier method.
+ *  - marginal: each slice of the amount is paid at its own tier rate.
+ *  - retroactive: the whole amount is paid at the rate of the highest tier reached.
+ *  - flatBonus: the rate of every tier reached is paid as a fixed bonus.
+ * A tier is reached once the amount exceeds its 'from'.
+ * @param {Decimal} amount The total credited amount.
+ * @param {Array<object>} tiers The payout tiers configuration.
+ * @param {string} method 'marginal' (default), 'retroactive' or 'flatBonus'.
+ * @returns {object} { payout, breakdown } with one breakdown entry per paid tier.
+ */
+function calculateTieredPayout(
+  amount: Decimal,
+  tiers: PayoutTier[],
+  method: string = 'marginal'
+): { payout: Decimal; breakdown: TierBreakdown[] } {
+  const breakdown: TierBreakdown[] = [];
+  if (!(amount instanceof Decimal) || !tiers || tiers.length === 0) {
+    return { payout: new Decimal(0), breakdown };
+  }
+
+  let totalPayout = new Decimal(0);
+  const sortedTiers = [...tiers].sort((a, b) => a.from - b.from); // Ensure tiers are sorted by 'from'
+
+  const addBreakdown = (
+    tier: PayoutTier,
+    tierNumber: number,
+    amountInTier: Decimal,
+    tierPayout: Decimal
+  ) => {
+    totalPayout = totalPayout.plus(tierPayout);
+    breakdown.push({
+      tierId: tier.id,
+      tierNumber: tierNumber,
+      from: tier.from || 0,
+      to: tier.to === null || tier.to === undefined ? null : tier.to,
+      rate: tier.rate || 0,
+      isPercentage: tier.isPercentage !== false,
+      amountInTier: formatDecimal(amountInTier),
+      payout: formatDecimal(tierPayout),
+    });
+  };
+
+  // Percentage rates pay rate % of the amount, fixed rates pay rate per unit
+  const payAtRate = (tier: PayoutTier, tierAmount: Decimal) => {
+    const rate = new Decimal(tier.rate || 0);
+    return tier.isPercentage !== false // Default to true if undefined
+      ? tierAmount.times(rate).dividedBy(100)
+      : tierAmount.times(rate);
+  };
+
+  const reachedTiers = sortedTiers.filter((tier) =>
+    amount.greaterThan(tier.from || 0)
+  );
+  if (reachedTiers.length === 0) {
+    return { payout: totalPayout, breakdown };
+  }
+
+  if (method === 'retroactive') {
+    const landedTier = reachedTiers[reachedTiers.length - 1];
+    addBreakdown(
+      landedTier,
+      sortedTiers.indexOf(landedTier) + 1,
+      amount,
+      payAtRate(landedTier, amount)
+    );
+  } else if (method === 'flatBonus') {
+    reachedTiers.forEach((tier, index) => {
+      addBreakdown(tier, index + 1, amount, new Decimal(tier.rate || 0));
+    });
+  } else {
+    reachedTiers.forEach((tier, index) => {
+      // Amount falling into this specific tier = min(Amount, TierEnd) - TierStart
+      // Use Infinity for unbounded 'to', handle null/undefined 'to'
+      const tierTo =
+        tier.to === null || tier.to === undefined
+          ? new Decimal(Infinity)
+          : new Decimal(tier.to);
+      const amountInTier = Decimal.min(amount, tierTo).minus(tier.from || 0);
+      if (amountInTier.lte(0)) return;
+      addBreakdown(tier, index + 1, amountInTier, payAtRate(tier, amountInTier));
+    });
+  }
+
+  return { payout: totalPayout, breakdown };
+}
+
+/**
+ * Converts payout tiers expressed as percent of quota attainment into tiers
+ * on the credited amount for the given quota.
+ * @param {Array<object>} tiers The payout tiers configuration (from/to in %).
+ * @param {Decimal} quota The agent's quota.
+ * @returns {Array<object>} Tiers with from/to as amounts.
+ */
+function attainmentTiersToAmounts(
+  tiers: PayoutTier[],
+  quota: Decimal
+): PayoutTier[] {
+  return (tiers || []).map((tier) => ({
+    ...tier,
+    from: quota.times(tier.from || 0).dividedBy(100).toNumber(),
+    to:
+      tier.to === null || tier.to === undefined
+        ? tier.to
+        : quota.times(tier.to).dividedBy(100).toNumber(),
+  }));
+}
+
+/**
+ * Applies a percentage or fixed adjustment to an amount, rate multiplier,
+ * quota or payout, so a rule's value means the same for every target.
+ * @param {Decimal} amount The amount to adjust.
+ * @param {string} type 'percentage' (value is the percent change, e.g. 10 = +10%) or 'fixed' (value is added).
+ * @param {Decimal} value The adjustment value.
+ * @returns {Decimal|null} The adjusted amount, or null for an unknown type.
+ */
+function applyAdjustment(
+  amount: Decimal,
+  type: string,
+  value: Decimal
+): Decimal | null {
+  if (type === 'percentage') {
+    return amount.plus(amount.times(value).dividedBy(100));
+  }
+  if (type === 'fixed') {
+    return amount.plus(value);
+  }
+  return null;
+}
+
+/**
+ * Gets the record property under which rows joined from a source file are stored.
+ * @param {string} sourceFile The joined file name.
+ * @returns {string} Property name (e.g., "_join_Products_csv").
+ */
+function getJoinAlias(sourceFile: string): string {
+  return `_join_${sourceFile.replace(/[^A-Za-z0-9_]/g, '_')}`;
+}
+
+/**
+ * Builds the composite lookup key of a row for the given key columns.
+ * @param {object} row The data row.
+ * @param {Array<string>} fields The key columns.
+ * @returns {string|null} The key, or null if any key column is empty.
+ */
+function getJoinKey(row: Record<string, unknown>, fields: string[]): string | null {
+  const parts: string[] = [];
+  for (const field of fields) {
+    const value = safeGet(row, field);
+    if (value === undefined || value === null || String(value).trim() === '') {
+      return null;
+    }
+    parts.push(String(value).trim());
+  }
+  return parts.join('\u0000');
+}
+
+/**
+ * Picks the joined row in effect on a date. Rows without an effective-from
+ * date are always in effect; among matches the latest effective-from wins.
+ * @param {Array<object>} rows Candidate rows sharing the join key.
+ * @param {object} join The join specification.
+ * @param {Date|null} date The transaction date.
+ * @returns {object|null} The matching row or null.
+ */
+function selectEffectiveRow(
+  rows: Record<string, unknown>[],
+  join: SourceJoin,
+  date: Date | null
+): Record<string, unknown> | null {
+  if (!join.effectiveFromField && !join.effectiveToField) {
+    return rows[0] || null;
+  }
+
+  let selected: Record<string, unknown> | null = null;
+  let selectedFrom: Date | null = null;
+  for (const row of rows) {
+    const from = join.effectiveFromField
+      ? parseDate(safeGet(row, join.effectiveFromField))
+      : null;
+    const to = join.effectiveToField
+      ? parseDate(safeGet(row, join.effectiveToField))
+      : null;
+    if (date && from && compareDates(date, from) < 0) continue;
+    if (date && to && compareDates(date, to) > 0) continue;
+    if (
+      !selected ||
+      (from && (!selectedFrom || compareDates(from, selectedFrom) > 0))
+    ) {
+      selected = row;
+      selectedFrom = from;
+    }
+  }
+  return selected;
+}
+
+/**
+ * Builds the bucket key for a date according to a custom rule period.
+ * @param {Date} date The transaction date.
+ * @param {string} period 'Monthly', 'Quarterly' or 'Yearly'.
+ * @returns {string} Bucket key (e.g., "2025-03", "2025-Q1", "2025").
+ */
+function getPeriodKey(date: Date, period: string): string {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth() + 1;
+  switch (period) {
+    case 'Monthly':
+      return `${year}-${String(month).padStart(2, '0')}`;
+    case 'Quarterly':
+      return `${year}-Q${Math.ceil(month / 3)}`;
+    case 'Yearly':
+      return `${year}`;
+    default:
+      return 'ALL';
+  }
+}
+
+/**
+ * Computes a custom rule metric over a set of values.
+ * @param {string} metric 'Count', 'Sum', 'Average', 'Minimum' or 'Maximum'.
+ * @param {Array<Decimal>} values The values in the bucket.
+ * @returns {Decimal | null} The metric value, or null for an unknown metric.
+ */
+function computeMetric(metric: string, values: Decimal[]): Decimal | null {
+  switch (metric) {
+    case 'Count':
+      return new Decimal(values.length);
+    case 'Sum':
+      return values.reduce((acc, v) => acc.plus(v), new Decimal(0));
+    case 'Average':
+    case 'Avg':
+      return values.length === 0
+        ? new Decimal(0)
+        : values
+            .reduce((acc, v) => acc.plus(v), new Decimal(0))
+            .dividedBy(values.length);
+    case 'Minimum':
+    case 'Min':
+      return values.length === 0 ? new Decimal(0) : Decimal.min(...values);
+    case 'Maximum':
+    case 'Max':
+      return values.length === 0 ? new Decimal(0) : Decimal.max(...values);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Checks whether an evaluation level denotes agent-level evaluation.
+ * The KPI configurator stores both 'Agent' and 'Per Agent'.
+ * @param {string} level
+ * @returns {boolean}
+ */
+function isAgentLevel(level: string): boolean {
+  return level === 'Agent' || level === 'Per Agent';
+}
+
+/**
+ * Parses a numeric value, tolerating thousands separators and a trailing '%'.
+ * @param {*} value The raw value from a record.
+ * @returns {Decimal | null} The parsed number or null if not numeric.
+ */
+function parseNumber(value: unknown): Decimal | null {
+  if (value instanceof Decimal) return value;
+  if (value === null || value === undefined || value === '') return null;
+  const cleaned = String(value).replace(/,/g, '').replace(/%$/, '').trim();
+  if (cleaned === '' || isNaN(Number(cleaned))) return null;
+  return new Decimal(cleaned);
+}
+
+/**
+ * Aggregates a KPI field's values according to its configured aggregation.
+ * Count counts non-empty values, CountDistinct counts unique non-empty values
+ * (case-insensitive) and the numeric aggregations ignore non-numeric values.
+ * 'NotApplicable' is treated as Sum for backwards compatibility.
+ * @param {string} aggregation 'Sum', 'Avg', 'Min', 'Max', 'Count', 'CountDistinct' or 'NotApplicable'.
+ * @param {Array<*>} values The raw values for the group.
+ * @returns {Decimal | null} The aggregate, or null for an unknown aggregation.
+ */
+function aggregateValues(aggregation: string, values: unknown[]): Decimal | null {
+  const present = values.filter(
+    (v) => v !== null && v !== undefined && String(v).trim() !== ''
+  );
+  switch (aggregation) {
+    case 'Count':
+      return new Decimal(present.length);
+    case 'CountDistinct':
+      return new Decimal(
+        new Set(present.map((v) => String(v).trim().toLowerCase())).size
+      );
+    case 'NotApplicable':
+      return aggregateValues('Sum', values);
+    default:
+      return computeMetric(
+        aggregation,
+        present
+          .map((v) => parseNumber(v))
+          .filter((v): v is Decimal => v !== null)
+      );
+  }
+}
+
+/**
+ * Executes a sales incentive scheme based on provided configuration and data.
+ *
+ * @param {object} scheme The scheme configuration JSON.
+ * @param {object} uploadedFiles An object mapping filenames to arrays of data rows.
+ * @param {string} runAsOfDate The date (YYYY-MM-DD) to run the calculation up to.
+ * @param {string} mode 'simulation' (default) or 'production', recorded in the result meta.
+ * @param {Function} onProgress Optional callback with record and agent counts as the run advances.
+ * @returns {SchemeRunResult} The run result (see SchemeRunResult in types).
+ */
+export function runScheme(
+  scheme: any,
+  uploadedFiles: any,
+  runAsOfDate: string,
+  mode: 'simulation' | 'production' = 'simulation',
+  onProgress?: (progress: SchemeRunProgress) => void
+): SchemeRunResult {
+  console.log(`Running scheme ${scheme.name} as of ${runAsOfDate}`);
+
+  // --- Initializations ---
+  const agentPayouts: Record<string, string> = {};
+  const agentQualified: Record<string, boolean> = {};
+  const ruleHitLogs: Record<string, RuleHitLog[]> = {};
+  const creditDistributions: Record<string, CreditDistribution[]> = {};
+  const rawRecordLevelData: ProcessedRecord[] = [];
+  const agentQuotas: Record<string, string> = {};
+  const agentAttainment: Record<string, string> = {};
+  const agentTierBreakdowns: Record<string, TierBreakdown[]> = {};
+  const agentPayoutLimits: Record<string, PayoutLimitHit[]> = {};
+
+  // Validate essential scheme components
+  if (
+    !scheme.baseMapping ||
+    !scheme.baseMapping.sourceFile ||
+    !scheme.baseMapping.agentField ||
+    !scheme.baseMapping.amountField ||
+    !scheme.baseMapping.txnID // Add validation for txnID
+  ) {
+    throw new Error('Scheme is missing essential baseMapping configuration.');
+  }
+
+  const baseDataFile = scheme.baseMapping.sourceFile;
+  const agentIdField = scheme.baseMapping.agentField;
+  const amountField = scheme.baseMapping.amountField;
+  const txnIdField = scheme.baseMapping.txnID;
+  const hierarchyFile = scheme.creditHierarchyFile;
+
+  const baseData = uploadedFiles[baseDataFile]?.data;
+  const hierarchyData = hierarchyFile ? uploadedFiles[hierarchyFile]?.data : [];
+  const tierBasis = scheme.tierBasis === 'attainment' ? 'attainment' : 'amount';
+  const tierMethod = scheme.tierMethod || 'marginal';
+
+  if (!baseData || !Array.isArray(baseData)) {
+    throw new Error(
+      `Base data file "${baseDataFile}" not found in uploadedFiles or data is not an array.`
+    );
+  }
+
+  // Validate txnID field exists in the input file
+  if (!baseData[0] || !(txnIdField in baseData[0])) {
+    throw new Error(
+      `Missing column '${txnIdField}' required as txnID in input file.`
+    );
+  }
+
+  const progress: SchemeRunProgress = {
+    stage: 'filtering',
+    recordsTotal: baseData.length,
+    recordsInRange: 0,
+    recordsQualified: 0,
+    agentsTotal: 0,
+    agentsProcessed: 0,
+  };
+  const reportProgress = (updates: Partial<SchemeRunProgress>) => {
+    Object.assign(progress, updates);
+    onProgress?.({ ...progress });
+  };
+  reportProgress({});
+
+  // Rest of the execution engine logic remains the same, but ensure txnID is included in logs
+  const txnIdsByRecordId = new Map<string, unknown>();
+  const logEvent = (
+    logArray: RuleHitLog[],
+    eventData: Omit<RuleHitLog, 'timestamp'>
+  ) => {
+    logArray.push({
+      ...eventData,
+      transactionId: eventData.recordId
+        ? String(txnIdsByRecordId.get(eventData.recordId) ?? '')
+        : undefined,
+      timestamp: new Date().toISOString(),
+    });
+  };
+
+  const runDate = parseDate(runAsOfDate);
+  const schemeStart = parseDate(scheme.effectiveFrom);
+  const schemeEnd = parseDate(scheme.effectiveTo);
+
+  if (!runDate || !schemeStart) {
+    throw new Error(
+      'Invalid runAsOfDate or scheme.effectiveFrom date format. Use YYYY-MM-DD.'
+    );
+  }
+
+  // --- Load Per-Agent Quota Overrides ---
+  // Rows of the quota file are summed per agent (e.g., monthly quota rows).
+  const schemeQuota = parseNumber(scheme.quotaAmount) || new Decimal(0);
+  const quotaOverrides: Record<string, Decimal> = {};
+  const quotaMapping = scheme.quotaMapping;
+  if (quotaMapping?.sourceFile) {
+    const quotaData = uploadedFiles[quotaMapping.sourceFile]?.data;
+    if (!quotaData || !Array.isArray(quotaData)) {
+      throw new Error(
+        `Quota file "${quotaMapping.sourceFile}" not found in uploadedFiles or data is not an array.`
+      );
+    }
+    for (const row of quotaData) {
+      const quotaAgentId = String(safeGet(row, quotaMapping.agentField, '')).trim();
+      const quota = parseNumber(safeGet(row, quotaMapping.quotaField));
+      if (!quotaAgentId || !quota) {
+        console.warn(
+          `Skipping quota row without agent or numeric quota in ${quotaMapping.sourceFile}.`
+        );
+        continue;
+      }
+      quotaOverrides[quotaAgentId] = (
+        quotaOverrides[quotaAgentId] || new Decimal(0)
+      ).plus(quota);
+    }
+    console.log(
+      `Loaded quota overrides for ${Object.keys(quotaOverrides).length} agents.`
+    );
+  }
+
+  // --- Load Per-Agent Payout Limits ---
+  // Cap/floor values use the unit of the scheme-level cap/floor (absolute by default).
+  const agentLimitOverrides: Record<
+    string,
+    { targetIncentive?: Decimal; cap?: Decimal; floor?: Decimal }
+  > = {};
+  const limitMapping = scheme.payoutLimitMapping;
+  if (limitMapping?.sourceFile) {
+    const limitData = uploadedFiles[limitMapping.sourceFile]?.data;
+    if (!limitData || !Array.isArray(limitData)) {
+      throw new Error(
+        `Payout limit file "${limitMapping.sourceFile}" not found in uploadedFiles or data is not an array.`
+      );
+    }
+    for (const row of limitData) {
+      const limitAgentId = String(safeGet(row, limitMapping.agentField, '')).trim();
+      if (!limitAgentId) continue;
+      const overrides = agentLimitOverrides[limitAgentId] || {};
+      const targetIncentive = limitMapping.targetIncentiveField
+        ? parseNumber(safeGet(row, limitMapping.targetIncentiveField))
+        : null;
+      const cap = limitMapping.capField
+        ? parseNumber(safeGet(row, limitMapping.capField))
+        : null;
+      const floor = limitMapping.floorField
+        ? parseNumber(safeGet(row, limitMapping.floorField))
+        : null;
+      if (targetIncentive) overrides.targetIncentive = targetIncentive;
+      if (cap) overrides.cap = cap;
+      if (floor) overrides.floor = floor;
+      agentLimitOverrides[limitAgentId] = overrides;
+    }
+    console.log(
+      `Loaded payout limits for ${Object.keys(agentLimitOverrides).length} agents.`
+    );
+  }
+  const schemeTargetIncentive =
+    parseNumber(scheme.targetIncentive) || new Decimal(0);
+
+  // Resolves an agent's cap or floor amount, or null if none applies.
+  const resolvePayoutLimit = (
+    agentId: string,
+    limit: 'cap' | 'floor'
+  ): { amount: Decimal; source: 'scheme' | 'agent' } | null => {
+    const schemeLimit = limit === 'cap' ? scheme.payoutCap : scheme.payoutFloor;
+    const overrides = agentLimitOverrides[agentId] || {};
+    const agentValue = overrides[limit];
+    const value = agentValue || parseNumber(schemeLimit?.value);
+    if (!value) return null;
+
+    const source = agentValue ? 'agent' : 'scheme';
+    if (schemeLimit?.type !== 'targetMultiple') {
+      return { amount: value, source };
+    }
+    const targetIncentive = overrides.targetIncentive || schemeTargetIncentive;
+    if (targetIncentive.lte(0)) {
+      console.warn(
+        `Agent ${agentId}: Payout ${limit} is a multiple of target incentive but no target incentive is set. Skipping.`
+      );
+      return null;
+    }
+    return { amount: targetIncentive.times(value), source };
+  };
+
+  if (!scheme.payoutTiers) {
+    console.warn(`Scheme ${scheme.name} has no payoutTiers defined.`);
+    scheme.payoutTiers = [];
+  }
+
+  // --- Build Field Mappings from kpiConfig ---
+  const fieldMap: Record<string, { sourceField: string; dataType: string; evaluationLevel: string; aggregation: string }> = {};
+  const allKpiFields = [
+    ...(scheme.kpiConfig?.baseData || []),
+    ...(scheme.kpiConfig?.qualificationFields || []),
+    ...(scheme.kpiConfig?.adjustmentFields || []),
+    ...(scheme.kpiConfig?.exclusionFields || []),
+    ...(scheme.kpiConfig?.creditFields || []),
+  ];
+
+  const joins: SourceJoin[] = (scheme.kpiConfig?.joins || []).filter(
+    (join: SourceJoin) => join.sourceFile && join.keys?.length
+  );
+  const joinedFiles = new Set(joins.map((join) => join.sourceFile));
+
+  allKpiFields.forEach((f: any) => {
+    if (!f.name || !f.sourceField) return;
+    if (f.sourceFile === baseDataFile) {
+      fieldMap[f.name] = {
+        sourceField: f.sourceField,
+        dataType: f.dataType || 'String',
+        evaluationLevel: f.evaluationLevel || 'Per Record',
+        aggregation: f.aggregation || 'NotApplicable',
+      };
+    } else if (f.sourceFile && joinedFiles.has(f.sourceFile)) {
+      // External fields are read from the row joined onto each base record
+      fieldMap[f.name] = {
+        sourceField: `${getJoinAlias(f.sourceFile)}.${f.sourceField}`,
+        dataType: f.dataType || 'String',
+        evaluationLevel: f.evaluationLevel || 'Per Record',
+        aggregation: f.aggregation || 'NotApplicable',
+      };
+    } else if (f.sourceType === 'External') {
+      console.warn(
+        `!! Warning: External field '${f.name}' from '${f.sourceFile}' has no join configured and will be ignored.`
+      );
+    }
+  });
+
+  // Ensure base mapping fields are also included if not explicitly in kpiConfig baseData
+  if (!fieldMap['Agent'])
+    fieldMap['Agent'] = {
+      sourceField: agentIdField,
+      dataType: 'String',
+      evaluationLevel: 'Per Record',
+      aggregation: 'NotApplicable',
+    };
+  if (!fieldMap['Amount'])
+    fieldMap['Amount'] = {
+      sourceField: amountField,
+      dataType: 'Number',
+      evaluationLevel: 'Per Record',
+      aggregation: 'NotApplicable',
+    };
+
+  // Helper to get the actual source field name
+  const getSourceField = (ruleFieldName: string) =>
+    fieldMap[ruleFieldName]?.sourceField;
+  const getDataType = (ruleFieldName: string) =>
+    fieldMap[ruleFieldName]?.dataType || 'String';
+  const getEvaluationLevel = (ruleFieldName: string) =>
+    fieldMap[ruleFieldName]?.evaluationLevel || 'Per Record';
+  const getAggregation = (ruleFieldName: string) =>
+    fieldMap[ruleFieldName]?.aggregation || 'NotApplicable';
+
+  // --- 1. Select and Filter Base Records ---
+  console.log(
+    `Filtering records from ${baseDataFile} between ${scheme.effectiveFrom} and ${runAsOfDate}...`
+  );
+  const potentiallyRelevantRecords = baseData.map((record: any, index: number) => {
+    const recordId = `${baseDataFile}-${index}`;
+    txnIdsByRecordId.set(recordId, record[txnIdField]);
+    return {
+      ...record,
+      _originalIndex: index,
+      _recordId: recordId,
+    };
+  });
+
+  // Date Filtering - Use the transactionDateField from baseMapping
+  const transactionDateField = scheme.baseMapping.transactionDateField;
+  if (!transactionDateField || !(transactionDateField in (potentiallyRelevantRecords[0] || {}))) {
+    console.warn(
+      `!! Warning: Cannot find transaction date field '${transactionDateField}' in ${baseDataFile}. Date filtering will be skipped.`
+    );
+  }
+
+  const dateFilteredRecords = potentiallyRelevantRecords.filter((record: any) => {
+    const recordDateStr = safeGet(record, transactionDateField);
+    if (!recordDateStr) return false;
+
+    const recordDate = parseDate(recordDateStr);
+    return (
+      recordDate &&
+      compareDates(recordDate, schemeStart) >= 0 &&
+      compareDates(recordDate, runDate) <= 0
+    );
+  });
+
+  console.log(
+    `Found ${dateFilteredRecords.length} records within the date range.`
+  );
+  reportProgress({ recordsInRange: dateFilteredRecords.length });
+
+  // --- 1b. Join External Source Files ---
+  let joinedRecords = dateFilteredRecords;
+  for (const join of joins) {
+    const joinData = uploadedFiles[join.sourceFile]?.data;
+    if (!joinData || !Array.isArray(joinData)) {
+      throw new Error(
+        `Join file "${join.sourceFile}" not found in uploadedFiles or data is not an array.`
+      );
+    }
+
+    const baseKeyFields = join.keys.map((key) => key.baseField);
+    const sourceKeyFields = join.keys.map((key) => key.sourceField);
+    const rowsByKey = new Map<string, Record<string, unknown>[]>();
+    for (const row of joinData) {
+      const key = getJoinKey(row, sourceKeyFields);
+      if (key === null) continue;
+      if (!rowsByKey.has(key)) rowsByKey.set(key, []);
+      rowsByKey.get(key)!.push(row);
+    }
+
+    const alias = getJoinAlias(join.sourceFile);
+    let unmatched = 0;
+    joinedRecords = joinedRecords.filter((record: Record<string, unknown>) => {
+      const key = getJoinKey(record, baseKeyFields);
+      const candidates = key === null ? [] : rowsByKey.get(key) || [];
+      const match = selectEffectiveRow(
+        candidates,
+        join,
+        parseDate(safeGet(record, transactionDateField)) || runDate
+      );
+      record[alias] = match;
+      if (!match) unmatched++;
+      return match !== null || join.joinType !== 'inner';
+    });
+
+    console.log(
+      `Joined ${join.sourceFile} (${join.joinType || 'left'} join on ${baseKeyFields.join(
+        ', '
+      )}): ${unmatched} records without a match${
+        join.joinType === 'inner' ? ' dropped' : ''
+      }.`
+    );
+  }
+
+  // --- 2. Apply 'Per Record' Qualification Rules ---
+  const recordLevelQualRules = (scheme.qualificationRules || []).filter(
+    (rule: any) => {
+      const evalLevel = getEvaluationLevel(rule.field);
+      return evalLevel === 'Per Record';
+    }
+  );
+
+  const qualifiedRecords = joinedRecords.filter((record: any) => {
+    for (const rule of recordLevelQualRules) {
+      const sourceField = getSourceField(rule.field);
+      const dataType = getDataType(rule.field);
+      if (!sourceField) {
+        console.warn(
+          `Skipping record qualification rule ${rule.id}: Cannot find source field for '${rule.field}'.`
+        );
+        continue;
+      }
+      const recordValue = safeGet(record, sourceField);
+      if (
+        !evaluateCondition(recordValue, rule.operator, rule.value, dataType)
+      ) {
+        return false;
+      }
+    }
+    return true;
+  });
+
+  console.log(
+    `${qualifiedRecords.length} records passed record-level qualification.`
+  );
+
+  // --- 3. Group Records by Agent ---
+  const recordsByAgent = qualifiedRecords.reduce((acc: Record<string, any[]>, record: any) => {
+    const agentId = String(safeGet(record, agentIdField, 'UNKNOWN_AGENT'));
+    if (!acc[agentId]) {
+      acc[agentId] = [];
+    }
+    acc[agentId].push(record);
+    return acc;
+  }, {});
+
+  console.log(
+    `Grouped records for ${Object.keys(recordsByAgent).length} agents.`
+  );
+  reportProgress({
+    stage: 'records',
+    recordsQualified: qualifiedRecords.length,
+    agentsTotal: Object.keys(recordsByAgent).length,
+  });
+
+  // --- 4. Record-Level Processing for Each Agent ---
+  const processedRecordsByAgent: Record<string, ProcessedRecord[]> = {};
+  const ruleLogsByAgent: Record<string, RuleHitLog[]> = {};
+  const agentAdjustmentsByAgent: Record<string, AgentAdjustment[]> = {};
+  for (const agentId in recordsByAgent) {
+    console.log(`Processing agent: ${agentId}`);
+    const agentRecords = recordsByAgent[agentId];
+    ruleLogsByAgent[agentId] = [];
+    const agentAdjustments: AgentAdjustment[] = [];
+    agentAdjustmentsByAgent[agentId] = agentAdjustments;
+
+    // --- 4a. Record-Level Processing (Exclusion, Adjustment) ---
+    const agentRuleLogs = ruleLogsByAgent[agentId];
+    processedRecordsByAgent[agentId] = agentRecords.map((record: any): ProcessedRecord => {
+      let isExcluded = false;
+      let exclusionReason = null;
+      const appliedAdjustments: string[] = [];
+
+      // Empty or non-numeric amounts (null from a blank CSV cell) count as 0
+      const originalAmount = parseNumber(safeGet(record, amountField)) || new Decimal(0);
+      let currentAmount = originalAmount;
+      let rateMultiplier = new Decimal(1);
+
+      // --- 4a.i. Apply Exclusion Rules ---
+      for (const rule of scheme.exclusionRules || []) {
+        const sourceField = getSourceField(rule.field);
+        const dataType = getDataType(rule.field);
+        if (!sourceField) {
+          console.warn(
+            `Skipping exclusion rule ${rule.id}: Cannot find source field for '${rule.field}'.`
+          );
+          continue;
+        }
+        const recordValue = safeGet(record, sourceField);
+
+        if (
+          evaluateCondition(recordValue, rule.operator, rule.value, dataType)
+        ) {
+          isExcluded = true;
+          exclusionReason = `Excluded by rule ${rule.id} (${rule.field} ${rule.operator} ${rule.value})`;
+          logEvent(agentRuleLogs, {
+            ruleType: 'Exclusion',
+            ruleId: rule.id,
+            recordId: record._recordId,
+            agentId: agentId,
+            message: exclusionReason,
+          });
+          break;
+        }
+      }
+
+      // --- 4a.ii. Apply Adjustment Rules (only if not excluded) ---
+      if (!isExcluded) {
+        for (const rule of scheme.adjustmentRules || []) {
+          const conditionField = getSourceField(rule.condition.field);
+          const conditionDataType = getDataType(rule.condition.field);
+          if (!conditionField) {
+            console.warn(
+              `Skipping adjustment rule ${rule.id} condition: Cannot find source field for '${rule.condition.field}'.`
+            );
+            continue;
+          }
+          const conditionValue = safeGet(record, conditionField);
+
+          if (
+            evaluateCondition(
+              conditionValue,
+              rule.condition.operator,
+              rule.condition.value,
+              conditionDataType
+            )
+          ) {
+            const adjTarget = rule.adjustment.target;
+            const adjType = rule.adjustment.type;
+            const adjValue = new Decimal(rule.adjustment.value || 0);
+
+            appliedAdjustments.push(`${rule.id} (${adjTarget})`);
+            let logMessage = `Adjustment Rule ${rule.id} triggered: `;
+
+            // Every target reads a percentage the same way: 10 adds 10%
+            if (adjTarget === 'Rate' && (adjType === 'percentage' || adjType === 'fixed')) {
+              rateMultiplier = applyAdjustment(rateMultiplier, adjType, adjValue)!;
+              logMessage += `Rate multiplier changed by ${
+                adjType === 'percentage' ? `${adjValue}%` : `fixed ${formatDecimal(adjValue, 4)}`
+              } to ${formatDecimal(rateMultiplier, 4)}`;
+            } else if (
+              (adjTarget === 'Payout' || adjTarget === 'Quota') &&
+              (adjType === 'percentage' || adjType === 'fixed')
+            ) {
+              // Applied once per agent: Quota before attainment, Payout after tiers.
+              const existing = agentAdjustments.find(
+                (adjustment) => adjustment.ruleId === rule.id
+              );
+              if (existing) {
+                existing.recordIds.push(record._recordId);
+              } else {
+                agentAdjustments.push({
+                  ruleId: rule.id,
+                  target: adjTarget,
+                  type: adjType,
+                  value: adjValue,
+                  recordIds: [record._recordId],
+                });
+              }
+              logMessage += `${adjTarget} adjustment of ${
+                adjType === 'percentage' ? `${adjValue}%` : `fixed ${formatDecimal(adjValue)}`
+              } queued for agent ${agentId}`;
+            } else if (adjTarget === 'Amount' && (adjType === 'percentage' || adjType === 'fixed')) {
+              currentAmount = applyAdjustment(currentAmount, adjType, adjValue)!;
+              logMessage += `Amount adjusted by ${
+                adjType === 'percentage' ? `${adjValue}%` : `fixed ${formatDecimal(adjValue)}`
+              } to ${formatDecimal(currentAmount)}`;
+            } else {
+              logMessage += `Unknown adjustment target/type: ${adjTarget}/${adjType}`;
+              console.warn(logMessage);
+            }
+
+            logEvent(agentRuleLogs, {
+              ruleType: 'Adjustment',
+              ruleId: rule.id,
+              recordId: record._recordId,
+              agentId: agentId,
+              message: logMessage,
+            });
+          }
+        }
+      }
+
+      // --- Calculate final adjusted amount for this record ---
+      const adjustedAmount = isExcluded
+        ? new Decimal(0)
+        : currentAmount.times(rateMultiplier);
+
+      // Store processed data for the raw output
+      const processedRecord: ProcessedRecord = {
+        ...record,
+        agentId: agentId,
+        transactionId: String(safeGet(record, txnIdField, '')),
+        transactionDate: String(safeGet(record, transactionDateField, '')),
+        originalAmount: formatDecimal(originalAmount),
+        rateMultiplier: formatDecimal(rateMultiplier, 4),
+        adjustedAmount: formatDecimal(adjustedAmount),
+        isExcluded: isExcluded,
+        exclusionReason: exclusionReason,
+        adjustmentApplied: appliedAdjustments.length
+          ? `Adjusted by rule ${appliedAdjustments.join(', ')}`
+          : null,
+        customRuleApplied: null,
+      };
+      rawRecordLevelData.push(processedRecord);
+
+      return processedRecord;
+    });
+    reportProgress({ agentsProcessed: progress.agentsProcessed + 1 });
+  }
+
+  // Records withheld by custom rules stay in the raw output but earn nothing.
+  const withheldRecordIds = new Set<string>();
+  const getCreditedRecords = (agentIds: string[]) =>
+    agentIds
+      .flatMap((id) => processedRecordsByAgent[id] || [])
+      .filter(
+        (record) =>
+          !record.isExcluded && !withheldRecordIds.has(record._recordId)
+      );
+
+  // --- 5. Resolve Evaluation Groups (Agent / Team / Region) ---
+  const groupsByLevel: Record<string, Record<string, string[]> | null> = {};
+  const getGroups = (level: string): Record<string, string[]> | null => {
+    if (level in groupsByLevel) return groupsByLevel[level];
+
+    let groups: Record<string, string[]> | null = null;
+    if (isAgentLevel(level)) {
+      groups = {};
+      for (const agentId in recordsByAgent) {
+        groups[agentId] = [agentId];
+      }
+    } else if (level === 'Team' || level === 'Region') {
+      const attribute =
+        level === 'Team'
+          ? scheme.baseMapping.teamField
+          : scheme.baseMapping.regionField;
+      if (!attribute) {
+        console.warn(
+          `No ${level.toLowerCase()} field configured in baseMapping. ${level}-level rules will be skipped.`
+        );
+      } else {
+        groups = {};
+        for (const agentId in recordsByAgent) {
+          const groupId = resolveGroupId(
+            agentId,
+            attribute,
+            recordsByAgent[agentId],
+            hierarchyData,
+            schemeStart,
+            runDate
+          );
+          if (!groupId) {
+            const message = `Could not resolve ${level} for agent ${agentId} from '${attribute}'. ${level}-level rules are not applied to this agent.`;
+            console.warn(message);
+            logEvent(ruleLogsByAgent[agentId], {
+              ruleType: 'Grouping',
+              agentId: agentId,
+              message: message,
+            });
+            continue;
+          }
+          if (!groups[groupId]) {
+            groups[groupId] = [];
+          }
+          groups[groupId].push(agentId);
+        }
+        console.log(
+          `Resolved ${Object.keys(groups).length} ${level.toLowerCase()} group(s).`
+        );
+      }
+    }
+
+    groupsByLevel[level] = groups;
+    return groups;
+  };
+
+  /**
+   * Aggregates a rule's KPI field over a set of records and evaluates it.
+   * The amount field aggregates the credited (adjusted) amounts so that
+   * exclusions and adjustments are reflected, as MinSales always did.
+   */
+  const evaluateAggregateRule = (rule: Rule, records: ProcessedRecord[]) => {
+    const sourceField = getSourceField(rule.field);
+    if (!sourceField) {
+      console.warn(
+        `Skipping qualification rule ${rule.id}: Cannot find source field for '${rule.field}'.`
+      );
+      return null;
+    }
+    const aggregation = getAggregation(rule.field);
+    const values = records.map((record) =>
+      sourceField === amountField
+        ? record.adjustedAmount
+        : safeGet(record, sourceField)
+    );
+    const aggregateValue = aggregateValues(aggregation, values);
+    if (!aggregateValue) {
+      console.warn(
+        `Skipping qualification rule ${rule.id}: Unknown aggregation '${aggregation}' for field ${rule.field}.`
+      );
+      return null;
+    }
+    // Aggregates are always numeric, whatever the underlying field type.
+    const passed = evaluateCondition(
+      aggregateValue,
+      rule.operator,
+      rule.value,
+      'Number'
+    );
+    return { aggregation, aggregateValue, passed };
+  };
+
+  // --- 6. Apply Custom Rules (period-bucketed metrics) ---
+  // Credited records of each group are bucketed by transaction date period
+  // (and optional groupBy field); buckets whose metric fails the threshold
+  // are withheld for every member of the group. Records withheld by an
+  // earlier rule are not evaluated again.
+  for (const rule of scheme.customRules || []) {
+    if (!computeMetric(rule.metric, [])) {
+      const message = `Custom rule ${rule.id} was not applied: unknown metric '${rule.metric}'.`;
+      console.warn(message);
+      for (const agentId in recordsByAgent) {
+        logEvent(ruleLogsByAgent[agentId], {
+          ruleType: 'Custom',
+          ruleId: rule.id,
+          agentId: agentId,
+          message: message,
+          details: { error: 'UnknownMetric', metric: rule.metric },
+        });
+      }
+      continue;
+    }
+
+    const evalLevel = rule.evaluationLevel || 'Agent';
+    const groups = getGroups(evalLevel);
+    if (!groups) {
+      console.warn(
+        `Skipping custom rule ${rule.id}. Evaluation level '${evalLevel}' is not supported.`
+      );
+      continue;
+    }
+
+    const metricField = rule.field ? getSourceField(rule.field) : null;
+    if (rule.field && !metricField) {
+      console.warn(
+        `Skipping custom rule ${rule.id}: Cannot find source field for '${rule.field}'.`
+      );
+      continue;
+    }
+    const groupByField = rule.groupBy
+      ? getSourceField(rule.groupBy) || rule.groupBy
+      : null;
+    const operator = rule.operator || '>=';
+    const groupLabel = isAgentLevel(evalLevel) ? 'Agent' : evalLevel;
+
+    for (const [groupId, memberIds] of Object.entries(groups)) {
+      const buckets: Record<string, ProcessedRecord[]> = {};
+      for (const agentId of memberIds) {
+        for (const record of processedRecordsByAgent[agentId]) {
+          if (record.isExcluded || withheldRecordIds.has(record._recordId)) continue;
+          const recordDate = parseDate(safeGet(record, transactionDateField));
+          if (!recordDate) continue;
+          let bucketKey = getPeriodKey(recordDate, rule.period);
+          if (groupByField) {
+            bucketKey += ` / ${safeGet(record, groupByField, 'UNKNOWN')}`;
+          }
+          if (!buckets[bucketKey]) {
+            buckets[bucketKey] = [];
+          }
+          buckets[bucketKey].push(record);
+        }
+      }
+
+      for (const bucketKey of Object.keys(buckets).sort()) {
+        const bucketRecords = buckets[bucketKey];
+        const values = bucketRecords.map((record) =>
+          metricField
+            ? parseNumber(safeGet(record, metricField)) || new Decimal(0)
+            : new Decimal(record.adjustedAmount)
+        );
+        // The metric was checked before grouping
+        const metricValue = computeMetric(rule.metric, values)!;
+
+        const passed = evaluateCondition(
+          metricValue,
+          operator,
+          rule.threshold,
+          'Number'
+        );
+        const message = `Custom rule ${rule.id} ${
+          passed ? 'awarded' : 'withheld'
+        } ${rule.period || 'period'} bucket ${bucketKey}${
+          isAgentLevel(evalLevel) ? '' : ` for ${groupLabel} ${groupId}`
+        }: ${rule.metric}${
+          rule.metric === 'Count' ? '' : ` of ${rule.field || 'Amount'}`
+        } = ${formatDecimal(metricValue)} ${operator} ${rule.threshold} is ${passed}.`;
+
+        for (const record of bucketRecords) {
+          if (!passed) {
+            withheldRecordIds.add(record._recordId);
+            record.adjustedAmount = formatDecimal(new Decimal(0));
+          }
+          record.customRuleApplied = message;
+        }
+
+        for (const agentId of memberIds) {
+          logEvent(ruleLogsByAgent[agentId], {
+            ruleType: 'Custom',
+            ruleId: rule.id,
+            agentId: agentId,
+            message: message,
+            details: {
+              evaluationLevel: groupLabel,
+              groupId: groupId,
+              period: rule.period,
+              bucket: bucketKey,
+              metric: rule.metric,
+              metricValue: formatDecimal(metricValue),
+              operator: operator,
+              threshold: rule.threshold,
+              recordCount: bucketRecords.length,
+              passed: passed,
+            },
+          });
+        }
+      }
+    }
+  }
+
+  // --- 7. Apply 'Team' / 'Region' Level Qualification Rules ---
+  // A failing group fails qualification for each of its member agents.
+  const groupFailedAgents = new Set<string>();
+  for (const rule of scheme.qualificationRules || []) {
+    const evalLevel = getEvaluationLevel(rule.field);
+    if (evalLevel !== 'Team' && evalLevel !== 'Region') continue;
+    const groups = getGroups(evalLevel);
+    if (!groups) continue;
+
+    for (const [groupId, memberIds] of Object.entries(groups)) {
+      const groupRecords = getCreditedRecords(memberIds);
+      const result = evaluateAggregateRule(rule, groupRecords);
+      if (!result) break;
+
+      const message = `${evalLevel} ${groupId} ${
+        result.passed ? 'passed' : 'failed'
+      } qualification rule ${rule.id}: ${result.aggregation} of ${
+        rule.field
+      } ${formatDecimal(result.aggregateValue)} ${rule.operator} ${
+        rule.value
+      } is ${result.passed}.`;
+      console.log(message);
+      for (const agentId of memberIds) {
+        if (!result.passed) {
+          groupFailedAgents.add(agentId);
+        }
+        logEvent(ruleLogsByAgent[agentId], {
+          ruleType: 'Qualification',
+          ruleId: rule.id,
+          agentId: agentId,
+          message: message,
+          details: {
+            evaluationLevel: evalLevel,
+            groupId: groupId,
+            members: memberIds,
+            field: rule.field,
+            aggregation: result.aggregation,
+            aggregateValue: formatDecimal(result.aggregateValue, 4),
+            operator: rule.operator,
+            value: rule.value,
+            recordCount: groupRecords.length,
+            passed: result.passed,
+          },
+        });
+      }
+    }
+  }
+
+  const logAgentAdjustment = (
+    agentRuleLogs: RuleHitLog[],
+    agentId: string,
+    adjustment: AgentAdjustment,
+    before: Decimal,
+    after: Decimal
+  ) => {
+    const message = `Adjustment Rule ${adjustment.ruleId} applied: ${
+      adjustment.target
+    } adjusted by ${
+      adjustment.type === 'percentage'
+        ? `${adjustment.value}%`
+        : `fixed ${formatDecimal(adjustment.value)}`
+    } from ${formatDecimal(before)} to ${formatDecimal(after)}`;
+    console.log(`Agent ${agentId}: ${message}`);
+    logEvent(agentRuleLogs, {
+      ruleType: 'Adjustment',
+      ruleId: adjustment.ruleId,
+      agentId: agentId,
+      message: message,
+      details: {
+        target: adjustment.target,
+        type: adjustment.type,
+        value: formatDecimal(adjustment.value, 4),
+        before: formatDecimal(before),
+        after: formatDecimal(after),
+        recordIds: adjustment.recordIds,
+      },
+    });
+  };
+
+  // --- 8. Calculate Payouts for Each Agent ---
+  reportProgress({ stage: 'payouts', agentsProcessed: 0 });
+  for (const agentId in recordsByAgent) {
+    const agentRuleLogs = ruleLogsByAgent[agentId];
+    const creditedRecords = getCreditedRecords([agentId]);
+    const agentTotalCreditedAmount = creditedRecords.reduce(
+      (acc, record) => acc.plus(new Decimal(record.adjustedAmount)),
+      new Decimal(0)
+    );
+
+    console.log(
+      `Agent ${agentId}: Initial summed amount = ${formatDecimal(
+        agentTotalCreditedAmount
+      )}`
+    );
+
+    // --- 8a. Determine Quota and Attainment ---
+    const quotaSource = quotaOverrides[agentId] ? 'quota file' : 'scheme';
+    let agentQuota = quotaOverrides[agentId] || schemeQuota;
+    const agentAdjustments = agentAdjustmentsByAgent[agentId] || [];
+    for (const adjustment of agentAdjustments) {
+      if (adjustment.target !== 'Quota') continue;
+      const quotaBefore = agentQuota;
+      agentQuota = Decimal.max(
+        applyAdjustment(agentQuota, adjustment.type, adjustment.value) ||
+          agentQuota,
+        0
+      );
+      logAgentAdjustment(agentRuleLogs, agentId, adjustment, quotaBefore, agentQuota);
+    }
+    if (agentQuota.greaterThan(0)) {
+      const attainment = agentTotalCreditedAmount
+        .dividedBy(agentQuota)
+        .times(100);
+      agentQuotas[agentId] = formatDecimal(agentQuota);
+      agentAttainment[agentId] = formatDecimal(attainment);
+      logEvent(agentRuleLogs, {
+        ruleType: 'Quota',
+        agentId: agentId,
+        message: `Quota ${formatDecimal(
+          agentQuota
+        )} (${quotaSource}), attainment ${formatDecimal(attainment)}%`,
+        details: {
+          quota: formatDecimal(agentQuota),
+          quotaSource: quotaSource,
+          creditedAmount: formatDecimal(agentTotalCreditedAmount),
+          attainment: formatDecimal(attainment),
+        },
+      });
+    }
+
+    // --- 8b. Apply 'Agent' Level Qualification Rules ---
+    let isQualified = !groupFailedAgents.has(agentId);
+    if (agentTotalCreditedAmount.lte(0)) {
+      isQualified = false;
+      console.log(
+        `Agent ${agentId}: Skipping payout calculation (zero credited amount).`
+      );
+    } else {
+      const agentLevelQualRules = (scheme.qualificationRules || []).filter(
+        (rule: any) => isAgentLevel(getEvaluationLevel(rule.field))
+      );
+
+      for (const rule of agentLevelQualRules) {
+        const result = evaluateAggregateRule(rule, creditedRecords);
+        if (!result) continue;
+
+        const message = `Agent ${
+          result.passed ? 'passed' : 'failed'
+        } qualification rule ${rule.id}: ${result.aggregation} of ${
+          rule.field
+        } ${formatDecimal(result.aggregateValue)} ${rule.operator} ${
+          rule.value
+        } is ${result.passed}.`;
+        console.log(`Agent ${agentId}: ${message}`);
+        logEvent(agentRuleLogs, {
+          ruleType: 'Qualification',
+          ruleId: rule.id,
+          agentId: agentId,
+          message: message,
+          details: {
+            evaluationLevel: 'Agent',
+            field: rule.field,
+            aggregation: result.aggregation,
+            aggregateValue: formatDecimal(result.aggregateValue, 4),
+            operator: rule.operator,
+            value: rule.value,
+            recordCount: creditedRecords.length,
+            passed: result.passed,
+          },
+        });
+        if (!result.passed) {
+          isQualified = false;
+        }
+      }
+    }
+
+    // --- 8c. Calculate Payout Tiers (if qualified and amount > 0) ---
+    let basePayout = new Decimal(0);
+    if (isQualified && tierBasis === 'attainment' && agentQuota.lte(0)) {
+      const message = `Agent ${agentId}: Tiers are based on quota attainment but no quota is available. No payout calculated.`;
+      console.warn(message);
+      logEvent(agentRuleLogs, {
+        ruleType: 'Quota',
+        agentId: agentId,
+        message: message,
+      });
+    } else if (isQualified) {
+      const tierResult = calculateTieredPayout(
+        agentTotalCreditedAmount,
+        tierBasis === 'attainment'
+          ? attainmentTiersToAmounts(scheme.payoutTiers, agentQuota)
+          : scheme.payoutTiers,
+        tierMethod
+      );
+      basePayout = tierResult.payout;
+      agentTierBreakdowns[agentId] = tierResult.breakdown;
+      console.log(
+        `Agent ${agentId}: Base payout calculated = ${formatDecimal(
+          basePayout
+        )}`
+      );
+      const landedTier = tierResult.breakdown[tierResult.breakdown.length - 1];
+      if (landedTier) {
+        logEvent(agentRuleLogs, {
+          ruleType: 'Tier',
+          ruleId: landedTier.tierId,
+          agentId: agentId,
+          message: `Reached tier ${landedTier.tierNumber} (${tierMethod}): base payout ${formatDecimal(
+            basePayout
+          )}`,
+          details: {
+            tierMethod: tierMethod,
+            tierBasis: tierBasis,
+            breakdown: tierResult.breakdown,
+          },
+        });
+      }
+    } else {
+      console.log(
+        `Agent ${agentId}: No payout due to qualification failure or zero amount.`
+      );
+    }
+
+    // --- 8c.ii. Apply Payout Adjustments (qualified agents only) ---
+    if (isQualified) {
+      for (const adjustment of agentAdjustments) {
+        if (adjustment.target !== 'Payout') continue;
+        const payoutBefore = basePayout;
+        basePayout = Decimal.max(
+          applyAdjustment(basePayout, adjustment.type, adjustment.value) ||
+            basePayout,
+          0
+        );
+        logAgentAdjustment(agentRuleLogs, agentId, adjustment, payoutBefore, basePayout);
+      }
+    }
+
+    // --- 8c.iii. Apply Payout Cap and Floor (guaranteed minimum) ---
+    // The floor is applied last so a guaranteed minimum always holds, but
+    // only for qualified agents: it does not override failed qualification
+    // or credit withheld by custom rules.
+    const limitHits: PayoutLimitHit[] = [];
+    const cap = resolvePayoutLimit(agentId, 'cap');
+    if (cap && basePayout.greaterThan(cap.amount)) {
+      limitHits.push({
+        limit: 'Cap',
+        source: cap.source,
+        limitAmount: formatDecimal(cap.amount),
+        payoutBefore: formatDecimal(basePayout),
+        payoutAfter: formatDecimal(cap.amount),
+        difference: formatDecimal(cap.amount.minus(basePayout)),
+      });
+      basePayout = cap.amount;
+    }
+    const floor = isQualified ? resolvePayoutLimit(agentId, 'floor') : null;
+    if (floor && basePayout.lessThan(floor.amount)) {
+      limitHits.push({
+        limit: 'Floor',
+        source: floor.source,
+        limitAmount: formatDecimal(floor.amount),
+        payoutBefore: formatDecimal(basePayout),
+        payoutAfter: formatDecimal(floor.amount),
+        difference: formatDecimal(floor.amount.minus(basePayout)),
+      });
+      basePayout = floor.amount;
+    }
+    for (const hit of limitHits) {
+      const message =
+        hit.limit === 'Cap'
+          ? `Payout capped at ${hit.limitAmount} (${hit.source}): clipped ${formatDecimal(
+              new Decimal(hit.difference).abs()
+            )} from ${hit.payoutBefore}`
+          : `Payout floor of ${hit.limitAmount} (${hit.source}) applied: topped up ${hit.difference} from ${hit.payoutBefore}`;
+      console.log(`Agent ${agentId}: ${message}`);
+      logEvent(agentRuleLogs, {
+        ruleType: 'PayoutLimit',
+        agentId: agentId,
+        message: message,
+        details: hit,
+      });
+    }
+    if (limitHits.length > 0) {
+      agentPayoutLimits[agentId] = limitHits;
+    }
+
+    // Store the agent's *own* potential base payout before splits
+    agentPayouts[agentId] = formatDecimal(basePayout);
+    agentQualified[agentId] = isQualified;
+
+    // --- 8d. Apply Credit Splits (if base payout > 0) ---
+    if (
+      basePayout.greaterThan(0) &&
+      scheme.creditSplits &&
+      scheme.creditSplits.length > 0 &&
+      hierarchyData
+    ) {
+      console.log(`Agent ${agentId}: Applying credit splits...`);
+      for (const split of scheme.creditSplits) {
+        const role = split.role;
+        const percentage = new Decimal(split.percentage || 0);
+
+        if (percentage.lte(0)) continue;
+
+        const managerId = findManager(
+          agentId,
+          role,
+          hierarchyData,
+          schemeStart,
+          runDate
+        );
+
+        if (managerId) {
+          const splitAmount = basePayout.times(percentage).dividedBy(100);
+
+          if (!creditDistributions[managerId]) {
+            creditDistributions[managerId] = [];
+          }
+          const distributionRecord = {
+            fromAgent: agentId,
+            role: role,
+            amount: formatDecimal(splitAmount),
+            timestamp: new Date().toISOString(),
+            splitRuleId: split.id,
+            basePayout: formatDecimal(basePayout),
+            percentage: formatDecimal(percentage, 4),
+          };
+          creditDistributions[managerId].push(distributionRecord);
+          console.log(
+            `Agent ${agentId}: Distributed ${formatDecimal(
+              splitAmount
+            )} (${percentage}%) to ${role} Manager ${managerId}`
+          );
+
+          logEvent(agentRuleLogs, {
+            ruleType: 'CreditSplit',
+            ruleId: split.id,
+            agentId: agentId,
+            message: `Distributed ${formatDecimal(
+              splitAmount
+            )} (${percentage}%) to ${role} Manager ${managerId}`,
+            details: distributionRecord,
+          });
+        } else {
+          const message = `Agent ${agentId}: Could not find valid Manager for role ${role} to apply credit split ${split.id}.`;
+          console.warn(message);
+          logEvent(agentRuleLogs, {
+            ruleType: 'CreditSplit',
+            ruleId: split.id,
+            agentId: agentId,
+            message: message,
+          });
+        }
+      }
+    }
+
+    if (agentRuleLogs.length > 0) {
+      ruleHitLogs[agentId] = agentRuleLogs;
+    }
+    reportProgress({ agentsProcessed: progress.agentsProcessed + 1 });
+  }
+
+  console.log('Scheme processing complete.');
+  reportProgress({ stage: 'complete' });
+
+  return {
+    meta: {
+      schemeName: scheme.name,
+      schemeId: scheme.SchemeID,
+      runAsOfDate: runAsOfDate,
+      mode: mode,
+      processedAt: new Date().toISOString(),
+    },
+    agentPayouts,
+    agentQualified,
+    ruleHitLogs,
+    creditDistributions,
+    rawRecordLevelData,
+    agentQuotas,
+    agentAttainment,
+    agentTierBreakdowns,
+    agentPayoutLimits,
+  };
+}
\ No newline at end of file
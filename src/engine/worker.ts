@@ -0,0 +1,117 @@
+/**
+ * Worker thread entry for the server's execution jobs (server/jobs). Runs
+ * one scheme off the request thread with the same validation as the
+ * execution page and the command-line runner, posting:
+ *
+ *   { type: 'progress', progress }             throttled SchemeRunProgress
+ *   { type: 'done', result, summary, inputs }  the run and its input checksums
+ *   { type: 'error', message, details }        validation or engine failure
+ *
+ * Built with `npm run build:engine` to dist/engine/worker.js.
+ */
+import { createHash } from 'node:crypto';
+import { parentPort, workerData } from 'node:worker_threads';
+import { runScheme } from './runScheme';
+import { summarizeRun } from './results';
+import type { CompensationScheme, RunInput, SchemeRunProgress } from '../types';
+import {
+  canRunInProduction,
+  findMissingColumns,
+  getRequiredFields,
+  isRunDateInEffectivePeriod,
+  validateSchemeJson
+} from '../utils/schemeValidation';
+
+interface WorkerInput {
+  scheme: CompensationScheme;
+  files: Record<string, { data: Record<string, unknown>[]; columns: string[] }>;
+  runAsOfDate: string;
+  mode: 'simulation' | 'production';
+}
+
+const PROGRESS_INTERVAL_MS = 250;
+
+class JobValidationError extends Error {
+  details: string[];
+
+  constructor(message: string, details: string[]) {
+    super(message);
+    this.name = 'JobValidationError';
+    this.details = details;
+  }
+}
+
+/**
+ * Runs the same checks as the execution page before calculating.
+ * @param {WorkerInput} input The job input.
+ */
+function validateInput({ scheme, files, runAsOfDate, mode }: WorkerInput) {
+  const validation = validateSchemeJson(scheme);
+  const errors = validation.errors.filter(error => error.type === 'error');
+  if (errors.length > 0) {
+    throw new JobValidationError(errors[0].message, errors.flatMap(error => error.details));
+  }
+  if (mode === 'production' && !canRunInProduction(scheme)) {
+    throw new JobValidationError('Scheme is not ACTIVE', ['Only approved (ACTIVE) schemes run in production']);
+  }
+  if (!isRunDateInEffectivePeriod(scheme, runAsOfDate)) {
+    throw new JobValidationError('Invalid run-as-of date', [
+      `${runAsOfDate} must be a valid date between ${scheme.effectiveFrom} and ${scheme.effectiveTo}`
+    ]);
+  }
+
+  const requiredFields = getRequiredFields(scheme);
+  const missingFiles = Array.from(new Set(requiredFields.map(field => field.fileName)))
+    .filter(fileName => !(fileName in files));
+  if (missingFiles.length > 0) {
+    throw new JobValidationError('Missing required files', missingFiles);
+  }
+  const missingColumns = findMissingColumns(requiredFields, files);
+  if (Object.keys(missingColumns).length > 0) {
+    throw new JobValidationError(
+      'Missing required columns',
+      Object.entries(missingColumns).map(([fileName, columns]) => `${fileName}: ${columns.join(', ')}`)
+    );
+  }
+}
+
+/**
+ * Fingerprints an input as the engine read it: the SHA-256 of its rows as
+ * JSON, so CSV, workbook sheets and SAP pulls get the same kind of checksum.
+ */
+const describeInput = (name: string, file: WorkerInput['files'][string]): RunInput => ({
+  name,
+  checksum: createHash('sha256').update(JSON.stringify(file.data)).digest('hex'),
+  rowCount: file.data.length,
+  columns: file.columns
+});
+
+function run(input: WorkerInput) {
+  validateInput(input);
+
+  let lastPosted = 0;
+  let lastStage = '';
+  const onProgress = (progress: SchemeRunProgress) => {
+    const now = Date.now();
+    // Stage changes always go out; counts within a stage are throttled
+    if (progress.stage !== lastStage || now - lastPosted >= PROGRESS_INTERVAL_MS) {
+      lastPosted = now;
+      lastStage = progress.stage;
+      parentPort!.postMessage({ type: 'progress', progress });
+    }
+  };
+
+  const result = runScheme(input.scheme, input.files, input.runAsOfDate, input.mode, onProgress);
+  const inputs = Object.entries(input.files).map(([name, file]) => describeInput(name, file));
+  parentPort!.postMessage({ type: 'done', result, summary: summarizeRun(result), inputs });
+}
+
+try {
+  run(workerData as WorkerInput);
+} catch (err) {
+  parentPort!.postMessage({
+    type: 'error',
+    message: err instanceof Error ? err.message : String(err),
+    details: err instanceof JobValidationError ? err.details : []
+  });
+}
@@ -8,21 +8,17 @@ import { AttainmentRing } from '../components/agentDashboard/AttainmentRing';
 import { RuleLogTable } from '../components/agentDashboard/RuleLogTable';
 import { CreditTable } from '../components/agentDashboard/CreditTable';
 import { RawDataTable } from '../components/agentDashboard/RawDataTable';
+import { TierBreakdownTable } from '../components/agentDashboard/TierBreakdownTable';
+import { StatementLinks } from '../components/StatementLinks';
+import { getMyRun, listMyRuns } from '../api/runs';
 import { useAuthStore } from '../store/authStore';
-
-// Import dummy data
-import schemeResult1 from '../data/schemeResult1.json';
-import schemeResult2 from '../data/schemeResult2.json';
-
-const SCHEMES = [
-  { id: 'scheme1', name: 'Q1 2025 Sales Incentive', data: schemeResult1 },
-  { id: 'scheme2', name: 'Q2 2025 Sales Incentive', data: schemeResult2 },
-];
+import type { PayeeRun, PayeeRuns } from '../types';
 
 const widgetConfig = {
   profile: true,
   payout: true,
   kpi: true,
+  tiers: true,
   ruleLog: true,
   credit: true,
   rawData: true,
@@ -31,7 +27,11 @@ const widgetConfig = {
 export function AgentDashboard() {
   const navigate = useNavigate();
   const user = useAuthStore((state) => state.user);
-  const [selectedScheme, setSelectedScheme] = useState(SCHEMES[0]);
+  const [payeeRuns, setPayeeRuns] = useState<PayeeRuns | null>(null);
+  const [selectedRunId, setSelectedRunId] = useState('');
+  const [run, setRun] = useState<PayeeRun | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
     // Redirect if not logged in or not an agent
@@ -46,6 +46,31 @@ export function AgentDashboard() {
     }
   }, [user, navigate]);
 
+  // The server resolves the login to its payee ID and only returns that payee's runs
+  useEffect(() => {
+    if (user?.role !== 'agent') return;
+    listMyRuns()
+      .then(loaded => {
+        setPayeeRuns(loaded);
+        setSelectedRunId(loaded.runs[0]?.id || '');
+        if (loaded.runs.length === 0) setIsLoading(false);
+      })
+      .catch(err => {
+        setError(err instanceof Error ? err.message : 'Failed to load your runs');
+        setIsLoading(false);
+      });
+  }, [user?.role]);
+
+  useEffect(() => {
+    if (!selectedRunId) return;
+    setIsLoading(true);
+    setError(null);
+    getMyRun(selectedRunId)
+      .then(setRun)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load the run'))
+      .finally(() => setIsLoading(false));
+  }, [selectedRunId]);
+
   // Show nothing while checking authentication
   if (!user) {
     return null;
@@ -66,17 +91,18 @@ export function AgentDashboard() {
     );
   }
 
-  const getCurrentData = () => {
-    const data = selectedScheme.data;
-    return {
-      payout: data.agentPayouts[user.id] || '0.00',
-      logs: data.ruleHitLogs[user.id] || [],
-      credits: Object.values(data.creditDistributions).flat(),
-      rawRecords: data.rawRecordLevelData.filter(record => record.agentId === user.id),
-    };
-  };
+  const agentId = payeeRuns?.agentId || user.agentId || '';
 
-  const currentData = getCurrentData();
+  const getCurrentData = (data: PayeeRun['result']) => ({
+    payout: data.agentPayouts[agentId] || '0.00',
+    attainment: parseFloat(data.agentAttainment[agentId] || '0'),
+    tiers: data.agentTierBreakdowns[agentId] || [],
+    logs: data.ruleHitLogs[agentId] || [],
+    credits: data.creditDistributions[agentId] || [],
+    rawRecords: data.rawRecordLevelData.filter(record => record.agentId === agentId),
+  });
+
+  const currentData = run && getCurrentData(run.result);
 
   return (
     <div className="space-y-8">
@@ -84,51 +110,72 @@ export function AgentDashboard() {
         <div>
           <h1 className="text-2xl font-semibold text-gray-900">Agent Dashboard</h1>
           <p className="mt-1 text-sm text-gray-500">
-            Welcome back, {user.username} ({user.id})
+            Welcome back, {user.username}{agentId && ` (${agentId})`}
           </p>
         </div>
-        <select
-          value={selectedScheme.id}
-          onChange={(e) => setSelectedScheme(SCHEMES.find(s => s.id === e.target.value) || SCHEMES[0])}
-          className="block w-64 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
-        >
-          {SCHEMES.map((scheme) => (
-            <option key={scheme.id} value={scheme.id}>
-              {scheme.name}
-            </option>
-          ))}
-        </select>
-      </div>
-
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-        {widgetConfig.profile && (
-          <ProfileCard
-            agentId={user.id}
-            period={selectedScheme.name}
-          />
-        )}
-        {widgetConfig.payout && (
-          <PayoutCard amount={currentData.payout} />
-        )}
-        {widgetConfig.kpi && (
-          <AttainmentRing
-            percentage={85}
-            label="Target Attainment"
-          />
+        {payeeRuns && payeeRuns.runs.length > 0 && (
+          <div className="flex items-center space-x-3">
+            {selectedRunId && <StatementLinks runId={selectedRunId} />}
+            <select
+              value={selectedRunId}
+              onChange={(e) => setSelectedRunId(e.target.value)}
+              className="block w-64 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+            >
+              {payeeRuns.runs.map((payeeRun) => (
+                <option key={payeeRun.id} value={payeeRun.id}>
+                  {payeeRun.schemeName} v{payeeRun.schemeVersion} ({payeeRun.runAsOfDate})
+                </option>
+              ))}
+            </select>
+          </div>
         )}
       </div>
 
-      {widgetConfig.ruleLog && currentData.logs.length > 0 && (
-        <RuleLogTable logs={currentData.logs} />
-      )}
+      {error ? (
+        <p className="text-sm text-red-600">{error}</p>
+      ) : payeeRuns && payeeRuns.runs.length === 0 ? (
+        <Card className="p-6">
+          <p className="text-sm text-gray-500">No payouts have been published for agent ID {agentId} yet.</p>
+        </Card>
+      ) : !run || !currentData ? (
+        <p className="text-sm text-gray-500">{isLoading ? 'Loading your payouts...' : 'Select a run.'}</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            {widgetConfig.profile && (
+              <ProfileCard
+                agentId={agentId}
+                period={`${run.schemeName} as of ${run.runAsOfDate}`}
+              />
+            )}
+            {widgetConfig.payout && (
+              <PayoutCard amount={currentData.payout} />
+            )}
+            {widgetConfig.kpi && (
+              <AttainmentRing
+                percentage={currentData.attainment}
+                label="Target Attainment"
+              />
+            )}
+          </div>
 
-      {widgetConfig.credit && currentData.credits.length > 0 && (
-        <CreditTable distributions={currentData.credits} />
-      )}
+          {widgetConfig.tiers && currentData.tiers.length > 0 && (
+            <TierBreakdownTable tiers={currentData.tiers} />
+          )}
+
+          {widgetConfig.ruleLog && currentData.logs.length > 0 && (
+            <RuleLogTable logs={currentData.logs} />
+          )}
+
+          {widgetConfig.credit && currentData.credits.length > 0 && (
+            <CreditTable distributions={currentData.credits} />
+          )}
 
-      {widgetConfig.rawData && currentData.rawRecords.length > 0 && (
-        <RawDataTable records={currentData.rawRecords} />
+          {widgetConfig.rawData && currentData.rawRecords.length > 0 && (
+            <RawDataTable records={currentData.rawRecords} />
+          )}
+        </>
       )}
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,265 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { ChevronDown, ChevronRight, RefreshCw, ScrollText, Search } from 'lucide-react';
+import { Button } from '../components/ui/button';
+import { Card } from '../components/ui/card';
+import { listAuditEntries } from '../api/audit';
+import type { AuditEntry, AuditQuery } from '../types';
+
+const PAGE_SIZE = 50;
+
+// Everything the server writes to the audit log
+const ACTIONS = [
+  'auth.login',
+  'auth.login_failed',
+  'scheme.create',
+  'scheme.update',
+  'scheme.delete',
+  'scheme.restore',
+  'scheme.submit',
+  'scheme.approve',
+  'scheme.reject',
+  'scheme.deactivate',
+  'kpiConfig.create',
+  'kpiConfig.update',
+  'execution.submit',
+  'execution.complete',
+  'execution.fail',
+  'execution.cancel',
+  'user.create',
+  'user.update',
+  'user.activate',
+  'user.deactivate',
+  'user.import',
+  'tenant.violation'
+];
+
+const ENTITY_TYPES = ['scheme', 'kpiConfig', 'job', 'run', 'user', 'request'];
+
+const EMPTY_FILTERS: AuditQuery = { search: '', action: '', entityType: '', actor: '', from: '', to: '' };
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined) return '—';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+const inputClassName = 'rounded-md border border-gray-300 shadow-inner px-3 py-2 text-sm focus:ring focus:outline-none';
+
+function AuditEntryDetail({ entry }: { entry: AuditEntry }) {
+  const details = Object.entries(entry.details || {});
+
+  return (
+    <div className="space-y-4">
+      {entry.changes.length > 0 && (
+        <table className="min-w-full divide-y divide-gray-200 border border-gray-200 rounded-md bg-white">
+          <thead className="bg-gray-50">
+            <tr>
+              <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Field</th>
+              <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Before</th>
+              <th scope="col" className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">After</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {entry.changes.map(change => (
+              <tr key={change.path}>
+                <td className="px-4 py-2 text-xs font-mono text-gray-700">{change.path}</td>
+                <td className="px-4 py-2 text-xs font-mono text-red-700 bg-red-50 break-all">{formatValue(change.before)}</td>
+                <td className="px-4 py-2 text-xs font-mono text-green-700 bg-green-50 break-all">{formatValue(change.after)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {details.length > 0 && (
+        <dl className="grid grid-cols-1 gap-x-6 gap-y-2 sm:grid-cols-2">
+          {details.map(([key, value]) => (
+            <div key={key} className="flex text-xs">
+              <dt className="w-32 flex-shrink-0 font-medium text-gray-500">{key}</dt>
+              <dd className="font-mono text-gray-700 break-all">{formatValue(value)}</dd>
+            </div>
+          ))}
+        </dl>
+      )}
+
+      {entry.changes.length === 0 && details.length === 0 && (
+        <p className="text-xs text-gray-500">No further details recorded.</p>
+      )}
+    </div>
+  );
+}
+
+export function AuditLog() {
+  const [filters, setFilters] = useState<AuditQuery>(EMPTY_FILTERS);
+  const [applied, setApplied] = useState<AuditQuery>(EMPTY_FILTERS);
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback((offset = 0) => {
+    setIsLoading(true);
+    setError(null);
+    listAuditEntries({ ...applied, limit: PAGE_SIZE, offset })
+      .then(page => {
+        setEntries(previous => (offset === 0 ? page.entries : [...previous, ...page.entries]));
+        setTotal(page.total);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load the audit log'))
+      .finally(() => setIsLoading(false));
+  }, [applied]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const updateFilter = (key: keyof AuditQuery, value: string) => setFilters(previous => ({ ...previous, [key]: value }));
+
+  const handleSearch = (event: React.FormEvent) => {
+    event.preventDefault();
+    setExpanded(null);
+    setApplied(filters);
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto py-12 px-4 space-y-8">
+      <div className="flex justify-between items-center">
+        <h1 className="text-3xl font-semibold text-slate-800">Audit Log</h1>
+        <Button variant="outline" onClick={() => load()} disabled={isLoading} className="rounded-full">
+          <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+        </Button>
+      </div>
+
+      <form onSubmit={handleSearch} className="grid grid-cols-1 gap-3 sm:grid-cols-3 lg:grid-cols-6">
+        <input
+          type="search"
+          value={filters.search}
+          onChange={(e) => updateFilter('search', e.target.value)}
+          placeholder="Search entries"
+          className={`${inputClassName} lg:col-span-2`}
+        />
+        <select value={filters.action} onChange={(e) => updateFilter('action', e.target.value)} className={inputClassName}>
+          <option value="">All actions</option>
+          {ACTIONS.map(action => (
+            <option key={action} value={action}>{action}</option>
+          ))}
+        </select>
+        <select value={filters.entityType} onChange={(e) => updateFilter('entityType', e.target.value)} className={inputClassName}>
+          <option value="">All entities</option>
+          {ENTITY_TYPES.map(type => (
+            <option key={type} value={type}>{type}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={filters.actor}
+          onChange={(e) => updateFilter('actor', e.target.value)}
+          placeholder="Username"
+          className={inputClassName}
+        />
+        <Button type="submit" className="rounded-full bg-black text-white hover:opacity-90 transition">
+          <Search className="h-4 w-4 mr-2" />
+          Search
+        </Button>
+        <label className="flex items-center space-x-2 text-sm text-gray-600">
+          <span>From</span>
+          <input type="date" value={filters.from} onChange={(e) => updateFilter('from', e.target.value)} className={`${inputClassName} flex-1`} />
+        </label>
+        <label className="flex items-center space-x-2 text-sm text-gray-600">
+          <span>To</span>
+          <input type="date" value={filters.to} onChange={(e) => updateFilter('to', e.target.value)} className={`${inputClassName} flex-1`} />
+        </label>
+      </form>
+
+      <Card className="bg-gray-50 rounded-xl p-6 shadow-sm border border-gray-200">
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center space-x-3">
+            <ScrollText className="h-6 w-6 text-indigo-600" />
+            <h2 className="text-xl font-semibold text-slate-800">Entries</h2>
+          </div>
+          <span className="text-sm text-gray-500">{total.toLocaleString()} matching</span>
+        </div>
+
+        {error ? (
+          <p className="text-sm text-red-600">{error}</p>
+        ) : entries.length === 0 ? (
+          <p className="text-sm text-gray-500">{isLoading ? 'Loading audit log...' : 'No audit entries match.'}</p>
+        ) : (
+          <div className="overflow-x-auto bg-white rounded-lg border border-gray-200">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th scope="col" className="w-8 px-4 py-3" />
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">When</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actor</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Action</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Entity</th>
+                  <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Changes</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {entries.map(entry => (
+                  <React.Fragment key={entry.id}>
+                    <tr
+                      onClick={() => setExpanded(expanded === entry.id ? null : entry.id)}
+                      className="hover:bg-gray-50 cursor-pointer"
+                    >
+                      <td className="px-4 py-4 text-gray-400">
+                        {expanded === entry.id ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {format(parseISO(entry.at), 'MMM d, yyyy HH:mm:ss')}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {entry.actor ? (
+                          <>
+                            {entry.actor.username}
+                            <span className="ml-2 text-xs text-gray-400">{entry.actor.role}</span>
+                          </>
+                        ) : (
+                          'system'
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span
+                          className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+                            entry.action === 'tenant.violation' || entry.action === 'auth.login_failed'
+                              ? 'bg-red-100 text-red-800'
+                              : 'bg-gray-100 text-gray-800'
+                          }`}
+                        >
+                          {entry.action}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                        {entry.entityType}
+                        {entry.entityId && <span className="ml-2 text-xs font-mono text-gray-400">{entry.entityId}</span>}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-right">{entry.changes.length}</td>
+                    </tr>
+                    {expanded === entry.id && (
+                      <tr>
+                        <td colSpan={6} className="px-6 py-4 bg-gray-50">
+                          <AuditEntryDetail entry={entry} />
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {entries.length < total && (
+          <div className="flex justify-center mt-6">
+            <Button variant="outline" onClick={() => load(entries.length)} disabled={isLoading} className="rounded-full">
+              {isLoading ? 'Loading...' : 'Load more'}
+            </Button>
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+}
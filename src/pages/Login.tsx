@@ -1,18 +1,17 @@
 import React, { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { LogIn, Building2, Users } from 'lucide-react';
-import { Role, LoginFormData } from '../types/auth';
-import { useAuthStore } from '../store/authStore';
+import { LogIn, Building2, Users, Lock } from 'lucide-react';
+import { LoginFormData } from '../types/auth';
 import { authenticateUser } from '../api/auth';
+import { getHomePath } from '../store/authStore';
 
 const MOCK_CLIENT_IDS = ['CLIENT001', 'CLIENT002', 'CLIENT003'];
 
 export function Login() {
   const navigate = useNavigate();
-  const setUser = useAuthStore((state) => state.setUser);
   const [formData, setFormData] = useState<LoginFormData>({
     username: '',
-    role: 'agent',
+    password: '',
     clientId: MOCK_CLIENT_IDS[0],
   });
   const [error, setError] = useState<string>('');
@@ -22,7 +21,6 @@ export function Login() {
     e.preventDefault();
     console.log('[Login] Form submission started with data:', {
       username: formData.username,
-      role: formData.role,
       clientId: formData.clientId
     });
 
@@ -32,18 +30,11 @@ export function Login() {
     try {
       console.log('[Login] Calling authenticateUser');
       const user = await authenticateUser(formData);
-      
-      if (user) {
-        console.log('[Login] Authentication successful, setting user and navigating');
-        setUser(user);
-        navigate('/');
-      } else {
-        console.log('[Login] Authentication failed, setting error message');
-        setError('Invalid credentials. Please try again.');
-      }
+      console.log('[Login] Authentication successful, navigating');
+      navigate(getHomePath(user));
     } catch (err) {
       console.error('[Login] Error during login:', err);
-      setError('An error occurred during login. Please try again.');
+      setError(err instanceof Error ? err.message : 'An error occurred during login. Please try again.');
     } finally {
       console.log('[Login] Form submission completed');
       setIsLoading(false);
@@ -94,20 +85,25 @@ export function Login() {
             </div>
 
             <div>
-              <label htmlFor="role" className="block text-sm font-medium text-gray-700">
-                Role
+              <label htmlFor="password" className="block text-sm font-medium text-gray-700">
+                Password
               </label>
-              <select
-                id="role"
-                name="role"
-                className="mt-1 block w-full pl-3 pr-10 py-2 text-base border border-gray-300 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 rounded-md"
-                value={formData.role}
-                onChange={(e) => setFormData({ ...formData, role: e.target.value as Role })}
-              >
-                <option value="agent">Agent</option>
-                <option value="manager">Manager</option>
-                <option value="admin">Admin</option>
-              </select>
+              <div className="mt-1 relative">
+                <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                  <Lock className="h-5 w-5 text-gray-400" />
+                </div>
+                <input
+                  id="password"
+                  name="password"
+                  type="password"
+                  autoComplete="current-password"
+                  required
+                  className="appearance-none block w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                  placeholder="Enter your password"
+                  value={formData.password}
+                  onChange={(e) => setFormData({ ...formData, password: e.target.value })}
+                />
+              </div>
             </div>
 
             <div>
@@ -0,0 +1,116 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { format, parseISO } from 'date-fns';
+import { History, RefreshCw } from 'lucide-react';
+import { Button } from '../components/ui/button';
+import { Card } from '../components/ui/card';
+import { listRuns } from '../api/runs';
+import type { CalculationRunSummary } from '../types';
+
+export function RunHistory() {
+  const navigate = useNavigate();
+  const [runs, setRuns] = useState<CalculationRunSummary[]>([]);
+  const [mode, setMode] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(() => {
+    setIsLoading(true);
+    setError(null);
+    listRuns({ mode: mode || undefined })
+      .then(setRuns)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load runs'))
+      .finally(() => setIsLoading(false));
+  }, [mode]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  return (
+    <div className="max-w-7xl mx-auto py-12 px-4 space-y-8">
+      <div className="flex justify-between items-center">
+        <h1 className="text-3xl font-semibold text-slate-800">Run History</h1>
+        <div className="flex items-center space-x-3">
+          <select
+            value={mode}
+            onChange={(e) => setMode(e.target.value)}
+            className="rounded-md border border-gray-300 shadow-inner px-3 py-2 focus:ring focus:outline-none"
+          >
+            <option value="">All modes</option>
+            <option value="production">Production</option>
+            <option value="simulation">Simulation</option>
+          </select>
+          <Button variant="outline" onClick={load} disabled={isLoading} className="rounded-full">
+            <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+      </div>
+
+      <Card className="bg-gray-50 rounded-xl p-6 shadow-sm border border-gray-200">
+        <div className="flex items-center space-x-3 mb-6">
+          <History className="h-6 w-6 text-indigo-600" />
+          <h2 className="text-xl font-semibold text-slate-800">Calculation Runs</h2>
+        </div>
+
+        {error ? (
+          <p className="text-sm text-red-600">{error}</p>
+        ) : isLoading ? (
+          <p className="text-sm text-gray-500">Loading runs...</p>
+        ) : runs.length === 0 ? (
+          <p className="text-sm text-gray-500">No runs yet. Execute a scheme to create one.</p>
+        ) : (
+          <div className="overflow-x-auto bg-white rounded-lg border border-gray-200">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Run At</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Scheme</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">As Of</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Mode</th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Run By</th>
+                  <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Agents</th>
+                  <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Total Payout</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {runs.map(run => (
+                  <tr
+                    key={run.id}
+                    onClick={() => navigate(`/execution/results/${run.id}`)}
+                    className="hover:bg-gray-50 cursor-pointer"
+                  >
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {format(parseISO(run.createdAt), 'MMM d, yyyy HH:mm')}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {run.schemeName}
+                      <span className="ml-2 text-xs text-gray-500">v{run.schemeVersion}</span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{run.runAsOfDate}</td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span
+                        className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+                          run.mode === 'production' ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+                        }`}
+                      >
+                        {run.mode}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{run.user?.username || '—'}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-right">
+                      {run.summary.totalAgents.toLocaleString()}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 text-right">
+                      ${parseFloat(run.summary.totalPayout).toLocaleString()}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+}
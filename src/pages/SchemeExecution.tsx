@@ -1,10 +1,37 @@
-import React, { useState, useRef, useCallback } from 'react';
-import { Upload, AlertCircle, Check, X, FileUp, Calendar, Play, Beaker } from 'lucide-react';
+import React, { useState, useRef, useCallback, useEffect } from 'react';
+import { AlertCircle, Check, X, FileUp, Calendar, Play, Beaker, Loader2 } from 'lucide-react';
 import { Button } from '../components/ui/button';
 import { Card } from '../components/ui/card';
 import { Label } from '../components/ui/label';
-import { format, isWithinInterval, parseISO, isValid } from 'date-fns';
-import { runScheme } from '../runtime/schemes/runScheme';
+import { format, parseISO, isValid } from 'date-fns';
+import {
+  findMissingColumns,
+  getRequiredFields,
+  canRunInProduction,
+  isRunDateInEffectivePeriod,
+  validateSchemeJson
+} from '../utils/schemeValidation';
+import { decodeText, parseCSV } from '../sources/csv';
+import { getSheetPreviews, getSheetSourceName, parseSheet, readWorkbook } from '../sources/excel';
+import { WorkbookSheetPicker } from '../components/WorkbookSheetPicker';
+import { SapImportPanel } from '../components/SapImportPanel';
+import { SchemeList } from '../components/scheme/SchemeList';
+import { getSchemeVersion, listSchemeVersions } from '../api/schemes';
+import { cancelJob, submitJob, watchJob } from '../api/jobs';
+import { usePermission } from '../store/authStore';
+import { SchemeStatusBadge } from '../components/scheme/SchemeStatusBadge';
+import type {
+  CsvRowError,
+  ExecutionJob,
+  RequiredField,
+  SapTransactionsResult,
+  SchemeStatus,
+  SchemeSummary,
+  SchemeVersionSummary,
+  SheetPreview,
+  ValidationError
+} from '../types';
+import type { Workbook } from 'exceljs';
 import { useNavigate } from 'react-router-dom';
 
 const formatSafeDate = (dateStr: string, formatStr: string = 'MMMM d, yyyy'): string => {
@@ -13,19 +40,30 @@ const formatSafeDate = (dateStr: string, formatStr: string = 'MMMM d, yyyy'): st
   return isValid(date) ? format(date, formatStr) : 'N/A';
 };
 
-interface ValidationError {
-  type: 'error' | 'warning';
-  message: string;
-  details: string[];
-}
-
 interface SchemeData {
   id?: string;
+  SchemeID?: string;
+  versionNumber?: number;
+  status?: SchemeStatus;
   name: string;
   description: string;
   effectiveFrom: string;
   effectiveTo: string;
   quotaAmount: number;
+  quotaMapping?: {
+    sourceFile: string;
+    agentField: string;
+    quotaField: string;
+  };
+  tierBasis?: 'amount' | 'attainment';
+  tierMethod?: 'marginal' | 'retroactive' | 'flatBonus';
+  payoutLimitMapping?: {
+    sourceFile: string;
+    agentField: string;
+    targetIncentiveField?: string;
+    capField?: string;
+    floorField?: string;
+  };
   revenueBase: string;
   baseMapping: {
     sourceFile: string;
@@ -60,23 +98,51 @@ interface SchemeData {
     adjustmentFields: Array<any>;
     exclusionFields: Array<any>;
     creditFields: Array<any>;
+    joins?: Array<{
+      sourceFile: string;
+      keys: Array<{ baseField: string; sourceField: string }>;
+      joinType: 'left' | 'inner';
+      effectiveFromField?: string;
+      effectiveToField?: string;
+    }>;
   };
   creditHierarchyFile?: string;
 }
 
+const MAX_ROW_ERRORS_SHOWN = 20;
+
+const formatRowErrors = (errors: CsvRowError[]): string[] => {
+  const details = errors
+    .slice(0, MAX_ROW_ERRORS_SHOWN)
+    .map(error => `Line ${error.line}: ${error.message}`);
+  if (errors.length > MAX_ROW_ERRORS_SHOWN) {
+    details.push(`...and ${errors.length - MAX_ROW_ERRORS_SHOWN} more`);
+  }
+  return details;
+};
+
 interface UploadedFile {
   name: string;
   data: any[];
   columns: string[];
 }
 
-interface RequiredField {
+interface PendingWorkbook {
   fileName: string;
-  fieldName: string;
-  source: string;
-  description: string;
+  workbook: Workbook;
+  sheets: SheetPreview[];
+  sheetName: string;
+  headerRow: number;
+  sourceName: string;
 }
 
+const STAGE_LABELS: Record<NonNullable<ExecutionJob['progress']>['stage'], string> = {
+  filtering: 'Filtering records',
+  records: 'Calculating records',
+  payouts: 'Calculating payouts',
+  complete: 'Storing results'
+};
+
 interface ExecutionResult {
   success: boolean;
   message: string;
@@ -86,9 +152,10 @@ interface ExecutionResult {
 
 export function SchemeExecution() {
   const navigate = useNavigate();
-  const schemeFileInputRef = useRef<HTMLInputElement>(null);
+  const canRunProduction = usePermission('runs.production');
   const dataFileInputRef = useRef<HTMLInputElement>(null);
   const [selectedScheme, setSelectedScheme] = useState<SchemeData | null>(null);
+  const [schemeVersions, setSchemeVersions] = useState<SchemeVersionSummary[]>([]);
   const [validationErrors, setValidationErrors] = useState<ValidationError[]>([]);
   const [uploadedFiles, setUploadedFiles] = useState<Record<string, UploadedFile>>({});
   const [requiredFiles, setRequiredFiles] = useState<Set<string>>(new Set());
@@ -97,6 +164,12 @@ export function SchemeExecution() {
   const [runAsOfDate, setRunAsOfDate] = useState<string>('');
   const [isExecuting, setIsExecuting] = useState(false);
   const [executionResult, setExecutionResult] = useState<ExecutionResult | null>(null);
+  const [pendingWorkbook, setPendingWorkbook] = useState<PendingWorkbook | null>(null);
+  const [job, setJob] = useState<ExecutionJob | null>(null);
+  const watchRef = useRef<AbortController | null>(null);
+
+  // Stop following the job when leaving the page; it keeps running on the server
+  useEffect(() => () => watchRef.current?.abort(), []);
 
   const resetState = useCallback(() => {
     setSelectedScheme(null);
@@ -108,209 +181,145 @@ export function SchemeExecution() {
     setRunAsOfDate('');
     setIsExecuting(false);
     setExecutionResult(null);
+    setPendingWorkbook(null);
   }, []);
 
   const getRequiredFiles = useCallback((scheme: SchemeData): Set<string> => {
-    const files = new Set<string>();
-    const fields: RequiredField[] = [];
-    
-    if (scheme.baseMapping?.sourceFile) {
-      files.add(scheme.baseMapping.sourceFile);
-      fields.push({
-        fileName: scheme.baseMapping.sourceFile,
-        fieldName: scheme.baseMapping.agentField,
-        source: 'Base Mapping',
-        description: 'Agent identifier field'
-      });
-      fields.push({
-        fileName: scheme.baseMapping.sourceFile,
-        fieldName: scheme.baseMapping.amountField,
-        source: 'Base Mapping',
-        description: 'Base amount field'
-      });
-    }
-    
-    if (scheme.kpiConfig) {
-      const addFields = (configFields: any[], source: string) => {
-        configFields.forEach(field => {
-          if (field.sourceType === 'External' && field.sourceFile) {
-            files.add(field.sourceFile);
-            fields.push({
-              fileName: field.sourceFile,
-              fieldName: field.sourceField,
-              source,
-              description: field.description || field.name
-            });
-          }
-        });
-      };
-
-      addFields(scheme.kpiConfig.baseData, 'Base Data');
-      addFields(scheme.kpiConfig.qualificationFields, 'Qualification');
-      addFields(scheme.kpiConfig.adjustmentFields, 'Adjustment');
-      addFields(scheme.kpiConfig.exclusionFields, 'Exclusion');
-      if (scheme.kpiConfig.creditFields) {
-        addFields(scheme.kpiConfig.creditFields, 'Credit');
-      }
-    }
-
-    if (scheme.creditHierarchyFile) {
-      files.add(scheme.creditHierarchyFile);
-      fields.push({
-        fileName: scheme.creditHierarchyFile,
-        fieldName: 'Reports To',
-        source: 'Credit Hierarchy',
-        description: 'Reporting hierarchy information'
-      });
-    }
-
+    const fields = getRequiredFields(scheme);
     setRequiredFields(fields);
-    return files;
+    return new Set(fields.map(field => field.fileName));
   }, []);
 
-  const validateSchemeJson = (scheme: any): { valid: boolean; errors: ValidationError[] } => {
-    const errors: ValidationError[] = [];
-
-    const requiredFields = [
-      'name',
-      'description',
-      'effectiveFrom',
-      'effectiveTo',
-      'quotaAmount',
-      'revenueBase',
-      'baseMapping',
-      'kpiConfig'
-    ];
-
-    requiredFields.forEach(field => {
-      if (!(field in scheme)) {
-        errors.push({
-          type: 'error',
-          message: `Missing required field: ${field}`,
-          details: [`The field "${field}" must be present in the scheme configuration`]
-        });
+  const loadSchemeVersion = async (schemeId: string, versionNumber: number) => {
+    resetState();
+    try {
+      const version = await getSchemeVersion(schemeId, versionNumber);
+      // Saved schemes carry the execution fields the designer does not model
+      const scheme = version.scheme as unknown as SchemeData;
+      console.log('Loaded scheme:', scheme);
+
+      const validation = validateSchemeJson(scheme);
+      setValidationErrors(validation.errors);
+
+      if (validation.valid) {
+        setSelectedScheme(scheme);
+        const required = getRequiredFiles(scheme);
+        setRequiredFiles(required);
       }
-    });
+    } catch (err) {
+      console.error('Error loading scheme:', err);
+      setValidationErrors([{
+        type: 'error',
+        message: 'Failed to load scheme',
+        details: [err instanceof Error ? err.message : 'Unknown error']
+      }]);
+    }
+  };
 
-    if (scheme.effectiveFrom && scheme.effectiveTo) {
-      const fromDate = parseISO(scheme.effectiveFrom);
-      const toDate = parseISO(scheme.effectiveTo);
-      
-      if (!isValid(fromDate) || !isValid(toDate)) {
-        errors.push({
-          type: 'error',
-          message: 'Invalid date format',
-          details: ['effectiveFrom and effectiveTo must be valid ISO dates']
-        });
-      } else if (fromDate >= toDate) {
-        errors.push({
-          type: 'error',
-          message: 'Invalid date range',
-          details: ['effectiveFrom must be before effectiveTo']
-        });
+  // Opens the scheme's ACTIVE version when it has one, since only that can
+  // run in production; otherwise its latest version for simulation
+  const handleSchemeSelect = async (summary: SchemeSummary) => {
+    try {
+      const versions = await listSchemeVersions(summary.id);
+      setSchemeVersions(versions);
+      const preferred = versions.find(version => version.status === 'ACTIVE') || versions[0];
+      if (preferred) {
+        await loadSchemeVersion(summary.id, preferred.versionNumber);
       }
+    } catch (err) {
+      console.error('Error loading scheme versions:', err);
+      setValidationErrors([{
+        type: 'error',
+        message: 'Failed to load scheme',
+        details: [err instanceof Error ? err.message : 'Unknown error']
+      }]);
     }
+  };
 
-    if (scheme.baseMapping) {
-      const requiredMappingFields = ['sourceFile', 'agentField', 'amountField'];
-      requiredMappingFields.forEach(field => {
-        if (!(field in scheme.baseMapping)) {
-          errors.push({
-            type: 'error',
-            message: `Missing required field in baseMapping: ${field}`,
-            details: [`baseMapping must include "${field}"`]
-          });
-        }
-      });
-    }
+  const handleClearSelection = () => {
+    resetState();
+    setSchemeVersions([]);
+  };
 
-    if (scheme.kpiConfig) {
-      if (!scheme.kpiConfig.calculationBase) {
-        errors.push({
-          type: 'error',
-          message: 'Missing calculationBase in kpiConfig',
-          details: ['kpiConfig must include calculationBase']
-        });
-      }
+  // Prefers a required file named after the workbook (or with the same base
+  // name, e.g. Sales.csv for Sales.xlsx) that has not been uploaded yet.
+  const suggestSourceName = (fileName: string, sheetName: string): string => {
+    const baseName = fileName.replace(/\.[^.]+$/, '');
+    const pending = Array.from(requiredFiles).filter(name => !(name in uploadedFiles));
+    return (
+      pending.find(name => name === fileName) ||
+      pending.find(name => name.replace(/\.[^.]+$/, '') === baseName) ||
+      getSheetSourceName(fileName, sheetName)
+    );
+  };
 
-      if (!Array.isArray(scheme.kpiConfig.baseData)) {
-        errors.push({
-          type: 'error',
-          message: 'Invalid baseData in kpiConfig',
-          details: ['baseData must be an array']
-        });
-      }
+  const handleAddSheet = () => {
+    if (!pendingWorkbook) return;
+    const { fileName, workbook, sheetName, headerRow } = pendingWorkbook;
+    const sourceName = pendingWorkbook.sourceName.trim();
+    const sheetMessages: ValidationError[] = [];
 
-      if (!Array.isArray(scheme.kpiConfig.qualificationFields)) {
-        errors.push({
-          type: 'error',
-          message: 'Invalid qualificationFields in kpiConfig',
-          details: ['qualificationFields must be an array']
+    try {
+      const parsed = parseSheet(workbook, sheetName, headerRow);
+      if (parsed.errors.length > 0) {
+        sheetMessages.push({
+          type: 'warning',
+          message: `${parsed.errors.length} cell(s) could not be read in ${sourceName}`,
+          details: formatRowErrors(parsed.errors)
         });
       }
-    }
-
-    return {
-      valid: errors.filter(e => e.type === 'error').length === 0,
-      errors
-    };
-  };
-
-  const handleSchemeUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        try {
-          const scheme = JSON.parse(e.target?.result as string);
-          console.log('Loaded scheme:', scheme);
-          
-          resetState();
-          
-          const validation = validateSchemeJson(scheme);
-          setValidationErrors(validation.errors);
-          
-          if (validation.valid) {
-            setSelectedScheme(scheme);
-            const required = getRequiredFiles(scheme);
-            setRequiredFiles(required);
-          }
-        } catch (err) {
-          console.error('Error parsing scheme:', err);
-          setValidationErrors([{
-            type: 'error',
-            message: 'Failed to parse scheme file',
-            details: [err instanceof Error ? err.message : 'Invalid format']
-          }]);
-        }
-      };
+      if (parsed.rows.length === 0) {
+        throw new Error(`No data rows below header row ${headerRow} in sheet "${sheetName}"`);
+      }
 
-      reader.onerror = () => {
-        setValidationErrors([{
-          type: 'error',
-          message: 'Failed to read file',
-          details: ['Please check the file and try again']
-        }]);
+      const newFiles = {
+        ...uploadedFiles,
+        [sourceName]: { name: sourceName, data: parsed.rows, columns: parsed.columns }
       };
-
-      reader.readAsText(file);
+      setUploadedFiles(newFiles);
+      setMissingColumns(validateColumns(newFiles));
+      setPendingWorkbook(null);
+    } catch (err) {
+      console.error(`Error parsing sheet ${sheetName} of ${fileName}:`, err);
+      sheetMessages.push({
+        type: 'error',
+        message: `Failed to parse sheet: ${sourceName}`,
+        details: [err instanceof Error ? err.message : 'Please check the sheet and header row']
+      });
     }
+    setValidationErrors(prev => [
+      ...prev.filter(error => !error.message.endsWith(` ${sourceName}`) && !error.message.endsWith(` ${fileName}`)),
+      ...sheetMessages
+    ]);
   };
 
-  const parseCSV = (content: string): any[] => {
-    const lines = content.split('\n');
-    if (lines.length < 2) return [];
-    
-    const headers = lines[0].split(',').map(h => h.trim());
-    return lines.slice(1)
-      .filter(line => line.trim())
-      .map(line => {
-        const values = line.split(',').map(v => v.trim());
-        return headers.reduce((obj, header, i) => {
-          obj[header] = values[i];
-          return obj;
-        }, {} as Record<string, string>);
+  const handleSapImport = (sourceName: string, result: SapTransactionsResult) => {
+    const sapMessages: ValidationError[] = [];
+    if (result.warnings.length > 0) {
+      sapMessages.push({
+        type: 'warning',
+        message: `${result.warnings.length} SAP document(s) skipped in ${sourceName}`,
+        details: result.warnings
       });
+    }
+    if (result.data.length === 0) {
+      sapMessages.push({
+        type: 'error',
+        message: `No SAP documents found for ${sourceName}`,
+        details: ['Check the document type and date range']
+      });
+    } else {
+      const newFiles = {
+        ...uploadedFiles,
+        [sourceName]: { name: sourceName, data: result.data, columns: result.columns }
+      };
+      setUploadedFiles(newFiles);
+      setMissingColumns(validateColumns(newFiles));
+    }
+    setValidationErrors(prev => [
+      ...prev.filter(error => !error.message.endsWith(` ${sourceName}`)),
+      ...sapMessages
+    ]);
   };
 
   const handleDataUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -322,59 +331,100 @@ export function SchemeExecution() {
 
     Array.from(files).forEach(file => {
       const reader = new FileReader();
+      if (/\.xlsx$/i.test(file.name)) {
+        reader.onload = (e) => {
+          readWorkbook(e.target?.result as ArrayBuffer)
+            .then(workbook => {
+              const sheets = getSheetPreviews(workbook);
+              if (sheets.length === 0) throw new Error('The workbook has no worksheets');
+              setPendingWorkbook({
+                fileName: file.name,
+                workbook,
+                sheets,
+                sheetName: sheets[0].name,
+                headerRow: 1,
+                sourceName: suggestSourceName(file.name, sheets[0].name)
+              });
+            })
+            .catch(err => {
+              console.error(`Error reading workbook ${file.name}:`, err);
+              setValidationErrors(prev => [
+                ...prev.filter(error => !error.message.endsWith(` ${file.name}`)),
+                {
+                  type: 'error',
+                  message: `Failed to read workbook: ${file.name}`,
+                  details: [err instanceof Error ? err.message : 'Please ensure it is a valid .xlsx file']
+                }
+              ]);
+            });
+        };
+        reader.readAsArrayBuffer(file);
+        return;
+      }
+
       reader.onload = (e) => {
+        const fileMessages: ValidationError[] = [];
         try {
-          const content = e.target?.result as string;
-          const rows = file.name.endsWith('.json') 
-            ? JSON.parse(content)
-            : parseCSV(content);
+          const content = decodeText(e.target?.result as ArrayBuffer);
+          let rows: unknown;
+          if (file.name.endsWith('.json')) {
+            rows = JSON.parse(content);
+          } else {
+            const parsed = parseCSV(content);
+            rows = parsed.rows;
+            if (parsed.errors.length > 0) {
+              fileMessages.push({
+                type: parsed.rows.length > 0 ? 'warning' : 'error',
+                message: `${parsed.errors.length} row(s) could not be parsed in ${file.name}`,
+                details: formatRowErrors(parsed.errors)
+              });
+            }
+          }
 
           if (!Array.isArray(rows) || rows.length === 0) {
-            throw new Error('Invalid data format');
+            throw new Error(file.name.endsWith('.json')
+              ? 'Expected a non-empty array of rows'
+              : 'No data rows found');
           }
 
-          const columns = Object.keys(rows[0] || {});
+          const data = rows as Record<string, unknown>[];
+          const columns = Object.keys(data[0] || {});
           
           newFiles[file.name] = {
             name: file.name,
-            data: rows,
+            data,
             columns
           };
 
           setUploadedFiles(newFiles);
           
           if (selectedScheme) {
-            const newMissingColumns = validateColumns(selectedScheme, newFiles);
+            const newMissingColumns = validateColumns(newFiles);
             setMissingColumns(newMissingColumns);
           }
         } catch (err) {
           console.error(`Error parsing file ${file.name}:`, err);
           hasError = true;
-          setValidationErrors(prev => [...prev, {
-            type: 'error',
-            message: `Failed to parse file: ${file.name}`,
-            details: ['Please ensure it is valid CSV/JSON']
-          }]);
+          if (!fileMessages.some(message => message.type === 'error')) {
+            fileMessages.push({
+              type: 'error',
+              message: `Failed to parse file: ${file.name}`,
+              details: [err instanceof Error ? err.message : 'Please ensure it is valid CSV/JSON']
+            });
+          }
         }
+        // Replace messages from an earlier upload of the same file
+        setValidationErrors(prev => [
+          ...prev.filter(error => !error.message.endsWith(` ${file.name}`)),
+          ...fileMessages
+        ]);
       };
-      reader.readAsText(file);
+      reader.readAsArrayBuffer(file);
     });
   };
 
-  const validateColumns = useCallback((scheme: SchemeData, files: Record<string, UploadedFile>): Record<string, string[]> => {
-    const missingColumns: Record<string, string[]> = {};
-
-    requiredFields.forEach(field => {
-      const file = files[field.fileName];
-      if (file && !file.columns.includes(field.fieldName)) {
-        if (!missingColumns[field.fileName]) {
-          missingColumns[field.fileName] = [];
-        }
-        missingColumns[field.fileName].push(field.fieldName);
-      }
-    });
-
-    return missingColumns;
+  const validateColumns = useCallback((files: Record<string, UploadedFile>): Record<string, string[]> => {
+    return findMissingColumns(requiredFields, files);
   }, [requiredFields]);
 
   const isReadyToExecute = useCallback(() => {
@@ -386,74 +436,69 @@ export function SchemeExecution() {
     const noMissingColumns = Object.keys(missingColumns).length === 0;
     if (!noMissingColumns) return false;
 
-    try {
-      const runDate = parseISO(runAsOfDate);
-      if (!isValid(runDate)) return false;
-
-      const isValidDate = isWithinInterval(runDate, {
-        start: parseISO(selectedScheme.effectiveFrom),
-        end: parseISO(selectedScheme.effectiveTo)
-      });
-      return isValidDate;
-    } catch {
-      return false;
-    }
+    return isRunDateInEffectivePeriod(selectedScheme, runAsOfDate);
   }, [selectedScheme, runAsOfDate, requiredFiles, uploadedFiles, missingColumns]);
 
   const handleExecute = async (mode: 'simulation' | 'production') => {
     if (!isReadyToExecute() || isExecuting || !selectedScheme) return;
+    if (mode === 'production' && (!canRunProduction || !canRunInProduction(selectedScheme))) return;
     
     setIsExecuting(true);
     setExecutionResult(null);
+    setJob(null);
+    const controller = new AbortController();
+    watchRef.current = controller;
     
     try {
-      console.log('[Execution] Running scheme with runScheme function');
-      console.log('[Execution] Input data:', {
-        scheme: selectedScheme,
-        files: uploadedFiles,
-        runDate: runAsOfDate
+      const files = Object.fromEntries(
+        Array.from(requiredFiles).map(name => [
+          name,
+          { data: uploadedFiles[name].data, columns: uploadedFiles[name].columns }
+        ])
+      );
+      const submitted = await submitJob({
+        schemeId: selectedScheme.id!,
+        schemeVersion: selectedScheme.versionNumber!,
+        runAsOfDate,
+        mode,
+        files
+      });
+      console.log('[Execution] Submitted job:', submitted.id);
+      setJob(submitted);
+
+      const finished = await watchJob(submitted.id, setJob, controller.signal);
+      if (finished.status === 'succeeded' && finished.runId) {
+        console.log('[Execution] Stored run:', finished.runId);
+        navigate(`/execution/results/${finished.runId}`);
+        return;
+      }
+      setExecutionResult({
+        success: false,
+        message: finished.status === 'cancelled' ? 'Execution cancelled' : finished.error || 'Execution failed',
+        errors: finished.details
       });
-
-      const result = await runScheme(selectedScheme, uploadedFiles, runAsOfDate);
-      console.log('[Execution] Result:', result);
-
-      const executionResult = {
-        success: true,
-        message: `Scheme executed successfully in ${mode} mode`,
-        data: {
-          totalRecords: result.rawRecordLevelData.length,
-          processedAt: new Date().toISOString(),
-          summary: {
-            totalAgents: Object.keys(result.agentPayouts).length,
-            qualified: Object.values(result.agentPayouts).filter(p => parseFloat(p) > 0).length,
-            totalPayout: Object.values(result.agentPayouts).reduce((sum, p) => sum + parseFloat(p), 0)
-          },
-          agents: Object.entries(result.agentPayouts).map(([agentId, payout]) => ({
-            agentId,
-            qualified: parseFloat(payout) > 0,
-            commission: parseFloat(payout),
-            qualifyingCriteria: result.ruleHitLogs[agentId]?.filter(log => log.ruleType === 'Qualification') || [],
-            adjustments: result.ruleHitLogs[agentId]?.filter(log => log.ruleType === 'Adjustment') || [],
-            exclusions: result.ruleHitLogs[agentId]?.filter(log => log.ruleType === 'Exclusion') || [],
-            creditSplits: result.creditDistributions[agentId] || []
-          }))
-        }
-      };
-
-      setExecutionResult(executionResult);
-      navigate('/execution/results', { state: { result: executionResult } });
     } catch (error) {
+      if (controller.signal.aborted) return;
       console.error('[Execution] Failed:', error);
       setExecutionResult({
         success: false,
-        message: error instanceof Error ? error.message : 'Unknown execution error',
-        errors: [error instanceof Error ? error.message : 'Unknown error occurred']
+        message: error instanceof Error ? error.message : 'Unknown execution error'
       });
     } finally {
+      if (watchRef.current === controller) watchRef.current = null;
       setIsExecuting(false);
     }
   };
 
+  const handleCancel = async () => {
+    if (!job) return;
+    try {
+      setJob(await cancelJob(job.id));
+    } catch (error) {
+      console.error('[Execution] Cancel failed:', error);
+    }
+  };
+
   return (
     <div className="max-w-5xl mx-auto py-12 px-4 space-y-8">
       <div className="flex justify-between items-center">
@@ -461,7 +506,7 @@ export function SchemeExecution() {
       </div>
 
       <Card className="bg-gray-50 rounded-xl p-6 shadow-sm border border-gray-200">
-        <h2 className="text-xl font-semibold text-slate-800 mb-6">Upload Scheme JSON</h2>
+        <h2 className="text-xl font-semibold text-slate-800 mb-6">Select Scheme</h2>
         
         {selectedScheme ? (
           <div className="space-y-6">
@@ -487,6 +532,28 @@ export function SchemeExecution() {
                     {formatSafeDate(selectedScheme.effectiveTo)}
                   </dd>
                 </div>
+                <div>
+                  <dt className="text-sm font-medium text-gray-500">Version</dt>
+                  <dd className="mt-1">
+                    <select
+                      value={selectedScheme.versionNumber ?? ''}
+                      onChange={(e) => loadSchemeVersion(selectedScheme.id!, Number(e.target.value))}
+                      className="rounded-md border border-gray-300 shadow-inner px-3 py-2 focus:ring focus:outline-none"
+                    >
+                      {schemeVersions.map(version => (
+                        <option key={version.versionNumber} value={version.versionNumber}>
+                          Version {version.versionNumber} ({version.status})
+                        </option>
+                      ))}
+                    </select>
+                  </dd>
+                </div>
+                <div>
+                  <dt className="text-sm font-medium text-gray-500">Status</dt>
+                  <dd className="mt-2">
+                    <SchemeStatusBadge status={selectedScheme.status} />
+                  </dd>
+                </div>
                 <div className="col-span-2">
                   <dt className="text-sm font-medium text-gray-500">Description</dt>
                   <dd className="mt-1 text-lg text-gray-900">{selectedScheme.description}</dd>
@@ -496,7 +563,7 @@ export function SchemeExecution() {
 
             <Button
               variant="outline"
-              onClick={resetState}
+              onClick={handleClearSelection}
               className="w-full rounded-full hover:bg-gray-100 transition"
             >
               <X className="h-4 w-4 mr-2" />
@@ -504,21 +571,8 @@ export function SchemeExecution() {
             </Button>
           </div>
         ) : (
-          <Button
-            onClick={() => schemeFileInputRef.current?.click()}
-            className="w-full rounded-full hover:bg-gray-100 transition"
-          >
-            <Upload className="h-4 w-4 mr-2" />
-            Upload Scheme JSON
-          </Button>
+          <SchemeList onSelect={handleSchemeSelect} />
         )}
-        <input
-          ref={schemeFileInputRef}
-          type="file"
-          accept=".json"
-          onChange={handleSchemeUpload}
-          className="hidden"
-        />
       </Card>
 
       {selectedScheme && (
@@ -593,11 +647,40 @@ export function SchemeExecution() {
             <input
               ref={dataFileInputRef}
               type="file"
-              accept=".csv,.json"
+              accept=".csv,.json,.xlsx"
               multiple
               onChange={handleDataUpload}
               className="hidden"
             />
+
+            {pendingWorkbook && (
+              <WorkbookSheetPicker
+                fileName={pendingWorkbook.fileName}
+                sheets={pendingWorkbook.sheets}
+                sheetName={pendingWorkbook.sheetName}
+                headerRow={pendingWorkbook.headerRow}
+                sourceName={pendingWorkbook.sourceName}
+                sourceOptions={Array.from(requiredFiles)}
+                onChange={(updates) => setPendingWorkbook(prev => {
+                  if (!prev) return prev;
+                  const next = { ...prev, ...updates };
+                  // Keep a generated "Workbook.xlsx#Sheet" name in step with the sheet
+                  if (updates.sheetName && prev.sourceName === getSheetSourceName(prev.fileName, prev.sheetName)) {
+                    next.sourceName = getSheetSourceName(prev.fileName, updates.sheetName);
+                  }
+                  return next;
+                })}
+                onConfirm={handleAddSheet}
+                onCancel={() => setPendingWorkbook(null)}
+              />
+            )}
+
+            <SapImportPanel
+              defaultFrom={selectedScheme.effectiveFrom}
+              defaultTo={runAsOfDate || selectedScheme.effectiveTo}
+              sourceOptions={Array.from(requiredFiles)}
+              onImport={handleSapImport}
+            />
           </div>
         </Card>
       )}
@@ -638,13 +721,78 @@ export function SchemeExecution() {
 
               <Button
                 onClick={() => handleExecute('production')}
-                disabled={!isReadyToExecute() || isExecuting}
+                disabled={!isReadyToExecute() || isExecuting || !canRunProduction || !canRunInProduction(selectedScheme)}
                 className="rounded-full bg-black text-white hover:opacity-90 transition"
               >
                 <Play className="h-4 w-4 mr-2" />
                 {isExecuting ? 'Running...' : 'Run Production'}
               </Button>
             </div>
+            {!canRunProduction ? (
+              <p className="text-sm text-gray-500">
+                Your role cannot run production payouts. Schemes can be simulated.
+              </p>
+            ) : !canRunInProduction(selectedScheme) && (
+              <p className="text-sm text-gray-500">
+                Only ACTIVE scheme versions can run in production. This version can be simulated.
+              </p>
+            )}
+
+            {job && isExecuting && (
+              <div className="bg-white p-6 rounded-lg border border-gray-200 space-y-4">
+                <div className="flex justify-between items-center">
+                  <div className="flex items-center text-sm font-medium text-gray-900">
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin text-indigo-600" />
+                    {job.status === 'queued'
+                      ? 'Waiting for an earlier run to finish...'
+                      : job.progress
+                        ? STAGE_LABELS[job.progress.stage]
+                        : 'Starting...'}
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleCancel}
+                    className="rounded-full hover:bg-gray-100 transition"
+                  >
+                    <X className="h-4 w-4 mr-2" />
+                    Cancel
+                  </Button>
+                </div>
+                {job.progress && (
+                  <>
+                    <div className="w-full bg-gray-200 rounded-full h-2">
+                      <div
+                        className="bg-indigo-600 h-2 rounded-full transition-all"
+                        style={{
+                          width: `${job.progress.agentsTotal > 0
+                            ? Math.round((job.progress.agentsProcessed / job.progress.agentsTotal) * 100)
+                            : 0}%`
+                        }}
+                      />
+                    </div>
+                    <dl className="grid grid-cols-3 gap-6">
+                      <div>
+                        <dt className="text-sm font-medium text-gray-500">Records In Range</dt>
+                        <dd className="mt-1 text-lg text-gray-900">
+                          {job.progress.recordsInRange.toLocaleString()} of {job.progress.recordsTotal.toLocaleString()}
+                        </dd>
+                      </div>
+                      <div>
+                        <dt className="text-sm font-medium text-gray-500">Records Qualified</dt>
+                        <dd className="mt-1 text-lg text-gray-900">{job.progress.recordsQualified.toLocaleString()}</dd>
+                      </div>
+                      <div>
+                        <dt className="text-sm font-medium text-gray-500">Agents Processed</dt>
+                        <dd className="mt-1 text-lg text-gray-900">
+                          {job.progress.agentsProcessed.toLocaleString()} of {job.progress.agentsTotal.toLocaleString()}
+                        </dd>
+                      </div>
+                    </dl>
+                  </>
+                )}
+              </div>
+            )}
           </div>
         </Card>
       )}
@@ -684,6 +832,13 @@ export function SchemeExecution() {
                 </>
               )}
             </dl>
+            {executionResult.errors && executionResult.errors.length > 0 && (
+              <ul className="mt-4 text-sm text-red-700 space-y-1">
+                {executionResult.errors.map((detail, i) => (
+                  <li key={i}>• {detail}</li>
+                ))}
+              </ul>
+            )}
           </div>
         </Card>
       )}
@@ -1,56 +1,42 @@
-import React from 'react';
-import { ArrowLeft, Download, FileSpreadsheet, AlertCircle, CheckCircle2 } from 'lucide-react';
-import { useNavigate, useLocation } from 'react-router-dom';
+import { useEffect, useState } from 'react';
+import { ArrowLeft, Download, FileSpreadsheet, AlertCircle, CheckCircle2, History, ScrollText } from 'lucide-react';
+import { useNavigate, useLocation, useParams } from 'react-router-dom';
 import { Button } from '../components/ui/button';
 import { Card } from '../components/ui/card';
-import { format } from 'date-fns';
-
-interface ExecutionResult {
-  success: boolean;
-  message: string;
-  data: {
-    totalRecords: number;
-    processedAt: string;
-    summary: {
-      totalAgents: number;
-      qualified: number;
-      totalPayout: number;
-    };
-    agents: Array<{
-      agentId: string;
-      qualified: boolean;
-      commission: number;
-      qualifyingCriteria: Array<{
-        rule: string;
-        result: boolean;
-        details?: string;
-      }>;
-      adjustments: Array<{
-        rule: string;
-        applied: boolean;
-        value: number;
-        details?: string;
-      }>;
-      exclusions: Array<{
-        rule: string;
-        applied: boolean;
-        details?: string;
-      }>;
-      creditSplits: Array<{
-        repId: string;
-        role: string;
-        amount: number;
-        effectiveFrom: string;
-        effectiveTo: string;
-      }>;
-    }>;
-  };
-}
+import { StatementExportButton, StatementLinks } from '../components/StatementLinks';
+import { format, parseISO } from 'date-fns';
+import { getAgentResults, summarizeRun } from '../engine';
+import type { SchemeRunResult } from '../engine';
+import { getRun } from '../api/runs';
+import type { CalculationRun } from '../types';
 
 export function SchemeResults() {
   const navigate = useNavigate();
   const location = useLocation();
-  const result = location.state?.result as ExecutionResult;
+  const { runId } = useParams();
+  const [run, setRun] = useState<CalculationRun | null>(null);
+  const [isLoading, setIsLoading] = useState(Boolean(runId));
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!runId) return;
+    setIsLoading(true);
+    setLoadError(null);
+    getRun(runId)
+      .then(setRun)
+      .catch(err => setLoadError(err instanceof Error ? err.message : 'Failed to load run'))
+      .finally(() => setIsLoading(false));
+  }, [runId]);
+
+  const result = run?.result ?? (location.state?.result as SchemeRunResult | undefined);
+
+  if (isLoading) {
+    return (
+      <div className="max-w-5xl mx-auto py-12 px-4">
+        <p className="text-gray-500">Loading run...</p>
+      </div>
+    );
+  }
 
   if (!result) {
     return (
@@ -61,7 +47,7 @@ export function SchemeResults() {
             <h3 className="text-lg font-medium">No Results Available</h3>
           </div>
           <p className="mt-2 text-yellow-700">
-            Please execute a scheme to view results.
+            {loadError || 'Please execute a scheme to view results.'}
           </p>
           <Button
             onClick={() => navigate('/execution')}
@@ -76,7 +62,8 @@ export function SchemeResults() {
     );
   }
 
-  const { data } = result;
+  const summary = summarizeRun(result);
+  const agents = getAgentResults(result);
 
   const downloadResults = () => {
     const jsonStr = JSON.stringify(result, null, 2);
@@ -84,7 +71,9 @@ export function SchemeResults() {
     const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
     link.href = url;
-    link.download = `scheme_results_${format(new Date(), 'yyyyMMdd_HHmmss')}.json`;
+    link.download = run
+      ? `scheme_results_${run.id}.json`
+      : `scheme_results_${format(new Date(), 'yyyyMMdd_HHmmss')}.json`;
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
@@ -105,51 +94,119 @@ export function SchemeResults() {
           </Button>
           <h1 className="text-3xl font-semibold text-slate-800">Execution Results</h1>
         </div>
-        <Button
-          onClick={downloadResults}
-          className="rounded-full bg-black text-white hover:opacity-90"
-        >
-          <Download className="h-4 w-4 mr-2" />
-          Download Results
-        </Button>
+        <div className="flex space-x-3">
+          <Button
+            onClick={() => navigate('/execution/runs')}
+            variant="outline"
+            className="rounded-full"
+          >
+            <History className="h-4 w-4 mr-2" />
+            Run History
+          </Button>
+          {run && (
+            <Button
+              onClick={() => navigate(`/execution/log/${run.id}`)}
+              variant="outline"
+              className="rounded-full"
+            >
+              <ScrollText className="h-4 w-4 mr-2" />
+              Rule Log
+            </Button>
+          )}
+          {run && <StatementExportButton runId={run.id} />}
+          <Button
+            onClick={downloadResults}
+            className="rounded-full bg-black text-white hover:opacity-90"
+          >
+            <Download className="h-4 w-4 mr-2" />
+            Download Results
+          </Button>
+        </div>
       </div>
 
+      {run && (
+        <Card className="bg-gray-50 rounded-xl p-6 shadow-sm border border-gray-200">
+          <h2 className="text-xl font-semibold text-slate-800 mb-6">Run Details</h2>
+          <div className="bg-white p-6 rounded-lg border border-gray-200 space-y-6">
+            <dl className="grid grid-cols-2 md:grid-cols-4 gap-6">
+              <div>
+                <dt className="text-sm font-medium text-gray-500">Run ID</dt>
+                <dd className="mt-1 text-sm text-gray-900 break-all">{run.id}</dd>
+              </div>
+              <div>
+                <dt className="text-sm font-medium text-gray-500">Scheme</dt>
+                <dd className="mt-1 text-sm text-gray-900">
+                  {run.SchemeID || run.schemeId} · version {run.schemeVersion}
+                </dd>
+              </div>
+              <div>
+                <dt className="text-sm font-medium text-gray-500">Run By</dt>
+                <dd className="mt-1 text-sm text-gray-900">
+                  {run.user ? `${run.user.username} (${run.user.role})` : '—'}
+                </dd>
+              </div>
+              <div>
+                <dt className="text-sm font-medium text-gray-500">Run At</dt>
+                <dd className="mt-1 text-sm text-gray-900">{format(parseISO(run.createdAt), 'MMM d, yyyy HH:mm')}</dd>
+              </div>
+            </dl>
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead>
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Input</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Rows</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">SHA-256</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {run.inputs.map(input => (
+                  <tr key={input.name}>
+                    <td className="px-4 py-2 text-sm text-gray-900">{input.name}</td>
+                    <td className="px-4 py-2 text-sm text-gray-500">{input.rowCount.toLocaleString()}</td>
+                    <td className="px-4 py-2 text-xs font-mono text-gray-500 break-all">{input.checksum}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </Card>
+      )}
+
       <Card className="bg-gray-50 rounded-xl p-6 shadow-sm border border-gray-200">
         <div className="flex items-center space-x-3 mb-6">
-          {result.success ? (
-            <CheckCircle2 className="h-6 w-6 text-green-600" />
-          ) : (
-            <AlertCircle className="h-6 w-6 text-red-600" />
-          )}
+          <CheckCircle2 className="h-6 w-6 text-green-600" />
           <h2 className="text-xl font-semibold text-slate-800">Summary</h2>
+          <span className="text-sm text-gray-500">
+            {result.meta.schemeName} · as of {result.meta.runAsOfDate} · {result.meta.mode}
+          </span>
         </div>
 
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
           <div className="bg-white p-6 rounded-lg border border-gray-200">
             <div className="text-sm font-medium text-gray-500">Total Records</div>
             <div className="mt-2 text-3xl font-semibold text-gray-900">
-              {data.totalRecords.toLocaleString()}
+              {summary.totalRecords.toLocaleString()}
             </div>
           </div>
 
           <div className="bg-white p-6 rounded-lg border border-gray-200">
             <div className="text-sm font-medium text-gray-500">Total Agents</div>
             <div className="mt-2 text-3xl font-semibold text-gray-900">
-              {data.summary.totalAgents.toLocaleString()}
+              {summary.totalAgents.toLocaleString()}
             </div>
           </div>
 
           <div className="bg-white p-6 rounded-lg border border-gray-200">
             <div className="text-sm font-medium text-gray-500">Qualified Agents</div>
             <div className="mt-2 text-3xl font-semibold text-gray-900">
-              {data.summary.qualified.toLocaleString()}
+              {summary.qualified.toLocaleString()}
             </div>
           </div>
 
           <div className="bg-white p-6 rounded-lg border border-gray-200">
             <div className="text-sm font-medium text-gray-500">Total Payout</div>
             <div className="mt-2 text-3xl font-semibold text-gray-900">
-              ${data.summary.totalPayout.toLocaleString()}
+              ${parseFloat(summary.totalPayout).toLocaleString()}
             </div>
           </div>
         </div>
@@ -174,16 +231,30 @@ export function SchemeResults() {
                 <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Commission
                 </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Attainment
+                </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Tier Breakdown
+                </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Cap / Floor
+                </th>
                 <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Adjustments
                 </th>
                 <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Credit Splits
                 </th>
+                {run && (
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Statement
+                  </th>
+                )}
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
-              {data.agents.map((agent) => (
+              {agents.map((agent) => (
                 <tr key={agent.agentId}>
                   <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
                     {agent.agentId}
@@ -200,14 +271,52 @@ export function SchemeResults() {
                     )}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                    ${agent.commission.toLocaleString()}
+                    ${parseFloat(agent.payout).toLocaleString()}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {agent.attainment != null ? `${agent.attainment}%` : '—'}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-500">
+                    {agent.tierBreakdown.length > 0 ? (
+                      <ul className="space-y-1">
+                        {agent.tierBreakdown.map((tier) => (
+                          <li key={tier.tierId}>
+                            Tier {tier.tierNumber}: ${parseFloat(tier.payout).toLocaleString()}
+                            <span className="text-gray-400"> on ${parseFloat(tier.amountInTier).toLocaleString()}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    ) : (
+                      '—'
+                    )}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-500">
+                    {agent.payoutLimits.length > 0 ? (
+                      <ul className="space-y-1">
+                        {agent.payoutLimits.map((hit) => (
+                          <li
+                            key={hit.limit}
+                            className={hit.limit === 'Cap' ? 'text-red-700' : 'text-green-700'}
+                          >
+                            {hit.limit === 'Cap' ? 'Capped' : 'Topped up'}: {parseFloat(hit.difference) > 0 ? '+' : '-'}${Math.abs(parseFloat(hit.difference)).toLocaleString()}
+                          </li>
+                        ))}
+                      </ul>
+                    ) : (
+                      '—'
+                    )}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                    {agent.adjustments.length}
+                    {agent.logs.filter(log => log.ruleType === 'Adjustment').length}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                     {agent.creditSplits.length}
                   </td>
+                  {run && (
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <StatementLinks runId={run.id} agentId={agent.agentId} />
+                    </td>
+                  )}
                 </tr>
               ))}
             </tbody>
@@ -0,0 +1,144 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { Plus, RefreshCw, X } from 'lucide-react';
+import { Button } from '../components/ui/button';
+import { Card } from '../components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '../components/ui/tabs';
+import { AccessControlMatrix } from '../components/users/AccessControlMatrix';
+import { NewUserForm } from '../components/users/NewUserForm';
+import { RoleAssignments } from '../components/users/RoleAssignments';
+import { UserImportPanel } from '../components/users/UserImportPanel';
+import { UserTable } from '../components/users/UserTable';
+import { getRoleMatrix, listKnownAgentIds, listUsers } from '../api/users';
+import { useAuthStore } from '../store/authStore';
+import type { KnownAgentId, ManagedUser, RoleMatrix } from '../types/auth';
+
+const TABS = ['users', 'roles', 'access', 'import'];
+
+// Shared by the agent ID inputs so they suggest payee IDs from the latest runs
+const AGENT_ID_LIST_ID = 'known-agent-ids';
+
+export function UserManagement() {
+  const currentUser = useAuthStore((state) => state.user);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [users, setUsers] = useState<ManagedUser[]>([]);
+  const [matrix, setMatrix] = useState<RoleMatrix | null>(null);
+  const [knownAgentIds, setKnownAgentIds] = useState<KnownAgentId[]>([]);
+  const [showNewUser, setShowNewUser] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const requestedTab = searchParams.get('tab') || '';
+  const tab = TABS.includes(requestedTab) ? requestedTab : 'users';
+
+  const load = useCallback(() => {
+    setIsLoading(true);
+    setError(null);
+    Promise.all([listUsers(), getRoleMatrix(), listKnownAgentIds()])
+      .then(([loadedUsers, loadedMatrix, loadedAgentIds]) => {
+        setUsers(loadedUsers);
+        setMatrix(loadedMatrix);
+        setKnownAgentIds(loadedAgentIds);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load users'))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleUpdated = (updated: ManagedUser) =>
+    setUsers(previous => previous.map(user => (user.id === updated.id ? updated : user)));
+
+  const handleCreated = (created: ManagedUser) => {
+    setUsers(previous => [...previous, created].sort((a, b) => a.username.localeCompare(b.username)));
+    setShowNewUser(false);
+  };
+
+  const roles = matrix?.roles || [];
+  const unmappedAgents = users.filter(user => user.active && user.role === 'agent' && !user.agentId).length;
+
+  return (
+    <div className="max-w-7xl mx-auto py-12 px-4 space-y-8">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-semibold text-slate-800">User Management</h1>
+          <p className="text-sm text-slate-600">Users of client {currentUser?.clientId}</p>
+        </div>
+        <Button variant="outline" onClick={load} disabled={isLoading} className="rounded-full">
+          <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+        </Button>
+      </div>
+
+      <datalist id={AGENT_ID_LIST_ID}>
+        {knownAgentIds.map(({ agentId }) => (
+          <option key={agentId} value={agentId} />
+        ))}
+      </datalist>
+
+      {error ? (
+        <p className="text-sm text-red-600">{error}</p>
+      ) : isLoading && !matrix ? (
+        <p className="text-sm text-gray-500">Loading users...</p>
+      ) : (
+        <Tabs value={tab} onValueChange={(value) => setSearchParams({ tab: value })} className="w-full">
+          <TabsList className="w-full justify-start bg-gray-50 p-1 rounded-lg">
+            <TabsTrigger value="users" className="rounded-md">Users</TabsTrigger>
+            <TabsTrigger value="roles" className="rounded-md">Role Assignments</TabsTrigger>
+            <TabsTrigger value="access" className="rounded-md">Access Control</TabsTrigger>
+            <TabsTrigger value="import" className="rounded-md">Import</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="users">
+            <Card className="bg-gray-50 rounded-xl p-6 shadow-sm border border-gray-200 space-y-6">
+              <div className="flex justify-between items-center">
+                <p className="text-sm text-gray-600">
+                  {users.filter(user => user.active).length} active of {users.length} user(s)
+                  {unmappedAgents > 0 && (
+                    <span className="ml-2 text-amber-600">• {unmappedAgents} agent(s) not mapped to an agent ID</span>
+                  )}
+                </p>
+                <Button
+                  onClick={() => setShowNewUser(!showNewUser)}
+                  className="rounded-full bg-black text-white hover:opacity-90 transition"
+                >
+                  {showNewUser ? <X className="h-4 w-4 mr-2" /> : <Plus className="h-4 w-4 mr-2" />}
+                  {showNewUser ? 'Close' : 'Add User'}
+                </Button>
+              </div>
+              {showNewUser && (
+                <NewUserForm roles={roles} agentIdListId={AGENT_ID_LIST_ID} onCreated={handleCreated} />
+              )}
+              <UserTable
+                users={users}
+                roles={roles}
+                currentUserId={currentUser?.id}
+                agentIdListId={AGENT_ID_LIST_ID}
+                onUpdated={handleUpdated}
+              />
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="roles">
+            <RoleAssignments
+              users={users}
+              roles={roles}
+              knownAgentIds={knownAgentIds}
+              currentUserId={currentUser?.id}
+              onUpdated={handleUpdated}
+            />
+          </TabsContent>
+
+          <TabsContent value="access">
+            {matrix && <AccessControlMatrix matrix={matrix} />}
+          </TabsContent>
+
+          <TabsContent value="import">
+            <UserImportPanel onImported={load} />
+          </TabsContent>
+        </Tabs>
+      )}
+    </div>
+  );
+}
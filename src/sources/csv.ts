@@ -0,0 +1,329 @@
+import type { CsvColumnType, CsvParseResult, CsvRowError } from '../types';
+
+interface CsvParseOptions {
+  /** Field delimiter; detected from the header line when omitted. */
+  delimiter?: string;
+  /** Convert Number and Date columns; when false every value stays a string. */
+  inferTypes?: boolean;
+}
+
+interface CsvRecord {
+  fields: string[];
+  line: number;
+  error?: string;
+}
+
+const CANDIDATE_DELIMITERS = [',', ';', '\t'];
+
+// Plain or thousands-separated numbers. Values with leading zeros (e.g. SAP
+// document or agent numbers) are identifiers and stay strings.
+const NUMBER_PATTERN = /^[-+]?(\d+|\d{1,3}(,\d{3})+)(\.\d+)?([eE][-+]?\d+)?$/;
+// The same with a decimal comma and dots between thousands (12,5 or
+// 1.000,25), as semicolon-separated exports from European locales write them
+const DECIMAL_COMMA_PATTERN = /^[-+]?(\d+|\d{1,3}(\.\d{3})+)(,\d+)?$/;
+const LEADING_ZERO_PATTERN = /^[-+]?0\d/;
+
+const DATE_PATTERNS: Array<{ pattern: RegExp; toParts: (m: RegExpMatchArray) => [string, string, string] }> = [
+  // 2025-01-31, optionally with a time part
+  {
+    pattern: /^(\d{4})-(\d{2})-(\d{2})(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/,
+    toParts: m => [m[1], m[2], m[3]]
+  },
+  // 2025/01/31
+  { pattern: /^(\d{4})\/(\d{2})\/(\d{2})$/, toParts: m => [m[1], m[2], m[3]] },
+  // 31.01.2025 (SAP default date format)
+  { pattern: /^(\d{2})\.(\d{2})\.(\d{4})$/, toParts: m => [m[3], m[2], m[1]] }
+];
+
+/**
+ * Decodes file bytes to text. A byte order mark selects UTF-8 or UTF-16;
+ * otherwise UTF-8 is tried first and Windows-1252 (common for Excel and SAP
+ * exports) is used when the bytes are not valid UTF-8.
+ * @param {ArrayBuffer|Uint8Array} buffer The raw file contents.
+ * @returns {string} The decoded text without a BOM.
+ */
+export function decodeText(buffer: ArrayBuffer | Uint8Array): string {
+  const bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return new TextDecoder('utf-16le').decode(bytes);
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return new TextDecoder('utf-16be').decode(bytes);
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    return new TextDecoder('windows-1252').decode(bytes);
+  }
+}
+
+/**
+ * Picks the candidate delimiter that occurs most often (outside quotes) in
+ * the first line. Defaults to a comma.
+ * @param {string} text The CSV text.
+ * @returns {string} The delimiter.
+ */
+function detectDelimiter(text: string): string {
+  const counts: Record<string, number> = {};
+  let inQuotes = false;
+  for (const ch of text) {
+    if (ch === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && (ch === '\n' || ch === '\r')) break;
+    else if (!inQuotes && CANDIDATE_DELIMITERS.includes(ch)) counts[ch] = (counts[ch] || 0) + 1;
+  }
+  return CANDIDATE_DELIMITERS.reduce(
+    (best, candidate) => ((counts[candidate] || 0) > (counts[best] || 0) ? candidate : best),
+    ','
+  );
+}
+
+/**
+ * Splits CSV text into records following RFC 4180: quoted fields may contain
+ * delimiters, line breaks and doubled quotes, and records end with CRLF, LF
+ * or CR. Unquoted fields are trimmed. Malformed records carry an error.
+ * @param {string} text The CSV text.
+ * @param {string} delimiter The field delimiter.
+ * @returns {Array<CsvRecord>} Records with their starting line number.
+ */
+function tokenize(text: string, delimiter: string): CsvRecord[] {
+  const records: CsvRecord[] = [];
+  let fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  let inQuotes = false;
+  let afterQuote = false;
+  let error: string | undefined;
+  let line = 1;
+  let recordLine = 1;
+
+  const endField = () => {
+    fields.push(quoted ? field : field.trim());
+    field = '';
+    quoted = false;
+    afterQuote = false;
+  };
+
+  const endRecord = () => {
+    const wasQuoted = quoted;
+    endField();
+    // Blank lines are not records
+    if (error || fields.length > 1 || fields[0] !== '' || wasQuoted) {
+      records.push({ fields, line: recordLine, error });
+    }
+    fields = [];
+    error = undefined;
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+
+    if (inQuotes) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+        afterQuote = true;
+      } else {
+        if (ch === '\n' || (ch === '\r' && text[i + 1] !== '\n')) line++;
+        field += ch;
+      }
+      continue;
+    }
+
+    if (ch === delimiter) {
+      endField();
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      endRecord();
+      line++;
+      recordLine = line;
+    } else if (ch === '"' && !quoted && field.trim() === '') {
+      field = '';
+      quoted = true;
+      inQuotes = true;
+    } else if (afterQuote) {
+      if (ch.trim() !== '') {
+        error = error || 'Unexpected characters after a closing quote';
+      }
+    } else {
+      if (ch === '"') {
+        error = error || 'Unexpected quote inside an unquoted field';
+      }
+      field += ch;
+    }
+  }
+
+  if (inQuotes) {
+    error = error || 'Unterminated quoted field';
+  }
+  if (field !== '' || fields.length > 0 || quoted) {
+    endRecord();
+  }
+  return records;
+}
+
+/**
+ * Trims header names, collapses inner whitespace, names empty headers by
+ * position and suffixes duplicates (Amount, Amount_2).
+ * @param {Array<string>} headers The raw header fields.
+ * @returns {Array<string>} Unique column names.
+ */
+export function normalizeHeaders(headers: string[]): string[] {
+  const seen: Record<string, number> = {};
+  return headers.map((header, i) => {
+    const name = header.replace(/\s+/g, ' ').trim() || `Column ${i + 1}`;
+    seen[name] = (seen[name] || 0) + 1;
+    return seen[name] > 1 ? `${name}_${seen[name]}` : name;
+  });
+}
+
+/**
+ * Converts a date string in a supported format to YYYY-MM-DD, the format the
+ * engine expects. Returns null when the value is not a real calendar date.
+ * @param {string} value The raw value.
+ * @returns {string | null}
+ */
+function toIsoDate(value: string): string | null {
+  for (const { pattern, toParts } of DATE_PATTERNS) {
+    const match = value.match(pattern);
+    if (!match) continue;
+    const [year, month, day] = toParts(match);
+    const date = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+    const valid =
+      date.getUTCFullYear() === Number(year) &&
+      date.getUTCMonth() === Number(month) - 1 &&
+      date.getUTCDate() === Number(day);
+    return valid ? `${year}-${month}-${day}` : null;
+  }
+  return null;
+}
+
+/**
+ * Finds the number format every non-empty value of a column is written in.
+ * With a semicolon delimiter a decimal comma is tried first, so 1.000 reads
+ * as a thousand there.
+ * @param {Array<string>} present The column's non-empty values.
+ * @param {string} delimiter The field delimiter.
+ * @returns {RegExp | null} NUMBER_PATTERN or DECIMAL_COMMA_PATTERN, or null
+ *   when the values are not all numbers.
+ */
+function detectNumberPattern(present: string[], delimiter: string): RegExp | null {
+  if (present.length === 0 || present.some(value => LEADING_ZERO_PATTERN.test(value))) return null;
+  const patterns = delimiter === ';' ? [DECIMAL_COMMA_PATTERN, NUMBER_PATTERN] : [NUMBER_PATTERN];
+  return patterns.find(pattern => present.every(value => pattern.test(value))) || null;
+}
+
+/**
+ * Infers a column type from its non-empty values: Number or Date when every
+ * value parses as one, otherwise String.
+ * @param {Array<string>} values The column's values.
+ * @param {string} delimiter The field delimiter, which decides whether
+ *   decimal commas are accepted.
+ * @returns {CsvColumnType}
+ */
+function inferColumnType(values: string[], delimiter: string): CsvColumnType {
+  const present = values.filter(value => value !== '');
+  if (present.length === 0) return 'String';
+  if (detectNumberPattern(present, delimiter)) return 'Number';
+  if (present.every(value => toIsoDate(value) !== null)) return 'Date';
+  return 'String';
+}
+
+/**
+ * Converts a Number column value written in the column's format.
+ * @param {string} value The raw value.
+ * @param {RegExp} pattern The column's format from detectNumberPattern.
+ * @returns {number}
+ */
+function toNumber(value: string, pattern: RegExp): number {
+  return pattern === DECIMAL_COMMA_PATTERN
+    ? Number(value.replace(/\./g, '').replace(',', '.'))
+    : Number(value.replace(/,/g, ''));
+}
+
+/**
+ * Parses CSV text into row objects keyed by the (normalized) header row.
+ * Number columns become numbers (with a decimal comma in semicolon-separated
+ * files, e.g. 1.000,25) and Date columns YYYY-MM-DD strings. Empty values
+ * are null in Number columns and stay '' elsewhere. Records with the wrong
+ * field count or broken quoting are left out and reported with their line
+ * number.
+ * @param {string} content The file contents.
+ * @param {CsvParseOptions} options Delimiter and type inference settings.
+ * @returns {CsvParseResult} Rows, columns, inferred column types and row errors.
+ */
+export function parseCSV(content: string, options: CsvParseOptions = {}): CsvParseResult {
+  const text = content.replace(/^\uFEFF/, '');
+  const delimiter = options.delimiter || detectDelimiter(text);
+  const inferTypes = options.inferTypes ?? true;
+  const [headerRecord, ...dataRecords] = tokenize(text, delimiter);
+  const errors: CsvRowError[] = [];
+
+  if (!headerRecord) {
+    return { rows: [], columns: [], columnTypes: {}, delimiter, errors };
+  }
+  if (headerRecord.error) {
+    errors.push({ line: headerRecord.line, message: `Header: ${headerRecord.error}` });
+  }
+
+  const columns = normalizeHeaders(headerRecord.fields);
+  const validRecords = dataRecords.filter(record => {
+    if (record.error) {
+      errors.push({ line: record.line, message: record.error });
+      return false;
+    }
+    if (record.fields.length !== columns.length) {
+      errors.push({
+        line: record.line,
+        message: `Expected ${columns.length} fields but found ${record.fields.length}`
+      });
+      return false;
+    }
+    return true;
+  });
+
+  const columnTypes: Record<string, CsvColumnType> = {};
+  const numberPatterns: Record<string, RegExp> = {};
+  columns.forEach((column, i) => {
+    const values = validRecords.map(record => record.fields[i]);
+    columnTypes[column] = inferTypes ? inferColumnType(values, delimiter) : 'String';
+    if (columnTypes[column] === 'Number') {
+      numberPatterns[column] = detectNumberPattern(values.filter(value => value !== ''), delimiter)!;
+    }
+  });
+
+  const convert = (value: string, column: string): unknown => {
+    const type = columnTypes[column];
+    if (value === '') return type === 'Number' ? null : value;
+    if (type === 'Number') return toNumber(value, numberPatterns[column]);
+    if (type === 'Date') return toIsoDate(value);
+    return value;
+  };
+
+  const rows = validRecords.map(record =>
+    columns.reduce((row, column, i) => {
+      row[column] = convert(record.fields[i], column);
+      return row;
+    }, {} as Record<string, unknown>)
+  );
+
+  return { rows, columns, columnTypes, delimiter, errors };
+}
+
+/**
+ * Serializes rows to RFC 4180 CSV. Values containing commas, quotes or line
+ * breaks are quoted; objects and arrays are written as JSON.
+ * @param {Array<object>} rows The rows to write.
+ * @param {Array<string>} columns Column order; defaults to every key seen in the rows.
+ * @returns {string} CSV text with a header row and CRLF line endings.
+ */
+export function toCSV(rows: Record<string, unknown>[], columns?: string[]): string {
+  const header = columns || Array.from(new Set(rows.flatMap(row => Object.keys(row))));
+
+  const formatValue = (value: unknown): string => {
+    if (value === undefined || value === null) return '';
+    const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  return [header, ...rows.map(row => header.map(column => row[column]))]
+    .map(values => values.map(formatValue).join(','))
+    .join('\r\n') + '\r\n';
+}
@@ -0,0 +1,154 @@
+import ExcelJS from 'exceljs';
+import type { CellValue, Workbook, Worksheet } from 'exceljs';
+import type { CsvColumnType, CsvRowError, SheetParseResult, SheetPreview } from '../types';
+import { normalizeHeaders } from './csv';
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Loads an .xlsx workbook from its bytes.
+ * @param {ArrayBuffer} buffer The raw file contents.
+ * @returns {Promise<Workbook>}
+ */
+export async function readWorkbook(buffer: ArrayBuffer): Promise<Workbook> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(buffer);
+  return workbook;
+}
+
+/**
+ * Builds the name a sheet is registered under in uploadedFiles when the
+ * workbook itself is not referenced by the scheme, e.g. "Sales.xlsx#Q1".
+ * @param {string} fileName The workbook file name.
+ * @param {string} sheetName The worksheet name.
+ * @returns {string}
+ */
+export function getSheetSourceName(fileName: string, sheetName: string): string {
+  return `${fileName}#${sheetName}`;
+}
+
+/**
+ * Converts a cell value to what the engine reads: dates (including date
+ * formatted serials) become YYYY-MM-DD, formulas their cached result and rich
+ * text or hyperlinks their text. Numbers keep their underlying value, so a
+ * cell shown as "15%" reads as 0.15.
+ * @param {CellValue} value The cell value.
+ * @returns {object} The converted value, or an error message for error cells.
+ */
+function convertCellValue(value: CellValue): { value: unknown; error?: string } {
+  if (value === null || value === undefined) return { value: '' };
+  if (value instanceof Date) {
+    return isNaN(value.getTime())
+      ? { value: '', error: 'Invalid date' }
+      : { value: value.toISOString().slice(0, 10) };
+  }
+  if (typeof value === 'string') return { value: value.trim() };
+  if (typeof value === 'number' || typeof value === 'boolean') return { value };
+  if ('error' in value) return { value: '', error: `Cell error ${value.error}` };
+  if ('richText' in value) return { value: value.richText.map(part => part.text).join('').trim() };
+  if ('hyperlink' in value) return { value: String(value.text ?? '').trim() };
+  if ('result' in value) {
+    return value.result === undefined
+      ? { value: '', error: 'Formula has no calculated value' }
+      : convertCellValue(value.result);
+  }
+  if ('formula' in value || 'sharedFormula' in value) {
+    return { value: '', error: 'Formula has no calculated value' };
+  }
+  return { value: String(value) };
+}
+
+/**
+ * Reads a worksheet row as display strings, for previews.
+ * @param {Worksheet} worksheet The worksheet.
+ * @param {number} rowNumber 1-based row number.
+ * @returns {Array<string>}
+ */
+function readRowText(worksheet: Worksheet, rowNumber: number): string[] {
+  const row = worksheet.getRow(rowNumber);
+  const values: string[] = [];
+  for (let col = 1; col <= worksheet.columnCount; col++) {
+    const converted = convertCellValue(row.getCell(col).value);
+    values.push(converted.value === '' ? '' : String(converted.value));
+  }
+  return values;
+}
+
+/**
+ * Lists the workbook's worksheets with their first rows.
+ * @param {Workbook} workbook A loaded workbook.
+ * @param {number} previewRows Number of leading rows to include.
+ * @returns {Array<SheetPreview>}
+ */
+export function getSheetPreviews(workbook: Workbook, previewRows = 10): SheetPreview[] {
+  return workbook.worksheets.map(worksheet => {
+    const rows: string[][] = [];
+    for (let rowNumber = 1; rowNumber <= Math.min(previewRows, worksheet.rowCount); rowNumber++) {
+      rows.push(readRowText(worksheet, rowNumber));
+    }
+    return { name: worksheet.name, rowCount: worksheet.rowCount, rows };
+  });
+}
+
+/**
+ * Parses a worksheet into row objects keyed by the (normalized) header row.
+ * Rows above the header row are ignored and empty rows are skipped. A column
+ * is Number or Date when all its non-empty values are, otherwise String.
+ * Cells holding Excel errors or uncalculated formulas are reported with
+ * their row number and read as empty.
+ * @param {Workbook} workbook A loaded workbook.
+ * @param {string} sheetName The worksheet to read.
+ * @param {number} headerRow 1-based row number of the header row.
+ * @returns {SheetParseResult} Rows, columns, inferred column types and cell errors.
+ */
+export function parseSheet(workbook: Workbook, sheetName: string, headerRow = 1): SheetParseResult {
+  const worksheet = workbook.getWorksheet(sheetName);
+  if (!worksheet) {
+    throw new Error(`Worksheet "${sheetName}" not found`);
+  }
+  if (headerRow < 1 || headerRow > worksheet.rowCount) {
+    throw new Error(`Header row ${headerRow} is outside the sheet (1-${worksheet.rowCount})`);
+  }
+
+  const headerValues = readRowText(worksheet, headerRow);
+  let lastHeader = headerValues.length;
+  while (lastHeader > 0 && headerValues[lastHeader - 1] === '') lastHeader--;
+  const columns = normalizeHeaders(headerValues.slice(0, lastHeader));
+
+  const errors: CsvRowError[] = [];
+  const rows: Record<string, unknown>[] = [];
+  for (let rowNumber = headerRow + 1; rowNumber <= worksheet.rowCount; rowNumber++) {
+    const row = worksheet.getRow(rowNumber);
+    if (!row.hasValues) continue;
+
+    const record: Record<string, unknown> = {};
+    let isEmpty = true;
+    columns.forEach((column, i) => {
+      const cell = row.getCell(i + 1);
+      const converted = convertCellValue(cell.value);
+      if (converted.error) {
+        errors.push({ line: rowNumber, message: `${cell.address}: ${converted.error}` });
+      }
+      if (converted.value !== '') isEmpty = false;
+      record[column] = converted.value;
+    });
+    if (!isEmpty) rows.push(record);
+  }
+
+  const columnTypes: Record<string, CsvColumnType> = {};
+  columns.forEach(column => {
+    const present = rows.map(row => row[column]).filter(value => value !== '');
+    if (present.length > 0 && present.every(value => typeof value === 'number')) {
+      columnTypes[column] = 'Number';
+    } else if (
+      present.length > 0 &&
+      present.every(value => typeof value === 'string' && ISO_DATE_PATTERN.test(value))
+    ) {
+      columnTypes[column] = 'Date';
+    } else {
+      columnTypes[column] = 'String';
+    }
+  });
+
+  return { rows, columns, columnTypes, errors };
+}
@@ -1,14 +1,35 @@
 import { create } from 'zustand';
-import { User } from '../types/auth';
+import { Permission, User } from '../types/auth';
 
 interface AuthState {
   user: User | null;
-  setUser: (user: User | null) => void;
+  accessToken: string | null;
+  // False until the app has tried to restore the session from its cookie
+  isHydrated: boolean;
+  setSession: (user: User, accessToken: string) => void;
+  setHydrated: () => void;
   logout: () => void;
 }
 
 export const useAuthStore = create<AuthState>((set) => ({
   user: null,
-  setUser: (user) => set({ user }),
-  logout: () => set({ user: null }),
-}));
\ No newline at end of file
+  accessToken: null,
+  isHydrated: false,
+  setSession: (user, accessToken) => set({ user, accessToken }),
+  setHydrated: () => set({ isHydrated: true }),
+  logout: () => set({ user: null, accessToken: null }),
+}));
+
+export const hasPermission = (user: User | null, permission: Permission) =>
+  Boolean(user?.permissions.includes(permission));
+
+/** Whether the signed-in user holds a permission; the server enforces the same check. */
+export const usePermission = (permission: Permission) =>
+  useAuthStore((state) => hasPermission(state.user, permission));
+
+/**
+ * Where a user lands after signing in, or when they open a page their role
+ * cannot see.
+ */
+export const getHomePath = (user: User | null) =>
+  hasPermission(user, 'payouts.viewAll') ? '/' : '/agent';
@@ -1,14 +1,79 @@
 export type Role = 'admin' | 'manager' | 'agent';
 
+/** Granted per role by the server (server/auth/permissions.js). */
+export type Permission =
+  | 'schemes.design'
+  | 'schemes.approve'
+  | 'runs.simulate'
+  | 'runs.production'
+  | 'payouts.viewAll'
+  | 'payouts.viewOwn'
+  | 'kpis.configure'
+  | 'users.manage'
+  | 'audit.view';
+
 export interface User {
   id: string;
   username: string;
   role: Role;
   clientId: string;
+  /** The payee ID (`baseMapping.agentField` value) an agent is paid under. */
+  agentId: string | null;
+  permissions: Permission[];
 }
 
 export interface LoginFormData {
+  username: string;
+  password: string;
+  clientId: string;
+}
+
+/** What /api/auth/login and /api/auth/refresh return; the refresh token travels in a cookie. */
+export interface AuthSession {
+  user: User;
+  accessToken: string;
+  expiresIn: number;
+}
+
+/** A user as the user management screens see it (see /api/users). */
+export interface ManagedUser {
+  id: string;
   username: string;
   role: Role;
   clientId: string;
-}
\ No newline at end of file
+  agentId: string | null;
+  active: boolean;
+  createdAt: string;
+  updatedAt: string;
+  lastLoginAt: string | null;
+}
+
+export interface NewUser {
+  username: string;
+  password: string;
+  role: Role;
+  agentId?: string;
+}
+
+export interface UserChanges {
+  role?: Role;
+  agentId?: string | null;
+  active?: boolean;
+  password?: string;
+}
+
+export interface UserImportResult {
+  created: ManagedUser[];
+  errors: { row: number; username: string; error: string }[];
+}
+
+export interface RoleMatrix {
+  roles: Role[];
+  permissions: Record<Permission, Role[]>;
+}
+
+/** A payee ID found in the latest run of each scheme. */
+export interface KnownAgentId {
+  agentId: string;
+  schemes: string[];
+}
@@ -16,15 +16,27 @@ export interface KPI {
   actual: number;
 }
 
+/** Lifecycle: DRAFT -> IN_REVIEW -> ACTIVE -> INACTIVE (rejection returns to DRAFT). */
+export type SchemeStatus = 'DRAFT' | 'IN_REVIEW' | 'ACTIVE' | 'INACTIVE';
+
 export interface CompensationScheme {
+  /** Stable server ID across saves (SchemeID without its timestamp suffix). */
+  id?: string;
   SchemeID?: string;
   versionNumber?: number;
-  status?: 'DRAFT' | 'ACTIVE' | 'INACTIVE';
+  status?: SchemeStatus;
   name: string;
   description: string;
   effectiveFrom: string;
   effectiveTo: string;
   quotaAmount: number;
+  quotaMapping?: QuotaMapping;
+  tierBasis?: 'amount' | 'attainment';
+  tierMethod?: 'marginal' | 'retroactive' | 'flatBonus';
+  targetIncentive?: number;
+  payoutCap?: PayoutLimit;
+  payoutFloor?: PayoutLimit;
+  payoutLimitMapping?: PayoutLimitMapping;
   revenueBase: string;
   baseMapping: BaseMapping;
   qualificationRules: Rule[];
@@ -36,6 +48,74 @@ export interface CompensationScheme {
   payoutTiers: PayoutTier[];
   customRules: CustomRule[];
   kpiConfig?: KpiConfig;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+/** A stored scheme as listed by GET /api/schemes. */
+export interface SchemeSummary {
+  id: string;
+  SchemeID?: string;
+  name: string;
+  description?: string;
+  status?: SchemeStatus;
+  versionNumber?: number;
+  effectiveFrom?: string;
+  effectiveTo?: string;
+  updatedAt: string;
+}
+
+/** A lifecycle action taken on a scheme version. */
+export interface SchemeReview {
+  action: 'submit' | 'approve' | 'reject' | 'deactivate';
+  from: SchemeStatus;
+  to: SchemeStatus;
+  userId: string;
+  username: string;
+  role: string;
+  comment: string;
+  at: string;
+}
+
+/**
+ * A saved version of a scheme. Its content is immutable once written; only
+ * its lifecycle status and review trail change.
+ */
+export interface SchemeVersionSummary {
+  schemeId: string;
+  versionNumber: number;
+  SchemeID?: string;
+  status?: SchemeStatus;
+  savedAt: string;
+  effectiveFrom?: string;
+  effectiveTo?: string;
+  reviews: SchemeReview[];
+}
+
+export interface SchemeVersion extends SchemeVersionSummary {
+  scheme: CompensationScheme;
+}
+
+export interface SchemeLifecycleResult {
+  scheme: CompensationScheme;
+  version: SchemeVersion;
+}
+
+export type SchemeChangeType = 'added' | 'removed' | 'changed' | 'unchanged';
+
+/** One compared field or list item; before/after are display strings. */
+export interface SchemeDiffEntry {
+  key: string;
+  label: string;
+  before: string | null;
+  after: string | null;
+  change: SchemeChangeType;
+}
+
+export interface SchemeDiffSection {
+  title: string;
+  entries: SchemeDiffEntry[];
+  changeCount: number;
 }
 
 export interface Rule {
@@ -69,6 +149,267 @@ export interface BaseMapping {
   amountField: string;
   transactionDateField: string;
   txnID: string;
+  teamField?: string;
+  regionField?: string;
+}
+
+export interface QuotaMapping {
+  sourceFile: string;
+  agentField: string;
+  quotaField: string;
+}
+
+export interface PayoutLimit {
+  type: 'absolute' | 'targetMultiple';
+  value: number;
+}
+
+export interface PayoutLimitMapping {
+  sourceFile: string;
+  agentField: string;
+  targetIncentiveField?: string;
+  capField?: string;
+  floorField?: string;
+}
+
+export interface RuleHitLog {
+  ruleType: string;
+  ruleId?: string;
+  recordId?: string;
+  transactionId?: string;
+  agentId?: string;
+  message: string;
+  details?: unknown;
+  timestamp: string;
+}
+
+export interface CreditDistribution {
+  fromAgent: string;
+  role: string;
+  amount: string;
+  timestamp: string;
+  splitRuleId?: string;
+  basePayout?: string;
+  percentage?: string;
+}
+
+/**
+ * A base record after record-level processing: the source row plus the
+ * calculation fields written to rawRecordLevelData.
+ */
+export interface ProcessedRecord {
+  _recordId: string;
+  _originalIndex: number;
+  agentId: string;
+  transactionId: string;
+  transactionDate: string;
+  originalAmount: string;
+  rateMultiplier: string;
+  adjustedAmount: string;
+  isExcluded: boolean;
+  exclusionReason: string | null;
+  adjustmentApplied: string | null;
+  customRuleApplied: string | null;
+  [field: string]: unknown;
+}
+
+export interface SchemeRunMeta {
+  schemeName: string;
+  schemeId?: string;
+  runAsOfDate: string;
+  mode: 'simulation' | 'production';
+  processedAt: string;
+}
+
+/**
+ * Progress reported by runScheme: base records read, in the date range and
+ * passing record-level qualification, then agents processed in the record
+ * stage and again in the payout stage.
+ */
+export interface SchemeRunProgress {
+  stage: 'filtering' | 'records' | 'payouts' | 'complete';
+  recordsTotal: number;
+  recordsInRange: number;
+  recordsQualified: number;
+  agentsTotal: number;
+  agentsProcessed: number;
+}
+
+/**
+ * The result contract of the calculation engine, consumed by the results,
+ * execution log and agent dashboard pages. Amounts are decimal strings.
+ */
+export interface SchemeRunResult {
+  meta: SchemeRunMeta;
+  agentPayouts: Record<string, string>;
+  agentQualified: Record<string, boolean>;
+  ruleHitLogs: Record<string, RuleHitLog[]>;
+  creditDistributions: Record<string, CreditDistribution[]>;
+  rawRecordLevelData: ProcessedRecord[];
+  agentQuotas: Record<string, string>;
+  agentAttainment: Record<string, string>;
+  agentTierBreakdowns: Record<string, TierBreakdown[]>;
+  agentPayoutLimits: Record<string, PayoutLimitHit[]>;
+}
+
+/** An input the engine read, identified by the SHA-256 of its rows. */
+export interface RunInput {
+  name: string;
+  checksum: string;
+  rowCount: number;
+  columns: string[];
+}
+
+export interface RunSummaryFigures {
+  totalRecords: number;
+  totalAgents: number;
+  qualified: number;
+  /** Sum of every agent's payout, fixed to 2 decimals like the payouts themselves. */
+  totalPayout: string;
+}
+
+/** A stored calculation run as listed by GET /api/runs (without outputs). */
+export interface CalculationRunSummary {
+  id: string;
+  schemeId: string;
+  schemeVersion: number;
+  SchemeID?: string;
+  schemeName: string;
+  runAsOfDate: string;
+  mode: SchemeRunMeta['mode'];
+  inputs: RunInput[];
+  user: { id: string; username: string; role: string } | null;
+  createdAt: string;
+  summary: RunSummaryFigures;
+}
+
+export interface CalculationRun extends CalculationRunSummary {
+  result: SchemeRunResult;
+}
+
+/** A production run as an agent sees it (GET /api/runs/mine). */
+export interface PayeeRunSummary {
+  id: string;
+  schemeId: string;
+  schemeVersion: number;
+  SchemeID?: string;
+  schemeName: string;
+  runAsOfDate: string;
+  createdAt: string;
+}
+
+/** The runs published to the signed-in agent, under the payee ID their login maps to. */
+export interface PayeeRuns {
+  agentId: string;
+  runs: PayeeRunSummary[];
+}
+
+/** A published run whose result the server has narrowed to one payee. */
+export interface PayeeRun extends PayeeRunSummary {
+  result: SchemeRunResult;
+}
+
+/** Payout statements are rendered by the server as printable HTML or PDF. */
+export type StatementFormat = 'html' | 'pdf';
+
+/** A downloaded statement or statement archive, named by the server. */
+export interface StatementFile {
+  blob: Blob;
+  fileName: string;
+}
+
+export type ExecutionJobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+/**
+ * A scheme run executed by the server (/api/jobs). On success `runId` points
+ * to the stored CalculationRun; on failure `error` and `details` say why.
+ */
+export interface ExecutionJob {
+  id: string;
+  status: ExecutionJobStatus;
+  schemeId: string;
+  schemeVersion: number;
+  SchemeID?: string;
+  schemeName: string;
+  runAsOfDate: string;
+  mode: 'simulation' | 'production';
+  user: { id: string; username: string; role: string } | null;
+  progress: SchemeRunProgress | null;
+  runId: string | null;
+  error: string | null;
+  details: string[];
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+}
+
+/** What the execution page submits: the scheme version and every input's rows. */
+export interface NewExecutionJob {
+  schemeId: string;
+  schemeVersion: number;
+  runAsOfDate: string;
+  mode: 'simulation' | 'production';
+  files: Record<string, { data: Record<string, unknown>[]; columns: string[] }>;
+}
+
+/** One changed value in an audit entry; `path` is dotted (`rules.0.value`). */
+export interface AuditChange {
+  path: string;
+  before: unknown;
+  after: unknown;
+}
+
+/** An append-only audit log entry (see /api/audit). */
+export interface AuditEntry {
+  id: string;
+  at: string;
+  actor: { id: string; username: string; role: string } | null;
+  action: string;
+  entityType: string;
+  entityId: string | null;
+  changes: AuditChange[];
+  details: Record<string, unknown>;
+}
+
+export interface AuditQuery {
+  search?: string;
+  action?: string;
+  entityType?: string;
+  entityId?: string;
+  actor?: string;
+  from?: string;
+  to?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface AuditPage {
+  entries: AuditEntry[];
+  total: number;
+}
+
+/**
+ * Per-agent view of a SchemeRunResult.
+ */
+export interface AgentRunResult {
+  agentId: string;
+  payout: string;
+  qualified: boolean;
+  quota: string | null;
+  attainment: string | null;
+  tierBreakdown: TierBreakdown[];
+  payoutLimits: PayoutLimitHit[];
+  logs: RuleHitLog[];
+  creditSplits: CreditDistribution[];
+}
+
+export interface PayoutLimitHit {
+  limit: 'Cap' | 'Floor';
+  source: 'scheme' | 'agent';
+  limitAmount: string;
+  payoutBefore: string;
+  payoutAfter: string;
+  difference: string;
 }
 
 export interface CreditSplit {
@@ -85,6 +426,17 @@ export interface PayoutTier {
   isPercentage: boolean;
 }
 
+export interface TierBreakdown {
+  tierId: string;
+  tierNumber: number;
+  from: number;
+  to: number | null;
+  rate: number;
+  isPercentage: boolean;
+  amountInTier: string;
+  payout: string;
+}
+
 export interface CustomRule {
   id: string;
   evaluationLevel: string;
@@ -92,6 +444,8 @@ export interface CustomRule {
   period: string;
   threshold: number;
   groupBy?: string;
+  field?: string;
+  operator?: string;
 }
 
 export interface KpiConfig {
@@ -102,10 +456,102 @@ export interface KpiConfig {
   adjustmentFields: KpiField[];
   exclusionFields: KpiField[];
   creditFields: KpiField[];
+  joins?: SourceJoin[];
+}
+
+/** A KPI configuration saved for the client, keyed by its SchID. */
+export interface StoredKpiConfig extends KpiConfig {
+  id: string;
+  SchID: string;
+  baseField?: string;
+  createdAt: string;
+  updatedAt: string;
+  updatedBy: { id: string; username: string; role: string } | null;
+}
+
+export type KpiConfigSummary = Pick<StoredKpiConfig, 'id' | 'calculationBase' | 'updatedAt' | 'updatedBy'>;
+
+export interface JoinKey {
+  baseField: string;
+  sourceField: string;
+}
+
+export interface SourceJoin {
+  sourceFile: string;
+  keys: JoinKey[];
+  joinType: 'left' | 'inner';
+  effectiveFromField?: string;
+  effectiveToField?: string;
 }
 
 export interface KpiField {
   name: string;
   sourceField: string;
   dataType: string;
-}
\ No newline at end of file
+  sourceType?: 'System' | 'External';
+  sourceFile?: string;
+  evaluationLevel?: string;
+  aggregation?: 'Sum' | 'Avg' | 'Min' | 'Max' | 'Count' | 'CountDistinct' | 'NotApplicable';
+}
+export interface ValidationError {
+  type: 'error' | 'warning';
+  message: string;
+  details: string[];
+}
+
+export interface ValidationResult {
+  valid: boolean;
+  errors: ValidationError[];
+}
+
+/** A column a scheme reads from one of its input files. */
+export interface RequiredField {
+  fileName: string;
+  fieldName: string;
+  source: string;
+  description: string;
+}
+
+export type CsvColumnType = 'Number' | 'Date' | 'String';
+
+/** A CSV record that could not be parsed and was left out of the rows. */
+export interface CsvRowError {
+  line: number;
+  message: string;
+}
+
+export interface CsvParseResult {
+  rows: Record<string, unknown>[];
+  columns: string[];
+  columnTypes: Record<string, CsvColumnType>;
+  delimiter: string;
+  errors: CsvRowError[];
+}
+
+/** A worksheet's name, size and first rows, for picking the sheet and header row. */
+export interface SheetPreview {
+  name: string;
+  rowCount: number;
+  rows: string[][];
+}
+
+export interface SheetParseResult {
+  rows: Record<string, unknown>[];
+  columns: string[];
+  columnTypes: Record<string, CsvColumnType>;
+  errors: CsvRowError[];
+}
+
+export interface SapEntity {
+  key: string;
+  label: string;
+  fileName: string;
+}
+
+/** Documents pulled from SAP, shaped like an uploaded base file. */
+export interface SapTransactionsResult {
+  name: string;
+  columns: string[];
+  data: Record<string, unknown>[];
+  warnings: string[];
+}
@@ -0,0 +1,241 @@
+import type {
+  AdjustmentRule,
+  CompensationScheme,
+  CreditSplit,
+  CustomRule,
+  KpiConfig,
+  KpiField,
+  PayoutTier,
+  Rule,
+  SchemeDiffEntry,
+  SchemeDiffSection,
+  SourceJoin
+} from '../types';
+
+type FieldList = Array<[key: string, label: string]>;
+
+const GENERAL_FIELDS: FieldList = [
+  ['name', 'Name'],
+  ['description', 'Description'],
+  ['effectiveFrom', 'Effective From'],
+  ['effectiveTo', 'Effective To'],
+  ['quotaAmount', 'Quota Amount'],
+  ['revenueBase', 'Revenue Base'],
+  ['tierBasis', 'Tier Basis'],
+  ['tierMethod', 'Tier Method'],
+  ['targetIncentive', 'Target Incentive'],
+  ['payoutCap', 'Payout Cap'],
+  ['payoutFloor', 'Payout Floor'],
+  ['creditHierarchyFile', 'Credit Hierarchy File']
+];
+
+const MAPPINGS: Array<[key: 'baseMapping' | 'quotaMapping' | 'payoutLimitMapping', label: string]> = [
+  ['baseMapping', 'Base'],
+  ['quotaMapping', 'Quota'],
+  ['payoutLimitMapping', 'Payout Limit']
+];
+
+const KPI_FIELD_GROUPS: Array<[key: keyof KpiConfig, label: string]> = [
+  ['baseData', 'Base Data'],
+  ['qualificationFields', 'Qualification'],
+  ['adjustmentFields', 'Adjustment'],
+  ['exclusionFields', 'Exclusion'],
+  ['creditFields', 'Credit']
+];
+
+const describe = (value: unknown): string | null => {
+  if (value === undefined || value === null || value === '') return null;
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+const getChange = (before: string | null, after: string | null): SchemeDiffEntry['change'] => {
+  if (before === after) return 'unchanged';
+  if (before === null) return 'added';
+  if (after === null) return 'removed';
+  return 'changed';
+};
+
+const entry = (key: string, label: string, before: unknown, after: unknown): SchemeDiffEntry => {
+  const beforeText = describe(before);
+  const afterText = describe(after);
+  return { key, label, before: beforeText, after: afterText, change: getChange(beforeText, afterText) };
+};
+
+const compareFields = (
+  fields: FieldList,
+  before: Record<string, unknown> = {},
+  after: Record<string, unknown> = {},
+  prefix = ''
+): SchemeDiffEntry[] =>
+  fields.map(([key, label]) => entry(`${prefix}${key}`, label, before[key], after[key]));
+
+/**
+ * Compares two lists item by item. Items are matched by key rather than
+ * position, so reordering or inserting a rule shows as that one change.
+ * @param {Array} before Items in the older version.
+ * @param {Array} after Items in the newer version.
+ * @param {Function} getKey Identifies an item across versions.
+ * @param {Function} format Renders an item for display.
+ * @param {Function} getLabel Names an item in the diff.
+ * @returns {Array<SchemeDiffEntry>}
+ */
+function compareItems<T>(
+  before: T[] = [],
+  after: T[] = [],
+  getKey: (item: T, index: number) => string,
+  format: (item: T) => string,
+  getLabel: (item: T, index: number) => string
+): SchemeDiffEntry[] {
+  const beforeByKey = new Map(before.map((item, index) => [getKey(item, index), { item, index }]));
+  const afterByKey = new Map(after.map((item, index) => [getKey(item, index), { item, index }]));
+  const keys = [...afterByKey.keys(), ...[...beforeByKey.keys()].filter(key => !afterByKey.has(key))];
+
+  return keys.map(key => {
+    const older = beforeByKey.get(key);
+    const newer = afterByKey.get(key);
+    const labelSource = newer || older!;
+    return entry(
+      key,
+      getLabel(labelSource.item, labelSource.index),
+      older ? format(older.item) : null,
+      newer ? format(newer.item) : null
+    );
+  });
+}
+
+const formatRule = (rule: Rule) => `${rule.field} ${rule.operator} ${rule.value}`;
+
+const formatAdjustment = (rule: AdjustmentRule) => {
+  const { condition, adjustment } = rule;
+  const amount = adjustment.type === 'percentage' ? `${adjustment.value}%` : String(adjustment.value);
+  return `${condition.field} ${condition.operator} ${condition.value} → ${adjustment.target} ${amount}`;
+};
+
+const formatTier = (tier: PayoutTier) =>
+  `${tier.from} – ${tier.to} @ ${tier.rate}${tier.isPercentage ? '%' : ''}`;
+
+const formatSplit = (split: CreditSplit) => `${split.role}: ${split.percentage}%`;
+
+const formatCustomRule = (rule: CustomRule) =>
+  [rule.evaluationLevel, rule.metric, rule.period, rule.field, rule.operator, rule.threshold, rule.groupBy && `by ${rule.groupBy}`]
+    .filter(part => part !== undefined && part !== '')
+    .join(' ');
+
+const formatKpiField = (field: KpiField) =>
+  [
+    `${field.sourceField} (${field.dataType})`,
+    field.aggregation && field.aggregation !== 'NotApplicable' ? field.aggregation : null,
+    field.evaluationLevel ? `at ${field.evaluationLevel}` : null,
+    field.sourceFile ? `from ${field.sourceFile}` : null
+  ]
+    .filter(Boolean)
+    .join(' ');
+
+const formatJoin = (join: SourceJoin) =>
+  `${join.joinType} join on ${join.keys.map(key => `${key.baseField} = ${key.sourceField}`).join(', ')}`;
+
+const ruleSection = (title: string, before: Rule[] = [], after: Rule[] = []) =>
+  compareItems(before, after, (rule, index) => rule.id || `#${index}`, formatRule, (_rule, index) => `${title} ${index + 1}`);
+
+const section = (title: string, entries: SchemeDiffEntry[]): SchemeDiffSection => ({
+  title,
+  entries,
+  changeCount: entries.filter(e => e.change !== 'unchanged').length
+});
+
+/**
+ * Compares two versions of a scheme section by section (general settings,
+ * mappings, rules, tiers, splits and KPI configuration). Every field and
+ * list item is listed with its change type so the versions can be shown side
+ * by side.
+ * @param {CompensationScheme} before The older version.
+ * @param {CompensationScheme} after The newer version.
+ * @returns {Array<SchemeDiffSection>}
+ */
+export function diffSchemes(before: CompensationScheme, after: CompensationScheme): SchemeDiffSection[] {
+  const beforeFields = before as unknown as Record<string, unknown>;
+  const afterFields = after as unknown as Record<string, unknown>;
+
+  const mappingEntries = MAPPINGS.flatMap(([key, label]) => {
+    const older = (before[key] || {}) as Record<string, unknown>;
+    const newer = (after[key] || {}) as Record<string, unknown>;
+    const fields = Array.from(new Set([...Object.keys(older), ...Object.keys(newer)]));
+    return compareFields(fields.map(field => [field, `${label} ${field}`]), older, newer, `${key}.`);
+  });
+
+  const beforeKpi = before.kpiConfig;
+  const afterKpi = after.kpiConfig;
+  const kpiEntries = [
+    ...compareFields(
+      [['name', 'Configuration Name'], ['calculationBase', 'Calculation Base']],
+      beforeKpi as unknown as Record<string, unknown>,
+      afterKpi as unknown as Record<string, unknown>,
+      'kpiConfig.'
+    ),
+    ...KPI_FIELD_GROUPS.flatMap(([group, label]) =>
+      compareItems(
+        (beforeKpi?.[group] as KpiField[] | undefined) || [],
+        (afterKpi?.[group] as KpiField[] | undefined) || [],
+        field => `kpiConfig.${group}.${field.name}`,
+        formatKpiField,
+        field => `${label}: ${field.name}`
+      )
+    ),
+    ...compareItems(
+      beforeKpi?.joins,
+      afterKpi?.joins,
+      join => `kpiConfig.joins.${join.sourceFile}`,
+      formatJoin,
+      join => `Join: ${join.sourceFile}`
+    )
+  ];
+
+  return [
+    section('General', compareFields(GENERAL_FIELDS, beforeFields, afterFields)),
+    section('Mappings', mappingEntries),
+    section('Qualification Rules', ruleSection('Qualification', before.qualificationRules, after.qualificationRules)),
+    section(
+      'Adjustment Rules',
+      compareItems(
+        before.adjustmentRules,
+        after.adjustmentRules,
+        (rule, index) => rule.id || `#${index}`,
+        formatAdjustment,
+        (_rule, index) => `Adjustment ${index + 1}`
+      )
+    ),
+    section('Exclusion Rules', ruleSection('Exclusion', before.exclusionRules, after.exclusionRules)),
+    section('Credit Rules', ruleSection('Credit', before.creditRules, after.creditRules)),
+    section(
+      'Custom Rules',
+      compareItems(
+        before.customRules,
+        after.customRules,
+        (rule, index) => rule.id || `#${index}`,
+        formatCustomRule,
+        (_rule, index) => `Custom ${index + 1}`
+      )
+    ),
+    section(
+      'Payout Tiers',
+      compareItems(
+        before.payoutTiers,
+        after.payoutTiers,
+        (tier, index) => tier.id || `#${index}`,
+        formatTier,
+        (_tier, index) => `Tier ${index + 1}`
+      )
+    ),
+    section(
+      'Credit Splits',
+      compareItems(
+        before.creditSplits,
+        after.creditSplits,
+        (split, index) => split.id || `#${index}`,
+        formatSplit,
+        split => split.role
+      )
+    ),
+    section('KPI Configuration', kpiEntries)
+  ];
+}
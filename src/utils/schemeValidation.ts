@@ -1,4 +1,5 @@
-// Update the validateSchemeJson function to handle the adjustment rules format
+import { isValid, isWithinInterval, parseISO } from 'date-fns';
+import type { KpiField, RequiredField, SourceJoin, ValidationResult } from '../types';
 
 function validateRules(scheme: any, errors: ValidationResult['errors']): void {
   // Validate qualification rules
@@ -58,4 +59,272 @@ function validateRules(scheme: any, errors: ValidationResult['errors']): void {
       details: ['exclusionRules must be an array']
     });
   }
-}
\ No newline at end of file
+}
+/**
+ * Checks that a scheme JSON has the configuration needed to run it.
+ * @param {object} scheme The parsed scheme JSON.
+ * @returns {ValidationResult} Errors block execution; warnings are informational.
+ */
+export function validateSchemeJson(scheme: any): ValidationResult {
+  const errors: ValidationResult['errors'] = [];
+
+  if (!scheme || typeof scheme !== 'object') {
+    return {
+      valid: false,
+      errors: [{
+        type: 'error',
+        message: 'Invalid scheme',
+        details: ['The scheme configuration must be a JSON object']
+      }]
+    };
+  }
+
+  const requiredFields = [
+    'name',
+    'description',
+    'effectiveFrom',
+    'effectiveTo',
+    'quotaAmount',
+    'revenueBase',
+    'baseMapping',
+    'kpiConfig'
+  ];
+
+  requiredFields.forEach(field => {
+    if (!(field in scheme)) {
+      errors.push({
+        type: 'error',
+        message: `Missing required field: ${field}`,
+        details: [`The field "${field}" must be present in the scheme configuration`]
+      });
+    }
+  });
+
+  if (scheme.effectiveFrom && scheme.effectiveTo) {
+    const fromDate = parseISO(scheme.effectiveFrom);
+    const toDate = parseISO(scheme.effectiveTo);
+
+    if (!isValid(fromDate) || !isValid(toDate)) {
+      errors.push({
+        type: 'error',
+        message: 'Invalid date format',
+        details: ['effectiveFrom and effectiveTo must be valid ISO dates']
+      });
+    } else if (fromDate >= toDate) {
+      errors.push({
+        type: 'error',
+        message: 'Invalid date range',
+        details: ['effectiveFrom must be before effectiveTo']
+      });
+    }
+  }
+
+  if (scheme.baseMapping) {
+    const requiredMappingFields = ['sourceFile', 'agentField', 'amountField'];
+    requiredMappingFields.forEach(field => {
+      if (!(field in scheme.baseMapping)) {
+        errors.push({
+          type: 'error',
+          message: `Missing required field in baseMapping: ${field}`,
+          details: [`baseMapping must include "${field}"`]
+        });
+      }
+    });
+  }
+
+  if (scheme.kpiConfig) {
+    if (!scheme.kpiConfig.calculationBase) {
+      errors.push({
+        type: 'error',
+        message: 'Missing calculationBase in kpiConfig',
+        details: ['kpiConfig must include calculationBase']
+      });
+    }
+
+    if (!Array.isArray(scheme.kpiConfig.baseData)) {
+      errors.push({
+        type: 'error',
+        message: 'Invalid baseData in kpiConfig',
+        details: ['baseData must be an array']
+      });
+    }
+
+    if (!Array.isArray(scheme.kpiConfig.qualificationFields)) {
+      errors.push({
+        type: 'error',
+        message: 'Invalid qualificationFields in kpiConfig',
+        details: ['qualificationFields must be an array']
+      });
+    }
+  }
+
+  validateRules(scheme, errors);
+
+  return {
+    valid: errors.filter(e => e.type === 'error').length === 0,
+    errors
+  };
+}
+
+/**
+ * Lists every input file column the scheme reads: the base mapping, external
+ * KPI fields, join keys, quota and payout limit files and the credit hierarchy.
+ * @param {object} scheme A scheme that passed validateSchemeJson.
+ * @returns {Array<RequiredField>} One entry per file column.
+ */
+export function getRequiredFields(scheme: any): RequiredField[] {
+  const fields: RequiredField[] = [];
+
+  if (scheme.baseMapping?.sourceFile) {
+    fields.push({
+      fileName: scheme.baseMapping.sourceFile,
+      fieldName: scheme.baseMapping.agentField,
+      source: 'Base Mapping',
+      description: 'Agent identifier field'
+    });
+    fields.push({
+      fileName: scheme.baseMapping.sourceFile,
+      fieldName: scheme.baseMapping.amountField,
+      source: 'Base Mapping',
+      description: 'Base amount field'
+    });
+  }
+
+  if (scheme.kpiConfig) {
+    const addFields = (configFields: Array<KpiField & { description?: string }> = [], source: string) => {
+      configFields.forEach(field => {
+        if (field.sourceType === 'External' && field.sourceFile) {
+          fields.push({
+            fileName: field.sourceFile,
+            fieldName: field.sourceField,
+            source,
+            description: field.description || field.name
+          });
+        }
+      });
+    };
+
+    addFields(scheme.kpiConfig.baseData, 'Base Data');
+    addFields(scheme.kpiConfig.qualificationFields, 'Qualification');
+    addFields(scheme.kpiConfig.adjustmentFields, 'Adjustment');
+    addFields(scheme.kpiConfig.exclusionFields, 'Exclusion');
+    addFields(scheme.kpiConfig.creditFields, 'Credit');
+
+    (scheme.kpiConfig.joins || []).forEach((join: SourceJoin) => {
+      join.keys.forEach(key => {
+        fields.push({
+          fileName: join.sourceFile,
+          fieldName: key.sourceField,
+          source: 'Join Key',
+          description: `Joined to ${scheme.baseMapping.sourceFile} on ${key.baseField}`
+        });
+      });
+    });
+  }
+
+  if (scheme.quotaMapping?.sourceFile) {
+    fields.push({
+      fileName: scheme.quotaMapping.sourceFile,
+      fieldName: scheme.quotaMapping.agentField,
+      source: 'Quota',
+      description: 'Agent identifier for quota lookup'
+    });
+    fields.push({
+      fileName: scheme.quotaMapping.sourceFile,
+      fieldName: scheme.quotaMapping.quotaField,
+      source: 'Quota',
+      description: 'Per-agent quota amount'
+    });
+  }
+
+  if (scheme.payoutLimitMapping?.sourceFile) {
+    const limitMapping = scheme.payoutLimitMapping;
+    fields.push({
+      fileName: limitMapping.sourceFile,
+      fieldName: limitMapping.agentField,
+      source: 'Payout Limits',
+      description: 'Agent identifier for payout limit lookup'
+    });
+    [limitMapping.targetIncentiveField, limitMapping.capField, limitMapping.floorField]
+      .filter((fieldName): fieldName is string => !!fieldName)
+      .forEach(fieldName => {
+        fields.push({
+          fileName: limitMapping.sourceFile,
+          fieldName,
+          source: 'Payout Limits',
+          description: 'Per-agent target incentive, cap or floor'
+        });
+      });
+  }
+
+  if (scheme.creditHierarchyFile) {
+    fields.push({
+      fileName: scheme.creditHierarchyFile,
+      fieldName: 'Reports To',
+      source: 'Credit Hierarchy',
+      description: 'Reporting hierarchy information'
+    });
+  }
+
+  return fields;
+}
+
+/**
+ * Finds required columns that are absent from the loaded files. Files that
+ * are not loaded yet are skipped.
+ * @param {Array<RequiredField>} requiredFields From getRequiredFields.
+ * @param {object} files Loaded files keyed by file name, each with its columns.
+ * @returns {object} Missing column names keyed by file name.
+ */
+export function findMissingColumns(
+  requiredFields: RequiredField[],
+  files: Record<string, { columns: string[] }>
+): Record<string, string[]> {
+  const missingColumns: Record<string, string[]> = {};
+
+  requiredFields.forEach(field => {
+    const file = files[field.fileName];
+    if (file && !file.columns.includes(field.fieldName)) {
+      if (!missingColumns[field.fileName]) {
+        missingColumns[field.fileName] = [];
+      }
+      missingColumns[field.fileName].push(field.fieldName);
+    }
+  });
+
+  return missingColumns;
+}
+
+/**
+ * Checks that a run-as-of date is a valid ISO date inside the scheme's
+ * effective period.
+ * @param {object} scheme A scheme that passed validateSchemeJson.
+ * @param {string} runAsOfDate The requested run date (YYYY-MM-DD).
+ * @returns {boolean}
+ */
+export function isRunDateInEffectivePeriod(
+  scheme: { effectiveFrom: string; effectiveTo: string },
+  runAsOfDate: string
+): boolean {
+  const runDate = parseISO(runAsOfDate);
+  if (!isValid(runDate)) return false;
+
+  try {
+    return isWithinInterval(runDate, {
+      start: parseISO(scheme.effectiveFrom),
+      end: parseISO(scheme.effectiveTo)
+    });
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Only schemes approved through the lifecycle (status ACTIVE) may run in
+ * production mode; any scheme can be simulated.
+ * @param {object} scheme The scheme to run.
+ * @returns {boolean}
+ */
+export function canRunInProduction(scheme: { status?: string }): boolean {
+  return scheme.status === 'ACTIVE';
+}